@@ -0,0 +1,20 @@
+import tseslint from '@typescript-eslint/eslint-plugin';
+import prettier from 'eslint-config-prettier';
+
+export default [
+  {
+    ignores: ['dist/', 'coverage/', 'node_modules/'],
+  },
+  ...tseslint.configs['flat/recommended'],
+  prettier,
+  {
+    rules: {
+      // Unused arguments are kept for Express handler signatures (req, res, next)
+      '@typescript-eslint/no-unused-vars': ['error', { argsIgnorePattern: '^_', varsIgnorePattern: '^_' }],
+      // Express.Request is extended through global namespace declarations
+      '@typescript-eslint/no-namespace': ['error', { allowDeclarations: true }],
+      // Error payloads and validator details are passed through untyped
+      '@typescript-eslint/no-explicit-any': 'warn',
+    },
+  },
+];
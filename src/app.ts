@@ -1,4 +1,4 @@
-import express, { Application, Request, Response, NextFunction } from 'express';
+import express, { Application } from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import morgan from 'morgan';
@@ -22,6 +22,17 @@ import bookingRoutes from './routes/booking.routes.js';
 import campaignRoutes from './routes/campaign.routes.js';
 import purchaseOrderRoutes from './routes/purchase-order.routes.js';
 import dashboardRoutes from './routes/dashboard.routes.js';
+import invoiceRoutes from './routes/invoice.routes.js';
+import reportRoutes from './routes/report.routes.js';
+import auditLogRoutes from './routes/audit-log.routes.js';
+import auditMediaRoutes from './routes/audit-media.routes.js';
+import rateCardRoutes from './routes/rate-card.routes.js';
+import quotationRoutes from './routes/quotation.routes.js';
+import holdRoutes from './routes/hold.routes.js';
+import waitlistRoutes from './routes/waitlist.routes.js';
+import notificationRoutes from './routes/notification.routes.js';
+import leaseRoutes from './routes/lease.routes.js';
+import maintenanceRoutes from './routes/maintenance.routes.js';
 
 const app: Application = express();
 
@@ -66,6 +77,17 @@ app.use('/api/bookings', bookingRoutes);
 app.use('/api/campaigns', campaignRoutes);
 app.use('/api/purchase-orders', purchaseOrderRoutes);
 app.use('/api/dashboard', dashboardRoutes);
+app.use('/api/invoices', invoiceRoutes);
+app.use('/api/reports', reportRoutes);
+app.use('/api/audit-logs', auditLogRoutes);
+app.use('/api/audit-media', auditMediaRoutes);
+app.use('/api/rate-cards', rateCardRoutes);
+app.use('/api/quotations', quotationRoutes);
+app.use('/api/holds', holdRoutes);
+app.use('/api/waitlist', waitlistRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/leases', leaseRoutes);
+app.use('/api/maintenance-windows', maintenanceRoutes);
 
 // TODO: Add more routes as they are implemented
 // app.use('/api/regions', regionRoutes);
@@ -78,9 +100,7 @@ app.use('/api/dashboard', dashboardRoutes);
 // app.use('/api/bookings', bookingRoutes);
 // app.use('/api/campaigns', campaignRoutes);
 // app.use('/api/purchase-orders', purchaseOrderRoutes);
-// app.use('/api/invoices', invoiceRoutes);
 // app.use('/api/audit-media', auditMediaRoutes);
-// app.use('/api/reports', reportRoutes);
 // app.use('/api/settings', settingsRoutes);
 // app.use('/api/import', importRoutes);
 
@@ -26,6 +26,17 @@ export const config = {
     s3BucketName: process.env.S3_BUCKET_NAME || '',
   },
 
+  // File storage for uploaded media: 'local' writes under localPath, 's3' uses the AWS settings above
+  storage: {
+    driver: process.env.STORAGE_DRIVER || 'local',
+    localPath: process.env.STORAGE_LOCAL_PATH || 'uploads',
+  },
+
+  // Background jobs run in-process by the API server; disable when running them from cron instead
+  jobs: {
+    schedulerEnabled: process.env.JOBS_SCHEDULER_ENABLED !== 'false',
+  },
+
   // SendGrid
   sendgrid: {
     apiKey: process.env.SENDGRID_API_KEY || '',
@@ -0,0 +1,68 @@
+import type { Request, Response } from 'express';
+import { auditLogService } from '../services/audit-log.service.js';
+import { sendSuccess, sendError } from '../utils/response.js';
+import { getPaginationParams } from '../utils/pagination.js';
+
+const getString = (value: unknown): string | undefined => {
+  return typeof value === 'string' ? value : undefined;
+};
+
+const getParamId = (params: Record<string, unknown>): string => {
+  const id = params.id;
+  if (typeof id !== 'string') {
+    throw new Error('Invalid ID parameter');
+  }
+  return id;
+};
+
+// Get audit logs
+export const getAuditLogs = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { page, pageSize } = getPaginationParams(req);
+
+    const result = await auditLogService.getAuditLogs({
+      page,
+      pageSize,
+      module: getString(req.query.module),
+      entityType: getString(req.query.entityType),
+      entityId: getString(req.query.entityId),
+      userId: getString(req.query.userId),
+      action: getString(req.query.action),
+      startDate: getString(req.query.startDate),
+      endDate: getString(req.query.endDate),
+    });
+
+    res.json({
+      success: true,
+      data: result.data,
+      pagination: result.pagination,
+    });
+  } catch (error) {
+    if (error instanceof Error) {
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to fetch audit logs', 500);
+    }
+  }
+};
+
+// Get audit log by ID
+export const getAuditLogById = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = getParamId(req.params);
+    const log = await auditLogService.getAuditLogById(id);
+
+    if (!log) {
+      sendError(res, 'Audit log not found', 404);
+      return;
+    }
+
+    sendSuccess(res, log);
+  } catch (error) {
+    if (error instanceof Error) {
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to fetch audit log', 500);
+    }
+  }
+};
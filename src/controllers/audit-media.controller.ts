@@ -0,0 +1,165 @@
+import type { Request, Response } from 'express';
+import { auditMediaService } from '../services/audit-media.service.js';
+import { sendSuccess, sendError } from '../utils/response.js';
+import { getPaginationParams } from '../utils/pagination.js';
+
+const getString = (value: unknown): string | undefined => {
+  return typeof value === 'string' ? value : undefined;
+};
+
+const getParamId = (params: Record<string, unknown>, key: string = 'id'): string => {
+  const id = params[key];
+  if (typeof id !== 'string') {
+    throw new Error('Invalid ID parameter');
+  }
+  return id;
+};
+
+// Get audit media
+export const getAuditMedia = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { page, pageSize } = getPaginationParams(req);
+
+    const result = await auditMediaService.getAllMedia({
+      page,
+      pageSize,
+      bookingId: getString(req.query.bookingId),
+      billboardId: getString(req.query.billboardId),
+      startDate: getString(req.query.startDate),
+      endDate: getString(req.query.endDate),
+    });
+
+    res.json({
+      success: true,
+      data: result.data,
+      pagination: result.pagination,
+    });
+  } catch (error) {
+    if (error instanceof Error) {
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to fetch audit media', 500);
+    }
+  }
+};
+
+// Get media timeline for a booking
+export const getBookingTimeline = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const bookingId = getParamId(req.params, 'bookingId');
+    const timeline = await auditMediaService.getBookingTimeline(bookingId);
+    sendSuccess(res, timeline);
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        sendError(res, error.message, 404);
+        return;
+      }
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to fetch media timeline', 500);
+    }
+  }
+};
+
+// Get audit media by ID
+export const getAuditMediaById = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = getParamId(req.params);
+    const media = await auditMediaService.getMediaById(id);
+
+    if (!media) {
+      sendError(res, 'Media not found', 404);
+      return;
+    }
+
+    sendSuccess(res, media);
+  } catch (error) {
+    if (error instanceof Error) {
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to fetch media', 500);
+    }
+  }
+};
+
+// Download the media file
+export const downloadAuditMedia = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = getParamId(req.params);
+    const { media, content } = await auditMediaService.getMediaFile(id);
+
+    res.setHeader('Content-Type', media.mimeType || 'application/octet-stream');
+    res.setHeader('Content-Disposition', `inline; filename="${media.fileName.replace(/"/g, '')}"`);
+    res.setHeader('Content-Length', content.length);
+
+    res.send(content);
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        sendError(res, error.message, 404);
+        return;
+      }
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to download media', 500);
+    }
+  }
+};
+
+// Upload proof-of-display media for a booking
+export const uploadAuditMedia = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      sendError(res, 'Authentication required', 401);
+      return;
+    }
+
+    const { bookingId, mediaDate, fileName, mimeType, content, description } = req.body;
+
+    const media = await auditMediaService.uploadMedia({
+      bookingId,
+      mediaDate,
+      fileName,
+      mimeType,
+      content: Buffer.from(content, 'base64'),
+      description: description || undefined,
+      uploadedBy: req.user.id,
+    });
+
+    sendSuccess(res, media, 'Media uploaded successfully', 201);
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        sendError(res, error.message, 404);
+        return;
+      }
+      if (error.message.includes('Cannot')) {
+        sendError(res, error.message, 400);
+        return;
+      }
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to upload media', 500);
+    }
+  }
+};
+
+// Delete audit media
+export const deleteAuditMedia = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = getParamId(req.params);
+    await auditMediaService.deleteMedia(id);
+    sendSuccess(res, null, 'Media deleted successfully');
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        sendError(res, error.message, 404);
+        return;
+      }
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to delete media', 500);
+    }
+  }
+};
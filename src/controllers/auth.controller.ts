@@ -51,7 +51,7 @@ export const logout = async (req: Request, res: Response): Promise<void> => {
     }
 
     sendSuccess(res, null, 'Logout successful');
-  } catch (error) {
+  } catch {
     // Log out even if there's an error with the token
     sendSuccess(res, null, 'Logout successful');
   }
@@ -1,13 +1,22 @@
 import type { Request, Response } from 'express';
-import { billboardService, type BillboardType, type BillboardStatus } from '../services/billboard.service.js';
+import { billboardService, type BillboardType, type BillboardStatus, type PlaylistEntry } from '../services/billboard.service.js';
 import { locationService } from '../services/location.service.js';
 import { sendSuccess, sendError } from '../utils/response.js';
 import { getPaginationParams, getSortParams } from '../utils/pagination.js';
+import { toCsv, type CsvColumn } from '../utils/csv.js';
+import { today } from '../utils/dates.js';
+import { AppError } from '../middleware/errorHandler.js';
 
 const getString = (value: unknown): string | undefined => {
   return typeof value === 'string' ? value : undefined;
 };
 
+const getBoolean = (value: unknown): boolean | undefined => {
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  return undefined;
+};
+
 const getParamId = (params: Record<string, unknown>): string => {
   const id = params.id;
   if (typeof id !== 'string') {
@@ -16,6 +25,30 @@ const getParamId = (params: Record<string, unknown>): string => {
   return id;
 };
 
+const PLAYLIST_COLUMNS: CsvColumn<PlaylistEntry>[] = [
+  { header: 'Position', value: row => row.position },
+  { header: 'Slot', value: row => row.slotNumber },
+  { header: 'Start Offset (s)', value: row => row.startOffset },
+  { header: 'Duration (s)', value: row => row.duration },
+  { header: 'Booking Reference', value: row => row.booking?.referenceCode },
+  { header: 'Customer', value: row => row.booking?.customerName },
+  { header: 'Creative Ref', value: row => row.creativeRef },
+];
+
+// Extended M3U: slots without a creative stay in the loop as comments so the CMS can fill them
+const toM3u = (code: string, date: string, entries: PlaylistEntry[]): string => {
+  const lines = ['#EXTM3U', `#PLAYLIST:${code} ${date}`];
+  for (const entry of entries) {
+    if (entry.creativeRef) {
+      lines.push(`#EXTINF:${entry.duration},Slot ${entry.slotNumber} - ${entry.booking?.referenceCode}`);
+      lines.push(entry.creativeRef);
+    } else {
+      lines.push(`# Slot ${entry.slotNumber}: ${entry.booked ? 'booked, no creative' : 'unbooked'} (${entry.duration}s)`);
+    }
+  }
+  return lines.join('\n') + '\n';
+};
+
 // Get all billboards with filters
 export const getBillboards = async (req: Request, res: Response): Promise<void> => {
   try {
@@ -32,6 +65,7 @@ export const getBillboards = async (req: Request, res: Response): Promise<void>
     const cityId = getString(req.query.cityId);
     const regionId = getString(req.query.regionId);
     const landlordId = getString(req.query.landlordId);
+    const includeArchived = getBoolean(req.query.includeArchived);
 
     const result = await billboardService.getAllBillboards({
       page,
@@ -45,6 +79,7 @@ export const getBillboards = async (req: Request, res: Response): Promise<void>
       cityId,
       regionId,
       landlordId,
+      includeArchived,
     });
 
     res.json({
@@ -272,6 +307,10 @@ export const deleteBillboard = async (req: Request, res: Response): Promise<void
     await billboardService.deleteBillboard(id);
     sendSuccess(res, null, 'Billboard deleted successfully');
   } catch (error) {
+    if (error instanceof AppError) {
+      sendError(res, error.message, error.statusCode, error.errors);
+      return;
+    }
     if (error instanceof Error) {
       sendError(res, error.message, 400);
     } else {
@@ -280,6 +319,59 @@ export const deleteBillboard = async (req: Request, res: Response): Promise<void
   }
 };
 
+// Archive billboard (hidden from listings and dropdowns until restored)
+export const archiveBillboard = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = getParamId(req.params);
+    const billboard = await billboardService.archiveBillboard(id, req.user?.id);
+    const upcoming = billboard.upcomingBookings.length;
+    sendSuccess(
+      res,
+      billboard,
+      upcoming > 0
+        ? `Billboard archived. ${upcoming} upcoming booking(s) still run and need moving or short-closing`
+        : 'Billboard archived successfully'
+    );
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        sendError(res, error.message, 404);
+        return;
+      }
+      if (error.message.includes('Cannot')) {
+        sendError(res, error.message, 400);
+        return;
+      }
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to archive billboard', 500);
+    }
+  }
+};
+
+// Restore archived billboard
+export const restoreBillboard = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = getParamId(req.params);
+    const billboard = await billboardService.restoreBillboard(id, req.user?.id);
+    sendSuccess(res, billboard, 'Billboard restored successfully');
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        sendError(res, error.message, 404);
+        return;
+      }
+      if (error.message.includes('Cannot')) {
+        sendError(res, error.message, 400);
+        return;
+      }
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to restore billboard', 500);
+    }
+  }
+};
+
 // Get billboards for dropdown
 export const getBillboardsDropdown = async (req: Request, res: Response): Promise<void> => {
   try {
@@ -308,3 +400,45 @@ export const getBillboardStats = async (_req: Request, res: Response): Promise<v
     }
   }
 };
+
+// Get the day's loop for a digital billboard as JSON, M3U or CSV
+export const getBillboardPlaylist = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = getParamId(req.params);
+    const date = getString(req.query.date) || today();
+    const format = getString(req.query.format) || 'json';
+
+    const playlist = await billboardService.getPlaylist(id, date);
+    const filename = `playlist-${playlist.billboard.code}-${date}`;
+
+    if (format === 'm3u') {
+      res.setHeader('Content-Type', 'audio/x-mpegurl; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}.m3u"`);
+      res.send(toM3u(playlist.billboard.code, date, playlist.entries));
+      return;
+    }
+
+    if (format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}.csv"`);
+      res.send(toCsv(PLAYLIST_COLUMNS, playlist.entries));
+      return;
+    }
+
+    sendSuccess(res, playlist);
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        sendError(res, error.message, 404);
+        return;
+      }
+      if (error.message.includes('Cannot')) {
+        sendError(res, error.message, 400);
+        return;
+      }
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to build playlist', 500);
+    }
+  }
+};
@@ -1,8 +1,10 @@
 import type { Request, Response, NextFunction } from 'express';
 import { bookingService } from '../services/booking.service.js';
+import { waitlistService } from '../services/waitlist.service.js';
 import { validationResult } from 'express-validator';
 import { sendSuccess, sendError } from '../utils/response.js';
 import { getPaginationParams, getSortParams } from '../utils/pagination.js';
+import { addDays } from '../utils/dates.js';
 
 const getString = (value: unknown): string | undefined => {
   return typeof value === 'string' ? value : undefined;
@@ -24,6 +26,13 @@ const getParamBillboardId = (params: Record<string, unknown>): string => {
   return billboardId;
 };
 
+// Surface waitlist entries the booking no longer blocks. A failed check mustn't fail the change that freed the billboard.
+const notifyWaitlist = async (booking: { billboardId: string; startDate: string; endDate: string }) => {
+  await waitlistService
+    .processReleasedRange(booking.billboardId, booking.startDate, booking.endDate)
+    .catch(error => console.error('Waitlist check failed:', error));
+};
+
 export class BookingController {
   async getAllBookings(req: Request, res: Response, _next: NextFunction) {
     try {
@@ -101,10 +110,22 @@ export class BookingController {
 
       sendSuccess(res, booking, 'Booking created successfully', 201);
     } catch (error) {
+      if (error instanceof Error && error.message.includes('another customer')) {
+        sendError(res, error.message, 403);
+        return;
+      }
       if (error instanceof Error && error.message.includes('not available')) {
         sendError(res, error.message, 409);
         return;
       }
+      if (error instanceof Error && error.message.includes('not found')) {
+        sendError(res, error.message, 404);
+        return;
+      }
+      if (error instanceof Error && error.message.includes('Cannot')) {
+        sendError(res, error.message, 400);
+        return;
+      }
       if (error instanceof Error) {
         sendError(res, error.message, 500);
       } else {
@@ -124,6 +145,7 @@ export class BookingController {
       const id = getParamId(req.params);
       const userId = req.user?.id;
 
+      const existing = await bookingService.getBookingById(id);
       const booking = await bookingService.updateBooking(id, {
         ...req.body,
         updatedBy: userId,
@@ -134,12 +156,34 @@ export class BookingController {
         return;
       }
 
+      // Moving the booking or changing its slots may free the range it used to occupy
+      if (existing && (
+        existing.billboardId !== booking.billboardId ||
+        existing.startDate !== booking.startDate ||
+        existing.endDate !== booking.endDate ||
+        existing.slotNumber !== booking.slotNumber ||
+        existing.slotQuantity !== booking.slotQuantity
+      )) {
+        await notifyWaitlist(existing);
+      }
+
       sendSuccess(res, booking, 'Booking updated successfully');
     } catch (error) {
-      if (error instanceof Error && error.message.includes('not available')) {
+      if (error instanceof Error && error.message.includes('another customer')) {
+        sendError(res, error.message, 403);
+        return;
+      }
+      if (error instanceof Error && (
+        error.message.includes('not available') ||
+        error.message.includes('another request')
+      )) {
         sendError(res, error.message, 409);
         return;
       }
+      if (error instanceof Error && error.message.includes('Cannot')) {
+        sendError(res, error.message, 400);
+        return;
+      }
       if (error instanceof Error) {
         sendError(res, error.message, 500);
       } else {
@@ -151,7 +195,10 @@ export class BookingController {
   async deleteBooking(req: Request, res: Response, _next: NextFunction) {
     try {
       const id = getParamId(req.params);
-      await bookingService.deleteBooking(id);
+      const deleted = await bookingService.deleteBooking(id);
+      if (deleted) {
+        await notifyWaitlist(deleted);
+      }
       sendSuccess(res, null, 'Booking deleted successfully');
     } catch (error) {
       if (error instanceof Error && error.message.includes('not found')) {
@@ -176,7 +223,9 @@ export class BookingController {
       const startDate = getString(req.query.startDate);
       const endDate = getString(req.query.endDate);
       const slotNumber = getString(req.query.slotNumber);
+      const slotQuantity = getString(req.query.slotQuantity);
       const excludeBookingId = getString(req.query.excludeBookingId);
+      const customerId = getString(req.query.customerId);
 
       if (!billboardId || !startDate || !endDate) {
         sendError(res, 'billboardId, startDate, and endDate are required', 400);
@@ -188,11 +237,21 @@ export class BookingController {
         startDate,
         endDate,
         slotNumber: slotNumber ? parseInt(slotNumber) : undefined,
+        slotQuantity: slotQuantity ? parseInt(slotQuantity) : undefined,
         excludeBookingId,
+        customerId,
       });
 
       sendSuccess(res, result);
     } catch (error) {
+      if (error instanceof Error && error.message.includes('not found')) {
+        sendError(res, error.message, 404);
+        return;
+      }
+      if (error instanceof Error && error.message.includes('Cannot')) {
+        sendError(res, error.message, 400);
+        return;
+      }
       if (error instanceof Error) {
         sendError(res, error.message, 500);
       } else {
@@ -201,6 +260,36 @@ export class BookingController {
     }
   }
 
+  async getSlotGrid(req: Request, res: Response, _next: NextFunction) {
+    try {
+      const billboardId = getParamBillboardId(req.params);
+      const startDate = getString(req.query.startDate);
+      const endDate = getString(req.query.endDate);
+
+      if (!startDate || !endDate) {
+        sendError(res, 'startDate and endDate are required', 400);
+        return;
+      }
+
+      const result = await bookingService.getSlotGrid(billboardId, startDate, endDate);
+      sendSuccess(res, result);
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('not found')) {
+        sendError(res, error.message, 404);
+        return;
+      }
+      if (error instanceof Error && error.message.includes('Cannot')) {
+        sendError(res, error.message, 400);
+        return;
+      }
+      if (error instanceof Error) {
+        sendError(res, error.message, 500);
+      } else {
+        sendError(res, 'Failed to fetch slot grid', 500);
+      }
+    }
+  }
+
   async getCalendarBookings(req: Request, res: Response, _next: NextFunction) {
     try {
       const billboardId = getParamBillboardId(req.params);
@@ -259,19 +348,37 @@ export class BookingController {
 
   async updateBookingStatus(req: Request, res: Response, _next: NextFunction) {
     try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
       const id = getParamId(req.params);
-      const { status } = req.body;
+      const { status, reason } = req.body;
       const userId = req.user?.id;
 
-      if (!status) {
-        sendError(res, 'status is required', 400);
-        return;
+      const booking = await bookingService.updateBookingStatus(id, status, userId, {
+        reason: reason || undefined,
+        manual: true,
+      });
+      if (booking.status === 'cancelled') {
+        await notifyWaitlist(booking);
       }
-
-      const booking = await bookingService.updateBookingStatus(id, status, userId);
       sendSuccess(res, booking, 'Booking status updated successfully');
     } catch (error) {
-      if (error instanceof Error && error.message.includes('Invalid status')) {
+      if (error instanceof Error && error.message.includes('not found')) {
+        sendError(res, error.message, 404);
+        return;
+      }
+      if (error instanceof Error && error.message.includes('another request')) {
+        sendError(res, error.message, 409);
+        return;
+      }
+      if (error instanceof Error && (
+        error.message.includes('Invalid status') ||
+        error.message.includes('Cannot')
+      )) {
         sendError(res, error.message, 400);
         return;
       }
@@ -283,6 +390,24 @@ export class BookingController {
     }
   }
 
+  async getBookingStatusHistory(req: Request, res: Response, _next: NextFunction) {
+    try {
+      const id = getParamId(req.params);
+      const history = await bookingService.getBookingStatusHistory(id);
+      sendSuccess(res, history);
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('not found')) {
+        sendError(res, error.message, 404);
+        return;
+      }
+      if (error instanceof Error) {
+        sendError(res, error.message, 500);
+      } else {
+        sendError(res, 'Failed to fetch booking history', 500);
+      }
+    }
+  }
+
   async shortCloseBooking(req: Request, res: Response, _next: NextFunction) {
     try {
       const errors = validationResult(req);
@@ -296,6 +421,10 @@ export class BookingController {
       const userId = req.user?.id;
 
       const booking = await bookingService.shortCloseBooking(id, actualEndDate, reason, userId);
+      if (booking) {
+        // The booking still runs on its actual end date; only the days after it are freed
+        await notifyWaitlist({ billboardId: booking.billboardId, startDate: addDays(actualEndDate, 1), endDate: booking.endDate });
+      }
       sendSuccess(res, booking, 'Booking short closed successfully');
     } catch (error) {
       if (error instanceof Error && error.message.includes('not found')) {
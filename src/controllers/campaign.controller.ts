@@ -92,6 +92,23 @@ export class CampaignController {
       sendSuccess(res, campaign, 'Campaign created successfully', 201);
     } catch (error) {
       console.error('Campaign creation error:', error);
+      if (error instanceof Error && error.message.includes('another customer')) {
+        sendError(res, error.message, 403);
+        return;
+      }
+      if (error instanceof Error && error.message.includes('not available')) {
+        sendError(res, error.message, 409);
+        return;
+      }
+      if (error instanceof Error && (
+        error.message.includes('Cannot') ||
+        error.message.includes('At least one') ||
+        error.message.includes('required') ||
+        error.message.includes('not found')
+      )) {
+        sendError(res, error.message, 400);
+        return;
+      }
       if (error instanceof Error) {
         sendError(res, error.message, 500);
       } else {
@@ -123,6 +140,10 @@ export class CampaignController {
 
       sendSuccess(res, campaign, 'Campaign updated successfully');
     } catch (error) {
+      if (error instanceof Error && error.message.includes('another customer')) {
+        sendError(res, error.message, 403);
+        return;
+      }
       if (error instanceof Error && error.message.includes('not found')) {
         sendError(res, error.message, 404);
         return;
@@ -2,6 +2,7 @@ import type { Request, Response } from 'express';
 import { customerService } from '../services/customer.service.js';
 import { sendSuccess, sendError } from '../utils/response.js';
 import { getPaginationParams, getSortParams } from '../utils/pagination.js';
+import { AppError } from '../middleware/errorHandler.js';
 
 const getString = (value: unknown): string | undefined => {
   return typeof value === 'string' ? value : undefined;
@@ -28,6 +29,7 @@ export const getCustomers = async (req: Request, res: Response): Promise<void> =
     const { sortBy, sortOrder } = getSortParams(req, ['name', 'contactPerson', 'email', 'createdAt'], 'name');
     const search = getString(req.query.search);
     const isActive = getBoolean(req.query.isActive);
+    const includeArchived = getBoolean(req.query.includeArchived);
 
     const result = await customerService.getAllCustomers({
       page,
@@ -36,6 +38,7 @@ export const getCustomers = async (req: Request, res: Response): Promise<void> =
       sortOrder,
       search,
       isActive,
+      includeArchived,
     });
 
     res.json({
@@ -180,6 +183,10 @@ export const deleteCustomer = async (req: Request, res: Response): Promise<void>
     await customerService.deleteCustomer(id);
     sendSuccess(res, null, 'Customer deleted successfully');
   } catch (error) {
+    if (error instanceof AppError) {
+      sendError(res, error.message, error.statusCode, error.errors);
+      return;
+    }
     if (error instanceof Error) {
       sendError(res, error.message, 400);
     } else {
@@ -188,6 +195,59 @@ export const deleteCustomer = async (req: Request, res: Response): Promise<void>
   }
 };
 
+// Archive customer (hidden from listings and dropdowns until restored)
+export const archiveCustomer = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = getParamId(req.params);
+    const customer = await customerService.archiveCustomer(id, req.user?.id);
+    const upcoming = customer.upcomingBookings.length;
+    sendSuccess(
+      res,
+      customer,
+      upcoming > 0
+        ? `Customer archived. ${upcoming} upcoming booking(s) still run and need moving or short-closing`
+        : 'Customer archived successfully'
+    );
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        sendError(res, error.message, 404);
+        return;
+      }
+      if (error.message.includes('Cannot')) {
+        sendError(res, error.message, 400);
+        return;
+      }
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to archive customer', 500);
+    }
+  }
+};
+
+// Restore archived customer
+export const restoreCustomer = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = getParamId(req.params);
+    const customer = await customerService.restoreCustomer(id, req.user?.id);
+    sendSuccess(res, customer, 'Customer restored successfully');
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        sendError(res, error.message, 404);
+        return;
+      }
+      if (error.message.includes('Cannot')) {
+        sendError(res, error.message, 400);
+        return;
+      }
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to restore customer', 500);
+    }
+  }
+};
+
 // Get customers for dropdown
 export const getCustomersDropdown = async (_req: Request, res: Response): Promise<void> => {
   try {
@@ -0,0 +1,169 @@
+import type { Request, Response } from 'express';
+import { holdService } from '../services/hold.service.js';
+import { sendSuccess, sendError } from '../utils/response.js';
+import { getPaginationParams } from '../utils/pagination.js';
+
+const getString = (value: unknown): string | undefined => {
+  return typeof value === 'string' ? value : undefined;
+};
+
+const getParamId = (params: Record<string, unknown>, key: string = 'id'): string => {
+  const id = params[key];
+  if (typeof id !== 'string') {
+    throw new Error('Invalid ID parameter');
+  }
+  return id;
+};
+
+// Get holds
+export const getHolds = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { page, pageSize } = getPaginationParams(req);
+
+    const result = await holdService.getAllHolds({
+      page,
+      pageSize,
+      customerId: getString(req.query.customerId),
+      billboardId: getString(req.query.billboardId),
+      status: getString(req.query.status),
+    });
+
+    res.json({
+      success: true,
+      data: result.data,
+      pagination: result.pagination,
+    });
+  } catch (error) {
+    if (error instanceof Error) {
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to fetch holds', 500);
+    }
+  }
+};
+
+// Get hold by ID
+export const getHoldById = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = getParamId(req.params);
+    const hold = await holdService.getHoldById(id);
+
+    if (!hold) {
+      sendError(res, 'Hold not found', 404);
+      return;
+    }
+
+    sendSuccess(res, hold);
+  } catch (error) {
+    if (error instanceof Error) {
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to fetch hold', 500);
+    }
+  }
+};
+
+// Create hold
+export const createHold = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { customerId, billboardId, slotNumber, slotQuantity, startDate, endDate, days, notes } = req.body;
+
+    const hold = await holdService.createHold({
+      customerId,
+      billboardId,
+      slotNumber: slotNumber ? parseInt(slotNumber) : undefined,
+      slotQuantity: slotQuantity ? parseInt(slotQuantity) : undefined,
+      startDate,
+      endDate,
+      days: days ? parseInt(days) : undefined,
+      notes,
+      createdBy: req.user?.id,
+    });
+
+    sendSuccess(res, hold, 'Hold created successfully', 201);
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        sendError(res, error.message, 404);
+        return;
+      }
+      if (error.message.includes('another customer')) {
+        sendError(res, error.message, 403);
+        return;
+      }
+      if (error.message.includes('not available')) {
+        sendError(res, error.message, 409);
+        return;
+      }
+      if (error.message.includes('Cannot')) {
+        sendError(res, error.message, 400);
+        return;
+      }
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to create hold', 500);
+    }
+  }
+};
+
+// Release hold
+export const releaseHold = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = getParamId(req.params);
+    const hold = await holdService.releaseHold(id, req.user?.id);
+    sendSuccess(res, hold, 'Hold released successfully');
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        sendError(res, error.message, 404);
+        return;
+      }
+      if (error.message.includes('another request')) {
+        sendError(res, error.message, 409);
+        return;
+      }
+      if (error.message.includes('Cannot')) {
+        sendError(res, error.message, 400);
+        return;
+      }
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to release hold', 500);
+    }
+  }
+};
+
+// Convert hold to a booking
+export const convertHold = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = getParamId(req.params);
+    const { notionalValue, creativeRef, notes } = req.body;
+
+    const result = await holdService.convertToBooking(id, {
+      notionalValue,
+      creativeRef,
+      notes,
+      convertedBy: req.user?.id,
+    });
+
+    sendSuccess(res, result, 'Hold converted to booking successfully', 201);
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        sendError(res, error.message, 404);
+        return;
+      }
+      if (error.message.includes('not available') || error.message.includes('another request')) {
+        sendError(res, error.message, 409);
+        return;
+      }
+      if (error.message.includes('Cannot')) {
+        sendError(res, error.message, 400);
+        return;
+      }
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to convert hold', 500);
+    }
+  }
+};
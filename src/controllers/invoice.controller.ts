@@ -0,0 +1,338 @@
+import type { Request, Response } from 'express';
+import { invoiceService } from '../services/invoice.service.js';
+import { pdfService } from '../services/pdf.service.js';
+import { settingsService } from '../services/settings.service.js';
+import { sendSuccess, sendError } from '../utils/response.js';
+import { getPaginationParams, getSortParams } from '../utils/pagination.js';
+
+const getString = (value: unknown): string | undefined => {
+  return typeof value === 'string' ? value : undefined;
+};
+
+const getBoolean = (value: unknown): boolean | undefined => {
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  return undefined;
+};
+
+const getParamId = (params: Record<string, unknown>, key: string = 'id'): string => {
+  const id = params[key];
+  if (typeof id !== 'string') {
+    throw new Error('Invalid ID parameter');
+  }
+  return id;
+};
+
+// Get all invoices
+export const getInvoices = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { page, pageSize } = getPaginationParams(req);
+    const { sortBy, sortOrder } = getSortParams(
+      req,
+      ['invoiceNumber', 'invoiceDate', 'dueDate', 'totalAmount', 'paymentStatus', 'createdAt'],
+      'invoiceDate'
+    );
+
+    const result = await invoiceService.getAllInvoices({
+      page,
+      pageSize,
+      sortBy,
+      sortOrder,
+      customerId: getString(req.query.customerId),
+      paymentStatus: getString(req.query.paymentStatus),
+      search: getString(req.query.search),
+      dateFrom: getString(req.query.dateFrom),
+      dateTo: getString(req.query.dateTo),
+      overdue: getBoolean(req.query.overdue),
+    });
+
+    res.json({
+      success: true,
+      data: result.data,
+      pagination: result.pagination,
+    });
+  } catch (error) {
+    if (error instanceof Error) {
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to fetch invoices', 500);
+    }
+  }
+};
+
+// Get invoice by ID
+export const getInvoiceById = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = getParamId(req.params);
+    const invoice = await invoiceService.getInvoiceById(id);
+
+    if (!invoice) {
+      sendError(res, 'Invoice not found', 404);
+      return;
+    }
+
+    sendSuccess(res, invoice);
+  } catch (error) {
+    if (error instanceof Error) {
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to fetch invoice', 500);
+    }
+  }
+};
+
+// Generate invoice from a purchase order
+export const createInvoice = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { purchaseOrderId, taxId, invoiceDate, dueDate, paymentNotes } = req.body;
+
+    const invoice = await invoiceService.createInvoice({
+      purchaseOrderId,
+      taxId: taxId || undefined,
+      invoiceDate: invoiceDate || undefined,
+      dueDate: dueDate || undefined,
+      paymentNotes: paymentNotes || undefined,
+      createdBy: req.user?.id,
+    });
+
+    sendSuccess(res, invoice, 'Invoice created successfully', 201);
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('already exists')) {
+        sendError(res, error.message, 409);
+        return;
+      }
+      if (error.message.includes('not found')) {
+        sendError(res, error.message, 404);
+        return;
+      }
+      if (error.message.includes('Cannot') || error.message.includes('Due date')) {
+        sendError(res, error.message, 400);
+        return;
+      }
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to create invoice', 500);
+    }
+  }
+};
+
+// Update invoice
+export const updateInvoice = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = getParamId(req.params);
+    const { invoiceDate, dueDate, taxId, paymentNotes } = req.body;
+
+    const invoice = await invoiceService.updateInvoice(id, {
+      invoiceDate: invoiceDate || undefined,
+      dueDate: dueDate || undefined,
+      taxId,
+      paymentNotes,
+      updatedBy: req.user?.id,
+    });
+
+    sendSuccess(res, invoice, 'Invoice updated successfully');
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        sendError(res, error.message, 404);
+        return;
+      }
+      if (error.message.includes('Cannot') || error.message.includes('Due date')) {
+        sendError(res, error.message, 400);
+        return;
+      }
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to update invoice', 500);
+    }
+  }
+};
+
+// Void invoice
+export const voidInvoice = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = getParamId(req.params);
+    const { reason } = req.body;
+
+    const invoice = await invoiceService.voidInvoice(id, reason, req.user?.id);
+    sendSuccess(res, invoice, 'Invoice voided successfully');
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        sendError(res, error.message, 404);
+        return;
+      }
+      if (error.message.includes('Cannot') || error.message.includes('already voided')) {
+        sendError(res, error.message, 400);
+        return;
+      }
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to void invoice', 500);
+    }
+  }
+};
+
+// Get purchase orders that can be invoiced
+export const getEligiblePurchaseOrders = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const customerId = getString(req.query.customerId);
+    const purchaseOrders = await invoiceService.getPurchaseOrdersEligibleForInvoice(customerId);
+    sendSuccess(res, purchaseOrders);
+  } catch (error) {
+    if (error instanceof Error) {
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to fetch eligible purchase orders', 500);
+    }
+  }
+};
+
+// Download invoice as GST tax invoice PDF
+export const downloadInvoicePDF = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = getParamId(req.params);
+    const invoice = await invoiceService.getInvoiceById(id);
+
+    if (!invoice) {
+      sendError(res, 'Invoice not found', 404);
+      return;
+    }
+
+    const companyInfo = await settingsService.getCompanyInfo();
+    const pdfBuffer = await pdfService.generateInvoicePDF(invoice, companyInfo);
+
+    // Set response headers for PDF download
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${invoice.invoiceNumber}.pdf"`);
+    res.setHeader('Content-Length', pdfBuffer.length);
+
+    res.send(pdfBuffer);
+  } catch (error) {
+    console.error('PDF generation error:', error);
+    if (error instanceof Error) {
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to generate PDF', 500);
+    }
+  }
+};
+
+// Get payments recorded against an invoice
+export const getInvoicePayments = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = getParamId(req.params);
+    const invoice = await invoiceService.getInvoiceById(id);
+
+    if (!invoice) {
+      sendError(res, 'Invoice not found', 404);
+      return;
+    }
+
+    sendSuccess(res, {
+      totalAmount: invoice.totalAmount,
+      amountPaid: invoice.amountPaid,
+      balanceDue: invoice.balanceDue,
+      paymentStatus: invoice.paymentStatus,
+      payments: invoice.payments,
+    });
+  } catch (error) {
+    if (error instanceof Error) {
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to fetch payments', 500);
+    }
+  }
+};
+
+// Record a (partial) payment against an invoice
+export const recordPayment = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = getParamId(req.params);
+    const { amount, tdsAmount, paymentDate, paymentMode, referenceNumber, notes } = req.body;
+
+    const payment = await invoiceService.recordPayment(id, {
+      amount: parseFloat(amount),
+      tdsAmount: tdsAmount !== undefined && tdsAmount !== '' ? parseFloat(tdsAmount) : undefined,
+      paymentDate: paymentDate || undefined,
+      paymentMode,
+      referenceNumber: referenceNumber || undefined,
+      notes: notes || undefined,
+      createdBy: req.user?.id,
+    });
+
+    sendSuccess(res, payment, 'Payment recorded successfully', 201);
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        sendError(res, error.message, 404);
+        return;
+      }
+      if (
+        error.message.includes('Cannot') ||
+        error.message.includes('exceeds') ||
+        error.message.includes('must be') ||
+        error.message.includes('Payment date')
+      ) {
+        sendError(res, error.message, 400);
+        return;
+      }
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to record payment', 500);
+    }
+  }
+};
+
+// Delete a payment entered in error
+export const deletePayment = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = getParamId(req.params);
+    const paymentId = getParamId(req.params, 'paymentId');
+
+    const invoice = await invoiceService.deletePayment(id, paymentId, req.user?.id);
+    sendSuccess(res, invoice, 'Payment deleted successfully');
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        sendError(res, error.message, 404);
+        return;
+      }
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to delete payment', 500);
+    }
+  }
+};
+
+// Download payment receipt as PDF
+export const downloadReceiptPDF = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = getParamId(req.params);
+    const paymentId = getParamId(req.params, 'paymentId');
+
+    const invoice = await invoiceService.getInvoiceById(id);
+    const payment = invoice?.payments.find(p => p.id === paymentId);
+
+    if (!invoice || !payment) {
+      sendError(res, 'Payment not found', 404);
+      return;
+    }
+
+    const pdfBuffer = await pdfService.generatePaymentReceiptPDF(invoice, payment);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${payment.receiptNumber}.pdf"`);
+    res.setHeader('Content-Length', pdfBuffer.length);
+
+    res.send(pdfBuffer);
+  } catch (error) {
+    console.error('PDF generation error:', error);
+    if (error instanceof Error) {
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to generate PDF', 500);
+    }
+  }
+};
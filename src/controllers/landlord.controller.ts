@@ -2,6 +2,7 @@ import type { Request, Response } from 'express';
 import { landlordService, type PaymentFrequency } from '../services/landlord.service.js';
 import { sendSuccess, sendError } from '../utils/response.js';
 import { getPaginationParams, getSortParams } from '../utils/pagination.js';
+import { AppError } from '../middleware/errorHandler.js';
 
 const getString = (value: unknown): string | undefined => {
   return typeof value === 'string' ? value : undefined;
@@ -28,6 +29,7 @@ export const getLandlords = async (req: Request, res: Response): Promise<void> =
     const { sortBy, sortOrder } = getSortParams(req, ['name', 'contactPerson', 'rentAmount', 'createdAt'], 'name');
     const search = getString(req.query.search);
     const isActive = getBoolean(req.query.isActive);
+    const includeArchived = getBoolean(req.query.includeArchived);
 
     const result = await landlordService.getAllLandlords({
       page,
@@ -36,6 +38,7 @@ export const getLandlords = async (req: Request, res: Response): Promise<void> =
       sortOrder,
       search,
       isActive,
+      includeArchived,
     });
 
     res.json({
@@ -180,6 +183,10 @@ export const deleteLandlord = async (req: Request, res: Response): Promise<void>
     await landlordService.deleteLandlord(id);
     sendSuccess(res, null, 'Landlord deleted successfully');
   } catch (error) {
+    if (error instanceof AppError) {
+      sendError(res, error.message, error.statusCode, error.errors);
+      return;
+    }
     if (error instanceof Error) {
       sendError(res, error.message, 400);
     } else {
@@ -188,6 +195,52 @@ export const deleteLandlord = async (req: Request, res: Response): Promise<void>
   }
 };
 
+// Archive landlord (hidden from listings and dropdowns until restored)
+export const archiveLandlord = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = getParamId(req.params);
+    const landlord = await landlordService.archiveLandlord(id, req.user?.id);
+    sendSuccess(res, landlord, 'Landlord archived successfully');
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        sendError(res, error.message, 404);
+        return;
+      }
+      if (error.message.includes('Cannot')) {
+        sendError(res, error.message, 400);
+        return;
+      }
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to archive landlord', 500);
+    }
+  }
+};
+
+// Restore archived landlord
+export const restoreLandlord = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = getParamId(req.params);
+    const landlord = await landlordService.restoreLandlord(id, req.user?.id);
+    sendSuccess(res, landlord, 'Landlord restored successfully');
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        sendError(res, error.message, 404);
+        return;
+      }
+      if (error.message.includes('Cannot')) {
+        sendError(res, error.message, 400);
+        return;
+      }
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to restore landlord', 500);
+    }
+  }
+};
+
 // Get landlords for dropdown
 export const getLandlordsDropdown = async (_req: Request, res: Response): Promise<void> => {
   try {
@@ -0,0 +1,275 @@
+import type { Request, Response } from 'express';
+import { leaseService, type ExpiryAlertWindow } from '../services/lease.service.js';
+import { sendSuccess, sendError } from '../utils/response.js';
+import { getPaginationParams } from '../utils/pagination.js';
+
+const DEFAULT_UPCOMING_DAYS = 30;
+const DEFAULT_EXPIRY_WINDOW: ExpiryAlertWindow = 90;
+
+const getString = (value: unknown): string | undefined => {
+  return typeof value === 'string' ? value : undefined;
+};
+
+const getParamId = (params: Record<string, unknown>, key: string = 'id'): string => {
+  const id = params[key];
+  if (typeof id !== 'string') {
+    throw new Error('Invalid ID parameter');
+  }
+  return id;
+};
+
+// Get leases
+export const getLeases = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { page, pageSize } = getPaginationParams(req);
+
+    const result = await leaseService.getAllLeases({
+      page,
+      pageSize,
+      billboardId: getString(req.query.billboardId),
+      landlordId: getString(req.query.landlordId),
+      status: getString(req.query.status),
+    });
+
+    res.json({
+      success: true,
+      data: result.data,
+      pagination: result.pagination,
+    });
+  } catch (error) {
+    if (error instanceof Error) {
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to fetch leases', 500);
+    }
+  }
+};
+
+// Get lease by ID with its rent schedule
+export const getLeaseById = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = getParamId(req.params);
+    const lease = await leaseService.getLeaseById(id);
+
+    if (!lease) {
+      sendError(res, 'Lease not found', 404);
+      return;
+    }
+
+    sendSuccess(res, lease);
+  } catch (error) {
+    if (error instanceof Error) {
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to fetch lease', 500);
+    }
+  }
+};
+
+// Create lease
+export const createLease = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { billboardId, landlordId, startDate, endDate, rentAmount, paymentFrequency, escalationPercentage, securityDeposit, terms } = req.body;
+
+    const lease = await leaseService.createLease({
+      billboardId,
+      landlordId,
+      startDate,
+      endDate,
+      rentAmount: rentAmount !== undefined ? parseFloat(rentAmount) : undefined,
+      paymentFrequency,
+      escalationPercentage: escalationPercentage !== undefined ? parseFloat(escalationPercentage) : undefined,
+      securityDeposit: securityDeposit !== undefined ? parseFloat(securityDeposit) : undefined,
+      terms,
+      createdBy: req.user?.id,
+    });
+
+    sendSuccess(res, lease, 'Lease created successfully', 201);
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        sendError(res, error.message, 404);
+        return;
+      }
+      if (error.message.includes('already exists')) {
+        sendError(res, error.message, 409);
+        return;
+      }
+      if (error.message.includes('Cannot')) {
+        sendError(res, error.message, 400);
+        return;
+      }
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to create lease', 500);
+    }
+  }
+};
+
+// Update lease
+export const updateLease = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = getParamId(req.params);
+    const { endDate, rentAmount, paymentFrequency, escalationPercentage, securityDeposit, terms } = req.body;
+
+    const lease = await leaseService.updateLease(id, {
+      endDate,
+      rentAmount: rentAmount !== undefined ? parseFloat(rentAmount) : undefined,
+      paymentFrequency,
+      escalationPercentage: escalationPercentage !== undefined ? parseFloat(escalationPercentage) : undefined,
+      securityDeposit: securityDeposit !== undefined ? parseFloat(securityDeposit) : undefined,
+      terms,
+      updatedBy: req.user?.id,
+    });
+
+    sendSuccess(res, lease, 'Lease updated successfully');
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        sendError(res, error.message, 404);
+        return;
+      }
+      if (error.message.includes('already exists')) {
+        sendError(res, error.message, 409);
+        return;
+      }
+      if (error.message.includes('Cannot')) {
+        sendError(res, error.message, 400);
+        return;
+      }
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to update lease', 500);
+    }
+  }
+};
+
+// Terminate lease early
+export const terminateLease = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = getParamId(req.params);
+    const { terminationDate, reason } = req.body;
+
+    const lease = await leaseService.terminateLease(id, terminationDate, reason, req.user?.id);
+    sendSuccess(res, lease, 'Lease terminated successfully');
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        sendError(res, error.message, 404);
+        return;
+      }
+      if (error.message.includes('another request')) {
+        sendError(res, error.message, 409);
+        return;
+      }
+      if (error.message.includes('Cannot')) {
+        sendError(res, error.message, 400);
+        return;
+      }
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to terminate lease', 500);
+    }
+  }
+};
+
+// Delete lease
+export const deleteLease = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = getParamId(req.params);
+    await leaseService.deleteLease(id);
+    sendSuccess(res, null, 'Lease deleted successfully');
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        sendError(res, error.message, 404);
+        return;
+      }
+      if (error.message.includes('Cannot')) {
+        sendError(res, error.message, 400);
+        return;
+      }
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to delete lease', 500);
+    }
+  }
+};
+
+// Get rent due soon, including overdue installments
+export const getUpcomingPayables = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const days = getString(req.query.days);
+
+    const result = await leaseService.getUpcomingPayables({
+      days: days ? parseInt(days) : DEFAULT_UPCOMING_DAYS,
+      landlordId: getString(req.query.landlordId),
+      billboardId: getString(req.query.billboardId),
+    });
+
+    sendSuccess(res, result);
+  } catch (error) {
+    if (error instanceof Error) {
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to fetch upcoming rent', 500);
+    }
+  }
+};
+
+// Get leases ending soon without a renewal, with the bookings that run past them
+export const getExpiringLeases = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const days = getString(req.query.days);
+
+    const result = await leaseService.getExpiringLeases({
+      days: days ? (parseInt(days) as ExpiryAlertWindow) : DEFAULT_EXPIRY_WINDOW,
+      landlordId: getString(req.query.landlordId),
+      billboardId: getString(req.query.billboardId),
+    });
+
+    sendSuccess(res, result);
+  } catch (error) {
+    if (error instanceof Error) {
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to fetch expiring leases', 500);
+    }
+  }
+};
+
+// Mark a rent installment as paid
+export const markPayableAsPaid = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const payableId = getParamId(req.params, 'payableId');
+    const { paidDate, paidAmount, paymentReference, notes } = req.body;
+
+    const payable = await leaseService.markPayableAsPaid(payableId, {
+      paidDate,
+      paidAmount: paidAmount !== undefined ? parseFloat(paidAmount) : undefined,
+      paymentReference,
+      notes,
+      updatedBy: req.user?.id,
+    });
+
+    sendSuccess(res, payable, 'Rent marked as paid');
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        sendError(res, error.message, 404);
+        return;
+      }
+      if (error.message.includes('another request')) {
+        sendError(res, error.message, 409);
+        return;
+      }
+      if (error.message.includes('Cannot')) {
+        sendError(res, error.message, 400);
+        return;
+      }
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to mark rent as paid', 500);
+    }
+  }
+};
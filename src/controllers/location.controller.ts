@@ -2,11 +2,18 @@ import type { Request, Response } from 'express';
 import { locationService } from '../services/location.service.js';
 import { sendSuccess, sendError } from '../utils/response.js';
 import { getPaginationParams, getSortParams } from '../utils/pagination.js';
+import { AppError } from '../middleware/errorHandler.js';
 
 const getString = (value: unknown): string | undefined => {
   return typeof value === 'string' ? value : undefined;
 };
 
+const getBoolean = (value: unknown): boolean | undefined => {
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  return undefined;
+};
+
 const getParamId = (params: Record<string, unknown>): string => {
   const id = params.id;
   if (typeof id !== 'string') {
@@ -22,6 +29,7 @@ export const getRegions = async (req: Request, res: Response): Promise<void> =>
     const { page, pageSize } = getPaginationParams(req);
     const { sortBy, sortOrder } = getSortParams(req, ['name', 'code'], 'name');
     const search = getString(req.query.search);
+    const includeArchived = getBoolean(req.query.includeArchived);
 
     const result = await locationService.getAllRegions({
       page,
@@ -29,6 +37,7 @@ export const getRegions = async (req: Request, res: Response): Promise<void> =>
       sortBy,
       sortOrder,
       search,
+      includeArchived,
     });
 
     res.json({
@@ -141,6 +150,10 @@ export const deleteRegion = async (req: Request, res: Response): Promise<void> =
     await locationService.deleteRegion(id);
     sendSuccess(res, null, 'Region deleted successfully');
   } catch (error) {
+    if (error instanceof AppError) {
+      sendError(res, error.message, error.statusCode, error.errors);
+      return;
+    }
     if (error instanceof Error) {
       sendError(res, error.message, 400);
     } else {
@@ -149,6 +162,50 @@ export const deleteRegion = async (req: Request, res: Response): Promise<void> =
   }
 };
 
+export const archiveRegion = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = getParamId(req.params);
+    const region = await locationService.archiveRegion(id, req.user?.id);
+    sendSuccess(res, region, 'Region archived successfully');
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        sendError(res, error.message, 404);
+        return;
+      }
+      if (error.message.includes('Cannot')) {
+        sendError(res, error.message, 400);
+        return;
+      }
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to archive region', 500);
+    }
+  }
+};
+
+export const restoreRegion = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = getParamId(req.params);
+    const region = await locationService.restoreRegion(id, req.user?.id);
+    sendSuccess(res, region, 'Region restored successfully');
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        sendError(res, error.message, 404);
+        return;
+      }
+      if (error.message.includes('Cannot')) {
+        sendError(res, error.message, 400);
+        return;
+      }
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to restore region', 500);
+    }
+  }
+};
+
 // ==================== CITIES ====================
 
 export const getCities = async (req: Request, res: Response): Promise<void> => {
@@ -157,6 +214,7 @@ export const getCities = async (req: Request, res: Response): Promise<void> => {
     const { sortBy, sortOrder } = getSortParams(req, ['name', 'code'], 'name');
     const search = getString(req.query.search);
     const regionId = getString(req.query.regionId);
+    const includeArchived = getBoolean(req.query.includeArchived);
 
     const result = await locationService.getAllCities({
       page,
@@ -165,6 +223,7 @@ export const getCities = async (req: Request, res: Response): Promise<void> => {
       sortOrder,
       search,
       regionId,
+      includeArchived,
     });
 
     res.json({
@@ -295,6 +354,10 @@ export const deleteCity = async (req: Request, res: Response): Promise<void> =>
     await locationService.deleteCity(id);
     sendSuccess(res, null, 'City deleted successfully');
   } catch (error) {
+    if (error instanceof AppError) {
+      sendError(res, error.message, error.statusCode, error.errors);
+      return;
+    }
     if (error instanceof Error) {
       sendError(res, error.message, 400);
     } else {
@@ -303,6 +366,50 @@ export const deleteCity = async (req: Request, res: Response): Promise<void> =>
   }
 };
 
+export const archiveCity = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = getParamId(req.params);
+    const city = await locationService.archiveCity(id, req.user?.id);
+    sendSuccess(res, city, 'City archived successfully');
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        sendError(res, error.message, 404);
+        return;
+      }
+      if (error.message.includes('Cannot')) {
+        sendError(res, error.message, 400);
+        return;
+      }
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to archive city', 500);
+    }
+  }
+};
+
+export const restoreCity = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = getParamId(req.params);
+    const city = await locationService.restoreCity(id, req.user?.id);
+    sendSuccess(res, city, 'City restored successfully');
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        sendError(res, error.message, 404);
+        return;
+      }
+      if (error.message.includes('Cannot')) {
+        sendError(res, error.message, 400);
+        return;
+      }
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to restore city', 500);
+    }
+  }
+};
+
 // ==================== ZONES ====================
 
 export const getZones = async (req: Request, res: Response): Promise<void> => {
@@ -312,6 +419,7 @@ export const getZones = async (req: Request, res: Response): Promise<void> => {
     const search = getString(req.query.search);
     const cityId = getString(req.query.cityId);
     const regionId = getString(req.query.regionId);
+    const includeArchived = getBoolean(req.query.includeArchived);
 
     const result = await locationService.getAllZones({
       page,
@@ -321,6 +429,7 @@ export const getZones = async (req: Request, res: Response): Promise<void> => {
       search,
       cityId,
       regionId,
+      includeArchived,
     });
 
     res.json({
@@ -451,6 +560,10 @@ export const deleteZone = async (req: Request, res: Response): Promise<void> =>
     await locationService.deleteZone(id);
     sendSuccess(res, null, 'Zone deleted successfully');
   } catch (error) {
+    if (error instanceof AppError) {
+      sendError(res, error.message, error.statusCode, error.errors);
+      return;
+    }
     if (error instanceof Error) {
       sendError(res, error.message, 400);
     } else {
@@ -459,6 +572,50 @@ export const deleteZone = async (req: Request, res: Response): Promise<void> =>
   }
 };
 
+export const archiveZone = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = getParamId(req.params);
+    const zone = await locationService.archiveZone(id, req.user?.id);
+    sendSuccess(res, zone, 'Zone archived successfully');
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        sendError(res, error.message, 404);
+        return;
+      }
+      if (error.message.includes('Cannot')) {
+        sendError(res, error.message, 400);
+        return;
+      }
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to archive zone', 500);
+    }
+  }
+};
+
+export const restoreZone = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = getParamId(req.params);
+    const zone = await locationService.restoreZone(id, req.user?.id);
+    sendSuccess(res, zone, 'Zone restored successfully');
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        sendError(res, error.message, 404);
+        return;
+      }
+      if (error.message.includes('Cannot')) {
+        sendError(res, error.message, 400);
+        return;
+      }
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to restore zone', 500);
+    }
+  }
+};
+
 // ==================== DROPDOWN OPTIONS ====================
 
 export const getRegionsDropdown = async (req: Request, res: Response): Promise<void> => {
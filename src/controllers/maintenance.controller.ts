@@ -0,0 +1,168 @@
+import type { Request, Response } from 'express';
+import { maintenanceService } from '../services/maintenance.service.js';
+import { waitlistService } from '../services/waitlist.service.js';
+import { sendSuccess, sendError } from '../utils/response.js';
+import { getPaginationParams } from '../utils/pagination.js';
+
+const getString = (value: unknown): string | undefined => {
+  return typeof value === 'string' ? value : undefined;
+};
+
+const getParamId = (params: Record<string, unknown>, key: string = 'id'): string => {
+  const id = params[key];
+  if (typeof id !== 'string') {
+    throw new Error('Invalid ID parameter');
+  }
+  return id;
+};
+
+// Surface waitlist entries the maintenance no longer blocks. A failed check mustn't fail the change itself.
+const notifyWaitlist = async (window: { billboardId: string; startDate: string; endDate: string }) => {
+  await waitlistService
+    .processReleasedRange(window.billboardId, window.startDate, window.endDate)
+    .catch(error => console.error('Waitlist check failed:', error));
+};
+
+const scheduledMessage = (overlapping: number, action: string): string => {
+  return overlapping > 0
+    ? `Maintenance ${action}. ${overlapping} existing booking(s) overlap the window and need rescheduling`
+    : `Maintenance ${action} successfully`;
+};
+
+// Get maintenance windows
+export const getMaintenanceWindows = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { page, pageSize } = getPaginationParams(req);
+
+    const result = await maintenanceService.getAllWindows({
+      page,
+      pageSize,
+      billboardId: getString(req.query.billboardId),
+      startDate: getString(req.query.startDate),
+      endDate: getString(req.query.endDate),
+    });
+
+    res.json({
+      success: true,
+      data: result.data,
+      pagination: result.pagination,
+    });
+  } catch (error) {
+    if (error instanceof Error) {
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to fetch maintenance windows', 500);
+    }
+  }
+};
+
+// Get maintenance window by ID
+export const getMaintenanceWindowById = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = getParamId(req.params);
+    const window = await maintenanceService.getWindowById(id);
+
+    if (!window) {
+      sendError(res, 'Maintenance window not found', 404);
+      return;
+    }
+
+    sendSuccess(res, window);
+  } catch (error) {
+    if (error instanceof Error) {
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to fetch maintenance window', 500);
+    }
+  }
+};
+
+// Schedule maintenance, warning about bookings that overlap it
+export const createMaintenanceWindow = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { billboardId, startDate, endDate, reason, vendor } = req.body;
+
+    const window = await maintenanceService.createWindow({
+      billboardId,
+      startDate,
+      endDate,
+      reason,
+      vendor,
+      createdBy: req.user?.id,
+    });
+
+    sendSuccess(res, window, scheduledMessage(window?.overlappingBookings.length ?? 0, 'scheduled'), 201);
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        sendError(res, error.message, 404);
+        return;
+      }
+      if (error.message.includes('Cannot')) {
+        sendError(res, error.message, 400);
+        return;
+      }
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to schedule maintenance', 500);
+    }
+  }
+};
+
+// Update maintenance window
+export const updateMaintenanceWindow = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = getParamId(req.params);
+    const { startDate, endDate, reason, vendor } = req.body;
+
+    const existing = await maintenanceService.getWindowById(id);
+    const window = await maintenanceService.updateWindow(id, {
+      startDate,
+      endDate,
+      reason,
+      vendor,
+      updatedBy: req.user?.id,
+    });
+
+    // Moving or shortening the window may free dates it used to block
+    if (existing) {
+      await notifyWaitlist(existing);
+    }
+
+    sendSuccess(res, window, scheduledMessage(window?.overlappingBookings.length ?? 0, 'updated'));
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        sendError(res, error.message, 404);
+        return;
+      }
+      if (error.message.includes('Cannot')) {
+        sendError(res, error.message, 400);
+        return;
+      }
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to update maintenance window', 500);
+    }
+  }
+};
+
+// Delete maintenance window
+export const deleteMaintenanceWindow = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = getParamId(req.params);
+    const deleted = await maintenanceService.deleteWindow(id);
+    await notifyWaitlist(deleted);
+    sendSuccess(res, null, 'Maintenance window deleted successfully');
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        sendError(res, error.message, 404);
+        return;
+      }
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to delete maintenance window', 500);
+    }
+  }
+};
@@ -0,0 +1,89 @@
+import type { Request, Response } from 'express';
+import { notificationService } from '../services/notification.service.js';
+import { sendSuccess, sendError } from '../utils/response.js';
+import { getPaginationParams } from '../utils/pagination.js';
+
+const getString = (value: unknown): string | undefined => {
+  return typeof value === 'string' ? value : undefined;
+};
+
+const getParamId = (params: Record<string, unknown>, key: string = 'id'): string => {
+  const id = params[key];
+  if (typeof id !== 'string') {
+    throw new Error('Invalid ID parameter');
+  }
+  return id;
+};
+
+// Get the current user's notifications
+export const getNotifications = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      sendError(res, 'Authentication required', 401);
+      return;
+    }
+
+    const { page, pageSize } = getPaginationParams(req);
+    const result = await notificationService.getNotificationsForUser(req.user.id, {
+      page,
+      pageSize,
+      unreadOnly: getString(req.query.unreadOnly) === 'true',
+    });
+
+    res.json({
+      success: true,
+      data: result.data,
+      unreadCount: result.unreadCount,
+      pagination: result.pagination,
+    });
+  } catch (error) {
+    if (error instanceof Error) {
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to fetch notifications', 500);
+    }
+  }
+};
+
+// Mark a notification as read
+export const markNotificationAsRead = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      sendError(res, 'Authentication required', 401);
+      return;
+    }
+
+    const id = getParamId(req.params);
+    const notification = await notificationService.markAsRead(id, req.user.id);
+    sendSuccess(res, notification, 'Notification marked as read');
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        sendError(res, error.message, 404);
+        return;
+      }
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to update notification', 500);
+    }
+  }
+};
+
+// Mark all of the current user's notifications as read
+export const markAllNotificationsAsRead = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      sendError(res, 'Authentication required', 401);
+      return;
+    }
+
+    const result = await notificationService.markAllAsRead(req.user.id);
+    sendSuccess(res, result, 'Notifications marked as read');
+  } catch (error) {
+    if (error instanceof Error) {
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to update notifications', 500);
+    }
+  }
+};
@@ -140,6 +140,10 @@ export class PurchaseOrderController {
         sendError(res, error.message, 404);
         return;
       }
+      if (error instanceof Error && error.message.includes('has been invoiced')) {
+        sendError(res, error.message, 400);
+        return;
+      }
       if (error instanceof Error) {
         sendError(res, error.message, 500);
       } else {
@@ -160,6 +164,10 @@ export class PurchaseOrderController {
         sendError(res, error.message, 404);
         return;
       }
+      if (error instanceof Error && error.message.includes('has been invoiced')) {
+        sendError(res, error.message, 400);
+        return;
+      }
       if (error instanceof Error) {
         sendError(res, error.message, 500);
       } else {
@@ -0,0 +1,246 @@
+import type { Request, Response } from 'express';
+import { quotationService } from '../services/quotation.service.js';
+import { pdfService } from '../services/pdf.service.js';
+import { sendSuccess, sendError } from '../utils/response.js';
+import { getPaginationParams } from '../utils/pagination.js';
+
+const getString = (value: unknown): string | undefined => {
+  return typeof value === 'string' ? value : undefined;
+};
+
+const getParamId = (params: Record<string, unknown>, key: string = 'id'): string => {
+  const id = params[key];
+  if (typeof id !== 'string') {
+    throw new Error('Invalid ID parameter');
+  }
+  return id;
+};
+
+// Get quotations
+export const getQuotations = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { page, pageSize } = getPaginationParams(req);
+
+    const result = await quotationService.getAllQuotations({
+      page,
+      pageSize,
+      customerId: getString(req.query.customerId),
+      status: getString(req.query.status),
+      search: getString(req.query.search),
+    });
+
+    res.json({
+      success: true,
+      data: result.data,
+      pagination: result.pagination,
+    });
+  } catch (error) {
+    if (error instanceof Error) {
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to fetch quotations', 500);
+    }
+  }
+};
+
+// Get quotation by ID
+export const getQuotationById = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = getParamId(req.params);
+    const quotation = await quotationService.getQuotationById(id);
+
+    if (!quotation) {
+      sendError(res, 'Quotation not found', 404);
+      return;
+    }
+
+    sendSuccess(res, quotation);
+  } catch (error) {
+    if (error instanceof Error) {
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to fetch quotation', 500);
+    }
+  }
+};
+
+// Download quotation as PDF
+export const downloadQuotationPDF = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = getParamId(req.params);
+    const quotation = await quotationService.getQuotationById(id);
+
+    if (!quotation) {
+      sendError(res, 'Quotation not found', 404);
+      return;
+    }
+
+    const pdfBuffer = await pdfService.generateQuotationPDF(quotation);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${quotation.quotationNumber}.pdf"`);
+    res.setHeader('Content-Length', pdfBuffer.length);
+    res.send(pdfBuffer);
+  } catch (error) {
+    console.error('PDF generation error:', error);
+    if (error instanceof Error) {
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to generate PDF', 500);
+    }
+  }
+};
+
+// Create quotation
+export const createQuotation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { name, customerId, startDate, endDate, validUntil, notes, items } = req.body;
+
+    const quotation = await quotationService.createQuotation({
+      name,
+      customerId,
+      startDate,
+      endDate,
+      validUntil,
+      notes,
+      items,
+      createdBy: req.user?.id,
+    });
+
+    sendSuccess(res, quotation, 'Quotation created successfully', 201);
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        sendError(res, error.message, 404);
+        return;
+      }
+      if (error.message.includes('another customer')) {
+        sendError(res, error.message, 403);
+        return;
+      }
+      if (error.message.includes('Cannot') || error.message.includes('At least one')) {
+        sendError(res, error.message, 400);
+        return;
+      }
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to create quotation', 500);
+    }
+  }
+};
+
+// Update quotation
+export const updateQuotation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = getParamId(req.params);
+    const { name, customerId, startDate, endDate, validUntil, notes, items } = req.body;
+
+    const quotation = await quotationService.updateQuotation(id, {
+      name,
+      customerId,
+      startDate,
+      endDate,
+      validUntil,
+      notes,
+      items,
+      updatedBy: req.user?.id,
+    });
+
+    sendSuccess(res, quotation, 'Quotation updated successfully');
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        sendError(res, error.message, 404);
+        return;
+      }
+      if (error.message.includes('another customer')) {
+        sendError(res, error.message, 403);
+        return;
+      }
+      if (error.message.includes('Cannot') || error.message.includes('At least one')) {
+        sendError(res, error.message, 400);
+        return;
+      }
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to update quotation', 500);
+    }
+  }
+};
+
+// Update quotation status
+export const updateQuotationStatus = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = getParamId(req.params);
+    const quotation = await quotationService.updateQuotationStatus(id, req.body.status, req.user?.id);
+    sendSuccess(res, quotation, 'Quotation status updated successfully');
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        sendError(res, error.message, 404);
+        return;
+      }
+      if (error.message.includes('another request')) {
+        sendError(res, error.message, 409);
+        return;
+      }
+      if (error.message.includes('Cannot')) {
+        sendError(res, error.message, 400);
+        return;
+      }
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to update quotation status', 500);
+    }
+  }
+};
+
+// Convert an accepted quotation into a campaign with bookings
+export const convertQuotation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = getParamId(req.params);
+    const result = await quotationService.convertToCampaign(id, req.user?.id);
+    sendSuccess(res, result, 'Quotation converted to campaign successfully', 201);
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        sendError(res, error.message, 404);
+        return;
+      }
+      if (error.message.includes('not available') || error.message.includes('another request')) {
+        sendError(res, error.message, 409);
+        return;
+      }
+      if (error.message.includes('Cannot')) {
+        sendError(res, error.message, 400);
+        return;
+      }
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to convert quotation', 500);
+    }
+  }
+};
+
+// Delete quotation
+export const deleteQuotation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = getParamId(req.params);
+    await quotationService.deleteQuotation(id);
+    sendSuccess(res, null, 'Quotation deleted successfully');
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        sendError(res, error.message, 404);
+        return;
+      }
+      if (error.message.includes('Cannot')) {
+        sendError(res, error.message, 400);
+        return;
+      }
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to delete quotation', 500);
+    }
+  }
+};
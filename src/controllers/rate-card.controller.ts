@@ -0,0 +1,202 @@
+import type { Request, Response } from 'express';
+import { rateCardService } from '../services/rate-card.service.js';
+import { pricingService } from '../services/pricing.service.js';
+import { sendSuccess, sendError } from '../utils/response.js';
+import { getPaginationParams } from '../utils/pagination.js';
+
+const getString = (value: unknown): string | undefined => {
+  return typeof value === 'string' ? value : undefined;
+};
+
+const getParamId = (params: Record<string, unknown>, key: string = 'id'): string => {
+  const id = params[key];
+  if (typeof id !== 'string') {
+    throw new Error('Invalid ID parameter');
+  }
+  return id;
+};
+
+// Get rate cards
+export const getRateCards = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { page, pageSize } = getPaginationParams(req);
+    const isActive = getString(req.query.isActive);
+
+    const result = await rateCardService.getAllRateCards({
+      page,
+      pageSize,
+      billboardId: getString(req.query.billboardId),
+      zoneId: getString(req.query.zoneId),
+      isActive: isActive === undefined ? undefined : isActive === 'true',
+    });
+
+    res.json({
+      success: true,
+      data: result.data,
+      pagination: result.pagination,
+    });
+  } catch (error) {
+    if (error instanceof Error) {
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to fetch rate cards', 500);
+    }
+  }
+};
+
+// Price a billboard for a period
+export const getQuote = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const billboardId = getString(req.query.billboardId);
+    const startDate = getString(req.query.startDate);
+    const endDate = getString(req.query.endDate);
+    const slotQuantity = getString(req.query.slotQuantity);
+
+    if (!billboardId || !startDate || !endDate) {
+      sendError(res, 'billboardId, startDate, and endDate are required', 400);
+      return;
+    }
+
+    const quote = await pricingService.getQuote({
+      billboardId,
+      startDate,
+      endDate,
+      slotQuantity: slotQuantity ? parseInt(slotQuantity) : undefined,
+    });
+    sendSuccess(res, quote);
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        sendError(res, error.message, 404);
+        return;
+      }
+      if (error.message.includes('Cannot')) {
+        sendError(res, error.message, 400);
+        return;
+      }
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to calculate quote', 500);
+    }
+  }
+};
+
+// Get rate card by ID
+export const getRateCardById = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = getParamId(req.params);
+    const rateCard = await rateCardService.getRateCardById(id);
+
+    if (!rateCard) {
+      sendError(res, 'Rate card not found', 404);
+      return;
+    }
+
+    sendSuccess(res, rateCard);
+  } catch (error) {
+    if (error instanceof Error) {
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to fetch rate card', 500);
+    }
+  }
+};
+
+// Create rate card
+export const createRateCard = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { name, billboardId, zoneId, ratePerDay, minimumDays, weekdayMultipliers, description, seasons, discountTiers } = req.body;
+
+    const rateCard = await rateCardService.createRateCard({
+      name,
+      billboardId: billboardId || undefined,
+      zoneId: zoneId || undefined,
+      ratePerDay,
+      minimumDays,
+      weekdayMultipliers,
+      description,
+      seasons,
+      discountTiers,
+      createdBy: req.user?.id,
+    });
+
+    sendSuccess(res, rateCard, 'Rate card created successfully', 201);
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        sendError(res, error.message, 404);
+        return;
+      }
+      if (error.message.includes('already exists')) {
+        sendError(res, error.message, 409);
+        return;
+      }
+      if (error.message.includes('Cannot')) {
+        sendError(res, error.message, 400);
+        return;
+      }
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to create rate card', 500);
+    }
+  }
+};
+
+// Update rate card
+export const updateRateCard = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = getParamId(req.params);
+    const { name, ratePerDay, minimumDays, weekdayMultipliers, description, isActive, seasons, discountTiers } = req.body;
+
+    const rateCard = await rateCardService.updateRateCard(id, {
+      name,
+      ratePerDay,
+      minimumDays,
+      weekdayMultipliers,
+      description,
+      isActive,
+      seasons,
+      discountTiers,
+      updatedBy: req.user?.id,
+    });
+
+    sendSuccess(res, rateCard, 'Rate card updated successfully');
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        sendError(res, error.message, 404);
+        return;
+      }
+      if (error.message.includes('already exists')) {
+        sendError(res, error.message, 409);
+        return;
+      }
+      if (error.message.includes('Cannot')) {
+        sendError(res, error.message, 400);
+        return;
+      }
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to update rate card', 500);
+    }
+  }
+};
+
+// Delete rate card
+export const deleteRateCard = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = getParamId(req.params);
+    await rateCardService.deleteRateCard(id);
+    sendSuccess(res, null, 'Rate card deleted successfully');
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        sendError(res, error.message, 404);
+        return;
+      }
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to delete rate card', 500);
+    }
+  }
+};
@@ -0,0 +1,179 @@
+import type { Request, Response } from 'express';
+import {
+  reportService,
+  type CustomerAging,
+  type AgingInvoiceLine,
+  type ProfitabilityGrouping,
+  type ProfitabilityRow,
+} from '../services/report.service.js';
+import { sendSuccess, sendError } from '../utils/response.js';
+import { toCsv, type CsvColumn } from '../utils/csv.js';
+
+const getString = (value: unknown): string | undefined => {
+  return typeof value === 'string' ? value : undefined;
+};
+
+const getParamId = (params: Record<string, unknown>, key: string = 'id'): string => {
+  const id = params[key];
+  if (typeof id !== 'string') {
+    throw new Error('Invalid ID parameter');
+  }
+  return id;
+};
+
+const sendCsv = (res: Response, filename: string, csv: string): void => {
+  res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+  res.send(csv);
+};
+
+const AGING_SUMMARY_COLUMNS: CsvColumn<CustomerAging>[] = [
+  { header: 'Customer', value: row => row.customerName },
+  { header: 'Invoices', value: row => row.invoiceCount },
+  { header: 'Not Due', value: row => row.notDue.toFixed(2) },
+  { header: '0-30 Days', value: row => row.days0To30.toFixed(2) },
+  { header: '31-60 Days', value: row => row.days31To60.toFixed(2) },
+  { header: '61-90 Days', value: row => row.days61To90.toFixed(2) },
+  { header: '90+ Days', value: row => row.days90Plus.toFixed(2) },
+  { header: 'Total Outstanding', value: row => row.totalOutstanding.toFixed(2) },
+];
+
+const AGING_DETAIL_COLUMNS: CsvColumn<AgingInvoiceLine>[] = [
+  { header: 'Customer', value: row => row.customerName },
+  { header: 'Invoice Number', value: row => row.invoiceNumber },
+  { header: 'Invoice Date', value: row => row.invoiceDate },
+  { header: 'Due Date', value: row => row.dueDate },
+  { header: 'PO Number', value: row => row.poNumber },
+  { header: 'Booking Reference', value: row => row.bookingReference },
+  { header: 'Billboard', value: row => row.billboardCode },
+  { header: 'Invoice Total', value: row => row.totalAmount.toFixed(2) },
+  { header: 'Amount Paid', value: row => row.amountPaid.toFixed(2) },
+  { header: 'Outstanding', value: row => row.outstanding.toFixed(2) },
+  { header: 'Days Past Due', value: row => Math.max(0, row.daysPastDue) },
+  { header: 'Bucket', value: row => row.bucket },
+];
+
+const PROFITABILITY_COLUMNS: CsvColumn<ProfitabilityRow>[] = [
+  { header: 'Code', value: row => row.code },
+  { header: 'Name', value: row => row.name },
+  { header: 'Zone', value: row => row.zoneName },
+  { header: 'City', value: row => row.cityName },
+  { header: 'Region', value: row => row.regionName },
+  { header: 'Billboards', value: row => row.billboardCount },
+  { header: 'Revenue', value: row => row.revenue.toFixed(2) },
+  { header: 'Cost', value: row => row.cost.toFixed(2) },
+  { header: 'Margin', value: row => row.margin.toFixed(2) },
+  { header: 'Margin %', value: row => row.marginPercentage?.toFixed(2) },
+];
+
+const getProfitabilityOptions = (query: Record<string, unknown>) => ({
+  startDate: getString(query.startDate) ?? '',
+  endDate: getString(query.endDate) ?? '',
+  groupBy: getString(query.groupBy) as ProfitabilityGrouping | undefined,
+  regionId: getString(query.regionId),
+  cityId: getString(query.cityId),
+  zoneId: getString(query.zoneId),
+});
+
+// ==================== RECEIVABLES AGING ====================
+
+// Get AR aging summary per customer
+export const getReceivablesAging = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const report = await reportService.getReceivablesAging({
+      asOfDate: getString(req.query.asOfDate),
+      customerId: getString(req.query.customerId),
+    });
+    sendSuccess(res, report);
+  } catch (error) {
+    if (error instanceof Error) {
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to generate receivables aging report', 500);
+    }
+  }
+};
+
+// Drill down into a single customer's outstanding invoices
+export const getCustomerReceivablesAging = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const customerId = getParamId(req.params, 'customerId');
+    const report = await reportService.getCustomerReceivablesAging(customerId, getString(req.query.asOfDate));
+    sendSuccess(res, report);
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        sendError(res, error.message, 404);
+        return;
+      }
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to generate receivables aging report', 500);
+    }
+  }
+};
+
+// Export AR aging as CSV (summary per customer, or invoice-level detail)
+export const exportReceivablesAging = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const asOfDate = getString(req.query.asOfDate);
+    const customerId = getString(req.query.customerId);
+
+    if (getString(req.query.level) === 'detail') {
+      const lines = await reportService.getReceivablesAgingLines({ asOfDate, customerId });
+      sendCsv(res, `receivables-aging-detail-${asOfDate || 'today'}.csv`, toCsv(AGING_DETAIL_COLUMNS, lines));
+      return;
+    }
+
+    const report = await reportService.getReceivablesAging({ asOfDate, customerId });
+    sendCsv(res, `receivables-aging-${report.asOfDate}.csv`, toCsv(AGING_SUMMARY_COLUMNS, report.customers));
+  } catch (error) {
+    if (error instanceof Error) {
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to export receivables aging report', 500);
+    }
+  }
+};
+
+// ==================== PROFITABILITY ====================
+
+// Get revenue vs. rent margin per billboard, zone, city or region
+export const getProfitability = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const report = await reportService.getProfitability(getProfitabilityOptions(req.query));
+    sendSuccess(res, report);
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('Cannot')) {
+        sendError(res, error.message, 400);
+        return;
+      }
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to generate profitability report', 500);
+    }
+  }
+};
+
+// Export the profitability margin table as CSV
+export const exportProfitability = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const report = await reportService.getProfitability(getProfitabilityOptions(req.query));
+    sendCsv(
+      res,
+      `profitability-${report.groupBy}-${report.startDate}-to-${report.endDate}.csv`,
+      toCsv(PROFITABILITY_COLUMNS, report.rows)
+    );
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('Cannot')) {
+        sendError(res, error.message, 400);
+        return;
+      }
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to export profitability report', 500);
+    }
+  }
+};
@@ -0,0 +1,201 @@
+import type { Request, Response } from 'express';
+import { roleService } from '../services/role.service.js';
+import { sendSuccess, sendError } from '../utils/response.js';
+
+const getString = (value: unknown): string | undefined => {
+  return typeof value === 'string' ? value : undefined;
+};
+
+const getBoolean = (value: unknown): boolean | undefined => {
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  return undefined;
+};
+
+const getParamId = (params: Record<string, unknown>): string => {
+  const id = params.id;
+  if (typeof id !== 'string') {
+    throw new Error('Invalid ID parameter');
+  }
+  return id;
+};
+
+// Get all roles
+export const getRoles = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const roles = await roleService.getAllRoles({
+      search: getString(req.query.search),
+      isActive: getBoolean(req.query.isActive),
+    });
+    sendSuccess(res, roles);
+  } catch (error) {
+    if (error instanceof Error) {
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to fetch roles', 500);
+    }
+  }
+};
+
+// Get role by ID
+export const getRoleById = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = getParamId(req.params);
+    const role = await roleService.getRoleById(id);
+
+    if (!role) {
+      sendError(res, 'Role not found', 404);
+      return;
+    }
+
+    sendSuccess(res, role);
+  } catch (error) {
+    if (error instanceof Error) {
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to fetch role', 500);
+    }
+  }
+};
+
+// Create role
+export const createRole = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { name, description, permissionIds } = req.body;
+
+    const role = await roleService.createRole({
+      name,
+      description: description || undefined,
+      permissionIds,
+      createdBy: req.user?.id,
+    });
+
+    sendSuccess(res, role, 'Role created successfully', 201);
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('already exists')) {
+        sendError(res, error.message, 409);
+        return;
+      }
+      if (error.message.includes('not found')) {
+        sendError(res, error.message, 400);
+        return;
+      }
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to create role', 500);
+    }
+  }
+};
+
+// Update role
+export const updateRole = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = getParamId(req.params);
+    const { name, description, isActive, permissionIds } = req.body;
+
+    const role = await roleService.updateRole(id, {
+      name: name || undefined,
+      description,
+      isActive,
+      permissionIds,
+      updatedBy: req.user?.id,
+    });
+
+    sendSuccess(res, role, 'Role updated successfully');
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message === 'Role not found') {
+        sendError(res, error.message, 404);
+        return;
+      }
+      if (error.message.includes('already exists')) {
+        sendError(res, error.message, 409);
+        return;
+      }
+      if (error.message.includes('Cannot') || error.message.includes('not found')) {
+        sendError(res, error.message, 400);
+        return;
+      }
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to update role', 500);
+    }
+  }
+};
+
+// Delete role
+export const deleteRole = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = getParamId(req.params);
+    await roleService.deleteRole(id);
+    sendSuccess(res, null, 'Role deleted successfully');
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        sendError(res, error.message, 404);
+        return;
+      }
+      if (error.message.includes('Cannot')) {
+        sendError(res, error.message, 400);
+        return;
+      }
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to delete role', 500);
+    }
+  }
+};
+
+// Replace all permissions of a role
+export const setRolePermissions = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = getParamId(req.params);
+    const { permissionIds } = req.body;
+
+    const role = await roleService.setRolePermissions(id, permissionIds, req.user?.id);
+    sendSuccess(res, role, 'Role permissions updated successfully');
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message === 'Role not found') {
+        sendError(res, error.message, 404);
+        return;
+      }
+      if (error.message.includes('Cannot') || error.message.includes('not found')) {
+        sendError(res, error.message, 400);
+        return;
+      }
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to update role permissions', 500);
+    }
+  }
+};
+
+// Get all permissions grouped by module
+export const getPermissions = async (_req: Request, res: Response): Promise<void> => {
+  try {
+    const permissions = await roleService.getPermissionsByModule();
+    sendSuccess(res, permissions);
+  } catch (error) {
+    if (error instanceof Error) {
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to fetch permissions', 500);
+    }
+  }
+};
+
+// Get roles x permissions matrix
+export const getPermissionMatrix = async (_req: Request, res: Response): Promise<void> => {
+  try {
+    const matrix = await roleService.getPermissionMatrix();
+    sendSuccess(res, matrix);
+  } catch (error) {
+    if (error instanceof Error) {
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to fetch permission matrix', 500);
+    }
+  }
+};
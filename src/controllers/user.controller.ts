@@ -0,0 +1,205 @@
+import type { Request, Response } from 'express';
+import { userService } from '../services/user.service.js';
+import { sendSuccess, sendError } from '../utils/response.js';
+import { getPaginationParams, getSortParams } from '../utils/pagination.js';
+
+const getString = (value: unknown): string | undefined => {
+  return typeof value === 'string' ? value : undefined;
+};
+
+const getBoolean = (value: unknown): boolean | undefined => {
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  return undefined;
+};
+
+const getParamId = (params: Record<string, unknown>): string => {
+  const id = params.id;
+  if (typeof id !== 'string') {
+    throw new Error('Invalid ID parameter');
+  }
+  return id;
+};
+
+// Get all users
+export const getUsers = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { page, pageSize } = getPaginationParams(req);
+    const { sortBy, sortOrder } = getSortParams(
+      req,
+      ['email', 'firstName', 'lastName', 'lastLoginAt', 'createdAt'],
+      'createdAt'
+    );
+
+    const result = await userService.getAllUsers({
+      page,
+      pageSize,
+      sortBy,
+      sortOrder,
+      search: getString(req.query.search),
+      roleId: getString(req.query.roleId),
+      isActive: getBoolean(req.query.isActive),
+      isCustomer: getBoolean(req.query.isCustomer),
+    });
+
+    res.json({
+      success: true,
+      data: result.data,
+      pagination: result.pagination,
+    });
+  } catch (error) {
+    if (error instanceof Error) {
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to fetch users', 500);
+    }
+  }
+};
+
+// Get user by ID
+export const getUserById = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = getParamId(req.params);
+    const user = await userService.getUserById(id);
+
+    if (!user) {
+      sendError(res, 'User not found', 404);
+      return;
+    }
+
+    sendSuccess(res, user);
+  } catch (error) {
+    if (error instanceof Error) {
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to fetch user', 500);
+    }
+  }
+};
+
+// Create user
+export const createUser = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { email, password, firstName, lastName, phone, isCustomer, customerId, roleIds } = req.body;
+
+    const user = await userService.createUser({
+      email,
+      password,
+      firstName,
+      lastName,
+      phone: phone || undefined,
+      isCustomer: isCustomer ?? false,
+      customerId: customerId || undefined,
+      roleIds,
+      createdBy: req.user?.id,
+    });
+
+    sendSuccess(res, user, 'User created successfully', 201);
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('already registered')) {
+        sendError(res, error.message, 409);
+        return;
+      }
+      if (error.message.includes('not found')) {
+        sendError(res, error.message, 404);
+        return;
+      }
+      if (error.message.includes('Cannot') || error.message.includes('must be')) {
+        sendError(res, error.message, 400);
+        return;
+      }
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to create user', 500);
+    }
+  }
+};
+
+// Update user
+export const updateUser = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = getParamId(req.params);
+    const { email, firstName, lastName, phone, isCustomer, customerId, roleIds, isActive } = req.body;
+
+    const user = await userService.updateUser(id, {
+      email: email || undefined,
+      firstName: firstName || undefined,
+      lastName: lastName || undefined,
+      phone,
+      isCustomer,
+      customerId: customerId === '' ? null : customerId,
+      roleIds,
+      isActive,
+      updatedBy: req.user?.id,
+    });
+
+    sendSuccess(res, user, 'User updated successfully');
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('already registered')) {
+        sendError(res, error.message, 409);
+        return;
+      }
+      if (error.message.includes('not found')) {
+        sendError(res, error.message, 404);
+        return;
+      }
+      if (error.message.includes('Cannot') || error.message.includes('must be')) {
+        sendError(res, error.message, 400);
+        return;
+      }
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to update user', 500);
+    }
+  }
+};
+
+// Deactivate user (users are never hard-deleted)
+export const deactivateUser = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = getParamId(req.params);
+    const user = await userService.deactivateUser(id, req.user?.id);
+    sendSuccess(res, user, 'User deactivated successfully');
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        sendError(res, error.message, 404);
+        return;
+      }
+      if (error.message.includes('Cannot') || error.message.includes('must be')) {
+        sendError(res, error.message, 400);
+        return;
+      }
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to deactivate user', 500);
+    }
+  }
+};
+
+// Admin password reset
+export const resetPassword = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = getParamId(req.params);
+    const { newPassword } = req.body;
+
+    await userService.resetPassword(id, newPassword, req.user?.id);
+    sendSuccess(res, null, 'Password reset successfully');
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        sendError(res, error.message, 404);
+        return;
+      }
+      if (error.message.includes('Cannot') || error.message.includes('must be')) {
+        sendError(res, error.message, 400);
+        return;
+      }
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to reset password', 500);
+    }
+  }
+};
@@ -0,0 +1,152 @@
+import type { Request, Response } from 'express';
+import { waitlistService } from '../services/waitlist.service.js';
+import { sendSuccess, sendError } from '../utils/response.js';
+import { getPaginationParams } from '../utils/pagination.js';
+
+const getString = (value: unknown): string | undefined => {
+  return typeof value === 'string' ? value : undefined;
+};
+
+const getParamId = (params: Record<string, unknown>, key: string = 'id'): string => {
+  const id = params[key];
+  if (typeof id !== 'string') {
+    throw new Error('Invalid ID parameter');
+  }
+  return id;
+};
+
+// Get waitlist entries
+export const getWaitlistEntries = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { page, pageSize } = getPaginationParams(req);
+
+    const result = await waitlistService.getAllEntries({
+      page,
+      pageSize,
+      customerId: getString(req.query.customerId),
+      billboardId: getString(req.query.billboardId),
+      status: getString(req.query.status),
+    });
+
+    res.json({
+      success: true,
+      data: result.data,
+      pagination: result.pagination,
+    });
+  } catch (error) {
+    if (error instanceof Error) {
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to fetch waitlist', 500);
+    }
+  }
+};
+
+// Get waitlist entry by ID
+export const getWaitlistEntryById = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = getParamId(req.params);
+    const entry = await waitlistService.getEntryById(id);
+
+    if (!entry) {
+      sendError(res, 'Waitlist entry not found', 404);
+      return;
+    }
+
+    sendSuccess(res, entry);
+  } catch (error) {
+    if (error instanceof Error) {
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to fetch waitlist entry', 500);
+    }
+  }
+};
+
+// Add a customer to the waitlist
+export const createWaitlistEntry = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { customerId, billboardId, slotNumber, slotQuantity, startDate, endDate, notes } = req.body;
+
+    const entry = await waitlistService.createEntry({
+      customerId,
+      billboardId,
+      slotNumber: slotNumber ? parseInt(slotNumber) : undefined,
+      slotQuantity: slotQuantity ? parseInt(slotQuantity) : undefined,
+      startDate,
+      endDate,
+      notes,
+      createdBy: req.user?.id,
+    });
+
+    sendSuccess(res, entry, 'Added to waitlist successfully', 201);
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        sendError(res, error.message, 404);
+        return;
+      }
+      if (error.message.includes('another customer')) {
+        sendError(res, error.message, 403);
+        return;
+      }
+      if (error.message.includes('already exists')) {
+        sendError(res, error.message, 409);
+        return;
+      }
+      if (error.message.includes('Cannot')) {
+        sendError(res, error.message, 400);
+        return;
+      }
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to add to waitlist', 500);
+    }
+  }
+};
+
+// Update waitlist entry status
+export const updateWaitlistEntryStatus = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = getParamId(req.params);
+    const entry = await waitlistService.updateEntryStatus(id, req.body.status, req.user?.id);
+    sendSuccess(res, entry, 'Waitlist entry updated successfully');
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        sendError(res, error.message, 404);
+        return;
+      }
+      if (error.message.includes('another request')) {
+        sendError(res, error.message, 409);
+        return;
+      }
+      if (error.message.includes('Cannot')) {
+        sendError(res, error.message, 400);
+        return;
+      }
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to update waitlist entry', 500);
+    }
+  }
+};
+
+// Delete waitlist entry
+export const deleteWaitlistEntry = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = getParamId(req.params);
+    await waitlistService.deleteEntry(id);
+    sendSuccess(res, null, 'Waitlist entry deleted successfully');
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        sendError(res, error.message, 404);
+        return;
+      }
+      sendError(res, error.message, 500);
+    } else {
+      sendError(res, 'Failed to delete waitlist entry', 500);
+    }
+  }
+};
@@ -0,0 +1,45 @@
+import { neon } from '@neondatabase/serverless';
+import * as dotenv from 'dotenv';
+import { BOOKING_OVERLAP_CONSTRAINT } from './schema/index.js';
+
+dotenv.config();
+
+const sql = neon(process.env.DATABASE_URL!);
+
+/**
+ * Database-level rules drizzle-kit can't express. Safe to run repeatedly; `npm run db:push` runs it after pushing
+ * the schema, and the server won't start without them.
+ */
+async function applyConstraints() {
+  console.log('🔒 Applying database constraints...\n');
+
+  try {
+    await sql`CREATE EXTENSION IF NOT EXISTS btree_gist`;
+    console.log('   ✓ btree_gist extension');
+
+    // Dropped and re-added in one statement so a changed definition is picked up without a window where it's missing.
+    // A NULL slot gives an unbounded int4range, so a whole-screen booking overlaps every slot.
+    // A short-closed booking only occupies the billboard up to its actual end date.
+    await sql.query(`
+      ALTER TABLE bookings
+        DROP CONSTRAINT IF EXISTS ${BOOKING_OVERLAP_CONSTRAINT},
+        ADD CONSTRAINT ${BOOKING_OVERLAP_CONSTRAINT}
+        EXCLUDE USING gist (
+          billboard_id WITH =,
+          int4range(slot_number, slot_number + COALESCE(slot_quantity, 1) - 1, '[]') WITH &&,
+          daterange(start_date, COALESCE(actual_end_date, end_date), '[]') WITH &&
+        ) WHERE (status <> 'cancelled')
+    `);
+    console.log(`   ✓ ${BOOKING_OVERLAP_CONSTRAINT}`);
+
+    console.log('\n✅ Constraints applied successfully!\n');
+  } catch (error) {
+    console.error('❌ Applying constraints failed:', error);
+    console.error('   If existing bookings overlap, resolve them (or cancel one) and run again.');
+    process.exit(1);
+  }
+
+  process.exit(0);
+}
+
+applyConstraints();
@@ -2,6 +2,7 @@ import { neon } from '@neondatabase/serverless';
 import { drizzle } from 'drizzle-orm/neon-http';
 import { config } from '../config/index.js';
 import * as schema from './schema/index.js';
+import { BOOKING_OVERLAP_CONSTRAINT } from './schema/index.js';
 
 // Create the neon client
 const sql = neon(config.databaseUrl);
@@ -26,3 +27,19 @@ export const testConnection = async (): Promise<boolean> => {
     return false;
   }
 };
+
+// Constraints applied by `npm run db:constraints` that the app relies on, e.g. to prevent double bookings
+const REQUIRED_CONSTRAINTS = [BOOKING_OVERLAP_CONSTRAINT];
+
+/**
+ * Throws if a required constraint is missing, so the server refuses to start rather than running unprotected
+ */
+export const verifyConstraints = async (): Promise<void> => {
+  const rows = await sql`SELECT conname FROM pg_constraint WHERE conname = ANY(${REQUIRED_CONSTRAINTS})`;
+  const present = new Set(rows.map(row => row.conname));
+  const missing = REQUIRED_CONSTRAINTS.filter(name => !present.has(name));
+
+  if (missing.length > 0) {
+    throw new Error(`Missing database constraints: ${missing.join(', ')}. Run \`npm run db:constraints\`.`);
+  }
+};
@@ -1,4 +1,4 @@
-import { pgTable, uuid, varchar, text, decimal, integer, timestamp, boolean, doublePrecision, index } from 'drizzle-orm/pg-core';
+import { pgTable, uuid, varchar, text, decimal, integer, timestamp, doublePrecision, index } from 'drizzle-orm/pg-core';
 import { zones } from './locations.js';
 import { landlords } from './landlords.js';
 
@@ -23,6 +23,8 @@ export const billboards = pgTable('billboards', {
   loopDuration: integer('loop_duration'),
   slotCount: integer('slot_count'),
   slotDuration: integer('slot_duration'),
+  // Archived records are hidden from listings and dropdowns but kept (with their bookings) for history
+  archivedAt: timestamp('archived_at', { withTimezone: true }),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
   createdBy: uuid('created_by'),
@@ -3,6 +3,11 @@ import { customers } from './customers.js';
 import { campaigns } from './campaigns.js';
 import { billboards } from './billboards.js';
 
+// Postgres exclusion constraint preventing overlapping bookings of the same billboard slot.
+// drizzle-kit can't declare EXCLUDE constraints, so it is applied by `npm run db:constraints` (src/db/constraints.ts),
+// which `npm run db:push` runs afterwards. The server checks for it at startup.
+export const BOOKING_OVERLAP_CONSTRAINT = 'bookings_no_overlap';
+
 export const bookings = pgTable('bookings', {
   id: uuid('id').defaultRandom().primaryKey(),
   referenceCode: varchar('reference_code', { length: 50 }).notNull().unique(),
@@ -10,6 +15,8 @@ export const bookings = pgTable('bookings', {
   campaignId: uuid('campaign_id').references(() => campaigns.id, { onDelete: 'set null' }),
   billboardId: uuid('billboard_id').notNull().references(() => billboards.id, { onDelete: 'restrict' }),
   slotNumber: integer('slot_number'),
+  // Share of voice on a digital billboard: slots slotNumber..slotNumber+slotQuantity-1 of its loop. Null with no slot number (whole screen).
+  slotQuantity: integer('slot_quantity'),
   startDate: date('start_date').notNull(),
   endDate: date('end_date').notNull(),
   actualEndDate: date('actual_end_date'),
@@ -30,3 +37,15 @@ export const bookings = pgTable('bookings', {
   endDateIdx: index('bookings_end_date_idx').on(table.endDate),
   refCodeIdx: index('bookings_reference_code_idx').on(table.referenceCode),
 }));
+
+export const bookingStatusHistory = pgTable('booking_status_history', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  bookingId: uuid('booking_id').notNull().references(() => bookings.id, { onDelete: 'cascade' }),
+  fromStatus: varchar('from_status', { length: 20 }),
+  toStatus: varchar('to_status', { length: 20 }).notNull(),
+  reason: text('reason'),
+  changedAt: timestamp('changed_at', { withTimezone: true }).defaultNow().notNull(),
+  changedBy: uuid('changed_by'),
+}, (table) => ({
+  bookingIdx: index('booking_status_history_booking_id_idx').on(table.bookingId),
+}));
@@ -14,6 +14,7 @@ export const customers = pgTable('customers', {
   bankAccount: varchar('bank_account', { length: 50 }),
   ifscCode: varchar('ifsc_code', { length: 20 }),
   isActive: boolean('is_active').default(true).notNull(),
+  archivedAt: timestamp('archived_at', { withTimezone: true }),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
   createdBy: uuid('created_by'),
@@ -0,0 +1,30 @@
+import { pgTable, uuid, varchar, text, integer, timestamp, date, index } from 'drizzle-orm/pg-core';
+import { customers } from './customers.js';
+import { billboards } from './billboards.js';
+import { bookings } from './bookings.js';
+
+// A tentative hold on a billboard for a customer. An active hold blocks other customers' bookings until
+// expiresAt; after that it stops counting without any cleanup (the hold-expiry job only tidies its status).
+export const bookingHolds = pgTable('booking_holds', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  referenceCode: varchar('reference_code', { length: 50 }).notNull().unique(),
+  customerId: uuid('customer_id').notNull().references(() => customers.id, { onDelete: 'restrict' }),
+  billboardId: uuid('billboard_id').notNull().references(() => billboards.id, { onDelete: 'restrict' }),
+  slotNumber: integer('slot_number'),
+  slotQuantity: integer('slot_quantity'),
+  startDate: date('start_date').notNull(),
+  endDate: date('end_date').notNull(),
+  expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+  status: varchar('status', { length: 20 }).notNull().default('active'),
+  bookingId: uuid('booking_id').references(() => bookings.id, { onDelete: 'set null' }),
+  notes: text('notes'),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+  createdBy: uuid('created_by'),
+  updatedBy: uuid('updated_by'),
+}, (table) => ({
+  customerIdx: index('booking_holds_customer_id_idx').on(table.customerId),
+  billboardIdx: index('booking_holds_billboard_id_idx').on(table.billboardId),
+  statusIdx: index('booking_holds_status_idx').on(table.status),
+  expiresAtIdx: index('booking_holds_expires_at_idx').on(table.expiresAt),
+}));
@@ -3,14 +3,21 @@ export * from './users.js';
 export * from './rbac.js';
 export * from './locations.js';
 export * from './billboards.js';
+export * from './maintenance.js';
+export * from './rate-cards.js';
 export * from './landlords.js';
+export * from './leases.js';
 export * from './customers.js';
 export * from './taxes.js';
 export * from './bookings.js';
+export * from './holds.js';
+export * from './waitlist.js';
 export * from './campaigns.js';
+export * from './quotations.js';
 export * from './purchase-orders.js';
 export * from './invoices.js';
 export * from './audit-media.js';
 export * from './audit-logs.js';
+export * from './notifications.js';
 export * from './settings.js';
 export * from './sequences.js';
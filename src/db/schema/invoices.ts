@@ -1,18 +1,20 @@
-import { pgTable, uuid, varchar, text, decimal, timestamp, date, index } from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
+import { pgTable, uuid, varchar, text, decimal, timestamp, date, index, uniqueIndex } from 'drizzle-orm/pg-core';
 import { purchaseOrders } from './purchase-orders.js';
 import { taxes } from './taxes.js';
 
 export const invoices = pgTable('invoices', {
   id: uuid('id').defaultRandom().primaryKey(),
   invoiceNumber: varchar('invoice_number', { length: 50 }).notNull().unique(),
-  purchaseOrderId: uuid('purchase_order_id').notNull().references(() => purchaseOrders.id, { onDelete: 'restrict' }).unique(),
+  purchaseOrderId: uuid('purchase_order_id').notNull().references(() => purchaseOrders.id, { onDelete: 'restrict' }),
   invoiceDate: date('invoice_date').notNull(),
   dueDate: date('due_date').notNull(),
   subtotal: decimal('subtotal', { precision: 14, scale: 2 }).notNull(),
   taxId: uuid('tax_id').references(() => taxes.id, { onDelete: 'set null' }),
   taxAmount: decimal('tax_amount', { precision: 14, scale: 2 }).notNull().default('0'),
   totalAmount: decimal('total_amount', { precision: 14, scale: 2 }).notNull(),
-  paymentStatus: varchar('payment_status', { length: 20 }).notNull().default('unpaid'),
+  amountPaid: decimal('amount_paid', { precision: 14, scale: 2 }).notNull().default('0'), // Sum of payments incl. TDS
+  paymentStatus: varchar('payment_status', { length: 20 }).notNull().default('unpaid'), // unpaid, partially_paid, paid, void
   paymentDate: date('payment_date'),
   paymentNotes: text('payment_notes'),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
@@ -21,7 +23,28 @@ export const invoices = pgTable('invoices', {
   updatedBy: uuid('updated_by'),
 }, (table) => ({
   poIdx: index('invoices_purchase_order_id_idx').on(table.purchaseOrderId),
+  // Only one live invoice per PO; voided invoices are kept for the record
+  activePoIdx: uniqueIndex('invoices_active_purchase_order_id_idx').on(table.purchaseOrderId).where(sql`${table.paymentStatus} <> 'void'`),
   invoiceNumberIdx: index('invoices_invoice_number_idx').on(table.invoiceNumber),
   statusIdx: index('invoices_payment_status_idx').on(table.paymentStatus),
   dateIdx: index('invoices_invoice_date_idx').on(table.invoiceDate),
 }));
+
+export const invoicePayments = pgTable('invoice_payments', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  invoiceId: uuid('invoice_id').notNull().references(() => invoices.id, { onDelete: 'restrict' }),
+  receiptNumber: varchar('receipt_number', { length: 50 }).notNull().unique(),
+  paymentDate: date('payment_date').notNull(),
+  amount: decimal('amount', { precision: 14, scale: 2 }).notNull(), // Amount actually received
+  tdsAmount: decimal('tds_amount', { precision: 14, scale: 2 }).notNull().default('0'), // Tax deducted at source by customer
+  paymentMode: varchar('payment_mode', { length: 20 }).notNull(), // neft, rtgs, imps, cheque, upi, cash
+  referenceNumber: varchar('reference_number', { length: 100 }), // UTR / cheque number / UPI transaction ID
+  notes: text('notes'),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+  createdBy: uuid('created_by'),
+  updatedBy: uuid('updated_by'),
+}, (table) => ({
+  invoiceIdx: index('invoice_payments_invoice_id_idx').on(table.invoiceId),
+  dateIdx: index('invoice_payments_payment_date_idx').on(table.paymentDate),
+}));
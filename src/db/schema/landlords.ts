@@ -14,6 +14,7 @@ export const landlords = pgTable('landlords', {
   rentAmount: decimal('rent_amount', { precision: 12, scale: 2 }).notNull().default('0'),
   paymentFrequency: varchar('payment_frequency', { length: 20 }).notNull().default('monthly'),
   isActive: boolean('is_active').default(true).notNull(),
+  archivedAt: timestamp('archived_at', { withTimezone: true }),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
   createdBy: uuid('created_by'),
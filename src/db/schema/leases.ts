@@ -0,0 +1,51 @@
+import { pgTable, uuid, varchar, text, decimal, timestamp, date, index, unique } from 'drizzle-orm/pg-core';
+import { billboards } from './billboards.js';
+import { landlords } from './landlords.js';
+
+// A structured site lease for a billboard. Rent is per payment period and escalates by
+// escalationPercentage on every anniversary of the start date (compounding).
+export const leaseAgreements = pgTable('lease_agreements', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  leaseNumber: varchar('lease_number', { length: 50 }).notNull().unique(),
+  billboardId: uuid('billboard_id').notNull().references(() => billboards.id, { onDelete: 'restrict' }),
+  landlordId: uuid('landlord_id').notNull().references(() => landlords.id, { onDelete: 'restrict' }),
+  startDate: date('start_date').notNull(),
+  endDate: date('end_date').notNull(),
+  rentAmount: decimal('rent_amount', { precision: 12, scale: 2 }).notNull(),
+  paymentFrequency: varchar('payment_frequency', { length: 20 }).notNull().default('monthly'),
+  escalationPercentage: decimal('escalation_percentage', { precision: 5, scale: 2 }).notNull().default('0'),
+  securityDeposit: decimal('security_deposit', { precision: 12, scale: 2 }).notNull().default('0'),
+  status: varchar('status', { length: 20 }).notNull().default('active'),
+  terms: text('terms'),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+  createdBy: uuid('created_by'),
+  updatedBy: uuid('updated_by'),
+}, (table) => ({
+  billboardIdx: index('lease_agreements_billboard_id_idx').on(table.billboardId),
+  landlordIdx: index('lease_agreements_landlord_id_idx').on(table.landlordId),
+  statusIdx: index('lease_agreements_status_idx').on(table.status),
+}));
+
+// One installment of rent owed to the landlord, due at the start of its period
+export const rentPayables = pgTable('rent_payables', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  leaseId: uuid('lease_id').notNull().references(() => leaseAgreements.id, { onDelete: 'cascade' }),
+  periodStart: date('period_start').notNull(),
+  periodEnd: date('period_end').notNull(),
+  dueDate: date('due_date').notNull(),
+  amount: decimal('amount', { precision: 12, scale: 2 }).notNull(),
+  status: varchar('status', { length: 20 }).notNull().default('pending'),
+  paidDate: date('paid_date'),
+  paidAmount: decimal('paid_amount', { precision: 12, scale: 2 }),
+  paymentReference: varchar('payment_reference', { length: 100 }),
+  notes: text('notes'),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedBy: uuid('updated_by'),
+}, (table) => ({
+  leaseIdx: index('rent_payables_lease_id_idx').on(table.leaseId),
+  dueDateIdx: index('rent_payables_due_date_idx').on(table.dueDate),
+  statusIdx: index('rent_payables_status_idx').on(table.status),
+  leasePeriodUnique: unique('rent_payables_lease_period_unique').on(table.leaseId, table.periodStart),
+}));
@@ -4,6 +4,7 @@ export const regions = pgTable('regions', {
   id: uuid('id').defaultRandom().primaryKey(),
   name: varchar('name', { length: 100 }).notNull(),
   code: varchar('code', { length: 20 }).notNull().unique(),
+  archivedAt: timestamp('archived_at', { withTimezone: true }),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
   createdBy: uuid('created_by'),
@@ -15,6 +16,7 @@ export const cities = pgTable('cities', {
   regionId: uuid('region_id').notNull().references(() => regions.id, { onDelete: 'restrict' }),
   name: varchar('name', { length: 100 }).notNull(),
   code: varchar('code', { length: 20 }).notNull().unique(),
+  archivedAt: timestamp('archived_at', { withTimezone: true }),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
   createdBy: uuid('created_by'),
@@ -28,6 +30,7 @@ export const zones = pgTable('zones', {
   cityId: uuid('city_id').notNull().references(() => cities.id, { onDelete: 'restrict' }),
   name: varchar('name', { length: 100 }).notNull(),
   code: varchar('code', { length: 20 }).notNull().unique(),
+  archivedAt: timestamp('archived_at', { withTimezone: true }),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
   createdBy: uuid('created_by'),
@@ -0,0 +1,21 @@
+import { pgTable, uuid, varchar, text, timestamp, date, index } from 'drizzle-orm/pg-core';
+import { billboards } from './billboards.js';
+
+// Scheduled downtime for a billboard. The whole billboard (every slot) is unavailable from startDate to
+// endDate inclusive; unlike billboards.status = 'maintenance' it has dates and blocks availability.
+export const maintenanceWindows = pgTable('maintenance_windows', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  referenceCode: varchar('reference_code', { length: 50 }).notNull().unique(),
+  billboardId: uuid('billboard_id').notNull().references(() => billboards.id, { onDelete: 'cascade' }),
+  startDate: date('start_date').notNull(),
+  endDate: date('end_date').notNull(),
+  reason: text('reason').notNull(),
+  vendor: varchar('vendor', { length: 200 }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+  createdBy: uuid('created_by'),
+  updatedBy: uuid('updated_by'),
+}, (table) => ({
+  billboardIdx: index('maintenance_windows_billboard_id_idx').on(table.billboardId),
+  datesIdx: index('maintenance_windows_dates_idx').on(table.startDate, table.endDate),
+}));
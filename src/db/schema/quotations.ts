@@ -0,0 +1,46 @@
+import { pgTable, uuid, varchar, text, decimal, integer, timestamp, date, index } from 'drizzle-orm/pg-core';
+import { customers } from './customers.js';
+import { campaigns } from './campaigns.js';
+import { billboards } from './billboards.js';
+
+// A priced proposal sent to a customer. Quotations don't hold inventory until converted into a campaign.
+export const quotations = pgTable('quotations', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  quotationNumber: varchar('quotation_number', { length: 50 }).notNull().unique(),
+  name: varchar('name', { length: 200 }).notNull(),
+  customerId: uuid('customer_id').notNull().references(() => customers.id, { onDelete: 'restrict' }),
+  startDate: date('start_date').notNull(),
+  endDate: date('end_date').notNull(),
+  validUntil: date('valid_until').notNull(),
+  status: varchar('status', { length: 20 }).notNull().default('draft'),
+  subtotal: decimal('subtotal', { precision: 14, scale: 2 }).notNull().default('0'),
+  discountAmount: decimal('discount_amount', { precision: 14, scale: 2 }).notNull().default('0'),
+  totalValue: decimal('total_value', { precision: 14, scale: 2 }).notNull().default('0'),
+  notes: text('notes'),
+  campaignId: uuid('campaign_id').references(() => campaigns.id, { onDelete: 'set null' }),
+  convertedAt: timestamp('converted_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+  createdBy: uuid('created_by'),
+  updatedBy: uuid('updated_by'),
+}, (table) => ({
+  customerIdx: index('quotations_customer_id_idx').on(table.customerId),
+  statusIdx: index('quotations_status_idx').on(table.status),
+}));
+
+export const quotationItems = pgTable('quotation_items', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  quotationId: uuid('quotation_id').notNull().references(() => quotations.id, { onDelete: 'cascade' }),
+  billboardId: uuid('billboard_id').notNull().references(() => billboards.id, { onDelete: 'restrict' }),
+  slotNumber: integer('slot_number'),
+  slotQuantity: integer('slot_quantity'),
+  startDate: date('start_date').notNull(),
+  endDate: date('end_date').notNull(),
+  days: integer('days').notNull(),
+  ratePerDay: decimal('rate_per_day', { precision: 12, scale: 2 }).notNull(),
+  grossAmount: decimal('gross_amount', { precision: 14, scale: 2 }).notNull(),
+  discountPercentage: decimal('discount_percentage', { precision: 5, scale: 2 }).notNull().default('0'),
+  amount: decimal('amount', { precision: 14, scale: 2 }).notNull(),
+}, (table) => ({
+  quotationIdx: index('quotation_items_quotation_id_idx').on(table.quotationId),
+}));
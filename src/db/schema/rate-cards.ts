@@ -0,0 +1,49 @@
+import { pgTable, uuid, varchar, text, decimal, integer, timestamp, date, boolean, jsonb, index } from 'drizzle-orm/pg-core';
+import { billboards } from './billboards.js';
+import { zones } from './locations.js';
+
+export const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+export type Weekday = typeof WEEKDAYS[number];
+
+// A rate card prices either one billboard or every billboard in a zone; a billboard's own card wins
+export const rateCards = pgTable('rate_cards', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  name: varchar('name', { length: 200 }).notNull(),
+  billboardId: uuid('billboard_id').references(() => billboards.id, { onDelete: 'cascade' }),
+  zoneId: uuid('zone_id').references(() => zones.id, { onDelete: 'cascade' }),
+  ratePerDay: decimal('rate_per_day', { precision: 12, scale: 2 }).notNull(),
+  minimumDays: integer('minimum_days'),
+  // Multiplier per weekday, e.g. { "saturday": 1.2, "sunday": 1.2 }; missing days are 1
+  weekdayMultipliers: jsonb('weekday_multipliers').$type<Partial<Record<Weekday, number>>>(),
+  description: text('description'),
+  isActive: boolean('is_active').default(true).notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+  createdBy: uuid('created_by'),
+  updatedBy: uuid('updated_by'),
+}, (table) => ({
+  billboardIdx: index('rate_cards_billboard_id_idx').on(table.billboardId),
+  zoneIdx: index('rate_cards_zone_id_idx').on(table.zoneId),
+}));
+
+// Date-ranged override, e.g. festive season at 1.5x
+export const rateCardSeasons = pgTable('rate_card_seasons', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  rateCardId: uuid('rate_card_id').notNull().references(() => rateCards.id, { onDelete: 'cascade' }),
+  name: varchar('name', { length: 100 }).notNull(),
+  startDate: date('start_date').notNull(),
+  endDate: date('end_date').notNull(),
+  multiplier: decimal('multiplier', { precision: 6, scale: 3 }).notNull(),
+}, (table) => ({
+  rateCardIdx: index('rate_card_seasons_rate_card_id_idx').on(table.rateCardId),
+}));
+
+// Long-duration discount: bookings of at least minDays get the percentage off
+export const rateCardDiscountTiers = pgTable('rate_card_discount_tiers', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  rateCardId: uuid('rate_card_id').notNull().references(() => rateCards.id, { onDelete: 'cascade' }),
+  minDays: integer('min_days').notNull(),
+  discountPercentage: decimal('discount_percentage', { precision: 5, scale: 2 }).notNull(),
+}, (table) => ({
+  rateCardIdx: index('rate_card_discount_tiers_rate_card_id_idx').on(table.rateCardId),
+}));
@@ -8,11 +8,16 @@ export const sequences = pgTable('sequences', {
   pk: primaryKey({ columns: [table.entityType, table.year] }),
 }));
 
-export type SequenceEntityType = 'booking' | 'campaign' | 'po' | 'invoice';
+export type SequenceEntityType = 'booking' | 'campaign' | 'po' | 'invoice' | 'receipt' | 'quotation' | 'hold' | 'lease' | 'maintenance';
 
 export const SEQUENCE_PREFIXES: Record<SequenceEntityType, string> = {
   booking: 'BK',
   campaign: 'CP',
   po: 'PO',
   invoice: 'INV',
+  receipt: 'RCT',
+  quotation: 'QT',
+  hold: 'HLD',
+  lease: 'LSE',
+  maintenance: 'MNT',
 };
@@ -0,0 +1,26 @@
+import { pgTable, uuid, varchar, text, integer, timestamp, date, index } from 'drizzle-orm/pg-core';
+import { customers } from './customers.js';
+import { billboards } from './billboards.js';
+
+// A customer waiting for a booked-out billboard (or slots) and period. Entries move to "notified" once
+// a booking that blocked them is cancelled, deleted or short-closed and the range is free.
+export const waitlistEntries = pgTable('waitlist_entries', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  customerId: uuid('customer_id').notNull().references(() => customers.id, { onDelete: 'cascade' }),
+  billboardId: uuid('billboard_id').notNull().references(() => billboards.id, { onDelete: 'cascade' }),
+  slotNumber: integer('slot_number'),
+  slotQuantity: integer('slot_quantity'),
+  startDate: date('start_date').notNull(),
+  endDate: date('end_date').notNull(),
+  status: varchar('status', { length: 20 }).notNull().default('waiting'),
+  notifiedAt: timestamp('notified_at', { withTimezone: true }),
+  notes: text('notes'),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+  createdBy: uuid('created_by'),
+  updatedBy: uuid('updated_by'),
+}, (table) => ({
+  customerIdx: index('waitlist_entries_customer_id_idx').on(table.customerId),
+  billboardIdx: index('waitlist_entries_billboard_id_idx').on(table.billboardId),
+  statusIdx: index('waitlist_entries_status_idx').on(table.status),
+}));
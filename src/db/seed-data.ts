@@ -0,0 +1,165 @@
+// Default permissions, roles and role grants written by the seed script. Kept apart from seed.ts so they
+// can be imported without connecting to the database.
+
+// Define all permissions by module
+export const permissionsData = [
+  // Dashboard
+  { name: 'dashboard.view', module: 'dashboard', action: 'view', description: 'View dashboard' },
+
+  // Billboards
+  { name: 'billboards.view', module: 'billboards', action: 'view', description: 'View billboards' },
+  { name: 'billboards.create', module: 'billboards', action: 'create', description: 'Create billboards' },
+  { name: 'billboards.edit', module: 'billboards', action: 'edit', description: 'Edit billboards' },
+  { name: 'billboards.delete', module: 'billboards', action: 'delete', description: 'Delete billboards' },
+
+  // Locations (Regions, Cities, Zones)
+  { name: 'locations.view', module: 'locations', action: 'view', description: 'View locations' },
+  { name: 'locations.create', module: 'locations', action: 'create', description: 'Create locations' },
+  { name: 'locations.edit', module: 'locations', action: 'edit', description: 'Edit locations' },
+  { name: 'locations.delete', module: 'locations', action: 'delete', description: 'Delete locations' },
+
+  // Landlords
+  { name: 'landlords.view', module: 'landlords', action: 'view', description: 'View landlords' },
+  { name: 'landlords.create', module: 'landlords', action: 'create', description: 'Create landlords' },
+  { name: 'landlords.edit', module: 'landlords', action: 'edit', description: 'Edit landlords' },
+  { name: 'landlords.delete', module: 'landlords', action: 'delete', description: 'Delete landlords' },
+
+  // Leases
+  { name: 'leases.view', module: 'leases', action: 'view', description: 'View leases and rent due' },
+  { name: 'leases.create', module: 'leases', action: 'create', description: 'Create leases' },
+  { name: 'leases.edit', module: 'leases', action: 'edit', description: 'Edit and terminate leases, record rent payments' },
+  { name: 'leases.delete', module: 'leases', action: 'delete', description: 'Delete leases' },
+
+  // Customers
+  { name: 'customers.view', module: 'customers', action: 'view', description: 'View customers' },
+  { name: 'customers.create', module: 'customers', action: 'create', description: 'Create customers' },
+  { name: 'customers.edit', module: 'customers', action: 'edit', description: 'Edit customers' },
+  { name: 'customers.delete', module: 'customers', action: 'delete', description: 'Delete customers' },
+
+  // Taxes
+  { name: 'taxes.view', module: 'taxes', action: 'view', description: 'View taxes' },
+  { name: 'taxes.create', module: 'taxes', action: 'create', description: 'Create taxes' },
+  { name: 'taxes.edit', module: 'taxes', action: 'edit', description: 'Edit taxes' },
+  { name: 'taxes.delete', module: 'taxes', action: 'delete', description: 'Delete taxes' },
+
+  // Rate Cards
+  { name: 'rate_cards.view', module: 'rate_cards', action: 'view', description: 'View rate cards and quotes' },
+  { name: 'rate_cards.create', module: 'rate_cards', action: 'create', description: 'Create rate cards' },
+  { name: 'rate_cards.edit', module: 'rate_cards', action: 'edit', description: 'Edit rate cards' },
+  { name: 'rate_cards.delete', module: 'rate_cards', action: 'delete', description: 'Delete rate cards' },
+
+  // Quotations
+  { name: 'quotations.view', module: 'quotations', action: 'view', description: 'View quotations' },
+  { name: 'quotations.create', module: 'quotations', action: 'create', description: 'Create quotations' },
+  { name: 'quotations.edit', module: 'quotations', action: 'edit', description: 'Edit, send and convert quotations' },
+  { name: 'quotations.delete', module: 'quotations', action: 'delete', description: 'Delete quotations' },
+
+  // Bookings
+  { name: 'bookings.view', module: 'bookings', action: 'view', description: 'View bookings' },
+  { name: 'bookings.create', module: 'bookings', action: 'create', description: 'Create bookings' },
+  { name: 'bookings.edit', module: 'bookings', action: 'edit', description: 'Edit bookings' },
+  { name: 'bookings.delete', module: 'bookings', action: 'delete', description: 'Delete bookings' },
+
+  // Campaigns
+  { name: 'campaigns.view', module: 'campaigns', action: 'view', description: 'View campaigns' },
+  { name: 'campaigns.create', module: 'campaigns', action: 'create', description: 'Create campaigns' },
+  { name: 'campaigns.edit', module: 'campaigns', action: 'edit', description: 'Edit campaigns' },
+  { name: 'campaigns.delete', module: 'campaigns', action: 'delete', description: 'Delete campaigns' },
+
+  // Purchase Orders
+  { name: 'purchase_orders.view', module: 'purchase_orders', action: 'view', description: 'View purchase orders' },
+  { name: 'purchase_orders.create', module: 'purchase_orders', action: 'create', description: 'Create purchase orders' },
+  { name: 'purchase_orders.edit', module: 'purchase_orders', action: 'edit', description: 'Edit purchase orders' },
+  { name: 'purchase_orders.delete', module: 'purchase_orders', action: 'delete', description: 'Delete purchase orders' },
+
+  // Invoices
+  { name: 'invoices.view', module: 'invoices', action: 'view', description: 'View invoices' },
+  { name: 'invoices.create', module: 'invoices', action: 'create', description: 'Create invoices' },
+  { name: 'invoices.edit', module: 'invoices', action: 'edit', description: 'Edit invoices' },
+  { name: 'invoices.delete', module: 'invoices', action: 'delete', description: 'Delete invoices' },
+
+  // Audit Media
+  { name: 'audit_media.view', module: 'audit_media', action: 'view', description: 'View audit media' },
+  { name: 'audit_media.upload', module: 'audit_media', action: 'upload', description: 'Upload audit media' },
+  { name: 'audit_media.delete', module: 'audit_media', action: 'delete', description: 'Delete audit media' },
+
+  // Reports
+  { name: 'reports.view', module: 'reports', action: 'view', description: 'View reports' },
+  { name: 'reports.export', module: 'reports', action: 'export', description: 'Export reports' },
+
+  // Users
+  { name: 'users.view', module: 'users', action: 'view', description: 'View users' },
+  { name: 'users.create', module: 'users', action: 'create', description: 'Create users' },
+  { name: 'users.edit', module: 'users', action: 'edit', description: 'Edit users' },
+  { name: 'users.delete', module: 'users', action: 'delete', description: 'Delete users' },
+
+  // Roles (RBAC)
+  { name: 'roles.view', module: 'roles', action: 'view', description: 'View roles' },
+  { name: 'roles.create', module: 'roles', action: 'create', description: 'Create roles' },
+  { name: 'roles.edit', module: 'roles', action: 'edit', description: 'Edit roles' },
+  { name: 'roles.delete', module: 'roles', action: 'delete', description: 'Delete roles' },
+
+  // Audit Logs
+  { name: 'audit_logs.view', module: 'audit_logs', action: 'view', description: 'View audit logs' },
+
+  // Settings
+  { name: 'settings.view', module: 'settings', action: 'view', description: 'View settings' },
+  { name: 'settings.edit', module: 'settings', action: 'edit', description: 'Edit settings' },
+
+  // Import
+  { name: 'import.execute', module: 'import', action: 'execute', description: 'Execute bulk imports' },
+];
+
+// Define default roles
+export const rolesData = [
+  { name: 'Super Admin', description: 'Full system access with RBAC management', isSystem: true },
+  { name: 'Sales', description: 'Manage bookings, customers, and campaigns', isSystem: false },
+  { name: 'Accounts', description: 'Manage PO, invoicing, and payment tracking', isSystem: false },
+  { name: 'Operations', description: 'Manage audit media and operations', isSystem: false },
+  { name: 'Customer', description: 'View-only portal access for customers', isSystem: false },
+];
+
+// Define role-permission mappings
+export const rolePermissionMapping: Record<string, string[]> = {
+  'Super Admin': permissionsData.map(p => p.name), // All permissions
+  'Sales': [
+    'dashboard.view',
+    'billboards.view',
+    'locations.view',
+    'customers.view', 'customers.create', 'customers.edit',
+    'rate_cards.view',
+    'quotations.view', 'quotations.create', 'quotations.edit',
+    'bookings.view', 'bookings.create', 'bookings.edit',
+    'campaigns.view', 'campaigns.create', 'campaigns.edit',
+    'reports.view', 'reports.export',
+  ],
+  'Accounts': [
+    'dashboard.view',
+    'billboards.view',
+    'customers.view',
+    'bookings.view',
+    'rate_cards.view',
+    'leases.view', 'leases.edit',
+    'purchase_orders.view', 'purchase_orders.create', 'purchase_orders.edit',
+    'invoices.view', 'invoices.create', 'invoices.edit',
+    'taxes.view', 'taxes.create', 'taxes.edit',
+    'reports.view', 'reports.export',
+  ],
+  'Operations': [
+    'dashboard.view',
+    'billboards.view',
+    'locations.view',
+    'bookings.view',
+    'audit_media.view', 'audit_media.upload', 'audit_media.delete',
+    'reports.view',
+  ],
+  'Customer': [
+    'dashboard.view',
+    'quotations.view',
+    'bookings.view',
+    'campaigns.view',
+    'purchase_orders.view',
+    'invoices.view',
+    'audit_media.view',
+  ],
+};
@@ -0,0 +1,39 @@
+import { bookingService } from '../services/booking.service.js';
+import type { JobDefinition, JobResult } from '../types/index.js';
+
+/**
+ * Advances bookings by date: confirmed bookings become active on their start date and
+ * confirmed/active bookings are completed once their (actual) end date has passed.
+ * Only bookings still in the earlier status are picked up, so re-running a day is a no-op.
+ */
+export const bookingLifecycleJob: JobDefinition = {
+  name: 'booking-lifecycle',
+  description: 'Activate bookings on their start date and complete them after their end date',
+  intervalMinutes: 60,
+
+  async run(asOfDate: string): Promise<JobResult> {
+    const result: JobResult = { processed: 0, failed: 0, messages: [] };
+
+    const transitions = [
+      { status: 'completed', bookings: await bookingService.getBookingsDueForCompletion(asOfDate), reason: `Automatically completed after end date (run for ${asOfDate})` },
+      { status: 'active', bookings: await bookingService.getBookingsDueForActivation(asOfDate), reason: `Automatically activated on start date (run for ${asOfDate})` },
+    ];
+
+    for (const transition of transitions) {
+      for (const booking of transition.bookings) {
+        try {
+          await bookingService.updateBookingStatus(booking.id, transition.status, undefined, {
+            reason: transition.reason,
+          });
+          result.processed += 1;
+          result.messages.push(`${booking.referenceCode}: ${booking.status} -> ${transition.status}`);
+        } catch (error) {
+          result.failed += 1;
+          result.messages.push(`${booking.referenceCode}: failed to move to ${transition.status} (${error instanceof Error ? error.message : error})`);
+        }
+      }
+    }
+
+    return result;
+  },
+};
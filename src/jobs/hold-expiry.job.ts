@@ -0,0 +1,22 @@
+import { holdService } from '../services/hold.service.js';
+import type { JobDefinition, JobResult } from '../types/index.js';
+
+/**
+ * Marks holds past their expiry as expired. Expired holds already stop blocking availability at
+ * expiresAt, so a late or missed run only delays the status change.
+ */
+export const holdExpiryJob: JobDefinition = {
+  name: 'hold-expiry',
+  description: 'Mark tentative holds as expired once their hold period has lapsed',
+  intervalMinutes: 15,
+
+  async run(): Promise<JobResult> {
+    const expired = await holdService.expireLapsedHolds();
+
+    return {
+      processed: expired.length,
+      failed: 0,
+      messages: expired.map(hold => `${hold.referenceCode}: expired at ${hold.expiresAt.toISOString()}`),
+    };
+  },
+};
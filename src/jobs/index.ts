@@ -0,0 +1,58 @@
+import type { JobDefinition, JobResult } from '../types/index.js';
+import { bookingLifecycleJob } from './booking-lifecycle.job.js';
+import { holdExpiryJob } from './hold-expiry.job.js';
+import { waitlistJob } from './waitlist.job.js';
+import { today } from '../utils/dates.js';
+
+// Registered jobs, run by the in-process scheduler and by the jobs:run CLI
+export const jobs: JobDefinition[] = [
+  bookingLifecycleJob,
+  holdExpiryJob,
+  waitlistJob,
+];
+
+const running = new Set<string>();
+
+export const getJob = (name: string): JobDefinition | undefined => {
+  return jobs.find(job => job.name === name);
+};
+
+/**
+ * Run a job once and log its outcome. A job that is still running is skipped rather than overlapped.
+ */
+export const runJob = async (job: JobDefinition, asOfDate: string = today()): Promise<JobResult | null> => {
+  if (running.has(job.name)) {
+    console.warn(`[jobs] ${job.name} is still running, skipping`);
+    return null;
+  }
+
+  running.add(job.name);
+  const startedAt = Date.now();
+
+  try {
+    const result = await job.run(asOfDate);
+    for (const message of result.messages) {
+      console.log(`[jobs] ${job.name}: ${message}`);
+    }
+    console.log(`[jobs] ${job.name} for ${asOfDate}: ${result.processed} processed, ${result.failed} failed in ${Date.now() - startedAt}ms`);
+    return result;
+  } finally {
+    running.delete(job.name);
+  }
+};
+
+/**
+ * Run every job now and then on its interval. Timers don't keep the process alive.
+ */
+export const startScheduler = (): void => {
+  for (const job of jobs) {
+    const tick = () => {
+      runJob(job).catch(error => console.error(`[jobs] ${job.name} failed:`, error));
+    };
+
+    tick();
+    setInterval(tick, job.intervalMinutes * 60 * 1000).unref();
+  }
+
+  console.log(`[jobs] Scheduler started: ${jobs.map(job => `${job.name} every ${job.intervalMinutes}m`).join(', ')}`);
+};
@@ -0,0 +1,50 @@
+import { jobs, getJob, runJob } from './index.js';
+import { today } from '../utils/dates.js';
+
+/**
+ * Run jobs once from the command line, e.g. from cron:
+ *   npm run jobs:run                                  # all jobs for today
+ *   npm run jobs:run -- booking-lifecycle             # one job
+ *   npm run jobs:run -- booking-lifecycle 2025-01-31  # re-run a past day (not a future one)
+ *
+ * "Today" is the business date in India (IST), not the UTC date.
+ */
+const main = async () => {
+  const [name, asOfDate] = process.argv.slice(2);
+
+  if (asOfDate && !/^\d{4}-\d{2}-\d{2}$/.test(asOfDate)) {
+    console.error(`Invalid date "${asOfDate}". Use YYYY-MM-DD.`);
+    process.exit(1);
+  }
+
+  // A future date would act on bookings early, e.g. completing every running booking at once
+  if (asOfDate && asOfDate > today()) {
+    console.error(`Cannot run jobs for ${asOfDate}: it is after today (${today()}).`);
+    process.exit(1);
+  }
+
+  let selected = jobs;
+  if (name && name !== 'all') {
+    const job = getJob(name);
+    if (!job) {
+      console.error(`Unknown job "${name}". Available: ${jobs.map(j => j.name).join(', ')}`);
+      process.exit(1);
+    }
+    selected = [job];
+  }
+
+  let failed = 0;
+  try {
+    for (const job of selected) {
+      const result = await runJob(job, asOfDate);
+      failed += result?.failed || 0;
+    }
+  } catch (error) {
+    console.error('❌ Job run failed:', error);
+    process.exit(1);
+  }
+
+  process.exit(failed > 0 ? 1 : 0);
+};
+
+main();
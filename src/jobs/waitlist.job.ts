@@ -0,0 +1,22 @@
+import { waitlistService } from '../services/waitlist.service.js';
+import type { JobDefinition, JobResult } from '../types/index.js';
+
+/**
+ * Re-checks waiting waitlist entries. Cancellations, deletions and short closes notify straight away;
+ * this catches inventory freed any other way, such as a hold lapsing or being released.
+ */
+export const waitlistJob: JobDefinition = {
+  name: 'waitlist',
+  description: 'Notify waitlist entries whose billboard and period have become available',
+  intervalMinutes: 60,
+
+  async run(): Promise<JobResult> {
+    const { notified } = await waitlistService.processAllWaiting();
+
+    return {
+      processed: notified.length,
+      failed: 0,
+      messages: notified.map(id => `${id}: notified`),
+    };
+  },
+};
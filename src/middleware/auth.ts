@@ -1,6 +1,7 @@
 import type { Request, Response, NextFunction } from 'express';
 import { authService } from '../services/auth.service.js';
 import { sendError } from '../utils/response.js';
+import { runWithRequestContext } from '../utils/request-context.js';
 import type { UserWithPermissions } from '../types/index.js';
 
 // Extend Express Request type
@@ -38,8 +39,26 @@ export const authenticate = async (
       return;
     }
 
+    // Portal users without a customer link would otherwise see unscoped data
+    if (user.isCustomer && !user.customerId) {
+      sendError(res, 'Customer account is not linked to a customer', 403);
+      return;
+    }
+
     req.user = user;
-    next();
+    runWithRequestContext(
+      {
+        userId: user.id,
+        userEmail: user.email,
+        isCustomer: user.isCustomer,
+        customerId: user.customerId,
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent'),
+        requestPath: req.originalUrl,
+        method: req.method,
+      },
+      () => next()
+    );
   } catch (error) {
     if (error instanceof Error) {
       if (error.name === 'TokenExpiredError') {
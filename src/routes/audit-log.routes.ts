@@ -0,0 +1,116 @@
+import { Router } from 'express';
+import { param, query } from 'express-validator';
+import { validate } from '../middleware/validate.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { asyncHandler } from '../middleware/asyncHandler.js';
+import * as auditLogController from '../controllers/audit-log.controller.js';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+/**
+ * @swagger
+ * tags:
+ *   name: Audit Logs
+ *   description: Change history of master data and transactions
+ */
+
+/**
+ * @swagger
+ * /api/audit-logs:
+ *   get:
+ *     summary: Get audit logs
+ *     description: Newest first. Update entries carry a field-level diff in `changes` as { field: { from, to } }.
+ *     tags: [Audit Logs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: pageSize
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: module
+ *         schema:
+ *           type: string
+ *         description: e.g. billboards, bookings, campaigns, purchase_orders, customers, landlords, taxes, locations
+ *       - in: query
+ *         name: entityType
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: entityId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: userId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: action
+ *         schema:
+ *           type: string
+ *           enum: [create, update, delete]
+ *       - in: query
+ *         name: startDate
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: endDate
+ *         schema:
+ *           type: string
+ *           format: date
+ *     responses:
+ *       200:
+ *         description: Paginated list of audit logs
+ */
+router.get(
+  '/',
+  requirePermission('audit_logs.view'),
+  validate([
+    query('entityId').optional({ values: 'falsy' }).isUUID().withMessage('Invalid entity ID'),
+    query('userId').optional({ values: 'falsy' }).isUUID().withMessage('Invalid user ID'),
+    query('action').optional({ values: 'falsy' }).isIn(['create', 'update', 'delete']).withMessage('Invalid action'),
+    query('startDate').optional({ values: 'falsy' }).isDate().withMessage('Invalid start date'),
+    query('endDate').optional({ values: 'falsy' }).isDate().withMessage('Invalid end date'),
+  ]),
+  asyncHandler(auditLogController.getAuditLogs)
+);
+
+/**
+ * @swagger
+ * /api/audit-logs/{id}:
+ *   get:
+ *     summary: Get audit log by ID
+ *     tags: [Audit Logs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Audit log entry with old/new values and changes
+ *       404:
+ *         description: Audit log not found
+ */
+router.get(
+  '/:id',
+  requirePermission('audit_logs.view'),
+  validate([
+    param('id').isUUID().withMessage('Invalid audit log ID'),
+  ]),
+  asyncHandler(auditLogController.getAuditLogById)
+);
+
+export default router;
@@ -0,0 +1,248 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import { validate } from '../middleware/validate.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { asyncHandler } from '../middleware/asyncHandler.js';
+import * as auditMediaController from '../controllers/audit-media.controller.js';
+import { ALLOWED_MEDIA_TYPES } from '../services/audit-media.service.js';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+/**
+ * @swagger
+ * tags:
+ *   name: Audit Media
+ *   description: Proof-of-display photos for bookings
+ */
+
+/**
+ * @swagger
+ * /api/audit-media:
+ *   get:
+ *     summary: Get audit media
+ *     tags: [Audit Media]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: pageSize
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: bookingId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: billboardId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: startDate
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: endDate
+ *         schema:
+ *           type: string
+ *           format: date
+ *     responses:
+ *       200:
+ *         description: Paginated list of media, newest media date first
+ */
+router.get(
+  '/',
+  requirePermission('audit_media.view'),
+  validate([
+    query('bookingId').optional({ values: 'falsy' }).isUUID().withMessage('Invalid booking ID'),
+    query('billboardId').optional({ values: 'falsy' }).isUUID().withMessage('Invalid billboard ID'),
+    query('startDate').optional({ values: 'falsy' }).isDate().withMessage('Invalid start date'),
+    query('endDate').optional({ values: 'falsy' }).isDate().withMessage('Invalid end date'),
+  ]),
+  asyncHandler(auditMediaController.getAuditMedia)
+);
+
+/**
+ * @swagger
+ * /api/audit-media/bookings/{bookingId}/timeline:
+ *   get:
+ *     summary: Get the media timeline for a booking
+ *     description: Media grouped by media date, oldest first.
+ *     tags: [Audit Media]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: bookingId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Booking summary and media grouped by date
+ *       404:
+ *         description: Booking not found
+ */
+router.get(
+  '/bookings/:bookingId/timeline',
+  requirePermission('audit_media.view'),
+  validate([
+    param('bookingId').isUUID().withMessage('Invalid booking ID'),
+  ]),
+  asyncHandler(auditMediaController.getBookingTimeline)
+);
+
+/**
+ * @swagger
+ * /api/audit-media/{id}:
+ *   get:
+ *     summary: Get audit media by ID
+ *     tags: [Audit Media]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Media details
+ *       404:
+ *         description: Media not found
+ */
+router.get(
+  '/:id',
+  requirePermission('audit_media.view'),
+  validate([
+    param('id').isUUID().withMessage('Invalid media ID'),
+  ]),
+  asyncHandler(auditMediaController.getAuditMediaById)
+);
+
+/**
+ * @swagger
+ * /api/audit-media/{id}/file:
+ *   get:
+ *     summary: Download the media file
+ *     tags: [Audit Media]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The image file
+ *       404:
+ *         description: Media not found
+ */
+router.get(
+  '/:id/file',
+  requirePermission('audit_media.view'),
+  validate([
+    param('id').isUUID().withMessage('Invalid media ID'),
+  ]),
+  asyncHandler(auditMediaController.downloadAuditMedia)
+);
+
+/**
+ * @swagger
+ * /api/audit-media:
+ *   post:
+ *     summary: Upload proof-of-display media for a booking
+ *     description: The file is sent base64-encoded. The media date must fall within the booking period.
+ *     tags: [Audit Media]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - bookingId
+ *               - mediaDate
+ *               - fileName
+ *               - mimeType
+ *               - content
+ *             properties:
+ *               bookingId:
+ *                 type: string
+ *               mediaDate:
+ *                 type: string
+ *                 format: date
+ *               fileName:
+ *                 type: string
+ *               mimeType:
+ *                 type: string
+ *                 enum: [image/jpeg, image/png, image/webp, image/heic]
+ *               content:
+ *                 type: string
+ *                 format: byte
+ *               description:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Media uploaded successfully
+ *       400:
+ *         description: Validation error, unsupported type, file too large or date outside the booking
+ *       404:
+ *         description: Booking not found
+ */
+router.post(
+  '/',
+  requirePermission('audit_media.upload'),
+  validate([
+    body('bookingId').isUUID().withMessage('Invalid booking ID'),
+    body('mediaDate').isDate().withMessage('Valid media date is required'),
+    body('fileName').notEmpty().trim().withMessage('File name is required').isLength({ max: 255 }).withMessage('File name too long'),
+    body('mimeType').isIn(Object.keys(ALLOWED_MEDIA_TYPES)).withMessage('Unsupported file type'),
+    body('content').notEmpty().withMessage('File content is required').isBase64().withMessage('File content must be base64 encoded'),
+    body('description').optional({ values: 'falsy' }).trim(),
+  ]),
+  asyncHandler(auditMediaController.uploadAuditMedia)
+);
+
+/**
+ * @swagger
+ * /api/audit-media/{id}:
+ *   delete:
+ *     summary: Delete audit media
+ *     tags: [Audit Media]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Media deleted successfully
+ *       404:
+ *         description: Media not found
+ */
+router.delete(
+  '/:id',
+  requirePermission('audit_media.delete'),
+  validate([
+    param('id').isUUID().withMessage('Invalid media ID'),
+  ]),
+  asyncHandler(auditMediaController.deleteAuditMedia)
+);
+
+export default router;
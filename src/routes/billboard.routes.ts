@@ -81,6 +81,11 @@ router.get(
  *           type: string
  *         description: Search by name, code, or address
  *       - in: query
+ *         name: includeArchived
+ *         schema:
+ *           type: boolean
+ *         description: Include archived billboards (excluded by default)
+ *       - in: query
  *         name: type
  *         schema:
  *           type: string
@@ -151,6 +156,52 @@ router.get(
   asyncHandler(billboardController.getBillboardById)
 );
 
+/**
+ * @swagger
+ * /api/billboards/{id}/playlist:
+ *   get:
+ *     summary: Get the day's loop for a digital billboard
+ *     description: Slots in play order with the booked creative, slot duration and loop duration. Export as M3U or CSV for the screen CMS.
+ *     tags: [Billboards]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: date
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Defaults to today
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [json, m3u, csv]
+ *           default: json
+ *     responses:
+ *       200:
+ *         description: Playlist for the day
+ *       400:
+ *         description: Not a digital billboard with slots and durations
+ *       404:
+ *         description: Billboard not found
+ */
+router.get(
+  '/:id/playlist',
+  requirePermission('billboards.view'),
+  validate([
+    param('id').isUUID().withMessage('Invalid billboard ID'),
+    query('date').optional({ values: 'falsy' }).isDate().withMessage('Invalid date'),
+    query('format').optional({ values: 'falsy' }).isIn(['json', 'm3u', 'csv']).withMessage('Format must be json, m3u or csv'),
+  ]),
+  asyncHandler(billboardController.getBillboardPlaylist)
+);
+
 /**
  * @swagger
  * /api/billboards:
@@ -358,8 +409,8 @@ router.put(
  *     responses:
  *       200:
  *         description: Billboard deleted
- *       400:
- *         description: Cannot delete billboard with bookings
+ *       409:
+ *         description: Billboard is still referenced (blocking records listed in errors); archive it instead
  *       404:
  *         description: Billboard not found
  */
@@ -372,4 +423,69 @@ router.delete(
   asyncHandler(billboardController.deleteBillboard)
 );
 
+/**
+ * @swagger
+ * /api/billboards/{id}/archive:
+ *   post:
+ *     summary: Archive a billboard
+ *     description: |
+ *       Archived billboards are hidden from listings and dropdowns, and can't be booked, held or quoted, but keep their history.
+ *       Restore to bring the billboard back. Open bookings still run; they are returned as upcomingBookings.
+ *     tags: [Billboards]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Billboard archived, with upcomingBookings that still run
+ *       400:
+ *         description: Billboard is already archived
+ *       404:
+ *         description: Billboard not found
+ */
+router.post(
+  '/:id/archive',
+  requirePermission('billboards.edit'),
+  validate([
+    param('id').isUUID().withMessage('Invalid billboard ID'),
+  ]),
+  asyncHandler(billboardController.archiveBillboard)
+);
+
+/**
+ * @swagger
+ * /api/billboards/{id}/restore:
+ *   post:
+ *     summary: Restore an archived billboard
+ *     tags: [Billboards]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Billboard restored
+ *       400:
+ *         description: Billboard is not archived
+ *       404:
+ *         description: Billboard not found
+ */
+router.post(
+  '/:id/restore',
+  requirePermission('billboards.edit'),
+  validate([
+    param('id').isUUID().withMessage('Invalid billboard ID'),
+  ]),
+  asyncHandler(billboardController.restoreBillboard)
+);
+
 export default router;
@@ -1,7 +1,7 @@
 import { Router } from 'express';
 import { body } from 'express-validator';
 import { bookingController } from '../controllers/booking.controller.js';
-import { authenticate } from '../middleware/auth.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
 
 const router = Router();
 
@@ -34,6 +34,10 @@ router.use(authenticate);
  *         slotNumber:
  *           type: integer
  *           nullable: true
+ *         slotQuantity:
+ *           type: integer
+ *           nullable: true
+ *           description: Consecutive slots held from slotNumber (share of voice)
  *         startDate:
  *           type: string
  *           format: date
@@ -89,13 +93,17 @@ router.use(authenticate);
  *       200:
  *         description: List of bookings
  */
-router.get('/', bookingController.getAllBookings);
+router.get('/', requirePermission('bookings.view'), bookingController.getAllBookings);
 
 /**
  * @swagger
  * /api/bookings/availability:
  *   get:
  *     summary: Check billboard availability
+ *     description: |
+ *       Conflicts include unexpired holds, maintenance and lease gaps, told apart by type.
+ *       Customer portal users only see their own bookings and holds in detail; anything else comes back as type
+ *       unavailable with just its dates and slots.
  *     tags: [Bookings]
  *     security:
  *       - bearerAuth: []
@@ -122,14 +130,23 @@ router.get('/', bookingController.getAllBookings);
  *         schema:
  *           type: integer
  *       - in: query
+ *         name: slotQuantity
+ *         schema:
+ *           type: integer
+ *       - in: query
  *         name: excludeBookingId
  *         schema:
  *           type: string
+ *       - in: query
+ *         name: customerId
+ *         schema:
+ *           type: string
+ *         description: Customer being booked for; their own holds are not conflicts
  *     responses:
  *       200:
  *         description: Availability status
  */
-router.get('/availability', bookingController.checkAvailability);
+router.get('/availability', requirePermission('bookings.view'), bookingController.checkAvailability);
 
 /**
  * @swagger
@@ -161,13 +178,14 @@ router.get('/availability', bookingController.checkAvailability);
  *       200:
  *         description: List of bookings in date range
  */
-router.get('/date-range', bookingController.getBookingsForDateRange);
+router.get('/date-range', requirePermission('bookings.view'), bookingController.getBookingsForDateRange);
 
 /**
  * @swagger
  * /api/bookings/calendar/{billboardId}:
  *   get:
  *     summary: Get calendar bookings for a billboard
+ *     description: Unexpired holds are listed with the bookings; entries have a type of booking or hold.
  *     tags: [Bookings]
  *     security:
  *       - bearerAuth: []
@@ -191,7 +209,43 @@ router.get('/date-range', bookingController.getBookingsForDateRange);
  *       200:
  *         description: Calendar bookings for the month
  */
-router.get('/calendar/:billboardId', bookingController.getCalendarBookings);
+router.get('/calendar/:billboardId', requirePermission('bookings.view'), bookingController.getCalendarBookings);
+
+/**
+ * @swagger
+ * /api/bookings/slot-grid/{billboardId}:
+ *   get:
+ *     summary: Get the per-day slot availability grid for a digital billboard
+ *     tags: [Bookings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: billboardId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: startDate
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: endDate
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *     responses:
+ *       200:
+ *         description: Slot occupancy for each day (up to 93 days)
+ *       400:
+ *         description: Not a digital billboard with slots, or invalid date range
+ *       404:
+ *         description: Billboard not found
+ */
+router.get('/slot-grid/:billboardId', requirePermission('bookings.view'), bookingController.getSlotGrid);
 
 /**
  * @swagger
@@ -213,7 +267,7 @@ router.get('/calendar/:billboardId', bookingController.getCalendarBookings);
  *       404:
  *         description: Booking not found
  */
-router.get('/:id', bookingController.getBookingById);
+router.get('/:id', requirePermission('bookings.view'), bookingController.getBookingById);
 
 /**
  * @swagger
@@ -243,6 +297,9 @@ router.get('/:id', bookingController.getBookingById);
  *                 type: string
  *               slotNumber:
  *                 type: integer
+ *               slotQuantity:
+ *                 type: integer
+ *                 description: Consecutive slots to book; without slotNumber the first free run is assigned
  *               startDate:
  *                 type: string
  *                 format: date
@@ -263,6 +320,7 @@ router.get('/:id', bookingController.getBookingById);
  */
 router.post(
   '/',
+  requirePermission('bookings.create'),
   [
     body('customerId').notEmpty().withMessage('Customer ID is required').isUUID(),
     body('billboardId').notEmpty().withMessage('Billboard ID is required').isUUID(),
@@ -270,6 +328,7 @@ router.post(
     body('endDate').notEmpty().withMessage('End date is required').isDate(),
     body('campaignId').optional({ nullable: true }).isUUID(),
     body('slotNumber').optional({ nullable: true }).isInt({ min: 1 }),
+    body('slotQuantity').optional({ nullable: true }).isInt({ min: 1 }),
     body('notionalValue').optional().isString(),
     body('creativeRef').optional().isString(),
     body('notes').optional().isString(),
@@ -282,6 +341,7 @@ router.post(
  * /api/bookings/{id}:
  *   put:
  *     summary: Update a booking
+ *     description: Status can't be changed here; use PATCH /api/bookings/{id}/status.
  *     tags: [Bookings]
  *     security:
  *       - bearerAuth: []
@@ -306,6 +366,9 @@ router.post(
  *                 type: string
  *               slotNumber:
  *                 type: integer
+ *               slotQuantity:
+ *                 type: integer
+ *                 description: Consecutive slots to book; without slotNumber the first free run is assigned
  *               startDate:
  *                 type: string
  *                 format: date
@@ -314,8 +377,6 @@ router.post(
  *                 format: date
  *               notionalValue:
  *                 type: string
- *               status:
- *                 type: string
  *               creativeRef:
  *                 type: string
  *               notes:
@@ -323,22 +384,26 @@ router.post(
  *     responses:
  *       200:
  *         description: Booking updated
+ *       400:
+ *         description: Validation failed, including a status in the body
  *       404:
  *         description: Booking not found
  *       409:
- *         description: Billboard not available
+ *         description: Billboard not available, or booking was changed by another request
  */
 router.put(
   '/:id',
+  requirePermission('bookings.edit'),
   [
     body('customerId').optional().isUUID(),
     body('billboardId').optional().isUUID(),
     body('campaignId').optional({ nullable: true }).isUUID(),
     body('slotNumber').optional({ nullable: true }).isInt({ min: 1 }),
+    body('slotQuantity').optional({ nullable: true }).isInt({ min: 1 }),
     body('startDate').optional().isDate(),
     body('endDate').optional().isDate(),
     body('notionalValue').optional().isString(),
-    body('status').optional().isString(),
+    body('status').not().exists().withMessage('Use PATCH /api/bookings/{id}/status to change the status'),
     body('creativeRef').optional().isString(),
     body('notes').optional().isString(),
   ],
@@ -350,6 +415,10 @@ router.put(
  * /api/bookings/{id}/status:
  *   patch:
  *     summary: Update booking status
+ *     description: |
+ *       Allowed moves: created → confirmed/cancelled, confirmed → active/completed/cancelled, active → completed/cancelled.
+ *       A booking can be activated from its start date and completed from its end date (use short close to end early).
+ *       Cancelling requires a reason. po_generated and invoiced are set by the purchase order and invoice workflow.
  *     tags: [Bookings]
  *     security:
  *       - bearerAuth: []
@@ -370,12 +439,52 @@ router.put(
  *             properties:
  *               status:
  *                 type: string
- *                 enum: [created, confirmed, active, completed, po_generated, invoiced]
+ *                 enum: [confirmed, active, completed, cancelled]
+ *               reason:
+ *                 type: string
+ *                 description: Required when cancelling
  *     responses:
  *       200:
  *         description: Status updated
+ *       400:
+ *         description: Transition not allowed
+ *       404:
+ *         description: Booking not found
+ *       409:
+ *         description: Booking was changed by another request
+ */
+router.patch(
+  '/:id/status',
+  requirePermission('bookings.edit'),
+  [
+    body('status').notEmpty().withMessage('status is required').isString(),
+    body('reason').optional({ values: 'falsy' }).isString().trim(),
+  ],
+  bookingController.updateBookingStatus
+);
+
+/**
+ * @swagger
+ * /api/bookings/{id}/history:
+ *   get:
+ *     summary: Get booking status history
+ *     description: Status changes newest first, with who made them and why, plus the statuses the booking can move to next.
+ *     tags: [Bookings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Booking status history
+ *       404:
+ *         description: Booking not found
  */
-router.patch('/:id/status', bookingController.updateBookingStatus);
+router.get('/:id/history', requirePermission('bookings.view'), bookingController.getBookingStatusHistory);
 
 /**
  * @swagger
@@ -419,6 +528,7 @@ router.patch('/:id/status', bookingController.updateBookingStatus);
  */
 router.post(
   '/:id/short-close',
+  requirePermission('bookings.edit'),
   [
     body('actualEndDate').notEmpty().withMessage('Actual end date is required').isDate(),
     body('reason').notEmpty().withMessage('Reason is required').isString(),
@@ -448,6 +558,6 @@ router.post(
  *       404:
  *         description: Booking not found
  */
-router.delete('/:id', bookingController.deleteBooking);
+router.delete('/:id', requirePermission('bookings.delete'), bookingController.deleteBooking);
 
 export default router;
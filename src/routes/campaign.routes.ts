@@ -1,7 +1,7 @@
 import { Router } from 'express';
 import { body } from 'express-validator';
 import { campaignController } from '../controllers/campaign.controller.js';
-import { authenticate } from '../middleware/auth.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
 
 const router = Router();
 
@@ -71,7 +71,7 @@ router.use(authenticate);
  *       200:
  *         description: List of campaigns
  */
-router.get('/', campaignController.getAllCampaigns);
+router.get('/', requirePermission('campaigns.view'), campaignController.getAllCampaigns);
 
 /**
  * @swagger
@@ -97,7 +97,7 @@ router.get('/', campaignController.getAllCampaigns);
  *       200:
  *         description: List of available bookings
  */
-router.get('/available-bookings', campaignController.getAvailableBookings);
+router.get('/available-bookings', requirePermission('campaigns.view'), campaignController.getAvailableBookings);
 
 /**
  * @swagger
@@ -126,7 +126,7 @@ router.get('/available-bookings', campaignController.getAvailableBookings);
  *       200:
  *         description: List of billboards with availability info
  */
-router.get('/available-billboards', campaignController.getAvailableBillboards);
+router.get('/available-billboards', requirePermission('campaigns.view'), campaignController.getAvailableBillboards);
 
 /**
  * @swagger
@@ -148,7 +148,7 @@ router.get('/available-billboards', campaignController.getAvailableBillboards);
  *       404:
  *         description: Campaign not found
  */
-router.get('/:id', campaignController.getCampaignById);
+router.get('/:id', requirePermission('campaigns.view'), campaignController.getCampaignById);
 
 /**
  * @swagger
@@ -180,12 +180,35 @@ router.get('/:id', campaignController.getCampaignById);
  *               endDate:
  *                 type: string
  *                 format: date
+ *               billboards:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     billboardId:
+ *                       type: string
+ *                     slotNumber:
+ *                       type: integer
+ *                     slotQuantity:
+ *                       type: integer
+ *                     startDate:
+ *                       type: string
+ *                       format: date
+ *                       description: Defaults to the campaign start date
+ *                     endDate:
+ *                       type: string
+ *                       format: date
+ *                       description: Defaults to the campaign end date
+ *                     notionalValue:
+ *                       type: string
+ *                       description: Agreed price instead of the rate card price
  *     responses:
  *       201:
  *         description: Campaign created
  */
 router.post(
   '/',
+  requirePermission('campaigns.create'),
   [
     body('name').notEmpty().withMessage('Name is required').isString().trim(),
     body('customerId').notEmpty().withMessage('Customer ID is required').isUUID(),
@@ -195,6 +218,10 @@ router.post(
     body('billboards').isArray({ min: 1 }).withMessage('At least one billboard is required'),
     body('billboards.*.billboardId').notEmpty().withMessage('Billboard ID is required').isUUID(),
     body('billboards.*.slotNumber').optional().isInt({ min: 1 }),
+    body('billboards.*.slotQuantity').optional().isInt({ min: 1 }),
+    body('billboards.*.startDate').optional().isDate(),
+    body('billboards.*.endDate').optional().isDate(),
+    body('billboards.*.notionalValue').optional().isDecimal(),
   ],
   campaignController.createCampaign
 );
@@ -240,6 +267,7 @@ router.post(
  */
 router.put(
   '/:id',
+  requirePermission('campaigns.edit'),
   [
     body('name').optional().isString().trim(),
     body('customerId').optional().isUUID(),
@@ -287,6 +315,7 @@ router.put(
  */
 router.post(
   '/:id/bookings',
+  requirePermission('campaigns.edit'),
   [
     body('bookingId').notEmpty().withMessage('Booking ID is required').isUUID(),
   ],
@@ -320,7 +349,7 @@ router.post(
  *       404:
  *         description: Booking not found in this campaign
  */
-router.delete('/:id/bookings/:bookingId', campaignController.removeBookingFromCampaign);
+router.delete('/:id/bookings/:bookingId', requirePermission('campaigns.edit'), campaignController.removeBookingFromCampaign);
 
 /**
  * @swagger
@@ -344,6 +373,6 @@ router.delete('/:id/bookings/:bookingId', campaignController.removeBookingFromCa
  *       404:
  *         description: Campaign not found
  */
-router.delete('/:id', campaignController.deleteCampaign);
+router.delete('/:id', requirePermission('campaigns.delete'), campaignController.deleteCampaign);
 
 export default router;
@@ -57,6 +57,11 @@ router.get(
  *           type: string
  *         description: Search by name
  *       - in: query
+ *         name: includeArchived
+ *         schema:
+ *           type: boolean
+ *         description: Include archived customers (excluded by default)
+ *       - in: query
  *         name: isActive
  *         schema:
  *           type: boolean
@@ -243,8 +248,8 @@ router.put(
  *     responses:
  *       200:
  *         description: Customer deleted
- *       400:
- *         description: Cannot delete customer with bookings
+ *       409:
+ *         description: Customer is still referenced (blocking records listed in errors); archive it instead
  *       404:
  *         description: Customer not found
  */
@@ -257,4 +262,69 @@ router.delete(
   asyncHandler(customerController.deleteCustomer)
 );
 
+/**
+ * @swagger
+ * /api/customers/{id}/archive:
+ *   post:
+ *     summary: Archive a customer
+ *     description: |
+ *       Archived customers are hidden from listings and dropdowns, and can't be booked, held or quoted, but keep their history.
+ *       Restore to bring the customer back. Open bookings still run; they are returned as upcomingBookings.
+ *     tags: [Customers]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Customer archived, with upcomingBookings that still run
+ *       400:
+ *         description: Customer is already archived
+ *       404:
+ *         description: Customer not found
+ */
+router.post(
+  '/:id/archive',
+  requirePermission('customers.edit'),
+  validate([
+    param('id').isUUID().withMessage('Invalid customer ID'),
+  ]),
+  asyncHandler(customerController.archiveCustomer)
+);
+
+/**
+ * @swagger
+ * /api/customers/{id}/restore:
+ *   post:
+ *     summary: Restore an archived customer
+ *     tags: [Customers]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Customer restored
+ *       400:
+ *         description: Customer is not archived
+ *       404:
+ *         description: Customer not found
+ */
+router.post(
+  '/:id/restore',
+  requirePermission('customers.edit'),
+  validate([
+    param('id').isUUID().withMessage('Invalid customer ID'),
+  ]),
+  asyncHandler(customerController.restoreCustomer)
+);
+
 export default router;
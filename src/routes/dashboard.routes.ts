@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import { dashboardController } from '../controllers/dashboard.controller.js';
-import { authenticate } from '../middleware/auth.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
 
 const router = Router();
 
@@ -107,7 +107,7 @@ router.use(authenticate);
  *             schema:
  *               $ref: '#/components/schemas/DashboardStats'
  */
-router.get('/stats', dashboardController.getStats);
+router.get('/stats', requirePermission('dashboard.view'), dashboardController.getStats);
 
 /**
  * @swagger
@@ -134,13 +134,14 @@ router.get('/stats', dashboardController.getStats);
  *               items:
  *                 $ref: '#/components/schemas/RecentBooking'
  */
-router.get('/recent-bookings', dashboardController.getRecentBookings);
+router.get('/recent-bookings', requirePermission('dashboard.view'), dashboardController.getRecentBookings);
 
 /**
  * @swagger
  * /api/dashboard/occupancy:
  *   get:
  *     summary: Get billboard occupancy rates
+ *     description: Customer portal users only get the billboards they have booked, occupied by their own bookings.
  *     tags: [Dashboard]
  *     security:
  *       - bearerAuth: []
@@ -171,7 +172,7 @@ router.get('/recent-bookings', dashboardController.getRecentBookings);
  *       400:
  *         description: Missing required date parameters
  */
-router.get('/occupancy', dashboardController.getOccupancyRates);
+router.get('/occupancy', requirePermission('dashboard.view'), dashboardController.getOccupancyRates);
 
 /**
  * @swagger
@@ -198,7 +199,7 @@ router.get('/occupancy', dashboardController.getOccupancyRates);
  *               items:
  *                 $ref: '#/components/schemas/RevenueByMonth'
  */
-router.get('/revenue-by-month', dashboardController.getRevenueByMonth);
+router.get('/revenue-by-month', requirePermission('dashboard.view'), dashboardController.getRevenueByMonth);
 
 /**
  * @swagger
@@ -225,6 +226,6 @@ router.get('/revenue-by-month', dashboardController.getRevenueByMonth);
  *               items:
  *                 $ref: '#/components/schemas/RecentBooking'
  */
-router.get('/upcoming-bookings', dashboardController.getUpcomingBookings);
+router.get('/upcoming-bookings', requirePermission('dashboard.view'), dashboardController.getUpcomingBookings);
 
 export default router;
@@ -0,0 +1,242 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import { validate } from '../middleware/validate.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { asyncHandler } from '../middleware/asyncHandler.js';
+import * as holdController from '../controllers/hold.controller.js';
+import { HOLD_STATUSES, MAX_HOLD_DAYS } from '../services/hold.service.js';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+/**
+ * @swagger
+ * tags:
+ *   name: Holds
+ *   description: Tentative holds on billboard inventory that lapse automatically
+ */
+
+/**
+ * @swagger
+ * /api/holds:
+ *   get:
+ *     summary: Get holds
+ *     description: Holds past their expiry are reported as expired.
+ *     tags: [Holds]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: pageSize
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: customerId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: billboardId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [active, converted, released, expired]
+ *     responses:
+ *       200:
+ *         description: Paginated list of holds
+ */
+router.get(
+  '/',
+  requirePermission('bookings.view'),
+  validate([
+    query('customerId').optional({ values: 'falsy' }).isUUID().withMessage('Invalid customer ID'),
+    query('billboardId').optional({ values: 'falsy' }).isUUID().withMessage('Invalid billboard ID'),
+    query('status').optional({ values: 'falsy' }).isIn(HOLD_STATUSES).withMessage('Invalid status'),
+  ]),
+  asyncHandler(holdController.getHolds)
+);
+
+/**
+ * @swagger
+ * /api/holds/{id}:
+ *   get:
+ *     summary: Get hold by ID
+ *     tags: [Holds]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Hold details
+ *       404:
+ *         description: Hold not found
+ */
+router.get(
+  '/:id',
+  requirePermission('bookings.view'),
+  validate([
+    param('id').isUUID().withMessage('Invalid hold ID'),
+  ]),
+  asyncHandler(holdController.getHoldById)
+);
+
+/**
+ * @swagger
+ * /api/holds:
+ *   post:
+ *     summary: Hold a billboard for a customer
+ *     description: The hold blocks other customers' bookings and holds on the billboard (or slots) for the period until it expires, converts or is released.
+ *     tags: [Holds]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - customerId
+ *               - billboardId
+ *               - startDate
+ *               - endDate
+ *             properties:
+ *               customerId:
+ *                 type: string
+ *               billboardId:
+ *                 type: string
+ *               slotNumber:
+ *                 type: integer
+ *               slotQuantity:
+ *                 type: integer
+ *                 description: Consecutive slots of a digital billboard; the first free run is held when no slot number is given
+ *               startDate:
+ *                 type: string
+ *                 format: date
+ *               endDate:
+ *                 type: string
+ *                 format: date
+ *               days:
+ *                 type: integer
+ *                 description: How many days the hold lasts (default 7, max 30)
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Hold created successfully
+ *       400:
+ *         description: Validation error
+ *       409:
+ *         description: Billboard is booked or held for the period
+ */
+router.post(
+  '/',
+  requirePermission('bookings.create'),
+  validate([
+    body('customerId').isUUID().withMessage('Invalid customer ID'),
+    body('billboardId').isUUID().withMessage('Invalid billboard ID'),
+    body('slotNumber').optional({ values: 'falsy' }).isInt({ min: 1 }).withMessage('Slot number must be a positive integer'),
+    body('slotQuantity').optional({ values: 'falsy' }).isInt({ min: 1 }).withMessage('Slot quantity must be a positive integer'),
+    body('startDate').isDate().withMessage('Valid start date is required'),
+    body('endDate').isDate().withMessage('Valid end date is required'),
+    body('days').optional({ values: 'falsy' }).isInt({ min: 1, max: MAX_HOLD_DAYS }).withMessage(`Days must be between 1 and ${MAX_HOLD_DAYS}`),
+    body('notes').optional({ values: 'falsy' }).trim(),
+  ]),
+  asyncHandler(holdController.createHold)
+);
+
+/**
+ * @swagger
+ * /api/holds/{id}/release:
+ *   post:
+ *     summary: Release an active hold
+ *     tags: [Holds]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Hold released successfully
+ *       400:
+ *         description: Hold is not active
+ *       404:
+ *         description: Hold not found
+ */
+router.post(
+  '/:id/release',
+  requirePermission('bookings.edit'),
+  validate([
+    param('id').isUUID().withMessage('Invalid hold ID'),
+  ]),
+  asyncHandler(holdController.releaseHold)
+);
+
+/**
+ * @swagger
+ * /api/holds/{id}/convert:
+ *   post:
+ *     summary: Convert an active hold into a booking
+ *     description: Books the held billboard and slots for the hold's customer. Expired holds can't be converted.
+ *     tags: [Holds]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               notionalValue:
+ *                 type: string
+ *                 description: Defaults to the rate card price
+ *               creativeRef:
+ *                 type: string
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Booking created from the hold
+ *       400:
+ *         description: Hold is not active or has expired
+ *       404:
+ *         description: Hold not found
+ *       409:
+ *         description: Billboard was booked by another request
+ */
+router.post(
+  '/:id/convert',
+  requirePermission('bookings.create'),
+  validate([
+    param('id').isUUID().withMessage('Invalid hold ID'),
+    body('notionalValue').optional({ values: 'falsy' }).isDecimal().withMessage('Notional value must be a number'),
+    body('creativeRef').optional({ values: 'falsy' }).trim(),
+    body('notes').optional({ values: 'falsy' }).trim(),
+  ]),
+  asyncHandler(holdController.convertHold)
+);
+
+export default router;
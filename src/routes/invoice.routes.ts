@@ -0,0 +1,578 @@
+import { Router } from 'express';
+import { body, param } from 'express-validator';
+import { validate } from '../middleware/validate.js';
+import { PAYMENT_MODES } from '../services/invoice.service.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { asyncHandler } from '../middleware/asyncHandler.js';
+import * as invoiceController from '../controllers/invoice.controller.js';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Invoice:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         invoiceNumber:
+ *           type: string
+ *           example: "INV-2024-0001"
+ *         purchaseOrderId:
+ *           type: string
+ *           format: uuid
+ *         invoiceDate:
+ *           type: string
+ *           format: date
+ *         dueDate:
+ *           type: string
+ *           format: date
+ *         subtotal:
+ *           type: string
+ *           example: "45000.00"
+ *         taxId:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *         taxAmount:
+ *           type: string
+ *           example: "8100.00"
+ *         totalAmount:
+ *           type: string
+ *           example: "53100.00"
+ *         amountPaid:
+ *           type: string
+ *           description: Total settled including TDS
+ *           example: "20000.00"
+ *         balanceDue:
+ *           type: string
+ *           example: "33100.00"
+ *         paymentStatus:
+ *           type: string
+ *           enum: [unpaid, partially_paid, paid, void]
+ *         paymentDate:
+ *           type: string
+ *           format: date
+ *           nullable: true
+ *           description: Date of the payment that settled the invoice
+ *         paymentNotes:
+ *           type: string
+ *     InvoicePayment:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         invoiceId:
+ *           type: string
+ *           format: uuid
+ *         receiptNumber:
+ *           type: string
+ *           example: "RCT-2024-0001"
+ *         paymentDate:
+ *           type: string
+ *           format: date
+ *         amount:
+ *           type: string
+ *           example: "18000.00"
+ *         tdsAmount:
+ *           type: string
+ *           example: "2000.00"
+ *         paymentMode:
+ *           type: string
+ *           enum: [neft, rtgs, imps, cheque, upi, cash]
+ *         referenceNumber:
+ *           type: string
+ *         notes:
+ *           type: string
+ */
+
+// ==================== LOOKUPS ====================
+
+/**
+ * @swagger
+ * /api/invoices/eligible-purchase-orders:
+ *   get:
+ *     summary: Get purchase orders eligible for invoicing
+ *     tags: [Invoices]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: customerId
+ *         schema:
+ *           type: string
+ *         description: Filter by customer ID
+ *     responses:
+ *       200:
+ *         description: Purchase orders without a live invoice
+ */
+router.get(
+  '/eligible-purchase-orders',
+  requirePermission('invoices.create'),
+  asyncHandler(invoiceController.getEligiblePurchaseOrders)
+);
+
+// ==================== CRUD OPERATIONS ====================
+
+/**
+ * @swagger
+ * /api/invoices:
+ *   get:
+ *     summary: Get all invoices
+ *     tags: [Invoices]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *         description: Page number
+ *       - in: query
+ *         name: pageSize
+ *         schema:
+ *           type: integer
+ *         description: Items per page
+ *       - in: query
+ *         name: customerId
+ *         schema:
+ *           type: string
+ *         description: Filter by customer ID
+ *       - in: query
+ *         name: paymentStatus
+ *         schema:
+ *           type: string
+ *           enum: [unpaid, partially_paid, paid, void]
+ *         description: Filter by payment status
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Search by invoice number, PO number or customer name
+ *       - in: query
+ *         name: dateFrom
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Filter by invoice date from
+ *       - in: query
+ *         name: dateTo
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Filter by invoice date to
+ *       - in: query
+ *         name: overdue
+ *         schema:
+ *           type: boolean
+ *         description: Only invoices past their due date that are not settled
+ *     responses:
+ *       200:
+ *         description: List of invoices with pagination
+ */
+router.get(
+  '/',
+  requirePermission('invoices.view'),
+  asyncHandler(invoiceController.getInvoices)
+);
+
+/**
+ * @swagger
+ * /api/invoices/{id}:
+ *   get:
+ *     summary: Get invoice by ID
+ *     tags: [Invoices]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Invoice details
+ *       404:
+ *         description: Invoice not found
+ */
+router.get(
+  '/:id',
+  requirePermission('invoices.view'),
+  validate([
+    param('id').isUUID().withMessage('Invalid invoice ID'),
+  ]),
+  asyncHandler(invoiceController.getInvoiceById)
+);
+
+/**
+ * @swagger
+ * /api/invoices/{id}/download:
+ *   get:
+ *     summary: Download invoice as GST tax invoice PDF
+ *     description: Shows HSN/SAC code, CGST/SGST or IGST split based on company and customer GSTIN state codes, and amount in words.
+ *     tags: [Invoices]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Invoice ID
+ *     responses:
+ *       200:
+ *         description: PDF file
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       404:
+ *         description: Invoice not found
+ */
+router.get(
+  '/:id/download',
+  requirePermission('invoices.view'),
+  validate([
+    param('id').isUUID().withMessage('Invalid invoice ID'),
+  ]),
+  asyncHandler(invoiceController.downloadInvoicePDF)
+);
+
+/**
+ * @swagger
+ * /api/invoices:
+ *   post:
+ *     summary: Generate an invoice from a purchase order
+ *     description: Subtotal is taken from the PO actual value. Tax defaults to the configured default tax when taxId is omitted. The booking is moved to invoiced status.
+ *     tags: [Invoices]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - purchaseOrderId
+ *             properties:
+ *               purchaseOrderId:
+ *                 type: string
+ *                 format: uuid
+ *               taxId:
+ *                 type: string
+ *                 format: uuid
+ *               invoiceDate:
+ *                 type: string
+ *                 format: date
+ *                 description: Defaults to today
+ *               dueDate:
+ *                 type: string
+ *                 format: date
+ *                 description: Defaults to invoice date plus configured due days
+ *               paymentNotes:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Invoice created
+ *       400:
+ *         description: Invalid booking status or dates
+ *       404:
+ *         description: Purchase order or tax not found
+ *       409:
+ *         description: Invoice already exists for purchase order
+ */
+router.post(
+  '/',
+  requirePermission('invoices.create'),
+  validate([
+    body('purchaseOrderId').notEmpty().withMessage('Purchase order ID is required').isUUID(),
+    body('taxId').optional({ values: 'falsy' }).isUUID().withMessage('Invalid tax ID'),
+    body('invoiceDate').optional({ values: 'falsy' }).isDate().withMessage('Invalid invoice date'),
+    body('dueDate').optional({ values: 'falsy' }).isDate().withMessage('Invalid due date'),
+    body('paymentNotes').optional({ values: 'falsy' }).isString(),
+  ]),
+  asyncHandler(invoiceController.createInvoice)
+);
+
+/**
+ * @swagger
+ * /api/invoices/{id}:
+ *   put:
+ *     summary: Update an invoice
+ *     tags: [Invoices]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               invoiceDate:
+ *                 type: string
+ *                 format: date
+ *               dueDate:
+ *                 type: string
+ *                 format: date
+ *               taxId:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Changing the tax recalculates tax and total amounts. Not allowed once payments are recorded.
+ *               paymentNotes:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Invoice updated
+ *       400:
+ *         description: Invoice is voided, has payments (tax change) or dates are invalid
+ *       404:
+ *         description: Invoice not found
+ */
+router.put(
+  '/:id',
+  requirePermission('invoices.edit'),
+  validate([
+    param('id').isUUID().withMessage('Invalid invoice ID'),
+    body('invoiceDate').optional({ values: 'falsy' }).isDate().withMessage('Invalid invoice date'),
+    body('dueDate').optional({ values: 'falsy' }).isDate().withMessage('Invalid due date'),
+    body('taxId').optional({ values: 'falsy' }).isUUID().withMessage('Invalid tax ID'),
+    body('paymentNotes').optional({ values: 'falsy' }).isString(),
+  ]),
+  asyncHandler(invoiceController.updateInvoice)
+);
+
+/**
+ * @swagger
+ * /api/invoices/{id}/void:
+ *   post:
+ *     summary: Void an invoice
+ *     description: Voids an invoice with no payments recorded and reverts the booking to po_generated so the purchase order can be corrected and re-invoiced.
+ *     tags: [Invoices]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reason
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Invoice voided
+ *       400:
+ *         description: Invoice already voided or has payments
+ *       404:
+ *         description: Invoice not found
+ */
+router.post(
+  '/:id/void',
+  requirePermission('invoices.delete'),
+  validate([
+    param('id').isUUID().withMessage('Invalid invoice ID'),
+    body('reason').notEmpty().trim().withMessage('Reason is required'),
+  ]),
+  asyncHandler(invoiceController.voidInvoice)
+);
+
+// ==================== PAYMENTS ====================
+
+/**
+ * @swagger
+ * /api/invoices/{id}/payments:
+ *   get:
+ *     summary: Get payments recorded against an invoice
+ *     tags: [Invoices]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Payment ledger with totals and balance due
+ *       404:
+ *         description: Invoice not found
+ */
+router.get(
+  '/:id/payments',
+  requirePermission('invoices.view'),
+  validate([
+    param('id').isUUID().withMessage('Invalid invoice ID'),
+  ]),
+  asyncHandler(invoiceController.getInvoicePayments)
+);
+
+/**
+ * @swagger
+ * /api/invoices/{id}/payments:
+ *   post:
+ *     summary: Record a payment against an invoice
+ *     description: Amount plus TDS counts towards settlement. Status moves unpaid -> partially_paid -> paid automatically. Payments exceeding the balance due are rejected.
+ *     tags: [Invoices]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - amount
+ *               - paymentMode
+ *             properties:
+ *               amount:
+ *                 type: number
+ *                 description: Amount actually received
+ *               tdsAmount:
+ *                 type: number
+ *                 description: TDS deducted by the customer
+ *               paymentDate:
+ *                 type: string
+ *                 format: date
+ *                 description: Defaults to today
+ *               paymentMode:
+ *                 type: string
+ *                 enum: [neft, rtgs, imps, cheque, upi, cash]
+ *               referenceNumber:
+ *                 type: string
+ *                 description: UTR, cheque number or UPI transaction ID
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Payment recorded
+ *       400:
+ *         description: Over-payment, voided or already paid invoice
+ *       404:
+ *         description: Invoice not found
+ */
+router.post(
+  '/:id/payments',
+  requirePermission('invoices.edit'),
+  validate([
+    param('id').isUUID().withMessage('Invalid invoice ID'),
+    body('amount').notEmpty().withMessage('Amount is required').isFloat({ min: 0 }).withMessage('Amount must be a non-negative number'),
+    body('tdsAmount').optional({ values: 'falsy' }).isFloat({ min: 0 }).withMessage('TDS amount must be a non-negative number'),
+    body('paymentDate').optional({ values: 'falsy' }).isDate().withMessage('Invalid payment date'),
+    body('paymentMode').isIn([...PAYMENT_MODES]).withMessage('Invalid payment mode'),
+    body('referenceNumber').optional({ values: 'falsy' }).trim().isLength({ max: 100 }).withMessage('Reference number too long'),
+    body('notes').optional({ values: 'falsy' }).isString(),
+  ]),
+  asyncHandler(invoiceController.recordPayment)
+);
+
+/**
+ * @swagger
+ * /api/invoices/{id}/payments/{paymentId}:
+ *   delete:
+ *     summary: Delete a payment entered in error
+ *     description: Payment status and amount paid are recalculated from the remaining payments.
+ *     tags: [Invoices]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: paymentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Payment deleted
+ *       404:
+ *         description: Invoice or payment not found
+ */
+router.delete(
+  '/:id/payments/:paymentId',
+  requirePermission('invoices.edit'),
+  validate([
+    param('id').isUUID().withMessage('Invalid invoice ID'),
+    param('paymentId').isUUID().withMessage('Invalid payment ID'),
+  ]),
+  asyncHandler(invoiceController.deletePayment)
+);
+
+/**
+ * @swagger
+ * /api/invoices/{id}/payments/{paymentId}/receipt:
+ *   get:
+ *     summary: Download payment receipt as PDF
+ *     tags: [Invoices]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: paymentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: PDF file
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       404:
+ *         description: Payment not found
+ */
+router.get(
+  '/:id/payments/:paymentId/receipt',
+  requirePermission('invoices.view'),
+  validate([
+    param('id').isUUID().withMessage('Invalid invoice ID'),
+    param('paymentId').isUUID().withMessage('Invalid payment ID'),
+  ]),
+  asyncHandler(invoiceController.downloadReceiptPDF)
+);
+
+export default router;
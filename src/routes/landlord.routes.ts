@@ -57,6 +57,11 @@ router.get(
  *           type: string
  *         description: Search by name
  *       - in: query
+ *         name: includeArchived
+ *         schema:
+ *           type: boolean
+ *         description: Include archived landlords (excluded by default)
+ *       - in: query
  *         name: isActive
  *         schema:
  *           type: boolean
@@ -242,8 +247,8 @@ router.put(
  *     responses:
  *       200:
  *         description: Landlord deleted
- *       400:
- *         description: Cannot delete landlord with billboards
+ *       409:
+ *         description: Landlord is still referenced (blocking records listed in errors); archive it instead
  *       404:
  *         description: Landlord not found
  */
@@ -256,4 +261,67 @@ router.delete(
   asyncHandler(landlordController.deleteLandlord)
 );
 
+/**
+ * @swagger
+ * /api/landlords/{id}/archive:
+ *   post:
+ *     summary: Archive a landlord
+ *     description: Archived landlords are hidden from listings and dropdowns but keep their history. Restore to bring the landlord back.
+ *     tags: [Landlords]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Landlord archived
+ *       400:
+ *         description: Landlord is already archived
+ *       404:
+ *         description: Landlord not found
+ */
+router.post(
+  '/:id/archive',
+  requirePermission('landlords.edit'),
+  validate([
+    param('id').isUUID().withMessage('Invalid landlord ID'),
+  ]),
+  asyncHandler(landlordController.archiveLandlord)
+);
+
+/**
+ * @swagger
+ * /api/landlords/{id}/restore:
+ *   post:
+ *     summary: Restore an archived landlord
+ *     tags: [Landlords]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Landlord restored
+ *       400:
+ *         description: Landlord is not archived
+ *       404:
+ *         description: Landlord not found
+ */
+router.post(
+  '/:id/restore',
+  requirePermission('landlords.edit'),
+  validate([
+    param('id').isUUID().withMessage('Invalid landlord ID'),
+  ]),
+  asyncHandler(landlordController.restoreLandlord)
+);
+
 export default router;
@@ -0,0 +1,436 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import { validate } from '../middleware/validate.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { asyncHandler } from '../middleware/asyncHandler.js';
+import * as leaseController from '../controllers/lease.controller.js';
+import { LEASE_STATUSES, EXPIRY_ALERT_WINDOWS } from '../services/lease.service.js';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+const PAYMENT_FREQUENCIES = ['monthly', 'quarterly', 'yearly'];
+
+/**
+ * @swagger
+ * tags:
+ *   name: Leases
+ *   description: Billboard site leases and the rent payable to landlords
+ */
+
+/**
+ * @swagger
+ * /api/leases:
+ *   get:
+ *     summary: Get leases
+ *     tags: [Leases]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: pageSize
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: billboardId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: landlordId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [active, terminated]
+ *     responses:
+ *       200:
+ *         description: Paginated list of leases with pending rent and next due date
+ */
+router.get(
+  '/',
+  requirePermission('leases.view'),
+  validate([
+    query('billboardId').optional({ values: 'falsy' }).isUUID().withMessage('Invalid billboard ID'),
+    query('landlordId').optional({ values: 'falsy' }).isUUID().withMessage('Invalid landlord ID'),
+    query('status').optional({ values: 'falsy' }).isIn(LEASE_STATUSES).withMessage('Invalid status'),
+  ]),
+  asyncHandler(leaseController.getLeases)
+);
+
+/**
+ * @swagger
+ * /api/leases/payables/upcoming:
+ *   get:
+ *     summary: Get rent due soon
+ *     description: Pending installments due within the next N days, plus any overdue ones.
+ *     tags: [Leases]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: days
+ *         schema:
+ *           type: integer
+ *           default: 30
+ *       - in: query
+ *         name: landlordId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: billboardId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Upcoming and overdue rent with totals
+ */
+router.get(
+  '/payables/upcoming',
+  requirePermission('leases.view'),
+  validate([
+    query('days').optional({ values: 'falsy' }).isInt({ min: 0, max: 366 }).withMessage('Days must be between 0 and 366'),
+    query('landlordId').optional({ values: 'falsy' }).isUUID().withMessage('Invalid landlord ID'),
+    query('billboardId').optional({ values: 'falsy' }).isUUID().withMessage('Invalid billboard ID'),
+  ]),
+  asyncHandler(leaseController.getUpcomingPayables)
+);
+
+/**
+ * @swagger
+ * /api/leases/expiring:
+ *   get:
+ *     summary: Get leases expiring soon
+ *     description: Active leases ending within the next 30, 60 or 90 days with no renewal lease following on, and the bookings that run past each lease end. Bookings can't be made past a billboard's lease.
+ *     tags: [Leases]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: days
+ *         schema:
+ *           type: integer
+ *           enum: [30, 60, 90]
+ *           default: 90
+ *       - in: query
+ *         name: landlordId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: billboardId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Expiring leases grouped into 30/60/90-day windows with affected bookings
+ */
+router.get(
+  '/expiring',
+  requirePermission('leases.view'),
+  validate([
+    query('days').optional({ values: 'falsy' }).isIn(EXPIRY_ALERT_WINDOWS.map(String)).withMessage('Days must be 30, 60 or 90'),
+    query('landlordId').optional({ values: 'falsy' }).isUUID().withMessage('Invalid landlord ID'),
+    query('billboardId').optional({ values: 'falsy' }).isUUID().withMessage('Invalid billboard ID'),
+  ]),
+  asyncHandler(leaseController.getExpiringLeases)
+);
+
+/**
+ * @swagger
+ * /api/leases/payables/{payableId}/pay:
+ *   patch:
+ *     summary: Mark a rent installment as paid
+ *     tags: [Leases]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: payableId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - paidDate
+ *             properties:
+ *               paidDate:
+ *                 type: string
+ *                 format: date
+ *               paidAmount:
+ *                 type: number
+ *                 description: Defaults to the installment amount
+ *               paymentReference:
+ *                 type: string
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Rent marked as paid
+ *       400:
+ *         description: Installment is already paid
+ *       404:
+ *         description: Rent payable not found
+ */
+router.patch(
+  '/payables/:payableId/pay',
+  requirePermission('leases.edit'),
+  validate([
+    param('payableId').isUUID().withMessage('Invalid rent payable ID'),
+    body('paidDate').isDate().withMessage('Valid paid date is required'),
+    body('paidAmount').optional().isFloat({ min: 0 }).withMessage('Paid amount must be a non-negative number'),
+    body('paymentReference').optional({ values: 'falsy' }).trim().isLength({ max: 100 }).withMessage('Payment reference too long'),
+    body('notes').optional({ values: 'falsy' }).trim(),
+  ]),
+  asyncHandler(leaseController.markPayableAsPaid)
+);
+
+/**
+ * @swagger
+ * /api/leases/{id}:
+ *   get:
+ *     summary: Get lease by ID
+ *     description: Includes the rent schedule and a summary of paid, pending and overdue rent.
+ *     tags: [Leases]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Lease details
+ *       404:
+ *         description: Lease not found
+ */
+router.get(
+  '/:id',
+  requirePermission('leases.view'),
+  validate([
+    param('id').isUUID().withMessage('Invalid lease ID'),
+  ]),
+  asyncHandler(leaseController.getLeaseById)
+);
+
+/**
+ * @swagger
+ * /api/leases:
+ *   post:
+ *     summary: Create a lease and its rent schedule
+ *     description: Rent is per payment period and escalates by escalationPercentage on each anniversary of the start date. Rent and frequency default to the landlord's.
+ *     tags: [Leases]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - billboardId
+ *               - landlordId
+ *               - startDate
+ *               - endDate
+ *             properties:
+ *               billboardId:
+ *                 type: string
+ *               landlordId:
+ *                 type: string
+ *               startDate:
+ *                 type: string
+ *                 format: date
+ *               endDate:
+ *                 type: string
+ *                 format: date
+ *               rentAmount:
+ *                 type: number
+ *               paymentFrequency:
+ *                 type: string
+ *                 enum: [monthly, quarterly, yearly]
+ *               escalationPercentage:
+ *                 type: number
+ *                 example: 5
+ *               securityDeposit:
+ *                 type: number
+ *               terms:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Lease created successfully
+ *       404:
+ *         description: Billboard or landlord not found
+ *       409:
+ *         description: The billboard already has an active lease for the period
+ */
+router.post(
+  '/',
+  requirePermission('leases.create'),
+  validate([
+    body('billboardId').isUUID().withMessage('Invalid billboard ID'),
+    body('landlordId').isUUID().withMessage('Invalid landlord ID'),
+    body('startDate').isDate().withMessage('Valid start date is required'),
+    body('endDate').isDate().withMessage('Valid end date is required'),
+    body('rentAmount').optional().isFloat({ min: 0 }).withMessage('Rent amount must be a non-negative number'),
+    body('paymentFrequency').optional().isIn(PAYMENT_FREQUENCIES).withMessage('Invalid payment frequency'),
+    body('escalationPercentage').optional().isFloat({ min: 0, max: 100 }).withMessage('Escalation must be between 0 and 100'),
+    body('securityDeposit').optional().isFloat({ min: 0 }).withMessage('Security deposit must be a non-negative number'),
+    body('terms').optional({ values: 'falsy' }).trim(),
+  ]),
+  asyncHandler(leaseController.createLease)
+);
+
+/**
+ * @swagger
+ * /api/leases/{id}:
+ *   put:
+ *     summary: Update an active lease
+ *     description: Changing the end date, rent, frequency or escalation regenerates the pending rent; paid installments are kept.
+ *     tags: [Leases]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               endDate:
+ *                 type: string
+ *                 format: date
+ *               rentAmount:
+ *                 type: number
+ *               paymentFrequency:
+ *                 type: string
+ *                 enum: [monthly, quarterly, yearly]
+ *               escalationPercentage:
+ *                 type: number
+ *               securityDeposit:
+ *                 type: number
+ *               terms:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Lease updated successfully
+ *       400:
+ *         description: Lease is terminated
+ *       404:
+ *         description: Lease not found
+ */
+router.put(
+  '/:id',
+  requirePermission('leases.edit'),
+  validate([
+    param('id').isUUID().withMessage('Invalid lease ID'),
+    body('endDate').optional().isDate().withMessage('Valid end date is required'),
+    body('rentAmount').optional().isFloat({ min: 0 }).withMessage('Rent amount must be a non-negative number'),
+    body('paymentFrequency').optional().isIn(PAYMENT_FREQUENCIES).withMessage('Invalid payment frequency'),
+    body('escalationPercentage').optional().isFloat({ min: 0, max: 100 }).withMessage('Escalation must be between 0 and 100'),
+    body('securityDeposit').optional().isFloat({ min: 0 }).withMessage('Security deposit must be a non-negative number'),
+    body('terms').optional({ values: 'falsy' }).trim(),
+  ]),
+  asyncHandler(leaseController.updateLease)
+);
+
+/**
+ * @swagger
+ * /api/leases/{id}/terminate:
+ *   post:
+ *     summary: Terminate a lease early
+ *     description: Rent after the termination date is dropped and the final period is pro-rated.
+ *     tags: [Leases]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - terminationDate
+ *             properties:
+ *               terminationDate:
+ *                 type: string
+ *                 format: date
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Lease terminated successfully
+ *       400:
+ *         description: Lease is not active or the date is outside the lease
+ *       404:
+ *         description: Lease not found
+ */
+router.post(
+  '/:id/terminate',
+  requirePermission('leases.edit'),
+  validate([
+    param('id').isUUID().withMessage('Invalid lease ID'),
+    body('terminationDate').isDate().withMessage('Valid termination date is required'),
+    body('reason').optional({ values: 'falsy' }).trim(),
+  ]),
+  asyncHandler(leaseController.terminateLease)
+);
+
+/**
+ * @swagger
+ * /api/leases/{id}:
+ *   delete:
+ *     summary: Delete a lease
+ *     description: Only leases with no paid rent can be deleted.
+ *     tags: [Leases]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Lease deleted successfully
+ *       400:
+ *         description: Lease has paid rent
+ *       404:
+ *         description: Lease not found
+ */
+router.delete(
+  '/:id',
+  requirePermission('leases.delete'),
+  validate([
+    param('id').isUUID().withMessage('Invalid lease ID'),
+  ]),
+  asyncHandler(leaseController.deleteLease)
+);
+
+export default router;
@@ -104,6 +104,11 @@ router.get(
  *         schema:
  *           type: string
  *         description: Search by name
+ *       - in: query
+ *         name: includeArchived
+ *         schema:
+ *           type: boolean
+ *         description: Include archived regions (excluded by default)
  *     responses:
  *       200:
  *         description: List of regions with pagination
@@ -238,8 +243,8 @@ router.put(
  *     responses:
  *       200:
  *         description: Region deleted
- *       400:
- *         description: Cannot delete region with cities
+ *       409:
+ *         description: Region has cities (listed in errors); archive it instead
  *       404:
  *         description: Region not found
  */
@@ -251,6 +256,67 @@ router.delete(
   asyncHandler(locationController.deleteRegion)
 );
 
+/**
+ * @swagger
+ * /api/locations/regions/{id}/archive:
+ *   post:
+ *     summary: Archive a region
+ *     description: Archived locations are hidden from listings and dropdowns but keep their history. Restore to bring the location back.
+ *     tags: [Locations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Region archived
+ *       400:
+ *         description: Region is already archived
+ *       404:
+ *         description: Region not found
+ */
+router.post(
+  '/regions/:id/archive',
+  requirePermission('locations.edit'),
+  param('id').isUUID().withMessage('Invalid region ID'),
+  validate([]),
+  asyncHandler(locationController.archiveRegion)
+);
+
+/**
+ * @swagger
+ * /api/locations/regions/{id}/restore:
+ *   post:
+ *     summary: Restore an archived region
+ *     tags: [Locations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Region restored
+ *       400:
+ *         description: Region is not archived
+ *       404:
+ *         description: Region not found
+ */
+router.post(
+  '/regions/:id/restore',
+  requirePermission('locations.edit'),
+  param('id').isUUID().withMessage('Invalid region ID'),
+  validate([]),
+  asyncHandler(locationController.restoreRegion)
+);
+
 // ==================== CITIES ====================
 
 /**
@@ -267,6 +333,11 @@ router.delete(
  *         schema:
  *           type: string
  *         description: Filter by region ID
+ *       - in: query
+ *         name: includeArchived
+ *         schema:
+ *           type: boolean
+ *         description: Include archived cities (excluded by default)
  *     responses:
  *       200:
  *         description: List of cities with pagination
@@ -316,6 +387,22 @@ router.delete(
   asyncHandler(locationController.deleteCity)
 );
 
+router.post(
+  '/cities/:id/archive',
+  requirePermission('locations.edit'),
+  param('id').isUUID().withMessage('Invalid city ID'),
+  validate([]),
+  asyncHandler(locationController.archiveCity)
+);
+
+router.post(
+  '/cities/:id/restore',
+  requirePermission('locations.edit'),
+  param('id').isUUID().withMessage('Invalid city ID'),
+  validate([]),
+  asyncHandler(locationController.restoreCity)
+);
+
 // ==================== ZONES ====================
 
 /**
@@ -337,6 +424,11 @@ router.delete(
  *         schema:
  *           type: string
  *         description: Filter by region ID
+ *       - in: query
+ *         name: includeArchived
+ *         schema:
+ *           type: boolean
+ *         description: Include archived zones (excluded by default)
  *     responses:
  *       200:
  *         description: List of zones with pagination
@@ -386,4 +478,20 @@ router.delete(
   asyncHandler(locationController.deleteZone)
 );
 
+router.post(
+  '/zones/:id/archive',
+  requirePermission('locations.edit'),
+  param('id').isUUID().withMessage('Invalid zone ID'),
+  validate([]),
+  asyncHandler(locationController.archiveZone)
+);
+
+router.post(
+  '/zones/:id/restore',
+  requirePermission('locations.edit'),
+  param('id').isUUID().withMessage('Invalid zone ID'),
+  validate([]),
+  asyncHandler(locationController.restoreZone)
+);
+
 export default router;
@@ -0,0 +1,233 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import { validate } from '../middleware/validate.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { asyncHandler } from '../middleware/asyncHandler.js';
+import * as maintenanceController from '../controllers/maintenance.controller.js';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+/**
+ * @swagger
+ * tags:
+ *   name: Maintenance
+ *   description: Scheduled billboard maintenance windows that block availability
+ */
+
+/**
+ * @swagger
+ * /api/maintenance-windows:
+ *   get:
+ *     summary: Get maintenance windows
+ *     tags: [Maintenance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: pageSize
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: billboardId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: startDate
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Only windows overlapping the period from this date
+ *       - in: query
+ *         name: endDate
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Only windows overlapping the period up to this date
+ *     responses:
+ *       200:
+ *         description: Paginated list of maintenance windows
+ */
+router.get(
+  '/',
+  requirePermission('billboards.view'),
+  validate([
+    query('billboardId').optional({ values: 'falsy' }).isUUID().withMessage('Invalid billboard ID'),
+    query('startDate').optional({ values: 'falsy' }).isDate().withMessage('Invalid start date'),
+    query('endDate').optional({ values: 'falsy' }).isDate().withMessage('Invalid end date'),
+  ]),
+  asyncHandler(maintenanceController.getMaintenanceWindows)
+);
+
+/**
+ * @swagger
+ * /api/maintenance-windows/{id}:
+ *   get:
+ *     summary: Get maintenance window by ID
+ *     description: Includes the bookings that overlap the window.
+ *     tags: [Maintenance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Maintenance window details
+ *       404:
+ *         description: Maintenance window not found
+ */
+router.get(
+  '/:id',
+  requirePermission('billboards.view'),
+  validate([
+    param('id').isUUID().withMessage('Invalid maintenance window ID'),
+  ]),
+  asyncHandler(maintenanceController.getMaintenanceWindowById)
+);
+
+/**
+ * @swagger
+ * /api/maintenance-windows:
+ *   post:
+ *     summary: Schedule maintenance
+ *     description: The whole billboard is unavailable for new bookings and holds during the window. Existing bookings are not changed; the ones that overlap are returned as overlappingBookings.
+ *     tags: [Maintenance]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - billboardId
+ *               - startDate
+ *               - endDate
+ *               - reason
+ *             properties:
+ *               billboardId:
+ *                 type: string
+ *               startDate:
+ *                 type: string
+ *                 format: date
+ *               endDate:
+ *                 type: string
+ *                 format: date
+ *               reason:
+ *                 type: string
+ *               vendor:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Maintenance scheduled, with any overlapping bookings
+ *       400:
+ *         description: End date is before start date
+ *       404:
+ *         description: Billboard not found
+ */
+router.post(
+  '/',
+  requirePermission('billboards.edit'),
+  validate([
+    body('billboardId').isUUID().withMessage('Invalid billboard ID'),
+    body('startDate').isDate().withMessage('Valid start date is required'),
+    body('endDate').isDate().withMessage('Valid end date is required'),
+    body('reason').trim().notEmpty().withMessage('Reason is required'),
+    body('vendor').optional({ values: 'falsy' }).trim().isLength({ max: 200 }).withMessage('Vendor name too long'),
+  ]),
+  asyncHandler(maintenanceController.createMaintenanceWindow)
+);
+
+/**
+ * @swagger
+ * /api/maintenance-windows/{id}:
+ *   put:
+ *     summary: Update a maintenance window
+ *     tags: [Maintenance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               startDate:
+ *                 type: string
+ *                 format: date
+ *               endDate:
+ *                 type: string
+ *                 format: date
+ *               reason:
+ *                 type: string
+ *               vendor:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Maintenance window updated, with any overlapping bookings
+ *       400:
+ *         description: End date is before start date
+ *       404:
+ *         description: Maintenance window not found
+ */
+router.put(
+  '/:id',
+  requirePermission('billboards.edit'),
+  validate([
+    param('id').isUUID().withMessage('Invalid maintenance window ID'),
+    body('startDate').optional().isDate().withMessage('Valid start date is required'),
+    body('endDate').optional().isDate().withMessage('Valid end date is required'),
+    body('reason').optional().trim().notEmpty().withMessage('Reason cannot be empty'),
+    body('vendor').optional({ values: 'falsy' }).trim().isLength({ max: 200 }).withMessage('Vendor name too long'),
+  ]),
+  asyncHandler(maintenanceController.updateMaintenanceWindow)
+);
+
+/**
+ * @swagger
+ * /api/maintenance-windows/{id}:
+ *   delete:
+ *     summary: Delete a maintenance window
+ *     tags: [Maintenance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Maintenance window deleted successfully
+ *       404:
+ *         description: Maintenance window not found
+ */
+router.delete(
+  '/:id',
+  requirePermission('billboards.edit'),
+  validate([
+    param('id').isUUID().withMessage('Invalid maintenance window ID'),
+  ]),
+  asyncHandler(maintenanceController.deleteMaintenanceWindow)
+);
+
+export default router;
@@ -0,0 +1,95 @@
+import { Router } from 'express';
+import { param, query } from 'express-validator';
+import { validate } from '../middleware/validate.js';
+import { authenticate } from '../middleware/auth.js';
+import { asyncHandler } from '../middleware/asyncHandler.js';
+import * as notificationController from '../controllers/notification.controller.js';
+
+const router = Router();
+
+// All routes require authentication; users only see their own notifications
+router.use(authenticate);
+
+/**
+ * @swagger
+ * tags:
+ *   name: Notifications
+ *   description: In-app notifications for the current user
+ */
+
+/**
+ * @swagger
+ * /api/notifications:
+ *   get:
+ *     summary: Get the current user's notifications
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: pageSize
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: unreadOnly
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: Paginated notifications with the unread count
+ */
+router.get(
+  '/',
+  validate([
+    query('unreadOnly').optional({ values: 'falsy' }).isBoolean().withMessage('unreadOnly must be a boolean'),
+  ]),
+  asyncHandler(notificationController.getNotifications)
+);
+
+/**
+ * @swagger
+ * /api/notifications/read-all:
+ *   post:
+ *     summary: Mark all of the current user's notifications as read
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Number of notifications marked as read
+ */
+router.post('/read-all', asyncHandler(notificationController.markAllNotificationsAsRead));
+
+/**
+ * @swagger
+ * /api/notifications/{id}/read:
+ *   patch:
+ *     summary: Mark a notification as read
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Notification marked as read
+ *       404:
+ *         description: Notification not found
+ */
+router.patch(
+  '/:id/read',
+  validate([
+    param('id').isUUID().withMessage('Invalid notification ID'),
+  ]),
+  asyncHandler(notificationController.markNotificationAsRead)
+);
+
+export default router;
@@ -1,7 +1,7 @@
 import { Router } from 'express';
 import { body } from 'express-validator';
 import { purchaseOrderController } from '../controllers/purchase-order.controller.js';
-import { authenticate } from '../middleware/auth.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
 
 const router = Router();
 
@@ -82,7 +82,7 @@ router.use(authenticate);
  *       200:
  *         description: List of purchase orders
  */
-router.get('/', purchaseOrderController.getAllPurchaseOrders);
+router.get('/', requirePermission('purchase_orders.view'), purchaseOrderController.getAllPurchaseOrders);
 
 /**
  * @swagger
@@ -102,7 +102,7 @@ router.get('/', purchaseOrderController.getAllPurchaseOrders);
  *       200:
  *         description: List of bookings that can have PO generated
  */
-router.get('/eligible-bookings', purchaseOrderController.getEligibleBookings);
+router.get('/eligible-bookings', requirePermission('purchase_orders.create'), purchaseOrderController.getEligibleBookings);
 
 /**
  * @swagger
@@ -137,7 +137,7 @@ router.get('/eligible-bookings', purchaseOrderController.getEligibleBookings);
  *       200:
  *         description: Pro-rata calculation details
  */
-router.get('/calculate-pro-rata', purchaseOrderController.calculateProRata);
+router.get('/calculate-pro-rata', requirePermission('purchase_orders.create'), purchaseOrderController.calculateProRata);
 
 /**
  * @swagger
@@ -165,7 +165,7 @@ router.get('/calculate-pro-rata', purchaseOrderController.calculateProRata);
  *       404:
  *         description: Purchase order not found
  */
-router.get('/:id/download', purchaseOrderController.downloadPDF);
+router.get('/:id/download', requirePermission('purchase_orders.view'), purchaseOrderController.downloadPDF);
 
 /**
  * @swagger
@@ -187,7 +187,7 @@ router.get('/:id/download', purchaseOrderController.downloadPDF);
  *       404:
  *         description: Purchase order not found
  */
-router.get('/:id', purchaseOrderController.getPurchaseOrderById);
+router.get('/:id', requirePermission('purchase_orders.view'), purchaseOrderController.getPurchaseOrderById);
 
 /**
  * @swagger
@@ -234,6 +234,7 @@ router.get('/:id', purchaseOrderController.getPurchaseOrderById);
  */
 router.post(
   '/',
+  requirePermission('purchase_orders.create'),
   [
     body('bookingId').notEmpty().withMessage('Booking ID is required').isUUID(),
     body('actualStartDate').notEmpty().withMessage('Actual start date is required').isString(),
@@ -283,6 +284,7 @@ router.post(
  */
 router.put(
   '/:id',
+  requirePermission('purchase_orders.edit'),
   [
     body('actualStartDate').optional().isString(),
     body('actualEndDate').optional().isString(),
@@ -312,6 +314,6 @@ router.put(
  *       404:
  *         description: Purchase order not found
  */
-router.delete('/:id', purchaseOrderController.deletePurchaseOrder);
+router.delete('/:id', requirePermission('purchase_orders.delete'), purchaseOrderController.deletePurchaseOrder);
 
 export default router;
@@ -0,0 +1,414 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import { validate } from '../middleware/validate.js';
+import { authenticate, requirePermission, requireAllPermissions } from '../middleware/auth.js';
+import { asyncHandler } from '../middleware/asyncHandler.js';
+import * as quotationController from '../controllers/quotation.controller.js';
+import { QUOTATION_STATUSES } from '../services/quotation.service.js';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+const itemValidators = [
+  body('items.*.billboardId').isUUID().withMessage('Invalid billboard ID'),
+  body('items.*.slotNumber').optional({ values: 'falsy' }).isInt({ min: 1 }).withMessage('Slot number must be a positive integer'),
+  body('items.*.slotQuantity').optional({ values: 'falsy' }).isInt({ min: 1 }).withMessage('Slot quantity must be a positive integer'),
+  body('items.*.startDate').optional({ values: 'falsy' }).isDate().withMessage('Valid item start date is required'),
+  body('items.*.endDate').optional({ values: 'falsy' }).isDate().withMessage('Valid item end date is required'),
+  body('items.*.ratePerDay').optional().isFloat({ min: 0 }).withMessage('Rate per day must be a non-negative number'),
+  body('items.*.discountPercentage').optional().isFloat({ min: 0, max: 100 }).withMessage('Discount must be between 0 and 100'),
+];
+
+/**
+ * @swagger
+ * tags:
+ *   name: Quotations
+ *   description: Priced proposals sent to customers before booking
+ */
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     QuotationItemInput:
+ *       type: object
+ *       required:
+ *         - billboardId
+ *       properties:
+ *         billboardId:
+ *           type: string
+ *         slotNumber:
+ *           type: integer
+ *         slotQuantity:
+ *           type: integer
+ *           description: Slots of a digital billboard's loop; assigned on conversion when no slot number is given
+ *         startDate:
+ *           type: string
+ *           format: date
+ *           description: Defaults to the quotation start date
+ *         endDate:
+ *           type: string
+ *           format: date
+ *           description: Defaults to the quotation end date
+ *         ratePerDay:
+ *           type: number
+ *           description: Negotiated rate; defaults to the rate card price
+ *         discountPercentage:
+ *           type: number
+ *           description: Negotiated discount; defaults to the rate card discount tier
+ */
+
+/**
+ * @swagger
+ * /api/quotations:
+ *   get:
+ *     summary: Get quotations
+ *     tags: [Quotations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: pageSize
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: customerId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [draft, sent, accepted, rejected, converted]
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Paginated list of quotations
+ */
+router.get(
+  '/',
+  requirePermission('quotations.view'),
+  validate([
+    query('customerId').optional({ values: 'falsy' }).isUUID().withMessage('Invalid customer ID'),
+    query('status').optional({ values: 'falsy' }).isIn(QUOTATION_STATUSES).withMessage('Invalid status'),
+  ]),
+  asyncHandler(quotationController.getQuotations)
+);
+
+/**
+ * @swagger
+ * /api/quotations/{id}/download:
+ *   get:
+ *     summary: Download quotation as PDF
+ *     tags: [Quotations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: PDF file
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       404:
+ *         description: Quotation not found
+ */
+router.get(
+  '/:id/download',
+  requirePermission('quotations.view'),
+  validate([
+    param('id').isUUID().withMessage('Invalid quotation ID'),
+  ]),
+  asyncHandler(quotationController.downloadQuotationPDF)
+);
+
+/**
+ * @swagger
+ * /api/quotations/{id}:
+ *   get:
+ *     summary: Get quotation by ID
+ *     description: Includes its priced lines and, once converted, the campaign.
+ *     tags: [Quotations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Quotation details
+ *       404:
+ *         description: Quotation not found
+ */
+router.get(
+  '/:id',
+  requirePermission('quotations.view'),
+  validate([
+    param('id').isUUID().withMessage('Invalid quotation ID'),
+  ]),
+  asyncHandler(quotationController.getQuotationById)
+);
+
+/**
+ * @swagger
+ * /api/quotations:
+ *   post:
+ *     summary: Create a quotation
+ *     description: Lines are priced from the rate cards unless a rate or discount is given. Billboards are not held until the quotation is converted.
+ *     tags: [Quotations]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - customerId
+ *               - startDate
+ *               - endDate
+ *               - validUntil
+ *               - items
+ *             properties:
+ *               name:
+ *                 type: string
+ *               customerId:
+ *                 type: string
+ *               startDate:
+ *                 type: string
+ *                 format: date
+ *               endDate:
+ *                 type: string
+ *                 format: date
+ *               validUntil:
+ *                 type: string
+ *                 format: date
+ *               notes:
+ *                 type: string
+ *               items:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/QuotationItemInput'
+ *     responses:
+ *       201:
+ *         description: Quotation created successfully
+ *       400:
+ *         description: Validation error, line outside the period or below the minimum booking period
+ *       404:
+ *         description: Billboard not found
+ */
+router.post(
+  '/',
+  requirePermission('quotations.create'),
+  validate([
+    body('name').notEmpty().trim().withMessage('Name is required').isLength({ max: 200 }).withMessage('Name too long'),
+    body('customerId').isUUID().withMessage('Invalid customer ID'),
+    body('startDate').isDate().withMessage('Valid start date is required'),
+    body('endDate').isDate().withMessage('Valid end date is required'),
+    body('validUntil').isDate().withMessage('Valid until date is required'),
+    body('notes').optional({ values: 'falsy' }).trim(),
+    body('items').isArray({ min: 1 }).withMessage('At least one billboard must be selected'),
+    ...itemValidators,
+  ]),
+  asyncHandler(quotationController.createQuotation)
+);
+
+/**
+ * @swagger
+ * /api/quotations/{id}:
+ *   put:
+ *     summary: Update a quotation
+ *     description: Only draft and sent quotations can be edited. Items, when given, replace the existing lines and are re-priced; changing the period requires sending the items.
+ *     tags: [Quotations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               customerId:
+ *                 type: string
+ *               startDate:
+ *                 type: string
+ *                 format: date
+ *               endDate:
+ *                 type: string
+ *                 format: date
+ *               validUntil:
+ *                 type: string
+ *                 format: date
+ *               notes:
+ *                 type: string
+ *               items:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/QuotationItemInput'
+ *     responses:
+ *       200:
+ *         description: Quotation updated successfully
+ *       400:
+ *         description: Quotation can't be edited in its status
+ *       404:
+ *         description: Quotation not found
+ */
+router.put(
+  '/:id',
+  requirePermission('quotations.edit'),
+  validate([
+    param('id').isUUID().withMessage('Invalid quotation ID'),
+    body('name').optional().notEmpty().trim().withMessage('Name cannot be empty').isLength({ max: 200 }).withMessage('Name too long'),
+    body('customerId').optional().isUUID().withMessage('Invalid customer ID'),
+    body('startDate').optional().isDate().withMessage('Valid start date is required'),
+    body('endDate').optional().isDate().withMessage('Valid end date is required'),
+    body('validUntil').optional().isDate().withMessage('Valid until date is required'),
+    body('notes').optional({ values: 'falsy' }).trim(),
+    body('items').optional().isArray({ min: 1 }).withMessage('At least one billboard must be selected'),
+    ...itemValidators,
+  ]),
+  asyncHandler(quotationController.updateQuotation)
+);
+
+/**
+ * @swagger
+ * /api/quotations/{id}/status:
+ *   patch:
+ *     summary: Update quotation status
+ *     description: draft → sent → accepted or rejected; a sent quotation can go back to draft and a rejected one can be reopened as draft.
+ *     tags: [Quotations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - status
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [draft, sent, accepted, rejected]
+ *     responses:
+ *       200:
+ *         description: Quotation status updated successfully
+ *       400:
+ *         description: Invalid status transition
+ *       404:
+ *         description: Quotation not found
+ */
+router.patch(
+  '/:id/status',
+  requirePermission('quotations.edit'),
+  validate([
+    param('id').isUUID().withMessage('Invalid quotation ID'),
+    body('status').isIn(QUOTATION_STATUSES.filter(status => status !== 'converted')).withMessage('Invalid status'),
+  ]),
+  asyncHandler(quotationController.updateQuotationStatus)
+);
+
+/**
+ * @swagger
+ * /api/quotations/{id}/convert:
+ *   post:
+ *     summary: Convert a quotation into a campaign
+ *     description: Books every line at its quoted price in one transaction. Fails as a whole if any billboard has been booked since it was quoted, or if the quotation has expired.
+ *     tags: [Quotations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       201:
+ *         description: Campaign created from the quotation
+ *       400:
+ *         description: Quotation expired or already converted
+ *       404:
+ *         description: Quotation not found
+ *       409:
+ *         description: A billboard is no longer available
+ */
+router.post(
+  '/:id/convert',
+  requireAllPermissions('quotations.edit', 'campaigns.create'),
+  validate([
+    param('id').isUUID().withMessage('Invalid quotation ID'),
+  ]),
+  asyncHandler(quotationController.convertQuotation)
+);
+
+/**
+ * @swagger
+ * /api/quotations/{id}:
+ *   delete:
+ *     summary: Delete a quotation
+ *     description: Converted quotations are kept as the record of the campaign's pricing.
+ *     tags: [Quotations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Quotation deleted successfully
+ *       400:
+ *         description: Quotation has been converted
+ *       404:
+ *         description: Quotation not found
+ */
+router.delete(
+  '/:id',
+  requirePermission('quotations.delete'),
+  validate([
+    param('id').isUUID().withMessage('Invalid quotation ID'),
+  ]),
+  asyncHandler(quotationController.deleteQuotation)
+);
+
+export default router;
@@ -0,0 +1,335 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import { validate } from '../middleware/validate.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { asyncHandler } from '../middleware/asyncHandler.js';
+import * as rateCardController from '../controllers/rate-card.controller.js';
+import { WEEKDAYS } from '../db/schema/index.js';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Seasons, tiers and weekday multipliers shared by create and update
+const ruleValidators = [
+  body('minimumDays').optional({ nullable: true }).isInt({ min: 1 }).withMessage('Minimum days must be a positive integer'),
+  body('weekdayMultipliers').optional({ nullable: true }).isObject().withMessage('Weekday multipliers must be an object')
+    .custom((value: Record<string, unknown>) => Object.entries(value).every(([day, multiplier]) =>
+      (WEEKDAYS as readonly string[]).includes(day) && typeof multiplier === 'number' && multiplier > 0
+    ))
+    .withMessage(`Weekday multipliers must map ${WEEKDAYS.join(', ')} to positive numbers`),
+  body('seasons').optional().isArray().withMessage('Seasons must be an array'),
+  body('seasons.*.name').notEmpty().trim().withMessage('Season name is required'),
+  body('seasons.*.startDate').isDate().withMessage('Valid season start date is required'),
+  body('seasons.*.endDate').isDate().withMessage('Valid season end date is required'),
+  body('seasons.*.multiplier').isFloat({ gt: 0 }).withMessage('Season multiplier must be a positive number'),
+  body('discountTiers').optional().isArray().withMessage('Discount tiers must be an array'),
+  body('discountTiers.*.minDays').isInt({ min: 1 }).withMessage('Tier minimum days must be a positive integer'),
+  body('discountTiers.*.discountPercentage').isFloat({ min: 0, max: 100 }).withMessage('Tier discount must be between 0 and 100'),
+];
+
+/**
+ * @swagger
+ * tags:
+ *   name: Rate Cards
+ *   description: Billboard and zone pricing with seasonal, weekday and duration rules
+ */
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     RateCardInput:
+ *       type: object
+ *       properties:
+ *         name:
+ *           type: string
+ *         billboardId:
+ *           type: string
+ *           description: Price one billboard (takes precedence over its zone's card)
+ *         zoneId:
+ *           type: string
+ *           description: Price every billboard in a zone
+ *         ratePerDay:
+ *           type: number
+ *         minimumDays:
+ *           type: integer
+ *           nullable: true
+ *         weekdayMultipliers:
+ *           type: object
+ *           example: { "saturday": 1.2, "sunday": 1.2 }
+ *         description:
+ *           type: string
+ *         seasons:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: Festive season
+ *               startDate:
+ *                 type: string
+ *                 format: date
+ *               endDate:
+ *                 type: string
+ *                 format: date
+ *               multiplier:
+ *                 type: number
+ *                 example: 1.5
+ *         discountTiers:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               minDays:
+ *                 type: integer
+ *                 example: 30
+ *               discountPercentage:
+ *                 type: number
+ *                 example: 10
+ */
+
+/**
+ * @swagger
+ * /api/rate-cards:
+ *   get:
+ *     summary: Get rate cards
+ *     tags: [Rate Cards]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: pageSize
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: billboardId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: zoneId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: isActive
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: Paginated list of rate cards
+ */
+router.get(
+  '/',
+  requirePermission('rate_cards.view'),
+  validate([
+    query('billboardId').optional({ values: 'falsy' }).isUUID().withMessage('Invalid billboard ID'),
+    query('zoneId').optional({ values: 'falsy' }).isUUID().withMessage('Invalid zone ID'),
+    query('isActive').optional({ values: 'falsy' }).isBoolean().withMessage('isActive must be a boolean'),
+  ]),
+  asyncHandler(rateCardController.getRateCards)
+);
+
+/**
+ * @swagger
+ * /api/rate-cards/quote:
+ *   get:
+ *     summary: Price a billboard for a period
+ *     description: Applies the billboard's (or its zone's) rate card - seasonal and weekday multipliers, slot share, the best discount tier and the minimum booking period.
+ *     tags: [Rate Cards]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: billboardId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: startDate
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: endDate
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: slotQuantity
+ *         schema:
+ *           type: integer
+ *         description: Slots of a digital billboard's loop
+ *     responses:
+ *       200:
+ *         description: Price breakdown
+ *       400:
+ *         description: Invalid period, below the minimum booking period or invalid slot quantity
+ *       404:
+ *         description: Billboard not found
+ */
+router.get(
+  '/quote',
+  requirePermission('rate_cards.view'),
+  validate([
+    query('billboardId').isUUID().withMessage('Invalid billboard ID'),
+    query('startDate').isDate().withMessage('Valid start date is required'),
+    query('endDate').isDate().withMessage('Valid end date is required'),
+    query('slotQuantity').optional({ values: 'falsy' }).isInt({ min: 1 }).withMessage('Slot quantity must be a positive integer'),
+  ]),
+  asyncHandler(rateCardController.getQuote)
+);
+
+/**
+ * @swagger
+ * /api/rate-cards/{id}:
+ *   get:
+ *     summary: Get rate card by ID
+ *     description: Includes its seasons and discount tiers.
+ *     tags: [Rate Cards]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Rate card details
+ *       404:
+ *         description: Rate card not found
+ */
+router.get(
+  '/:id',
+  requirePermission('rate_cards.view'),
+  validate([
+    param('id').isUUID().withMessage('Invalid rate card ID'),
+  ]),
+  asyncHandler(rateCardController.getRateCardById)
+);
+
+/**
+ * @swagger
+ * /api/rate-cards:
+ *   post:
+ *     summary: Create a rate card
+ *     description: Give exactly one of billboardId or zoneId. Only one active card is allowed per billboard or zone.
+ *     tags: [Rate Cards]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/RateCardInput'
+ *     responses:
+ *       201:
+ *         description: Rate card created successfully
+ *       400:
+ *         description: Validation error or overlapping seasons
+ *       409:
+ *         description: An active rate card already exists for the billboard or zone
+ */
+router.post(
+  '/',
+  requirePermission('rate_cards.create'),
+  validate([
+    body('name').notEmpty().trim().withMessage('Name is required').isLength({ max: 200 }).withMessage('Name too long'),
+    body('billboardId').optional({ values: 'falsy' }).isUUID().withMessage('Invalid billboard ID'),
+    body('zoneId').optional({ values: 'falsy' }).isUUID().withMessage('Invalid zone ID'),
+    body('ratePerDay').isFloat({ min: 0 }).withMessage('Rate per day must be a non-negative number'),
+    body('description').optional({ values: 'falsy' }).trim(),
+    ...ruleValidators,
+  ]),
+  asyncHandler(rateCardController.createRateCard)
+);
+
+/**
+ * @swagger
+ * /api/rate-cards/{id}:
+ *   put:
+ *     summary: Update a rate card
+ *     description: Seasons and discount tiers, when given, replace the existing ones. The billboard or zone can't be changed.
+ *     tags: [Rate Cards]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             allOf:
+ *               - $ref: '#/components/schemas/RateCardInput'
+ *               - type: object
+ *                 properties:
+ *                   isActive:
+ *                     type: boolean
+ *     responses:
+ *       200:
+ *         description: Rate card updated successfully
+ *       404:
+ *         description: Rate card not found
+ *       409:
+ *         description: Another active rate card exists for the billboard or zone
+ */
+router.put(
+  '/:id',
+  requirePermission('rate_cards.edit'),
+  validate([
+    param('id').isUUID().withMessage('Invalid rate card ID'),
+    body('name').optional().notEmpty().trim().withMessage('Name cannot be empty').isLength({ max: 200 }).withMessage('Name too long'),
+    body('ratePerDay').optional().isFloat({ min: 0 }).withMessage('Rate per day must be a non-negative number'),
+    body('description').optional({ values: 'falsy' }).trim(),
+    body('isActive').optional().isBoolean().withMessage('isActive must be a boolean'),
+    ...ruleValidators,
+  ]),
+  asyncHandler(rateCardController.updateRateCard)
+);
+
+/**
+ * @swagger
+ * /api/rate-cards/{id}:
+ *   delete:
+ *     summary: Delete a rate card
+ *     description: Existing bookings keep their price; new bookings fall back to the zone card or the billboard's rate.
+ *     tags: [Rate Cards]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Rate card deleted successfully
+ *       404:
+ *         description: Rate card not found
+ */
+router.delete(
+  '/:id',
+  requirePermission('rate_cards.delete'),
+  validate([
+    param('id').isUUID().withMessage('Invalid rate card ID'),
+  ]),
+  asyncHandler(rateCardController.deleteRateCard)
+);
+
+export default router;
@@ -0,0 +1,268 @@
+import { Router } from 'express';
+import { param, query } from 'express-validator';
+import { validate } from '../middleware/validate.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { asyncHandler } from '../middleware/asyncHandler.js';
+import * as reportController from '../controllers/report.controller.js';
+import { PROFITABILITY_GROUPINGS } from '../services/report.service.js';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     AgingBuckets:
+ *       type: object
+ *       description: Outstanding amounts (total less payments incl. TDS) by days past due date
+ *       properties:
+ *         notDue:
+ *           type: number
+ *         days0To30:
+ *           type: number
+ *         days31To60:
+ *           type: number
+ *         days61To90:
+ *           type: number
+ *         days90Plus:
+ *           type: number
+ *         totalOutstanding:
+ *           type: number
+ */
+
+// ==================== RECEIVABLES AGING ====================
+
+/**
+ * @swagger
+ * /api/reports/receivables-aging:
+ *   get:
+ *     summary: Accounts-receivable aging per customer
+ *     tags: [Reports]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: asOfDate
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Age invoices as of this date (defaults to today)
+ *       - in: query
+ *         name: customerId
+ *         schema:
+ *           type: string
+ *         description: Limit to a single customer
+ *     responses:
+ *       200:
+ *         description: Bucket totals and per-customer aging
+ */
+router.get(
+  '/receivables-aging',
+  requirePermission('reports.view'),
+  validate([
+    query('asOfDate').optional({ values: 'falsy' }).isDate().withMessage('Invalid as-of date'),
+    query('customerId').optional({ values: 'falsy' }).isUUID().withMessage('Invalid customer ID'),
+  ]),
+  asyncHandler(reportController.getReceivablesAging)
+);
+
+/**
+ * @swagger
+ * /api/reports/receivables-aging/export:
+ *   get:
+ *     summary: Export accounts-receivable aging as CSV
+ *     tags: [Reports]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: asOfDate
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: customerId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: level
+ *         schema:
+ *           type: string
+ *           enum: [summary, detail]
+ *         description: One row per customer (summary) or per outstanding invoice (detail)
+ *     responses:
+ *       200:
+ *         description: CSV file
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ */
+router.get(
+  '/receivables-aging/export',
+  requirePermission('reports.export'),
+  validate([
+    query('asOfDate').optional({ values: 'falsy' }).isDate().withMessage('Invalid as-of date'),
+    query('customerId').optional({ values: 'falsy' }).isUUID().withMessage('Invalid customer ID'),
+    query('level').optional({ values: 'falsy' }).isIn(['summary', 'detail']).withMessage('Invalid level'),
+  ]),
+  asyncHandler(reportController.exportReceivablesAging)
+);
+
+/**
+ * @swagger
+ * /api/reports/receivables-aging/customers/{customerId}:
+ *   get:
+ *     summary: Drill down into a customer's outstanding invoices
+ *     tags: [Reports]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: customerId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: asOfDate
+ *         schema:
+ *           type: string
+ *           format: date
+ *     responses:
+ *       200:
+ *         description: Bucket totals and invoice lines
+ *       404:
+ *         description: Customer not found
+ */
+router.get(
+  '/receivables-aging/customers/:customerId',
+  requirePermission('reports.view'),
+  validate([
+    param('customerId').isUUID().withMessage('Invalid customer ID'),
+    query('asOfDate').optional({ values: 'falsy' }).isDate().withMessage('Invalid as-of date'),
+  ]),
+  asyncHandler(reportController.getCustomerReceivablesAging)
+);
+
+// ==================== PROFITABILITY ====================
+
+const profitabilityValidators = [
+  query('startDate').isDate().withMessage('Valid start date is required'),
+  query('endDate').isDate().withMessage('Valid end date is required'),
+  query('groupBy').optional({ values: 'falsy' }).isIn(PROFITABILITY_GROUPINGS).withMessage('Invalid grouping'),
+  query('regionId').optional({ values: 'falsy' }).isUUID().withMessage('Invalid region ID'),
+  query('cityId').optional({ values: 'falsy' }).isUUID().withMessage('Invalid city ID'),
+  query('zoneId').optional({ values: 'falsy' }).isUUID().withMessage('Invalid zone ID'),
+];
+
+/**
+ * @swagger
+ * /api/reports/profitability:
+ *   get:
+ *     summary: Revenue vs. site rent margin per billboard, zone, city or region
+ *     description: Revenue is purchase order actual value pro-rated by its actual dates. Cost is lease rent, or the landlord's rent split across their billboards where there is no lease.
+ *     tags: [Reports]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: startDate
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: endDate
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: groupBy
+ *         schema:
+ *           type: string
+ *           enum: [billboard, zone, city, region]
+ *           default: billboard
+ *       - in: query
+ *         name: regionId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: cityId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: zoneId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Period totals and one margin row per group
+ *       400:
+ *         description: End date is before start date
+ */
+router.get(
+  '/profitability',
+  requirePermission('reports.view'),
+  validate(profitabilityValidators),
+  asyncHandler(reportController.getProfitability)
+);
+
+/**
+ * @swagger
+ * /api/reports/profitability/export:
+ *   get:
+ *     summary: Export the profitability margin table as CSV
+ *     tags: [Reports]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: startDate
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: endDate
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: groupBy
+ *         schema:
+ *           type: string
+ *           enum: [billboard, zone, city, region]
+ *           default: billboard
+ *       - in: query
+ *         name: regionId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: cityId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: zoneId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: CSV file
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ */
+router.get(
+  '/profitability/export',
+  requirePermission('reports.export'),
+  validate(profitabilityValidators),
+  asyncHandler(reportController.exportProfitability)
+);
+
+export default router;
@@ -1,7 +1,15 @@
 import { Router } from 'express';
+import { body, param } from 'express-validator';
+import { validate } from '../middleware/validate.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { asyncHandler } from '../middleware/asyncHandler.js';
+import * as roleController from '../controllers/role.controller.js';
 
 const router = Router();
 
+// All routes require authentication
+router.use(authenticate);
+
 /**
  * @swagger
  * tags:
@@ -9,23 +17,73 @@ const router = Router();
  *   description: Role and permission management endpoints
  */
 
+// ==================== PERMISSIONS ====================
+
+/**
+ * @swagger
+ * /api/roles/permissions/all:
+ *   get:
+ *     summary: Get all available permissions grouped by module
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: List of modules with their permissions
+ */
+router.get(
+  '/permissions/all',
+  requirePermission('roles.view'),
+  asyncHandler(roleController.getPermissions)
+);
+
+/**
+ * @swagger
+ * /api/roles/permissions/matrix:
+ *   get:
+ *     summary: Get the roles x permissions matrix
+ *     description: Permissions grouped by module, each with the IDs of roles that are granted it.
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Roles and permission matrix
+ */
+router.get(
+  '/permissions/matrix',
+  requirePermission('roles.view'),
+  asyncHandler(roleController.getPermissionMatrix)
+);
+
+// ==================== CRUD OPERATIONS ====================
+
 /**
  * @swagger
  * /api/roles:
  *   get:
  *     summary: Get all roles
  *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: isActive
+ *         schema:
+ *           type: boolean
  *     responses:
  *       200:
- *         description: List of roles
+ *         description: List of roles with user and permission counts
  */
-router.get('/', (req, res) => {
-  // TODO: Implement get all roles
-  res.status(501).json({
-    success: false,
-    message: 'Get roles endpoint not implemented yet',
-  });
-});
+router.get(
+  '/',
+  requirePermission('roles.view'),
+  asyncHandler(roleController.getRoles)
+);
 
 /**
  * @swagger
@@ -33,6 +91,8 @@ router.get('/', (req, res) => {
  *   get:
  *     summary: Get role by ID
  *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -45,13 +105,14 @@ router.get('/', (req, res) => {
  *       404:
  *         description: Role not found
  */
-router.get('/:id', (req, res) => {
-  // TODO: Implement get role by ID
-  res.status(501).json({
-    success: false,
-    message: 'Get role by ID endpoint not implemented yet',
-  });
-});
+router.get(
+  '/:id',
+  requirePermission('roles.view'),
+  validate([
+    param('id').isUUID().withMessage('Invalid role ID'),
+  ]),
+  asyncHandler(roleController.getRoleById)
+);
 
 /**
  * @swagger
@@ -59,6 +120,8 @@ router.get('/:id', (req, res) => {
  *   post:
  *     summary: Create a new role
  *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
  *     requestBody:
  *       required: true
  *       content:
@@ -81,21 +144,30 @@ router.get('/:id', (req, res) => {
  *         description: Role created successfully
  *       400:
  *         description: Validation error
+ *       409:
+ *         description: Role name already exists
  */
-router.post('/', (req, res) => {
-  // TODO: Implement create role
-  res.status(501).json({
-    success: false,
-    message: 'Create role endpoint not implemented yet',
-  });
-});
+router.post(
+  '/',
+  requirePermission('roles.create'),
+  validate([
+    body('name').notEmpty().trim().withMessage('Name is required').isLength({ max: 100 }).withMessage('Name too long'),
+    body('description').optional({ values: 'falsy' }).trim(),
+    body('permissionIds').optional().isArray().withMessage('permissionIds must be an array'),
+    body('permissionIds.*').isUUID().withMessage('Invalid permission ID'),
+  ]),
+  asyncHandler(roleController.createRole)
+);
 
 /**
  * @swagger
  * /api/roles/{id}:
  *   put:
  *     summary: Update role
+ *     description: System roles cannot be renamed or deactivated. When permissionIds is provided it replaces the role's permissions.
  *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -113,6 +185,8 @@ router.post('/', (req, res) => {
  *                 type: string
  *               description:
  *                 type: string
+ *               isActive:
+ *                 type: boolean
  *               permissionIds:
  *                 type: array
  *                 items:
@@ -120,59 +194,102 @@ router.post('/', (req, res) => {
  *     responses:
  *       200:
  *         description: Role updated successfully
+ *       400:
+ *         description: Change not allowed on a system role
  *       404:
  *         description: Role not found
  */
-router.put('/:id', (req, res) => {
-  // TODO: Implement update role
-  res.status(501).json({
-    success: false,
-    message: 'Update role endpoint not implemented yet',
-  });
-});
+router.put(
+  '/:id',
+  requirePermission('roles.edit'),
+  validate([
+    param('id').isUUID().withMessage('Invalid role ID'),
+    body('name').optional({ values: 'falsy' }).notEmpty().trim().isLength({ max: 100 }).withMessage('Name too long'),
+    body('description').optional({ values: 'falsy' }).trim(),
+    body('isActive').optional().isBoolean().withMessage('isActive must be a boolean'),
+    body('permissionIds').optional().isArray().withMessage('permissionIds must be an array'),
+    body('permissionIds.*').isUUID().withMessage('Invalid permission ID'),
+  ]),
+  asyncHandler(roleController.updateRole)
+);
 
 /**
  * @swagger
- * /api/roles/{id}:
- *   delete:
- *     summary: Delete role
+ * /api/roles/{id}/permissions:
+ *   put:
+ *     summary: Replace the permissions assigned to a role
+ *     description: System roles must keep roles.edit.
  *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
  *         required: true
  *         schema:
  *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - permissionIds
+ *             properties:
+ *               permissionIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
  *     responses:
  *       200:
- *         description: Role deleted successfully
+ *         description: Role permissions updated
+ *       400:
+ *         description: Unknown permission or protected permission removed from a system role
  *       404:
  *         description: Role not found
  */
-router.delete('/:id', (req, res) => {
-  // TODO: Implement delete role
-  res.status(501).json({
-    success: false,
-    message: 'Delete role endpoint not implemented yet',
-  });
-});
+router.put(
+  '/:id/permissions',
+  requirePermission('roles.edit'),
+  validate([
+    param('id').isUUID().withMessage('Invalid role ID'),
+    body('permissionIds').isArray().withMessage('permissionIds must be an array'),
+    body('permissionIds.*').isUUID().withMessage('Invalid permission ID'),
+  ]),
+  asyncHandler(roleController.setRolePermissions)
+);
 
 /**
  * @swagger
- * /api/roles/permissions:
- *   get:
- *     summary: Get all available permissions
+ * /api/roles/{id}:
+ *   delete:
+ *     summary: Delete role
+ *     description: System roles and roles still assigned to users cannot be deleted.
  *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
  *     responses:
  *       200:
- *         description: List of all permissions
+ *         description: Role deleted successfully
+ *       400:
+ *         description: System role or role in use
+ *       404:
+ *         description: Role not found
  */
-router.get('/permissions/all', (req, res) => {
-  // TODO: Implement get all permissions
-  res.status(501).json({
-    success: false,
-    message: 'Get permissions endpoint not implemented yet',
-  });
-});
+router.delete(
+  '/:id',
+  requirePermission('roles.delete'),
+  validate([
+    param('id').isUUID().withMessage('Invalid role ID'),
+  ]),
+  asyncHandler(roleController.deleteRole)
+);
 
 export default router;
@@ -1,7 +1,15 @@
 import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import { validate } from '../middleware/validate.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { asyncHandler } from '../middleware/asyncHandler.js';
+import * as userController from '../controllers/user.controller.js';
 
 const router = Router();
 
+// All routes require authentication
+router.use(authenticate);
+
 /**
  * @swagger
  * tags:
@@ -15,6 +23,8 @@ const router = Router();
  *   get:
  *     summary: Get all users
  *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: query
  *         name: page
@@ -30,19 +40,34 @@ const router = Router();
  *         name: search
  *         schema:
  *           type: string
+ *         description: Search by name or email
+ *       - in: query
+ *         name: roleId
+ *         schema:
+ *           type: string
+ *         description: Filter by assigned role
+ *       - in: query
+ *         name: isActive
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: isCustomer
+ *         schema:
+ *           type: boolean
  *     responses:
  *       200:
  *         description: List of users
  *       401:
  *         description: Unauthorized
  */
-router.get('/', (req, res) => {
-  // TODO: Implement get all users
-  res.status(501).json({
-    success: false,
-    message: 'Get users endpoint not implemented yet',
-  });
-});
+router.get(
+  '/',
+  requirePermission('users.view'),
+  validate([
+    query('roleId').optional({ values: 'falsy' }).isUUID().withMessage('Invalid role ID'),
+  ]),
+  asyncHandler(userController.getUsers)
+);
 
 /**
  * @swagger
@@ -50,6 +75,8 @@ router.get('/', (req, res) => {
  *   get:
  *     summary: Get user by ID
  *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -58,17 +85,18 @@ router.get('/', (req, res) => {
  *           type: string
  *     responses:
  *       200:
- *         description: User details
+ *         description: User details with roles and effective permissions
  *       404:
  *         description: User not found
  */
-router.get('/:id', (req, res) => {
-  // TODO: Implement get user by ID
-  res.status(501).json({
-    success: false,
-    message: 'Get user by ID endpoint not implemented yet',
-  });
-});
+router.get(
+  '/:id',
+  requirePermission('users.view'),
+  validate([
+    param('id').isUUID().withMessage('Invalid user ID'),
+  ]),
+  asyncHandler(userController.getUserById)
+);
 
 /**
  * @swagger
@@ -76,6 +104,8 @@ router.get('/:id', (req, res) => {
  *   post:
  *     summary: Create a new user
  *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
  *     requestBody:
  *       required: true
  *       content:
@@ -97,6 +127,13 @@ router.get('/:id', (req, res) => {
  *                 type: string
  *               lastName:
  *                 type: string
+ *               phone:
+ *                 type: string
+ *               isCustomer:
+ *                 type: boolean
+ *               customerId:
+ *                 type: string
+ *                 description: Required when isCustomer is true
  *               roleIds:
  *                 type: array
  *                 items:
@@ -106,21 +143,35 @@ router.get('/:id', (req, res) => {
  *         description: User created successfully
  *       400:
  *         description: Validation error
+ *       409:
+ *         description: Email already registered
  */
-router.post('/', (req, res) => {
-  // TODO: Implement create user
-  res.status(501).json({
-    success: false,
-    message: 'Create user endpoint not implemented yet',
-  });
-});
+router.post(
+  '/',
+  requirePermission('users.create'),
+  validate([
+    body('email').isEmail().normalizeEmail().withMessage('Valid email is required'),
+    body('password').isLength({ min: 8 }).withMessage('Password must be at least 8 characters'),
+    body('firstName').notEmpty().trim().withMessage('First name is required'),
+    body('lastName').notEmpty().trim().withMessage('Last name is required'),
+    body('phone').optional({ values: 'falsy' }).trim().isLength({ max: 20 }).withMessage('Phone too long'),
+    body('isCustomer').optional().isBoolean().withMessage('isCustomer must be a boolean'),
+    body('customerId').optional({ values: 'falsy' }).isUUID().withMessage('Invalid customer ID'),
+    body('roleIds').optional().isArray().withMessage('roleIds must be an array'),
+    body('roleIds.*').isUUID().withMessage('Invalid role ID'),
+  ]),
+  asyncHandler(userController.createUser)
+);
 
 /**
  * @swagger
  * /api/users/{id}:
  *   put:
  *     summary: Update user
+ *     description: When roleIds is provided it replaces the user's roles. Setting isActive to false revokes all refresh tokens.
  *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -134,10 +185,19 @@ router.post('/', (req, res) => {
  *           schema:
  *             type: object
  *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
  *               firstName:
  *                 type: string
  *               lastName:
  *                 type: string
+ *               phone:
+ *                 type: string
+ *               isCustomer:
+ *                 type: boolean
+ *               customerId:
+ *                 type: string
  *               roleIds:
  *                 type: array
  *                 items:
@@ -149,21 +209,36 @@ router.post('/', (req, res) => {
  *         description: User updated successfully
  *       404:
  *         description: User not found
+ *       409:
+ *         description: Email already registered
  */
-router.put('/:id', (req, res) => {
-  // TODO: Implement update user
-  res.status(501).json({
-    success: false,
-    message: 'Update user endpoint not implemented yet',
-  });
-});
+router.put(
+  '/:id',
+  requirePermission('users.edit'),
+  validate([
+    param('id').isUUID().withMessage('Invalid user ID'),
+    body('email').optional({ values: 'falsy' }).isEmail().normalizeEmail().withMessage('Valid email is required'),
+    body('firstName').optional({ values: 'falsy' }).notEmpty().trim().withMessage('First name cannot be empty'),
+    body('lastName').optional({ values: 'falsy' }).notEmpty().trim().withMessage('Last name cannot be empty'),
+    body('phone').optional({ values: 'falsy' }).trim().isLength({ max: 20 }).withMessage('Phone too long'),
+    body('isCustomer').optional().isBoolean().withMessage('isCustomer must be a boolean'),
+    body('customerId').optional({ values: 'falsy' }).isUUID().withMessage('Invalid customer ID'),
+    body('roleIds').optional().isArray().withMessage('roleIds must be an array'),
+    body('roleIds.*').isUUID().withMessage('Invalid role ID'),
+    body('isActive').optional().isBoolean().withMessage('isActive must be a boolean'),
+  ]),
+  asyncHandler(userController.updateUser)
+);
 
 /**
  * @swagger
  * /api/users/{id}:
  *   delete:
- *     summary: Delete user
+ *     summary: Deactivate user
+ *     description: Users are not hard-deleted. The account is deactivated and all refresh tokens are revoked.
  *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -172,16 +247,63 @@ router.put('/:id', (req, res) => {
  *           type: string
  *     responses:
  *       200:
- *         description: User deleted successfully
+ *         description: User deactivated successfully
+ *       400:
+ *         description: Cannot deactivate your own account
+ *       404:
+ *         description: User not found
+ */
+router.delete(
+  '/:id',
+  requirePermission('users.delete'),
+  validate([
+    param('id').isUUID().withMessage('Invalid user ID'),
+  ]),
+  asyncHandler(userController.deactivateUser)
+);
+
+/**
+ * @swagger
+ * /api/users/{id}/reset-password:
+ *   post:
+ *     summary: Reset a user's password (admin)
+ *     description: Sets a new password without the current one and logs the user out of all sessions.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - newPassword
+ *             properties:
+ *               newPassword:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Password reset successfully
  *       404:
  *         description: User not found
  */
-router.delete('/:id', (req, res) => {
-  // TODO: Implement delete user
-  res.status(501).json({
-    success: false,
-    message: 'Delete user endpoint not implemented yet',
-  });
-});
+router.post(
+  '/:id/reset-password',
+  requirePermission('users.edit'),
+  validate([
+    param('id').isUUID().withMessage('Invalid user ID'),
+    body('newPassword')
+      .isLength({ min: 8 })
+      .withMessage('New password must be at least 8 characters'),
+  ]),
+  asyncHandler(userController.resetPassword)
+);
 
 export default router;
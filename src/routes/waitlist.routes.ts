@@ -0,0 +1,231 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import { validate } from '../middleware/validate.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { asyncHandler } from '../middleware/asyncHandler.js';
+import * as waitlistController from '../controllers/waitlist.controller.js';
+import { WAITLIST_STATUSES } from '../services/waitlist.service.js';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+/**
+ * @swagger
+ * tags:
+ *   name: Waitlist
+ *   description: Customers waiting for booked-out billboards
+ */
+
+/**
+ * @swagger
+ * /api/waitlist:
+ *   get:
+ *     summary: Get waitlist entries
+ *     description: Entries whose billboard and period have become available have status notified.
+ *     tags: [Waitlist]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: pageSize
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: customerId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: billboardId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [waiting, notified, fulfilled, cancelled]
+ *     responses:
+ *       200:
+ *         description: Paginated list of waitlist entries
+ */
+router.get(
+  '/',
+  requirePermission('bookings.view'),
+  validate([
+    query('customerId').optional({ values: 'falsy' }).isUUID().withMessage('Invalid customer ID'),
+    query('billboardId').optional({ values: 'falsy' }).isUUID().withMessage('Invalid billboard ID'),
+    query('status').optional({ values: 'falsy' }).isIn(WAITLIST_STATUSES).withMessage('Invalid status'),
+  ]),
+  asyncHandler(waitlistController.getWaitlistEntries)
+);
+
+/**
+ * @swagger
+ * /api/waitlist/{id}:
+ *   get:
+ *     summary: Get waitlist entry by ID
+ *     tags: [Waitlist]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Waitlist entry details
+ *       404:
+ *         description: Waitlist entry not found
+ */
+router.get(
+  '/:id',
+  requirePermission('bookings.view'),
+  validate([
+    param('id').isUUID().withMessage('Invalid waitlist entry ID'),
+  ]),
+  asyncHandler(waitlistController.getWaitlistEntryById)
+);
+
+/**
+ * @swagger
+ * /api/waitlist:
+ *   post:
+ *     summary: Add a customer to the waitlist for a booked-out billboard
+ *     description: Only allowed while the billboard (or slots) is unavailable for the period. The user who adds the entry is notified when it frees up.
+ *     tags: [Waitlist]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - customerId
+ *               - billboardId
+ *               - startDate
+ *               - endDate
+ *             properties:
+ *               customerId:
+ *                 type: string
+ *               billboardId:
+ *                 type: string
+ *               slotNumber:
+ *                 type: integer
+ *               slotQuantity:
+ *                 type: integer
+ *                 description: Without a slot number, any run of this many consecutive slots
+ *               startDate:
+ *                 type: string
+ *                 format: date
+ *               endDate:
+ *                 type: string
+ *                 format: date
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Added to waitlist successfully
+ *       400:
+ *         description: Validation error or the billboard is available
+ *       409:
+ *         description: The customer is already waiting for this billboard and period
+ */
+router.post(
+  '/',
+  requirePermission('bookings.create'),
+  validate([
+    body('customerId').isUUID().withMessage('Invalid customer ID'),
+    body('billboardId').isUUID().withMessage('Invalid billboard ID'),
+    body('slotNumber').optional({ values: 'falsy' }).isInt({ min: 1 }).withMessage('Slot number must be a positive integer'),
+    body('slotQuantity').optional({ values: 'falsy' }).isInt({ min: 1 }).withMessage('Slot quantity must be a positive integer'),
+    body('startDate').isDate().withMessage('Valid start date is required'),
+    body('endDate').isDate().withMessage('Valid end date is required'),
+    body('notes').optional({ values: 'falsy' }).trim(),
+  ]),
+  asyncHandler(waitlistController.createWaitlistEntry)
+);
+
+/**
+ * @swagger
+ * /api/waitlist/{id}/status:
+ *   patch:
+ *     summary: Update waitlist entry status
+ *     description: A notified entry can be marked fulfilled once booked, put back to waiting if the billboard was taken again, or cancelled.
+ *     tags: [Waitlist]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - status
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [waiting, fulfilled, cancelled]
+ *     responses:
+ *       200:
+ *         description: Waitlist entry updated successfully
+ *       400:
+ *         description: Invalid status transition
+ *       404:
+ *         description: Waitlist entry not found
+ */
+router.patch(
+  '/:id/status',
+  requirePermission('bookings.edit'),
+  validate([
+    param('id').isUUID().withMessage('Invalid waitlist entry ID'),
+    body('status').isIn(WAITLIST_STATUSES.filter(status => status !== 'notified')).withMessage('Invalid status'),
+  ]),
+  asyncHandler(waitlistController.updateWaitlistEntryStatus)
+);
+
+/**
+ * @swagger
+ * /api/waitlist/{id}:
+ *   delete:
+ *     summary: Delete a waitlist entry
+ *     tags: [Waitlist]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Waitlist entry deleted successfully
+ *       404:
+ *         description: Waitlist entry not found
+ */
+router.delete(
+  '/:id',
+  requirePermission('bookings.delete'),
+  validate([
+    param('id').isUUID().withMessage('Invalid waitlist entry ID'),
+  ]),
+  asyncHandler(waitlistController.deleteWaitlistEntry)
+);
+
+export default router;
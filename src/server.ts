@@ -1,8 +1,12 @@
 import app from './app.js';
 import { config } from './config/index.js';
+import { startScheduler } from './jobs/index.js';
+import { verifyConstraints } from './db/index.js';
 
 const startServer = async () => {
   try {
+    await verifyConstraints();
+
     // Start the server
     app.listen(config.port, () => {
       console.log(`
@@ -16,6 +20,10 @@ const startServer = async () => {
 ║                                                                ║
 ╚════════════════════════════════════════════════════════════════╝
       `);
+
+      if (config.jobs.schedulerEnabled) {
+        startScheduler();
+      }
     });
   } catch (error) {
     console.error('Failed to start server:', error);
@@ -0,0 +1,156 @@
+import { eq, and, desc, sql, gte, lte } from 'drizzle-orm';
+import { db } from '../db/index.js';
+import { auditLogs } from '../db/schema/index.js';
+import { getRequestContext } from '../utils/request-context.js';
+
+export type AuditAction = 'create' | 'update' | 'delete';
+
+export interface FieldChange {
+  from: unknown;
+  to: unknown;
+}
+
+export interface AuditLogListOptions {
+  page: number;
+  pageSize: number;
+  module?: string;
+  entityType?: string;
+  entityId?: string;
+  userId?: string;
+  action?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+type AuditRecord = { id: string } & Record<string, unknown>;
+
+// Bookkeeping columns that change on every write and would drown out the real changes
+const IGNORED_FIELDS = new Set(['createdAt', 'updatedAt', 'createdBy', 'updatedBy']);
+
+const serialize = (value: unknown): string => JSON.stringify(value ?? null);
+
+class AuditLogService {
+  /**
+   * Field-level diff between two snapshots of the same row. Only fields present in the
+   * new snapshot are compared, so joined extras on the old snapshot are ignored.
+   */
+  computeChanges(oldValues: Record<string, unknown>, newValues: Record<string, unknown>) {
+    const changes: Record<string, FieldChange> = {};
+
+    for (const [field, value] of Object.entries(newValues)) {
+      if (IGNORED_FIELDS.has(field)) continue;
+      if (serialize(oldValues[field]) !== serialize(value)) {
+        changes[field] = { from: oldValues[field] ?? null, to: value ?? null };
+      }
+    }
+
+    return changes;
+  }
+
+  private async record(
+    action: AuditAction,
+    module: string,
+    entityType: string,
+    entityId: string,
+    values: { oldValues?: Record<string, unknown>; newValues?: Record<string, unknown>; changes?: Record<string, FieldChange> }
+  ) {
+    const context = getRequestContext();
+
+    // The change itself has already been written; a failed audit insert must not fail the request
+    try {
+      await db.insert(auditLogs).values({
+        userId: context?.userId,
+        userEmail: context?.userEmail,
+        action,
+        module,
+        entityId,
+        entityType,
+        oldValues: values.oldValues,
+        newValues: values.newValues,
+        changes: values.changes,
+        ipAddress: context?.ipAddress,
+        userAgent: context?.userAgent,
+        requestPath: context?.requestPath?.slice(0, 255),
+        requestMethod: context?.method,
+      });
+    } catch (error) {
+      console.error('Audit log write error:', error);
+    }
+  }
+
+  async logCreate(module: string, entityType: string, values: AuditRecord) {
+    await this.record('create', module, entityType, values.id, { newValues: values });
+  }
+
+  /**
+   * Records an update with its field-level diff. Nothing is written when no tracked field changed.
+   */
+  async logUpdate(module: string, entityType: string, before: AuditRecord, after: AuditRecord) {
+    const changes = this.computeChanges(before, after);
+    if (Object.keys(changes).length === 0) return;
+
+    const oldValues: Record<string, unknown> = {};
+    for (const field of Object.keys(after)) {
+      oldValues[field] = before[field] ?? null;
+    }
+
+    await this.record('update', module, entityType, after.id, { oldValues, newValues: after, changes });
+  }
+
+  async logDelete(module: string, entityType: string, values: AuditRecord) {
+    await this.record('delete', module, entityType, values.id, { oldValues: values });
+  }
+
+  async getAuditLogs(options: AuditLogListOptions) {
+    const { page, pageSize, module, entityType, entityId, userId, action, startDate, endDate } = options;
+    const offset = (page - 1) * pageSize;
+
+    const conditions = [];
+    if (module) conditions.push(eq(auditLogs.module, module));
+    if (entityType) conditions.push(eq(auditLogs.entityType, entityType));
+    if (entityId) conditions.push(eq(auditLogs.entityId, entityId));
+    if (userId) conditions.push(eq(auditLogs.userId, userId));
+    if (action) conditions.push(eq(auditLogs.action, action));
+    if (startDate) conditions.push(gte(auditLogs.createdAt, new Date(startDate)));
+    if (endDate) conditions.push(lte(auditLogs.createdAt, new Date(endDate + 'T23:59:59')));
+
+    const whereCondition = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [data, countResult] = await Promise.all([
+      db
+        .select()
+        .from(auditLogs)
+        .where(whereCondition)
+        .orderBy(desc(auditLogs.createdAt))
+        .limit(pageSize)
+        .offset(offset),
+      db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(auditLogs)
+        .where(whereCondition),
+    ]);
+
+    const totalItems = countResult[0]?.count || 0;
+
+    return {
+      data,
+      pagination: {
+        page,
+        pageSize,
+        totalItems,
+        totalPages: Math.ceil(totalItems / pageSize),
+      },
+    };
+  }
+
+  async getAuditLogById(id: string) {
+    const [log] = await db
+      .select()
+      .from(auditLogs)
+      .where(eq(auditLogs.id, id))
+      .limit(1);
+    return log || null;
+  }
+}
+
+export const auditLogService = new AuditLogService();
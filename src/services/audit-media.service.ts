@@ -0,0 +1,238 @@
+import { randomUUID } from 'node:crypto';
+import { eq, and, asc, desc, sql, gte, lte } from 'drizzle-orm';
+import { db } from '../db/index.js';
+import { auditMedia, bookings, billboards } from '../db/schema/index.js';
+import { bookingService } from './booking.service.js';
+import { storageService, getStorageForBucket } from './storage.service.js';
+import { auditLogService } from './audit-log.service.js';
+import { getCustomerScope } from '../utils/request-context.js';
+
+// Proof-of-display photos; extension used for the stored object
+export const ALLOWED_MEDIA_TYPES: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/webp': '.webp',
+  'image/heic': '.heic',
+};
+
+// Uploads arrive base64-encoded in a JSON body capped at 10mb, which leaves roughly 7mb of file
+export const MAX_MEDIA_SIZE = 7 * 1024 * 1024;
+
+export interface UploadAuditMediaDto {
+  bookingId: string;
+  mediaDate: string;
+  fileName: string;
+  mimeType: string;
+  content: Buffer;
+  description?: string;
+  uploadedBy: string;
+}
+
+export interface AuditMediaListOptions {
+  page: number;
+  pageSize: number;
+  bookingId?: string;
+  billboardId?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+const mediaColumns = {
+  id: auditMedia.id,
+  bookingId: auditMedia.bookingId,
+  billboardId: auditMedia.billboardId,
+  mediaDate: auditMedia.mediaDate,
+  fileName: auditMedia.fileName,
+  fileType: auditMedia.fileType,
+  fileSize: auditMedia.fileSize,
+  mimeType: auditMedia.mimeType,
+  description: auditMedia.description,
+  uploadedAt: auditMedia.uploadedAt,
+  uploadedBy: auditMedia.uploadedBy,
+  bookingReference: bookings.referenceCode,
+  billboardName: billboards.name,
+  billboardCode: billboards.code,
+};
+
+class AuditMediaService {
+  async getAllMedia(options: AuditMediaListOptions) {
+    const { page, pageSize, bookingId, billboardId, startDate, endDate } = options;
+    const offset = (page - 1) * pageSize;
+
+    const conditions = [];
+    const customerScope = getCustomerScope();
+    if (customerScope) conditions.push(eq(bookings.customerId, customerScope));
+    if (bookingId) conditions.push(eq(auditMedia.bookingId, bookingId));
+    if (billboardId) conditions.push(eq(auditMedia.billboardId, billboardId));
+    if (startDate) conditions.push(gte(auditMedia.mediaDate, startDate));
+    if (endDate) conditions.push(lte(auditMedia.mediaDate, endDate));
+
+    const whereCondition = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [data, countResult] = await Promise.all([
+      db
+        .select(mediaColumns)
+        .from(auditMedia)
+        .innerJoin(bookings, eq(auditMedia.bookingId, bookings.id))
+        .innerJoin(billboards, eq(auditMedia.billboardId, billboards.id))
+        .where(whereCondition)
+        .orderBy(desc(auditMedia.mediaDate), desc(auditMedia.uploadedAt))
+        .limit(pageSize)
+        .offset(offset),
+      db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(auditMedia)
+        .innerJoin(bookings, eq(auditMedia.bookingId, bookings.id))
+        .where(whereCondition),
+    ]);
+
+    const totalItems = countResult[0]?.count || 0;
+
+    return {
+      data,
+      pagination: {
+        page,
+        pageSize,
+        totalItems,
+        totalPages: Math.ceil(totalItems / pageSize),
+      },
+    };
+  }
+
+  async getMediaById(id: string) {
+    const customerScope = getCustomerScope();
+
+    const [media] = await db
+      .select({ ...mediaColumns, s3Key: auditMedia.s3Key, s3Bucket: auditMedia.s3Bucket })
+      .from(auditMedia)
+      .innerJoin(bookings, eq(auditMedia.bookingId, bookings.id))
+      .innerJoin(billboards, eq(auditMedia.billboardId, billboards.id))
+      .where(and(eq(auditMedia.id, id), customerScope ? eq(bookings.customerId, customerScope) : undefined))
+      .limit(1);
+
+    return media || null;
+  }
+
+  /**
+   * All media for a booking, oldest first, grouped by the date the photo was taken
+   */
+  async getBookingTimeline(bookingId: string) {
+    const booking = await bookingService.getBookingById(bookingId);
+    if (!booking) {
+      throw new Error('Booking not found');
+    }
+
+    const media = await db
+      .select(mediaColumns)
+      .from(auditMedia)
+      .innerJoin(bookings, eq(auditMedia.bookingId, bookings.id))
+      .innerJoin(billboards, eq(auditMedia.billboardId, billboards.id))
+      .where(eq(auditMedia.bookingId, bookingId))
+      .orderBy(asc(auditMedia.mediaDate), asc(auditMedia.uploadedAt));
+
+    const byDate = new Map<string, typeof media>();
+    for (const item of media) {
+      const list = byDate.get(item.mediaDate) || [];
+      list.push(item);
+      byDate.set(item.mediaDate, list);
+    }
+
+    return {
+      booking: {
+        id: booking.id,
+        referenceCode: booking.referenceCode,
+        startDate: booking.startDate,
+        endDate: booking.actualEndDate || booking.endDate,
+        status: booking.status,
+        billboard: booking.billboard,
+        customer: booking.customer,
+      },
+      mediaCount: media.length,
+      timeline: Array.from(byDate.entries()).map(([date, items]) => ({ date, media: items })),
+    };
+  }
+
+  async uploadMedia(data: UploadAuditMediaDto) {
+    const booking = await bookingService.getBookingById(data.bookingId);
+    if (!booking) {
+      throw new Error('Booking not found');
+    }
+
+    const extension = ALLOWED_MEDIA_TYPES[data.mimeType];
+    if (!extension) {
+      throw new Error(`Cannot upload file type "${data.mimeType}". Allowed: ${Object.keys(ALLOWED_MEDIA_TYPES).join(', ')}`);
+    }
+
+    if (data.content.length === 0) {
+      throw new Error('Cannot upload an empty file');
+    }
+    if (data.content.length > MAX_MEDIA_SIZE) {
+      throw new Error(`Cannot upload files larger than ${MAX_MEDIA_SIZE / (1024 * 1024)}MB`);
+    }
+
+    const periodEnd = booking.actualEndDate || booking.endDate;
+    if (data.mediaDate < booking.startDate || data.mediaDate > periodEnd) {
+      throw new Error(`Cannot upload media dated outside the booking period (${booking.startDate} to ${periodEnd})`);
+    }
+
+    const key = `audit-media/${booking.id}/${randomUUID()}${extension}`;
+    await storageService.put(key, data.content, data.mimeType);
+
+    let media;
+    try {
+      [media] = await db
+        .insert(auditMedia)
+        .values({
+          bookingId: booking.id,
+          billboardId: booking.billboardId,
+          mediaDate: data.mediaDate,
+          fileName: data.fileName,
+          fileType: 'image',
+          fileSize: data.content.length,
+          mimeType: data.mimeType,
+          s3Key: key,
+          s3Bucket: storageService.bucket,
+          description: data.description,
+          uploadedBy: data.uploadedBy,
+        })
+        .returning();
+    } catch (error) {
+      // Don't leave an orphaned file behind when the record can't be saved
+      await storageService.delete(key).catch(() => undefined);
+      throw error;
+    }
+
+    await auditLogService.logCreate('audit_media', 'audit_media', media);
+    return this.getMediaById(media.id);
+  }
+
+  /**
+   * Media record together with the file contents from storage
+   */
+  async getMediaFile(id: string) {
+    const media = await this.getMediaById(id);
+    if (!media) {
+      throw new Error('Media not found');
+    }
+
+    const content = await getStorageForBucket(media.s3Bucket).get(media.s3Key);
+    return { media, content };
+  }
+
+  async deleteMedia(id: string) {
+    const media = await this.getMediaById(id);
+    if (!media) {
+      throw new Error('Media not found');
+    }
+
+    // File first: if storage fails the record stays, so the delete can be retried instead of orphaning the file
+    await getStorageForBucket(media.s3Bucket).delete(media.s3Key);
+    const [deleted] = await db.delete(auditMedia).where(eq(auditMedia.id, id)).returning();
+
+    if (deleted) {
+      await auditLogService.logDelete('audit_media', 'audit_media', deleted);
+    }
+  }
+}
+
+export const auditMediaService = new AuditMediaService();
@@ -311,6 +311,27 @@ class AuthService {
     // Invalidate all refresh tokens for security
     await this.logoutAll(userId);
   }
+
+  async resetPassword(userId: string, newPassword: string, updatedBy?: string): Promise<void> {
+    const [user] = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1);
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const passwordHash = await bcrypt.hash(newPassword, 12);
+    await db
+      .update(users)
+      .set({ passwordHash, updatedBy, updatedAt: new Date() })
+      .where(eq(users.id, userId));
+
+    // Force the user to log in again with the new password
+    await this.logoutAll(userId);
+  }
 }
 
 export const authService = new AuthService();
@@ -1,6 +1,10 @@
-import { eq, ilike, and, desc, asc, sql, or } from 'drizzle-orm';
+import { eq, ilike, and, desc, asc, sql, or, lte, inArray, isNull } from 'drizzle-orm';
 import { db } from '../db/index.js';
-import { billboards, zones, cities, regions, landlords } from '../db/schema/index.js';
+import { billboards, zones, cities, regions, landlords, bookings, customers, bookingHolds, quotationItems, leaseAgreements } from '../db/schema/index.js';
+import { auditLogService } from './audit-log.service.js';
+import { getCustomerScope } from '../utils/request-context.js';
+import { ConflictError } from '../middleware/errorHandler.js';
+import { today } from '../utils/dates.js';
 
 // Types
 export type BillboardType = 'static' | 'digital';
@@ -55,6 +59,26 @@ export interface UpdateBillboardDto {
   updatedBy?: string;
 }
 
+export interface PlaylistEntry {
+  position: number;
+  slotNumber: number;
+  // Seconds from the start of the loop
+  startOffset: number;
+  duration: number;
+  booked: boolean;
+  // Null when the slot is unbooked or booked by another customer (portal users)
+  booking: {
+    id: string;
+    referenceCode: string;
+    customerName: string | null;
+    wholeScreen: boolean;
+  } | null;
+  creativeRef: string | null;
+}
+
+// Bookings that are on screen for their dates; created ones aren't confirmed yet
+const PLAYING_BOOKING_STATUSES = ['confirmed', 'active', 'po_generated', 'invoiced'];
+
 export interface BillboardFilters {
   page: number;
   pageSize: number;
@@ -67,6 +91,7 @@ export interface BillboardFilters {
   cityId?: string;
   regionId?: string;
   landlordId?: string;
+  includeArchived?: boolean;
 }
 
 class BillboardService {
@@ -83,11 +108,16 @@ class BillboardService {
       cityId,
       regionId,
       landlordId,
+      includeArchived,
     } = filters;
     const offset = (page - 1) * pageSize;
 
     const conditions = [];
 
+    if (!includeArchived) {
+      conditions.push(isNull(billboards.archivedAt));
+    }
+
     if (search) {
       conditions.push(
         or(
@@ -164,6 +194,7 @@ class BillboardService {
           loopDuration: billboards.loopDuration,
           slotCount: billboards.slotCount,
           slotDuration: billboards.slotDuration,
+          archivedAt: billboards.archivedAt,
           createdAt: billboards.createdAt,
           updatedAt: billboards.updatedAt,
           zone: {
@@ -237,6 +268,7 @@ class BillboardService {
         loopDuration: billboards.loopDuration,
         slotCount: billboards.slotCount,
         slotDuration: billboards.slotDuration,
+        archivedAt: billboards.archivedAt,
         createdAt: billboards.createdAt,
         updatedAt: billboards.updatedAt,
         zone: {
@@ -310,10 +342,13 @@ class BillboardService {
       })
       .returning();
 
+    await auditLogService.logCreate('billboards', 'billboard', billboard);
     return this.getBillboardById(billboard.id);
   }
 
   async updateBillboard(id: string, data: UpdateBillboardDto) {
+    const [before] = await db.select().from(billboards).where(eq(billboards.id, id)).limit(1);
+
     const updateData: Record<string, unknown> = {
       updatedBy: data.updatedBy,
       updatedAt: new Date(),
@@ -345,16 +380,118 @@ class BillboardService {
       .where(eq(billboards.id, id))
       .returning();
 
+    if (before && billboard) {
+      await auditLogService.logUpdate('billboards', 'billboard', before, billboard);
+    }
     return this.getBillboardById(billboard.id);
   }
 
+  /**
+   * Delete a billboard that was never used. Bookings, holds, quotations and leases keep a billboard
+   * (its history matters for billing), so those are reported as a conflict listing the blocking
+   * bookings; archive the billboard instead.
+   */
   async deleteBillboard(id: string) {
-    // TODO: Check if billboard has bookings before deleting
-    await db.delete(billboards).where(eq(billboards.id, id));
+    const [blockingBookings, [holdCount], [quotationCount], [leaseCount]] = await Promise.all([
+      db
+        .select({
+          id: bookings.id,
+          referenceCode: bookings.referenceCode,
+          status: bookings.status,
+          startDate: bookings.startDate,
+          endDate: bookings.endDate,
+          customerName: customers.name,
+        })
+        .from(bookings)
+        .leftJoin(customers, eq(bookings.customerId, customers.id))
+        .where(eq(bookings.billboardId, id))
+        .orderBy(desc(bookings.startDate)),
+      db.select({ count: sql<number>`count(*)::int` }).from(bookingHolds).where(eq(bookingHolds.billboardId, id)),
+      db.select({ count: sql<number>`count(*)::int` }).from(quotationItems).where(eq(quotationItems.billboardId, id)),
+      db.select({ count: sql<number>`count(*)::int` }).from(leaseAgreements).where(eq(leaseAgreements.billboardId, id)),
+    ]);
+
+    const references = [
+      blockingBookings.length > 0 && `${blockingBookings.length} booking(s)`,
+      holdCount.count > 0 && `${holdCount.count} hold(s)`,
+      quotationCount.count > 0 && `${quotationCount.count} quotation line(s)`,
+      leaseCount.count > 0 && `${leaseCount.count} lease(s)`,
+    ].filter(Boolean);
+
+    if (references.length > 0) {
+      throw new ConflictError(
+        `Cannot delete billboard: it has ${references.join(', ')}. Archive it instead.`,
+        blockingBookings
+      );
+    }
+
+    const [deleted] = await db.delete(billboards).where(eq(billboards.id, id)).returning();
+    if (deleted) {
+      await auditLogService.logDelete('billboards', 'billboard', deleted);
+    }
+  }
+
+  async archiveBillboard(id: string, updatedBy?: string) {
+    const [existing] = await db.select().from(billboards).where(eq(billboards.id, id)).limit(1);
+    if (!existing) {
+      throw new Error('Billboard not found');
+    }
+    if (existing.archivedAt) {
+      throw new Error('Cannot archive billboard: it is already archived');
+    }
+
+    // Open bookings still run after archiving; they're returned so they can be moved or short-closed
+    const upcomingBookings = await db
+      .select({
+        id: bookings.id,
+        referenceCode: bookings.referenceCode,
+        customerName: customers.name,
+        startDate: bookings.startDate,
+        endDate: sql<string>`COALESCE(${bookings.actualEndDate}, ${bookings.endDate})`,
+        status: bookings.status,
+      })
+      .from(bookings)
+      .leftJoin(customers, eq(bookings.customerId, customers.id))
+      .where(
+        and(
+          eq(bookings.billboardId, id),
+          inArray(bookings.status, ['created', 'confirmed', 'active']),
+          sql`COALESCE(${bookings.actualEndDate}, ${bookings.endDate}) >= ${today()}`
+        )
+      )
+      .orderBy(asc(bookings.startDate));
+
+    const [billboard] = await db
+      .update(billboards)
+      .set({ archivedAt: new Date(), updatedBy, updatedAt: new Date() })
+      .where(eq(billboards.id, id))
+      .returning();
+
+    await auditLogService.logUpdate('billboards', 'billboard', existing, billboard);
+    return { ...(await this.getBillboardById(id)), upcomingBookings };
+  }
+
+  async restoreBillboard(id: string, updatedBy?: string) {
+    const [existing] = await db.select().from(billboards).where(eq(billboards.id, id)).limit(1);
+    if (!existing) {
+      throw new Error('Billboard not found');
+    }
+    if (!existing.archivedAt) {
+      throw new Error('Cannot restore billboard: it is not archived');
+    }
+
+    const [billboard] = await db
+      .update(billboards)
+      .set({ archivedAt: null, updatedBy, updatedAt: new Date() })
+      .where(eq(billboards.id, id))
+      .returning();
+
+    await auditLogService.logUpdate('billboards', 'billboard', existing, billboard);
+    return this.getBillboardById(id);
   }
 
   async getBillboardsForDropdown(zoneId?: string) {
-    const condition = zoneId ? eq(billboards.zoneId, zoneId) : undefined;
+    const condition = and(isNull(billboards.archivedAt), zoneId ? eq(billboards.zoneId, zoneId) : undefined);
     return db
       .select({
         id: billboards.id,
@@ -381,6 +518,92 @@ class BillboardService {
 
     return stats;
   }
+
+  /**
+   * The day's loop for a digital billboard: one entry per slot in play order with the booked creative.
+   * Unbooked slots are returned with no booking so the screen can fill them. Portal users only see
+   * the details of their own bookings.
+   */
+  async getPlaylist(id: string, date: string) {
+    const billboard = await this.getBillboardById(id);
+    if (!billboard) {
+      throw new Error('Billboard not found');
+    }
+    if (billboard.type !== 'digital' || !billboard.slotCount) {
+      throw new Error('Cannot build playlist: billboard is not a digital billboard with slots');
+    }
+
+    const slotDuration = billboard.slotDuration
+      ?? (billboard.loopDuration ? Math.floor(billboard.loopDuration / billboard.slotCount) : null);
+    if (!slotDuration) {
+      throw new Error('Cannot build playlist: billboard has no slot or loop duration configured');
+    }
+
+    const playing = await db
+      .select({
+        id: bookings.id,
+        referenceCode: bookings.referenceCode,
+        customerId: bookings.customerId,
+        customerName: customers.name,
+        slotNumber: bookings.slotNumber,
+        slotQuantity: bookings.slotQuantity,
+        creativeRef: bookings.creativeRef,
+      })
+      .from(bookings)
+      .leftJoin(customers, eq(bookings.customerId, customers.id))
+      .where(
+        and(
+          eq(bookings.billboardId, id),
+          inArray(bookings.status, PLAYING_BOOKING_STATUSES),
+          lte(bookings.startDate, date),
+          // Short-closed bookings stop playing after their actual end date
+          sql`COALESCE(${bookings.actualEndDate}, ${bookings.endDate}) >= ${date}`
+        )
+      );
+
+    const customerScope = getCustomerScope();
+    const entries: PlaylistEntry[] = [];
+    for (let slotNumber = 1; slotNumber <= billboard.slotCount; slotNumber++) {
+      // A booking without a slot number takes the whole screen
+      const booking = playing.find(b =>
+        b.slotNumber === null ||
+        (slotNumber >= b.slotNumber && slotNumber < b.slotNumber + (b.slotQuantity ?? 1))
+      );
+      const visible = booking && (!customerScope || booking.customerId === customerScope);
+
+      entries.push({
+        position: slotNumber,
+        slotNumber,
+        startOffset: (slotNumber - 1) * slotDuration,
+        duration: slotDuration,
+        booked: !!booking,
+        booking: visible
+          ? {
+              id: booking.id,
+              referenceCode: booking.referenceCode,
+              customerName: booking.customerName,
+              wholeScreen: booking.slotNumber === null,
+            }
+          : null,
+        creativeRef: visible ? booking.creativeRef : null,
+      });
+    }
+
+    return {
+      billboard: {
+        id: billboard.id,
+        name: billboard.name,
+        code: billboard.code,
+        slotCount: billboard.slotCount,
+        slotDuration,
+        loopDuration: billboard.loopDuration ?? slotDuration * billboard.slotCount,
+      },
+      date,
+      bookedSlots: entries.filter(entry => entry.booked).length,
+      missingCreatives: entries.filter(entry => entry.booking && !entry.creativeRef).length,
+      entries,
+    };
+  }
 }
 
 export const billboardService = new BillboardService();
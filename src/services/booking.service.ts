@@ -1,13 +1,20 @@
-import { eq, and, desc, asc, sql, gte, lte, or } from 'drizzle-orm';
+import { eq, and, desc, asc, sql, gte, lte, gt, ne } from 'drizzle-orm';
 import { db } from '../db/index.js';
-import { bookings, billboards, customers, campaigns } from '../db/schema/index.js';
+import { bookings, bookingStatusHistory, bookingHolds, billboards, customers, campaigns, users, leaseAgreements, maintenanceWindows, BOOKING_OVERLAP_CONSTRAINT } from '../db/schema/index.js';
 import { sequenceService } from './sequence.service.js';
+import { getCustomerScope } from '../utils/request-context.js';
+import { isExclusionViolation } from '../utils/db-errors.js';
+import { eachDate, addDays, today } from '../utils/dates.js';
+import { auditLogService } from './audit-log.service.js';
+import { pricingService } from './pricing.service.js';
 
 export interface CreateBookingDto {
   customerId: string;
   billboardId: string;
   campaignId?: string;
   slotNumber?: number;
+  // Number of consecutive slots (share of voice). Without a slot number the first free run is assigned.
+  slotQuantity?: number;
   startDate: string;
   endDate: string;
   notionalValue?: string;
@@ -21,10 +28,10 @@ export interface UpdateBookingDto {
   billboardId?: string;
   campaignId?: string | null;
   slotNumber?: number | null;
+  slotQuantity?: number | null;
   startDate?: string;
   endDate?: string;
   notionalValue?: string;
-  status?: string;
   creativeRef?: string;
   notes?: string;
   updatedBy?: string;
@@ -47,13 +54,541 @@ export interface AvailabilityQuery {
   startDate: string;
   endDate: string;
   slotNumber?: number;
+  slotQuantity?: number;
   excludeBookingId?: string;
+  // The customer being booked for; their own holds don't conflict
+  customerId?: string;
+}
+
+export interface AvailabilityConflict {
+  id: string | null;
+  referenceCode: string | null;
+  // 'lease': the dates run past the billboard's site lease (startDate is the first uncovered day)
+  // 'unavailable': blocked by another customer or internally; the only detail portal users get
+  type: 'booking' | 'hold' | 'lease' | 'maintenance' | 'unavailable';
+  startDate: string;
+  endDate: string;
+  slotNumber: number | null;
+  slotQuantity: number | null;
+}
+
+export interface SlotRange {
+  slotNumber: number;
+  slotQuantity: number;
+}
+
+export interface SlotQuery {
+  startDate: string;
+  endDate: string;
+  slotNumber?: number | null;
+  slotQuantity?: number | null;
+  excludeBookingId?: string;
+  customerId?: string;
+}
+
+type SlotBillboard = Pick<typeof billboards.$inferSelect, 'type' | 'slotCount'>;
+
+type SlotBooking = {
+  id: string;
+  referenceCode: string;
+  customerId: string;
+  customerName: string | null;
+  slotNumber: number | null;
+  slotQuantity: number | null;
+  startDate: string;
+  endDate: string;
+  status: string;
+};
+
+type SlotHold = Omit<SlotBooking, 'status'> & { expiresAt: Date };
+
+type SlotMaintenance = {
+  id: string;
+  referenceCode: string;
+  startDate: string;
+  endDate: string;
+  reason: string;
+  vendor: string | null;
+};
+
+const MAX_SLOT_GRID_DAYS = 93;
+
+// Holds stop counting once they expire, whether or not the hold-expiry job has marked them yet
+export const activeHoldCondition = () => and(eq(bookingHolds.status, 'active'), gt(bookingHolds.expiresAt, sql`now()`));
+
+// Whether a booking holds the slot; a booking without a slot number takes the whole screen
+const occupiesSlot = (booking: { slotNumber: number | null; slotQuantity: number | null }, slotNumber: number): boolean => {
+  if (booking.slotNumber === null) return true;
+  return slotNumber >= booking.slotNumber && slotNumber < booking.slotNumber + (booking.slotQuantity ?? 1);
+};
+
+const rangesOverlap = (a: SlotRange | null, b: SlotRange | null): boolean => {
+  if (!a || !b) return true;
+  return a.slotNumber < b.slotNumber + b.slotQuantity && b.slotNumber < a.slotNumber + a.slotQuantity;
+};
+
+// Conflict list for availability errors
+export const describeConflicts = (conflicts: AvailabilityConflict[]): string => {
+  return conflicts
+    .map(c => {
+      if (c.type === 'lease') return `lease ${c.referenceCode} (billboard is not leased from ${c.startDate})`;
+      if (c.type === 'maintenance') return `maintenance ${c.referenceCode} (${c.startDate} to ${c.endDate})`;
+      if (c.type === 'unavailable') return `unavailable (${c.startDate} to ${c.endDate})`;
+      return c.referenceCode;
+    })
+    .join(', ');
+};
+
+// Portal users see when and which slots are taken by others, not whose booking it is or why
+const redactConflict = (conflict: AvailabilityConflict): AvailabilityConflict => ({
+  id: null,
+  referenceCode: null,
+  type: 'unavailable',
+  startDate: conflict.startDate,
+  endDate: conflict.endDate,
+  slotNumber: conflict.slotNumber,
+  slotQuantity: conflict.slotQuantity,
+});
+
+export const BOOKING_STATUSES = ['created', 'confirmed', 'active', 'completed', 'po_generated', 'invoiced', 'cancelled'] as const;
+export type BookingStatus = typeof BOOKING_STATUSES[number];
+
+// Every allowed move. po_generated/invoiced are driven by the PO and invoice flows, and short close completes early.
+const BOOKING_TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+  created: ['confirmed', 'completed', 'cancelled'],
+  confirmed: ['active', 'completed', 'po_generated', 'cancelled'],
+  active: ['completed', 'po_generated', 'cancelled'],
+  completed: ['po_generated'],
+  po_generated: ['completed', 'invoiced'],
+  invoiced: ['po_generated'],
+  cancelled: [],
+};
+
+// Subset a user can make through the status endpoint
+const MANUAL_TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+  created: ['confirmed', 'cancelled'],
+  confirmed: ['active', 'completed', 'cancelled'],
+  active: ['completed', 'cancelled'],
+  completed: [],
+  po_generated: [],
+  invoiced: [],
+  cancelled: [],
+};
+
+export interface StatusChangeOptions {
+  reason?: string;
+  // Status endpoint: restricted to MANUAL_TRANSITIONS and subject to the per-transition guards
+  manual?: boolean;
 }
 
+const isBookingStatus = (status: string): status is BookingStatus => {
+  return (BOOKING_STATUSES as readonly string[]).includes(status);
+};
+
 class BookingService {
+  /**
+   * Throws if the booking can't move to the given status
+   */
+  private assertTransition(
+    booking: { status: string; startDate: string; endDate: string; actualEndDate: string | null },
+    toStatus: string,
+    options: StatusChangeOptions
+  ): asserts toStatus is BookingStatus {
+    if (!isBookingStatus(toStatus)) {
+      throw new Error(`Invalid status. Must be one of: ${BOOKING_STATUSES.join(', ')}`);
+    }
+
+    const fromStatus = booking.status as BookingStatus;
+    const allowed = (options.manual ? MANUAL_TRANSITIONS : BOOKING_TRANSITIONS)[fromStatus] || [];
+    if (!allowed.includes(toStatus)) {
+      if (options.manual && BOOKING_TRANSITIONS[fromStatus]?.includes(toStatus)) {
+        throw new Error(`Cannot move booking from "${fromStatus}" to "${toStatus}" manually. It is set by the purchase order and invoice workflow.`);
+      }
+      throw new Error(`Cannot move booking from "${fromStatus}" to "${toStatus}"`);
+    }
+
+    if (!options.manual) return;
+
+    const currentDate = today();
+    if (toStatus === 'active' && booking.startDate > currentDate) {
+      throw new Error(`Cannot activate booking before its start date (${booking.startDate})`);
+    }
+    if (toStatus === 'completed' && (booking.actualEndDate || booking.endDate) > currentDate) {
+      throw new Error('Cannot complete booking before its end date. Use short close to end it early.');
+    }
+    if (toStatus === 'cancelled' && !options.reason?.trim()) {
+      throw new Error('Cannot cancel booking without a reason');
+    }
+  }
+
+  /**
+   * Throws unless the booking may move to the status, for workflows that apply the change in their own batch
+   */
+  checkTransition(
+    booking: { status: string; startDate: string; endDate: string; actualEndDate: string | null },
+    toStatus: string,
+    options: StatusChangeOptions = {}
+  ) {
+    this.assertTransition(booking, toStatus, options);
+  }
+
+  /**
+   * Archived billboards and customers keep their history but take no new bookings, holds or quotations
+   */
+  assertBillboardNotArchived(billboard: { name: string; archivedAt: Date | null }) {
+    if (billboard.archivedAt) {
+      throw new Error(`Cannot use billboard "${billboard.name}": it is archived`);
+    }
+  }
+
+  async assertCustomerNotArchived(customerId: string) {
+    const [customer] = await db
+      .select({ name: customers.name, archivedAt: customers.archivedAt })
+      .from(customers)
+      .where(eq(customers.id, customerId))
+      .limit(1);
+
+    if (!customer) {
+      throw new Error('Customer not found');
+    }
+    if (customer.archivedAt) {
+      throw new Error(`Cannot use customer "${customer.name}": it is archived`);
+    }
+  }
+
+  /**
+   * Throws unless the slots exist on the billboard. Static billboards and digital bookings without
+   * a slot number take the whole screen.
+   */
+  assertSlots(billboard: SlotBillboard, slotNumber?: number | null, slotQuantity?: number | null) {
+    if (billboard.type !== 'digital') {
+      if (slotNumber != null || slotQuantity != null) {
+        throw new Error('Cannot book slots on a static billboard');
+      }
+      return;
+    }
+
+    if (slotNumber == null) {
+      if (slotQuantity != null) {
+        throw new Error('Cannot book a slot quantity without a slot number');
+      }
+      return;
+    }
+
+    if (!billboard.slotCount) {
+      throw new Error('Cannot book slots: billboard has no slot count configured');
+    }
+
+    const quantity = slotQuantity ?? 1;
+    if (quantity < 1 || quantity > billboard.slotCount) {
+      throw new Error(`Cannot book ${quantity} slots: billboard has ${billboard.slotCount} slots`);
+    }
+    if (slotNumber < 1 || slotNumber + quantity - 1 > billboard.slotCount) {
+      throw new Error(`Cannot book slot ${slotNumber}${quantity > 1 ? `-${slotNumber + quantity - 1}` : ''}: billboard has slots 1-${billboard.slotCount}`);
+    }
+  }
+
+  /**
+   * Non-cancelled bookings of the billboard overlapping the period. A short-closed booking ends on its actual end date.
+   */
+  async getOccupyingBookings(billboardId: string, startDate: string, endDate: string, excludeBookingId?: string): Promise<SlotBooking[]> {
+    return db
+      .select({
+        id: bookings.id,
+        referenceCode: bookings.referenceCode,
+        customerId: bookings.customerId,
+        customerName: customers.name,
+        slotNumber: bookings.slotNumber,
+        slotQuantity: bookings.slotQuantity,
+        startDate: bookings.startDate,
+        endDate: sql<string>`COALESCE(${bookings.actualEndDate}, ${bookings.endDate})`,
+        status: bookings.status,
+      })
+      .from(bookings)
+      .leftJoin(customers, eq(bookings.customerId, customers.id))
+      .where(
+        and(
+          eq(bookings.billboardId, billboardId),
+          ne(bookings.status, 'cancelled'),
+          lte(bookings.startDate, endDate),
+          sql`COALESCE(${bookings.actualEndDate}, ${bookings.endDate}) >= ${startDate}`,
+          excludeBookingId ? ne(bookings.id, excludeBookingId) : undefined
+        )
+      )
+      .orderBy(asc(bookings.startDate));
+  }
+
+  /**
+   * Unexpired holds on the billboard overlapping the period, other than the given customer's
+   */
+  private async getActiveHolds(billboardId: string, startDate: string, endDate: string, excludeCustomerId?: string): Promise<SlotHold[]> {
+    return db
+      .select({
+        id: bookingHolds.id,
+        referenceCode: bookingHolds.referenceCode,
+        customerId: bookingHolds.customerId,
+        customerName: customers.name,
+        slotNumber: bookingHolds.slotNumber,
+        slotQuantity: bookingHolds.slotQuantity,
+        startDate: bookingHolds.startDate,
+        endDate: bookingHolds.endDate,
+        expiresAt: bookingHolds.expiresAt,
+      })
+      .from(bookingHolds)
+      .leftJoin(customers, eq(bookingHolds.customerId, customers.id))
+      .where(
+        and(
+          eq(bookingHolds.billboardId, billboardId),
+          activeHoldCondition(),
+          lte(bookingHolds.startDate, endDate),
+          gte(bookingHolds.endDate, startDate),
+          excludeCustomerId ? ne(bookingHolds.customerId, excludeCustomerId) : undefined
+        )
+      )
+      .orderBy(asc(bookingHolds.startDate));
+  }
+
+  /**
+   * Maintenance windows on the billboard overlapping the period. Maintenance takes the whole screen.
+   */
+  private async getMaintenanceWindows(billboardId: string, startDate: string, endDate: string): Promise<SlotMaintenance[]> {
+    return db
+      .select({
+        id: maintenanceWindows.id,
+        referenceCode: maintenanceWindows.referenceCode,
+        startDate: maintenanceWindows.startDate,
+        endDate: maintenanceWindows.endDate,
+        reason: maintenanceWindows.reason,
+        vendor: maintenanceWindows.vendor,
+      })
+      .from(maintenanceWindows)
+      .where(
+        and(
+          eq(maintenanceWindows.billboardId, billboardId),
+          lte(maintenanceWindows.startDate, endDate),
+          gte(maintenanceWindows.endDate, startDate)
+        )
+      )
+      .orderBy(asc(maintenanceWindows.startDate));
+  }
+
+  /**
+   * The part of a period the billboard's site leases don't cover, as a conflict, or null when covered.
+   * Billboards with no lease agreements are only governed by their landlord and are never restricted.
+   */
+  private async getLeaseGap(billboardId: string, startDate: string, endDate: string): Promise<AvailabilityConflict | null> {
+    // Terminated leases end on their termination date, so they still cover the time before it
+    const leases = await db
+      .select({
+        id: leaseAgreements.id,
+        leaseNumber: leaseAgreements.leaseNumber,
+        startDate: leaseAgreements.startDate,
+        endDate: leaseAgreements.endDate,
+      })
+      .from(leaseAgreements)
+      .where(eq(leaseAgreements.billboardId, billboardId))
+      .orderBy(asc(leaseAgreements.startDate));
+
+    if (leases.length === 0) return null;
+
+    // Walk consecutive leases forward from the start date until one fails to pick up where the last ended
+    let coveredFrom = startDate;
+    let lastLease = leases[0];
+    for (const lease of leases) {
+      if (lease.startDate > coveredFrom) break;
+      if (lease.endDate >= lastLease.endDate) lastLease = lease;
+      if (lease.endDate >= coveredFrom) coveredFrom = addDays(lease.endDate, 1);
+      if (coveredFrom > endDate) return null;
+    }
+
+    return {
+      id: lastLease.id,
+      referenceCode: lastLease.leaseNumber,
+      type: 'lease',
+      startDate: coveredFrom,
+      endDate,
+      slotNumber: null,
+      slotQuantity: null,
+    };
+  }
+
+  /**
+   * Validate the requested slots and, when only a quantity is given, assign the lowest run of that many
+   * consecutive slots that is free on every day of the period. Returns null for whole-screen bookings.
+   * Other customers' holds and maintenance windows count as occupied. `reserved` is ranges already claimed by the same request
+   * (e.g. other selections of a campaign).
+   */
+  async resolveSlots(
+    billboard: SlotBillboard & { id: string },
+    query: SlotQuery,
+    reserved: Array<SlotRange | null> = []
+  ): Promise<SlotRange | null> {
+    const { startDate, endDate, slotNumber, slotQuantity, excludeBookingId, customerId } = query;
+
+    let range: SlotRange | null = null;
+    if (billboard.type === 'digital' && slotNumber == null && slotQuantity != null) {
+      // Validate the quantity as if it started at the first slot
+      this.assertSlots(billboard, 1, slotQuantity);
+
+      const occupying = [
+        ...await this.getOccupyingBookings(billboard.id, startDate, endDate, excludeBookingId),
+        ...await this.getActiveHolds(billboard.id, startDate, endDate, customerId),
+        ...(await this.getMaintenanceWindows(billboard.id, startDate, endDate))
+          .map(window => ({ ...window, slotNumber: null, slotQuantity: null })),
+      ];
+      const dates = eachDate(startDate, endDate);
+      const isFree = (slot: number) =>
+        !reserved.some(r => rangesOverlap(r, { slotNumber: slot, slotQuantity: 1 })) &&
+        dates.every(date => !occupying.some(b => b.startDate <= date && b.endDate >= date && occupiesSlot(b, slot)));
+
+      for (let first = 1; first + slotQuantity - 1 <= (billboard.slotCount ?? 0); first++) {
+        let run = 0;
+        while (run < slotQuantity && isFree(first + run)) run++;
+        if (run === slotQuantity) {
+          range = { slotNumber: first, slotQuantity };
+          break;
+        }
+      }
+
+      if (!range) {
+        throw new Error(`Billboard is not available for the selected dates. No ${slotQuantity} consecutive slots are free.`);
+      }
+    } else {
+      this.assertSlots(billboard, slotNumber, slotQuantity);
+      if (billboard.type === 'digital' && slotNumber != null) {
+        range = { slotNumber, slotQuantity: slotQuantity ?? 1 };
+      }
+    }
+
+    if (reserved.some(r => rangesOverlap(r, range))) {
+      throw new Error('Cannot select the same billboard slot more than once');
+    }
+
+    return range;
+  }
+
+  /**
+   * Per-day slot occupancy of a digital billboard, including holds and maintenance. Portal users only see the details of
+   * their own bookings and holds.
+   */
+  async getSlotGrid(billboardId: string, startDate: string, endDate: string) {
+    const [billboard] = await db
+      .select()
+      .from(billboards)
+      .where(eq(billboards.id, billboardId))
+      .limit(1);
+
+    if (!billboard) {
+      throw new Error('Billboard not found');
+    }
+    if (billboard.type !== 'digital' || !billboard.slotCount) {
+      throw new Error('Cannot show slot grid: billboard is not a digital billboard with slots');
+    }
+
+    const dates = eachDate(startDate, endDate);
+    if (dates.length === 0) {
+      throw new Error('Cannot show slot grid: end date is before start date');
+    }
+    if (dates.length > MAX_SLOT_GRID_DAYS) {
+      throw new Error(`Cannot show slot grid for more than ${MAX_SLOT_GRID_DAYS} days`);
+    }
+
+    const [occupying, holds, maintenance] = await Promise.all([
+      this.getOccupyingBookings(billboardId, startDate, endDate),
+      this.getActiveHolds(billboardId, startDate, endDate),
+      this.getMaintenanceWindows(billboardId, startDate, endDate),
+    ]);
+    const customerScope = getCustomerScope();
+    const slotNumbers = Array.from({ length: billboard.slotCount }, (_, i) => i + 1);
+
+    const days = dates.map(date => {
+      const bookedThatDay = occupying.filter(b => b.startDate <= date && b.endDate >= date);
+      const heldThatDay = holds.filter(h => h.startDate <= date && h.endDate >= date);
+      const maintenanceThatDay = maintenance.find(m => m.startDate <= date && m.endDate >= date);
+      const slots = slotNumbers.map(slotNumber => {
+        const booking = bookedThatDay.find(b => occupiesSlot(b, slotNumber));
+        const hold = heldThatDay.find(h => occupiesSlot(h, slotNumber));
+        const visible = booking && (!customerScope || booking.customerId === customerScope);
+        const holdVisible = hold && (!customerScope || hold.customerId === customerScope);
+        return {
+          slotNumber,
+          available: !booking && !hold && !maintenanceThatDay,
+          booking: visible
+            ? {
+                id: booking.id,
+                referenceCode: booking.referenceCode,
+                customerName: booking.customerName,
+                status: booking.status,
+                wholeScreen: booking.slotNumber === null,
+              }
+            : null,
+          hold: holdVisible
+            ? {
+                id: hold.id,
+                referenceCode: hold.referenceCode,
+                customerName: hold.customerName,
+                expiresAt: hold.expiresAt,
+              }
+            : null,
+        };
+      });
+
+      return {
+        date,
+        availableSlots: slots.filter(slot => slot.available).length,
+        maintenance: maintenanceThatDay
+          ? {
+              id: maintenanceThatDay.id,
+              referenceCode: maintenanceThatDay.referenceCode,
+              reason: maintenanceThatDay.reason,
+            }
+          : null,
+        slots,
+      };
+    });
+
+    return {
+      billboard: {
+        id: billboard.id,
+        name: billboard.name,
+        code: billboard.code,
+        slotCount: billboard.slotCount,
+        slotDuration: billboard.slotDuration,
+        loopDuration: billboard.loopDuration,
+        ratePerDay: billboard.ratePerDay,
+        slotRatePerDay: (parseFloat(billboard.ratePerDay) / billboard.slotCount).toFixed(2),
+      },
+      startDate,
+      endDate,
+      days,
+    };
+  }
+
+  /**
+   * The overlap exclusion constraint catches bookings that race past checkAvailability;
+   * report them the same way as a failed availability check.
+   */
+  toAvailabilityError(error: unknown): unknown {
+    if (isExclusionViolation(error, BOOKING_OVERLAP_CONSTRAINT)) {
+      return new Error('Billboard is not available for the selected dates. It was just booked by another request.');
+    }
+    return error;
+  }
+
+  async recordStatusHistory(bookingId: string, fromStatus: string | null, toStatus: string, changedBy?: string, reason?: string) {
+    await db.insert(bookingStatusHistory).values({
+      bookingId,
+      fromStatus,
+      toStatus,
+      reason,
+      changedBy,
+    });
+  }
+
   async getAllBookings(options: PaginationOptions) {
-    const { page, pageSize, sortBy = 'createdAt', sortOrder = 'desc', customerId, billboardId, status, startDateFrom, startDateTo } = options;
+    const { page, pageSize, sortBy = 'createdAt', sortOrder = 'desc', billboardId, status, startDateFrom, startDateTo } = options;
     const offset = (page - 1) * pageSize;
+    const customerId = getCustomerScope() ?? options.customerId;
 
     const conditions = [];
     if (customerId) {
@@ -144,6 +679,8 @@ class BookingService {
   }
 
   async getBookingById(id: string) {
+    const customerScope = getCustomerScope();
+
     const [result] = await db
       .select({
         booking: bookings,
@@ -172,7 +709,7 @@ class BookingService {
       .leftJoin(customers, eq(bookings.customerId, customers.id))
       .leftJoin(billboards, eq(bookings.billboardId, billboards.id))
       .leftJoin(campaigns, eq(bookings.campaignId, campaigns.id))
-      .where(eq(bookings.id, id))
+      .where(and(eq(bookings.id, id), customerScope ? eq(bookings.customerId, customerScope) : undefined))
       .limit(1);
 
     if (!result) return null;
@@ -185,8 +722,13 @@ class BookingService {
     };
   }
 
-  async checkAvailability(query: AvailabilityQuery): Promise<{ available: boolean; conflicts: Array<{ id: string; referenceCode: string; startDate: string; endDate: string; slotNumber: number | null }> }> {
-    const { billboardId, startDate, endDate, slotNumber, excludeBookingId } = query;
+  /**
+   * Bookings and other customers' unexpired holds that overlap the period (and slots), maintenance windows,
+   * plus any part of the period past the billboard's site lease. Conflicts are typed so callers can tell a
+   * firm booking from a hold, maintenance or a lease restriction.
+   */
+  async checkAvailability(query: AvailabilityQuery): Promise<{ available: boolean; conflicts: AvailabilityConflict[] }> {
+    const { billboardId, startDate, endDate, slotNumber, slotQuantity, excludeBookingId, customerId } = query;
 
     // Get billboard to check if it's digital
     const [billboard] = await db
@@ -199,12 +741,16 @@ class BookingService {
       throw new Error('Billboard not found');
     }
 
+    this.assertSlots(billboard, slotNumber, slotQuantity);
+
     // Build conditions for overlapping bookings
     const conditions = [
       eq(bookings.billboardId, billboardId),
-      // Overlap: existing.start <= query.end AND existing.end >= query.start
+      // Cancelled bookings no longer hold the billboard
+      ne(bookings.status, 'cancelled'),
+      // Overlap: existing.start <= query.end AND existing.end >= query.start; short-closed bookings free the rest of their period
       lte(bookings.startDate, endDate),
-      gte(bookings.endDate, startDate),
+      sql`COALESCE(${bookings.actualEndDate}, ${bookings.endDate}) >= ${startDate}`,
     ];
 
     // Exclude current booking if updating
@@ -212,58 +758,112 @@ class BookingService {
       conditions.push(sql`${bookings.id} != ${excludeBookingId}`);
     }
 
-    // For digital billboards, only conflict if same slot
+    // For digital billboards, only conflict if the slot ranges overlap (or a booking without a slot, which takes the whole screen)
     if (billboard.type === 'digital' && slotNumber !== undefined) {
-      conditions.push(eq(bookings.slotNumber, slotNumber));
+      const lastSlot = slotNumber + (slotQuantity ?? 1) - 1;
+      conditions.push(sql`(${bookings.slotNumber} IS NULL OR (${bookings.slotNumber} <= ${lastSlot} AND ${bookings.slotNumber} + COALESCE(${bookings.slotQuantity}, 1) - 1 >= ${slotNumber}))`);
     }
 
-    const conflicts = await db
-      .select({
-        id: bookings.id,
-        referenceCode: bookings.referenceCode,
-        startDate: bookings.startDate,
-        endDate: bookings.endDate,
-        slotNumber: bookings.slotNumber,
-      })
-      .from(bookings)
-      .where(and(...conditions));
+    const [bookingConflicts, holds, maintenance, leaseGap] = await Promise.all([
+      db
+        .select({
+          id: bookings.id,
+          referenceCode: bookings.referenceCode,
+          customerId: bookings.customerId,
+          startDate: bookings.startDate,
+          endDate: bookings.endDate,
+          slotNumber: bookings.slotNumber,
+          slotQuantity: bookings.slotQuantity,
+        })
+        .from(bookings)
+        .where(and(...conditions)),
+      this.getActiveHolds(billboardId, startDate, endDate, customerId),
+      this.getMaintenanceWindows(billboardId, startDate, endDate),
+      this.getLeaseGap(billboardId, startDate, endDate),
+    ]);
+
+    const requested = billboard.type === 'digital' && slotNumber !== undefined
+      ? { slotNumber, slotQuantity: slotQuantity ?? 1 }
+      : null;
+    const holdConflicts = holds.filter(hold =>
+      rangesOverlap(requested, hold.slotNumber === null ? null : { slotNumber: hold.slotNumber, slotQuantity: hold.slotQuantity ?? 1 })
+    );
 
+    const conflicts: (AvailabilityConflict & { customerId?: string })[] = [
+      ...bookingConflicts.map(conflict => ({ ...conflict, type: 'booking' as const })),
+      ...holdConflicts.map(hold => ({
+        id: hold.id,
+        referenceCode: hold.referenceCode,
+        customerId: hold.customerId,
+        type: 'hold' as const,
+        startDate: hold.startDate,
+        endDate: hold.endDate,
+        slotNumber: hold.slotNumber,
+        slotQuantity: hold.slotQuantity,
+      })),
+      ...maintenance.map(window => ({
+        id: window.id,
+        referenceCode: window.referenceCode,
+        type: 'maintenance' as const,
+        startDate: window.startDate,
+        endDate: window.endDate,
+        slotNumber: null,
+        slotQuantity: null,
+      })),
+      ...(leaseGap ? [leaseGap] : []),
+    ];
+
+    const customerScope = getCustomerScope();
     return {
       available: conflicts.length === 0,
-      conflicts,
+      conflicts: conflicts.map(({ customerId: owner, ...conflict }) =>
+        customerScope && owner !== customerScope ? redactConflict(conflict) : conflict
+      ),
     };
   }
 
   async createBooking(data: CreateBookingDto) {
+    // Portal users can only book for their own customer account
+    const customerScope = getCustomerScope();
+    if (customerScope && data.customerId !== customerScope) {
+      throw new Error('Cannot create booking for another customer');
+    }
+
+    const [billboard] = await db
+      .select()
+      .from(billboards)
+      .where(eq(billboards.id, data.billboardId))
+      .limit(1);
+
+    if (!billboard) {
+      throw new Error('Billboard not found');
+    }
+
+    this.assertBillboardNotArchived(billboard);
+    await this.assertCustomerNotArchived(data.customerId);
+
+    const slots = await this.resolveSlots(billboard, data);
+
     // Check availability first
     const availability = await this.checkAvailability({
       billboardId: data.billboardId,
       startDate: data.startDate,
       endDate: data.endDate,
-      slotNumber: data.slotNumber,
+      slotNumber: slots?.slotNumber,
+      slotQuantity: slots?.slotQuantity,
+      customerId: data.customerId,
     });
 
     if (!availability.available) {
-      throw new Error(`Billboard is not available for the selected dates. Conflicts with: ${availability.conflicts.map(c => c.referenceCode).join(', ')}`);
+      throw new Error(`Billboard is not available for the selected dates. Conflicts with: ${describeConflicts(availability.conflicts)}`);
     }
 
-    // Get billboard rate for notional value calculation if not provided
-    let notionalValue = data.notionalValue;
-    if (!notionalValue) {
-      const [billboard] = await db
-        .select()
-        .from(billboards)
-        .where(eq(billboards.id, data.billboardId))
-        .limit(1);
-
-      if (billboard) {
-        const startDate = new Date(data.startDate);
-        const endDate = new Date(data.endDate);
-        const days = Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)) + 1;
-        const rate = parseFloat(billboard.ratePerDay);
-        notionalValue = (rate * days).toFixed(2);
-      }
-    }
+    // Priced from the rate card even when a value is given, so the minimum booking period always applies
+    const price = await pricingService.calculatePrice(billboard, data.startDate, data.endDate, {
+      slotQuantity: slots?.slotQuantity,
+      enforceMinimum: true,
+    });
+    const notionalValue = data.notionalValue || price.totalAmount.toFixed(2);
 
     // Generate reference code
     const referenceCode = await sequenceService.getNextSequence('booking');
@@ -275,18 +875,24 @@ class BookingService {
         customerId: data.customerId,
         billboardId: data.billboardId,
         campaignId: data.campaignId || null,
-        slotNumber: data.slotNumber || null,
+        slotNumber: slots?.slotNumber ?? null,
+        slotQuantity: slots?.slotQuantity ?? null,
         startDate: data.startDate,
         endDate: data.endDate,
-        notionalValue: notionalValue || '0',
+        notionalValue,
         creativeRef: data.creativeRef,
         notes: data.notes,
         status: 'created',
         createdBy: data.createdBy,
         updatedBy: data.createdBy,
       })
-      .returning();
+      .returning()
+      .catch(error => {
+        throw this.toAvailabilityError(error);
+      });
 
+    await this.recordStatusHistory(booking.id, null, booking.status, data.createdBy);
+    await auditLogService.logCreate('bookings', 'booking', booking);
     return this.getBookingById(booking.id);
   }
 
@@ -297,25 +903,72 @@ class BookingService {
       throw new Error('Booking not found');
     }
 
+    const customerScope = getCustomerScope();
+    if (customerScope && data.customerId !== undefined && data.customerId !== customerScope) {
+      throw new Error('Cannot move booking to another customer');
+    }
+
     // Prevent editing completed or po_generated bookings
-    const nonEditableStatuses = ['completed', 'po_generated', 'invoiced'];
+    const nonEditableStatuses = ['completed', 'po_generated', 'invoiced', 'cancelled'];
     if (nonEditableStatuses.includes(existingBooking.status)) {
       throw new Error(`Cannot edit booking in "${existingBooking.status}" status. Booking is finalized.`);
     }
 
+    if (data.customerId && data.customerId !== existingBooking.customerId) {
+      await this.assertCustomerNotArchived(data.customerId);
+    }
+
     // Check if updating dates/billboard/slot
-    if (data.startDate || data.endDate || data.billboardId || data.slotNumber !== undefined) {
+    let slots: SlotRange | null | undefined;
+    let notionalValue = data.notionalValue;
+    if (data.startDate || data.endDate || data.billboardId || data.slotNumber !== undefined || data.slotQuantity !== undefined) {
+      const billboardId = data.billboardId || existingBooking.billboardId;
+      const [billboard] = await db
+        .select()
+        .from(billboards)
+        .where(eq(billboards.id, billboardId))
+        .limit(1);
+
+      if (!billboard) {
+        throw new Error('Billboard not found');
+      }
+      if (billboardId !== existingBooking.billboardId) {
+        this.assertBillboardNotArchived(billboard);
+      }
+
+      // A new quantity without a slot number is re-assigned; otherwise unchanged fields carry over
+      const slotNumber = data.slotNumber !== undefined
+        ? data.slotNumber
+        : (data.slotQuantity != null ? null : existingBooking.slotNumber);
+      const slotQuantity = data.slotQuantity !== undefined
+        ? data.slotQuantity
+        : (data.slotNumber === null ? null : existingBooking.slotQuantity);
+
+      const startDate = data.startDate || existingBooking.startDate;
+      const endDate = data.endDate || existingBooking.endDate;
+      const customerId = data.customerId || existingBooking.customerId;
+      slots = await this.resolveSlots(billboard, { startDate, endDate, slotNumber, slotQuantity, excludeBookingId: id, customerId });
+
       const availability = await this.checkAvailability({
-        billboardId: data.billboardId || existingBooking.billboardId,
-        startDate: data.startDate || existingBooking.startDate,
-        endDate: data.endDate || existingBooking.endDate,
-        slotNumber: data.slotNumber !== undefined ? (data.slotNumber ?? undefined) : (existingBooking.slotNumber ?? undefined),
+        billboardId,
+        startDate,
+        endDate,
+        slotNumber: slots?.slotNumber,
+        slotQuantity: slots?.slotQuantity,
         excludeBookingId: id,
+        customerId,
       });
 
       if (!availability.available) {
-        throw new Error(`Billboard is not available for the selected dates. Conflicts with: ${availability.conflicts.map(c => c.referenceCode).join(', ')}`);
+        throw new Error(`Billboard is not available for the selected dates. Conflicts with: ${describeConflicts(availability.conflicts)}`);
       }
+
+      // Re-priced like createBooking, so a changed period or slot share still honours the minimum booking period
+      const price = await pricingService.calculatePrice(billboard, startDate, endDate, {
+        slotQuantity: slots?.slotQuantity,
+        enforceMinimum: true,
+      });
+      notionalValue = data.notionalValue || price.totalAmount.toFixed(2);
     }
 
     const updateData: Record<string, unknown> = {
@@ -326,19 +979,31 @@ class BookingService {
     if (data.customerId !== undefined) updateData.customerId = data.customerId;
     if (data.billboardId !== undefined) updateData.billboardId = data.billboardId;
     if (data.campaignId !== undefined) updateData.campaignId = data.campaignId;
-    if (data.slotNumber !== undefined) updateData.slotNumber = data.slotNumber;
+    if (slots !== undefined) {
+      updateData.slotNumber = slots?.slotNumber ?? null;
+      updateData.slotQuantity = slots?.slotQuantity ?? null;
+    }
     if (data.startDate !== undefined) updateData.startDate = data.startDate;
     if (data.endDate !== undefined) updateData.endDate = data.endDate;
-    if (data.notionalValue !== undefined) updateData.notionalValue = data.notionalValue;
-    if (data.status !== undefined) updateData.status = data.status;
+    if (notionalValue !== undefined) updateData.notionalValue = notionalValue;
     if (data.creativeRef !== undefined) updateData.creativeRef = data.creativeRef;
     if (data.notes !== undefined) updateData.notes = data.notes;
 
-    await db
+    // Status changes go through updateBookingStatus; only apply if nobody moved the booking in the meantime
+    const [booking] = await db
       .update(bookings)
       .set(updateData)
-      .where(eq(bookings.id, id));
+      .where(and(eq(bookings.id, id), eq(bookings.status, existingBooking.status)))
+      .returning()
+      .catch(error => {
+        throw this.toAvailabilityError(error);
+      });
+
+    if (!booking) {
+      throw new Error('Cannot update booking: it was modified by another request. Please retry.');
+    }
 
+    await auditLogService.logUpdate('bookings', 'booking', existingBooking, booking);
     return this.getBookingById(id);
   }
 
@@ -353,7 +1018,11 @@ class BookingService {
       throw new Error('Only bookings in "created" status can be deleted');
     }
 
-    await db.delete(bookings).where(eq(bookings.id, id));
+    const [deleted] = await db.delete(bookings).where(eq(bookings.id, id)).returning();
+    if (deleted) {
+      await auditLogService.logDelete('bookings', 'booking', deleted);
+    }
+    return deleted;
   }
 
   async getCalendarBookings(billboardId: string, year: number, month: number) {
@@ -361,30 +1030,68 @@ class BookingService {
     const startDate = `${year}-${String(month).padStart(2, '0')}-01`;
     const lastDay = new Date(year, month, 0).getDate();
     const endDate = `${year}-${String(month).padStart(2, '0')}-${lastDay}`;
+    const customerScope = getCustomerScope();
 
-    const data = await db
-      .select({
-        id: bookings.id,
-        referenceCode: bookings.referenceCode,
-        startDate: bookings.startDate,
-        endDate: bookings.endDate,
-        slotNumber: bookings.slotNumber,
-        status: bookings.status,
-        customerName: customers.name,
-      })
-      .from(bookings)
-      .leftJoin(customers, eq(bookings.customerId, customers.id))
-      .where(
-        and(
-          eq(bookings.billboardId, billboardId),
-          // Overlap with the month
-          lte(bookings.startDate, endDate),
-          gte(bookings.endDate, startDate)
+    const [data, holds, maintenance] = await Promise.all([
+      db
+        .select({
+          id: bookings.id,
+          referenceCode: bookings.referenceCode,
+          startDate: bookings.startDate,
+          endDate: bookings.endDate,
+          slotNumber: bookings.slotNumber,
+          slotQuantity: bookings.slotQuantity,
+          status: bookings.status,
+          customerName: customers.name,
+        })
+        .from(bookings)
+        .leftJoin(customers, eq(bookings.customerId, customers.id))
+        .where(
+          and(
+            eq(bookings.billboardId, billboardId),
+            // Overlap with the month
+            lte(bookings.startDate, endDate),
+            gte(bookings.endDate, startDate),
+            customerScope ? eq(bookings.customerId, customerScope) : undefined
+          )
         )
-      )
-      .orderBy(asc(bookings.startDate));
+        .orderBy(asc(bookings.startDate)),
+      this.getActiveHolds(billboardId, startDate, endDate),
+      this.getMaintenanceWindows(billboardId, startDate, endDate),
+    ]);
 
-    return data;
+    // Unexpired holds and maintenance are listed alongside the bookings, told apart by type
+    return [
+      ...data.map(booking => ({ ...booking, type: 'booking' as const, expiresAt: null })),
+      ...holds
+        .filter(hold => !customerScope || hold.customerId === customerScope)
+        .map(hold => ({
+          id: hold.id,
+          referenceCode: hold.referenceCode,
+          startDate: hold.startDate,
+          endDate: hold.endDate,
+          slotNumber: hold.slotNumber,
+          slotQuantity: hold.slotQuantity,
+          status: 'held',
+          customerName: hold.customerName,
+          type: 'hold' as const,
+          expiresAt: hold.expiresAt,
+        })),
+      ...maintenance.map(window => ({
+        id: window.id,
+        referenceCode: window.referenceCode,
+        startDate: window.startDate,
+        endDate: window.endDate,
+        slotNumber: null,
+        slotQuantity: null,
+        status: 'maintenance',
+        customerName: null,
+        type: 'maintenance' as const,
+        expiresAt: null,
+        reason: window.reason,
+        vendor: window.vendor,
+      })),
+    ].sort((a, b) => a.startDate.localeCompare(b.startDate));
   }
 
   async getBookingsForDateRange(startDate: string, endDate: string, billboardIds?: string[]) {
@@ -394,6 +1101,11 @@ class BookingService {
       gte(bookings.endDate, startDate),
     ];
 
+    const customerScope = getCustomerScope();
+    if (customerScope) {
+      conditions.push(eq(bookings.customerId, customerScope));
+    }
+
     if (billboardIds && billboardIds.length > 0) {
       conditions.push(sql`${bookings.billboardId} IN (${sql.raw(billboardIds.map(id => `'${id}'`).join(','))})`);
     }
@@ -406,6 +1118,7 @@ class BookingService {
         startDate: bookings.startDate,
         endDate: bookings.endDate,
         slotNumber: bookings.slotNumber,
+        slotQuantity: bookings.slotQuantity,
         status: bookings.status,
         customerName: customers.name,
         billboardName: billboards.name,
@@ -421,23 +1134,107 @@ class BookingService {
     return data;
   }
 
-  async updateBookingStatus(id: string, status: string, updatedBy?: string) {
-    const validStatuses = ['created', 'confirmed', 'active', 'completed', 'po_generated', 'invoiced'];
-    if (!validStatuses.includes(status)) {
-      throw new Error(`Invalid status. Must be one of: ${validStatuses.join(', ')}`);
+  /**
+   * Move a booking through the status state machine and record the change in its history
+   */
+  async updateBookingStatus(id: string, status: string, updatedBy?: string, options: StatusChangeOptions = {}) {
+    const booking = await this.getBookingById(id);
+    if (!booking) {
+      throw new Error('Booking not found');
     }
 
-    const [booking] = await db
+    this.assertTransition(booking, status, options);
+
+    // Only apply if nobody moved the booking in the meantime
+    const [updated] = await db
       .update(bookings)
       .set({
         status,
         updatedBy,
         updatedAt: new Date(),
       })
-      .where(eq(bookings.id, id))
+      .where(and(eq(bookings.id, id), eq(bookings.status, booking.status)))
       .returning();
 
-    return booking;
+    if (!updated) {
+      throw new Error('Cannot update status: booking was modified by another request. Please retry.');
+    }
+
+    await this.recordStatusHistory(id, booking.status, status, updatedBy, options.reason);
+    await auditLogService.logUpdate('bookings', 'booking', booking, updated);
+    return updated;
+  }
+
+  /**
+   * Confirmed bookings whose period has started and not yet ended as of the date
+   */
+  async getBookingsDueForActivation(asOfDate: string) {
+    return db
+      .select({ id: bookings.id, referenceCode: bookings.referenceCode, status: bookings.status })
+      .from(bookings)
+      .where(
+        and(
+          eq(bookings.status, 'confirmed'),
+          lte(bookings.startDate, asOfDate),
+          sql`COALESCE(${bookings.actualEndDate}, ${bookings.endDate}) >= ${asOfDate}`
+        )
+      )
+      .orderBy(asc(bookings.startDate));
+  }
+
+  /**
+   * Confirmed or active bookings whose period ended before the date
+   */
+  async getBookingsDueForCompletion(asOfDate: string) {
+    return db
+      .select({ id: bookings.id, referenceCode: bookings.referenceCode, status: bookings.status })
+      .from(bookings)
+      .where(
+        and(
+          sql`${bookings.status} IN ('confirmed', 'active')`,
+          sql`COALESCE(${bookings.actualEndDate}, ${bookings.endDate}) < ${asOfDate}`
+        )
+      )
+      .orderBy(asc(bookings.endDate));
+  }
+
+  /**
+   * Status history, newest first, plus the statuses a user can move the booking to next
+   */
+  async getBookingStatusHistory(id: string) {
+    const booking = await this.getBookingById(id);
+    if (!booking) {
+      throw new Error('Booking not found');
+    }
+
+    const history = await db
+      .select({
+        id: bookingStatusHistory.id,
+        fromStatus: bookingStatusHistory.fromStatus,
+        toStatus: bookingStatusHistory.toStatus,
+        reason: bookingStatusHistory.reason,
+        changedAt: bookingStatusHistory.changedAt,
+        changedBy: {
+          id: users.id,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          email: users.email,
+        },
+      })
+      .from(bookingStatusHistory)
+      .leftJoin(users, eq(bookingStatusHistory.changedBy, users.id))
+      .where(eq(bookingStatusHistory.bookingId, id))
+      .orderBy(desc(bookingStatusHistory.changedAt));
+
+    const currentStatus = booking.status as BookingStatus;
+
+    return {
+      bookingId: booking.id,
+      referenceCode: booking.referenceCode,
+      currentStatus,
+      allowedTransitions: MANUAL_TRANSITIONS[currentStatus] || [],
+      history,
+    };
   }
 
   async shortCloseBooking(id: string, actualEndDate: string, reason: string, updatedBy?: string) {
@@ -467,7 +1264,7 @@ class BookingService {
     }
 
     // Update booking with actual end date (keep original end date) and mark as completed
-    await db
+    const [updated] = await db
       .update(bookings)
       .set({
         actualEndDate: actualEndDate,
@@ -476,7 +1273,11 @@ class BookingService {
         updatedBy,
         updatedAt: new Date(),
       })
-      .where(eq(bookings.id, id));
+      .where(eq(bookings.id, id))
+      .returning();
+
+    await this.recordStatusHistory(id, booking.status, updated.status, updatedBy, `Short closed on ${actualEndDate}: ${reason}`);
+    await auditLogService.logUpdate('bookings', 'booking', booking, updated);
 
     // Return the updated booking
     return this.getBookingById(id);
@@ -1,12 +1,20 @@
-import { eq, and, desc, asc, sql, gte, lte, inArray } from 'drizzle-orm';
+import { randomUUID } from 'node:crypto';
+import { eq, and, desc, asc, sql, gte, lte, inArray, isNull } from 'drizzle-orm';
 import { db } from '../db/index.js';
-import { campaigns, customers, bookings, billboards } from '../db/schema/index.js';
+import { campaigns, customers, bookings, bookingStatusHistory, billboards } from '../db/schema/index.js';
 import { sequenceService } from './sequence.service.js';
-import { bookingService } from './booking.service.js';
+import { bookingService, describeConflicts, type SlotRange } from './booking.service.js';
+import { getCustomerScope } from '../utils/request-context.js';
+import { auditLogService } from './audit-log.service.js';
+import { pricingService } from './pricing.service.js';
 
 export interface BillboardSelection {
   billboardId: string;
   slotNumber?: number; // For digital billboards
+  slotQuantity?: number; // Share of voice; without a slot number the first free run is assigned
+  startDate?: string; // Defaults to the campaign period; must fall within it
+  endDate?: string;
+  notionalValue?: string; // Agreed price (e.g. from a quotation) instead of the rate card price
 }
 
 export interface CreateCampaignDto {
@@ -41,8 +49,9 @@ export interface CampaignPaginationOptions {
 
 class CampaignService {
   async getAllCampaigns(options: CampaignPaginationOptions) {
-    const { page, pageSize, sortBy = 'createdAt', sortOrder = 'desc', customerId, search, startDateFrom, startDateTo } = options;
+    const { page, pageSize, sortBy = 'createdAt', sortOrder = 'desc', search, startDateFrom, startDateTo } = options;
     const offset = (page - 1) * pageSize;
+    const customerId = getCustomerScope() ?? options.customerId;
 
     const conditions = [];
     if (customerId) {
@@ -121,6 +130,8 @@ class CampaignService {
   }
 
   async getCampaignById(id: string) {
+    const customerScope = getCustomerScope();
+
     const [result] = await db
       .select({
         campaign: campaigns,
@@ -134,7 +145,7 @@ class CampaignService {
       })
       .from(campaigns)
       .leftJoin(customers, eq(campaigns.customerId, customers.id))
-      .where(eq(campaigns.id, id))
+      .where(and(eq(campaigns.id, id), customerScope ? eq(campaigns.customerId, customerScope) : undefined))
       .limit(1);
 
     if (!result) return null;
@@ -170,7 +181,11 @@ class CampaignService {
   }
 
   async createCampaign(data: CreateCampaignDto) {
-    console.log('Creating campaign with data:', JSON.stringify(data, null, 2));
+    // Portal users can only create campaigns for their own customer account
+    const customerScope = getCustomerScope();
+    if (customerScope && data.customerId !== customerScope) {
+      throw new Error('Cannot create campaign for another customer');
+    }
 
     // Validate billboards
     if (!data.billboards || data.billboards.length === 0) {
@@ -182,81 +197,99 @@ class CampaignService {
       throw new Error('Start date and end date are required');
     }
 
+    await bookingService.assertCustomerNotArchived(data.customerId);
+
+    const periodOf = (selection: BillboardSelection) => ({
+      startDate: selection.startDate || data.startDate,
+      endDate: selection.endDate || data.endDate,
+    });
+
+    for (const selection of data.billboards) {
+      const period = periodOf(selection);
+      if (period.startDate < data.startDate || period.endDate > data.endDate || period.startDate > period.endDate) {
+        throw new Error('Cannot book a billboard outside the campaign period');
+      }
+    }
+
     // Get billboard details to calculate values and check availability
-    const billboardIds = data.billboards.map(b => b.billboardId);
-    console.log('Billboard IDs:', billboardIds);
+    const billboardIds = [...new Set(data.billboards.map(b => b.billboardId))];
 
     const billboardDetails = await db
       .select()
       .from(billboards)
       .where(inArray(billboards.id, billboardIds));
 
-    console.log('Found billboards:', billboardDetails.length);
-
     if (billboardDetails.length !== billboardIds.length) {
       throw new Error('One or more billboards not found');
     }
 
-    // Check availability for each billboard
+    // Resolve slots and check availability for each billboard. Earlier selections of the same billboard are
+    // reserved so two selections can't be given the same slots.
+    const resolvedSlots: Array<SlotRange | null> = [];
     for (const selection of data.billboards) {
+      const billboard = billboardDetails.find(b => b.id === selection.billboardId);
+      if (!billboard) {
+        throw new Error('One or more billboards not found');
+      }
+      bookingService.assertBillboardNotArchived(billboard);
+
+      const period = periodOf(selection);
+      const reserved = resolvedSlots.filter((_, i) => {
+        const other = data.billboards[i];
+        const otherPeriod = periodOf(other);
+        return other.billboardId === selection.billboardId &&
+          otherPeriod.startDate <= period.endDate && otherPeriod.endDate >= period.startDate;
+      });
+      const slots = await bookingService.resolveSlots(billboard, {
+        ...period,
+        slotNumber: selection.slotNumber,
+        slotQuantity: selection.slotQuantity,
+        customerId: data.customerId,
+      }, reserved);
+
       const availability = await bookingService.checkAvailability({
         billboardId: selection.billboardId,
-        startDate: data.startDate,
-        endDate: data.endDate,
-        slotNumber: selection.slotNumber,
+        ...period,
+        slotNumber: slots?.slotNumber,
+        slotQuantity: slots?.slotQuantity,
+        customerId: data.customerId,
       });
 
       if (!availability.available) {
-        const billboard = billboardDetails.find(b => b.id === selection.billboardId);
-        throw new Error(`Billboard "${billboard?.name}" is not available for the selected dates. Conflicts with: ${availability.conflicts.map(c => c.referenceCode).join(', ')}`);
+        throw new Error(`Billboard "${billboard.name}" is not available for the selected dates. Conflicts with: ${describeConflicts(availability.conflicts)}`);
       }
+      resolvedSlots.push(slots);
     }
 
-    // Generate campaign reference code
-    const referenceCode = await sequenceService.getNextSequence('campaign');
+    // Build every row up front (with client-side IDs) so they can be written in a single transaction
+    const campaignId = randomUUID();
+    const campaignReferenceCode = await sequenceService.getNextSequence('campaign');
 
-    // Create the campaign first
-    const [campaign] = await db
-      .insert(campaigns)
-      .values({
-        referenceCode,
-        name: data.name,
-        customerId: data.customerId,
-        description: data.description,
-        startDate: new Date(data.startDate),
-        endDate: new Date(data.endDate),
-        totalValue: '0',
-        createdBy: data.createdBy,
-        updatedBy: data.createdBy,
-      })
-      .returning();
-
-    // Create bookings for each billboard
+    const bookingRows: (typeof bookings.$inferInsert & { id: string })[] = [];
     let totalValue = 0;
-    for (const selection of data.billboards) {
+    for (const [i, selection] of data.billboards.entries()) {
       const billboard = billboardDetails.find(b => b.id === selection.billboardId);
       if (!billboard) continue;
 
-      // Calculate notional value
-      const startDate = new Date(data.startDate);
-      const endDate = new Date(data.endDate);
-      const days = Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)) + 1;
-      const rate = parseFloat(billboard.ratePerDay);
-      const notionalValue = (rate * days).toFixed(2);
+      const slots = resolvedSlots[i];
+      const period = periodOf(selection);
+      const price = await pricingService.calculatePrice(billboard, period.startDate, period.endDate, {
+        slotQuantity: slots?.slotQuantity,
+        enforceMinimum: true,
+      });
+      const notionalValue = selection.notionalValue || price.totalAmount.toFixed(2);
       totalValue += parseFloat(notionalValue);
 
-      // Generate booking reference code
-      const bookingRefCode = await sequenceService.getNextSequence('booking');
-
-      // Create booking
-      await db.insert(bookings).values({
-        referenceCode: bookingRefCode,
+      bookingRows.push({
+        id: randomUUID(),
+        referenceCode: await sequenceService.getNextSequence('booking'),
         customerId: data.customerId,
-        campaignId: campaign.id,
+        campaignId,
         billboardId: selection.billboardId,
-        slotNumber: selection.slotNumber || null,
-        startDate: data.startDate,
-        endDate: data.endDate,
+        slotNumber: slots?.slotNumber ?? null,
+        slotQuantity: slots?.slotQuantity ?? null,
+        startDate: period.startDate,
+        endDate: period.endDate,
         notionalValue,
         status: 'created',
         createdBy: data.createdBy,
@@ -264,14 +297,42 @@ class CampaignService {
       });
     }
 
-    // Update campaign total value
-    await db
-      .update(campaigns)
-      .set({
-        totalValue: totalValue.toFixed(2),
-        updatedAt: new Date(),
-      })
-      .where(eq(campaigns.id, campaign.id));
+    // neon-http runs a batch as one transaction: the campaign, its bookings and their history land together or not at all.
+    // A slot taken concurrently since the availability check fails the booking overlap constraint and rolls everything back.
+    const [[campaign], createdBookings] = await db.batch([
+      db
+        .insert(campaigns)
+        .values({
+          id: campaignId,
+          referenceCode: campaignReferenceCode,
+          name: data.name,
+          customerId: data.customerId,
+          description: data.description,
+          startDate: new Date(data.startDate),
+          endDate: new Date(data.endDate),
+          totalValue: totalValue.toFixed(2),
+          createdBy: data.createdBy,
+          updatedBy: data.createdBy,
+        })
+        .returning(),
+      db.insert(bookings).values(bookingRows).returning(),
+      db.insert(bookingStatusHistory).values(
+        bookingRows.map(booking => ({
+          bookingId: booking.id,
+          fromStatus: null,
+          toStatus: 'created',
+          reason: `Created with campaign ${campaignReferenceCode}`,
+          changedBy: data.createdBy,
+        }))
+      ),
+    ]).catch(error => {
+      throw bookingService.toAvailabilityError(error);
+    });
+
+    await auditLogService.logCreate('campaigns', 'campaign', campaign);
+    for (const booking of createdBookings) {
+      await auditLogService.logCreate('bookings', 'booking', booking);
+    }
 
     return this.getCampaignById(campaign.id);
   }
@@ -282,6 +343,11 @@ class CampaignService {
       throw new Error('Campaign not found');
     }
 
+    const customerScope = getCustomerScope();
+    if (customerScope && data.customerId !== undefined && data.customerId !== customerScope) {
+      throw new Error('Cannot move campaign to another customer');
+    }
+
     const updateData: Record<string, unknown> = {
       updatedBy: data.updatedBy,
       updatedAt: new Date(),
@@ -293,10 +359,13 @@ class CampaignService {
     if (data.startDate !== undefined) updateData.startDate = data.startDate ? new Date(data.startDate) : null;
     if (data.endDate !== undefined) updateData.endDate = data.endDate ? new Date(data.endDate) : null;
 
-    await db
+    const [campaign] = await db
       .update(campaigns)
       .set(updateData)
-      .where(eq(campaigns.id, id));
+      .where(eq(campaigns.id, id))
+      .returning();
+
+    await auditLogService.logUpdate('campaigns', 'campaign', existing, campaign);
 
     return this.getCampaignById(id);
   }
@@ -312,7 +381,10 @@ class CampaignService {
       throw new Error('Cannot delete campaign with existing bookings. Remove bookings from the campaign first.');
     }
 
-    await db.delete(campaigns).where(eq(campaigns.id, id));
+    const [deleted] = await db.delete(campaigns).where(eq(campaigns.id, id)).returning();
+    if (deleted) {
+      await auditLogService.logDelete('campaigns', 'campaign', deleted);
+    }
   }
 
   async updateCampaignTotals(campaignId: string) {
@@ -360,14 +432,17 @@ class CampaignService {
     }
 
     // Update booking to link to campaign
-    await db
+    const [updated] = await db
       .update(bookings)
       .set({
         campaignId,
         updatedBy,
         updatedAt: new Date(),
       })
-      .where(eq(bookings.id, bookingId));
+      .where(eq(bookings.id, bookingId))
+      .returning();
+
+    await auditLogService.logUpdate('bookings', 'booking', booking, updated);
 
     // Update campaign totals
     await this.updateCampaignTotals(campaignId);
@@ -388,14 +463,17 @@ class CampaignService {
     }
 
     // Remove booking from campaign
-    await db
+    const [updated] = await db
       .update(bookings)
       .set({
         campaignId: null,
         updatedBy,
         updatedAt: new Date(),
       })
-      .where(eq(bookings.id, bookingId));
+      .where(eq(bookings.id, bookingId))
+      .returning();
+
+    await auditLogService.logUpdate('bookings', 'booking', booking, updated);
 
     // Update campaign totals
     await this.updateCampaignTotals(campaignId);
@@ -406,7 +484,7 @@ class CampaignService {
   async getBookingsNotInCampaign(customerId: string, excludeCampaignId?: string) {
     // Get bookings for the customer that are not in any campaign (or in a different campaign)
     const conditions = [
-      eq(bookings.customerId, customerId),
+      eq(bookings.customerId, getCustomerScope() ?? customerId),
     ];
 
     if (excludeCampaignId) {
@@ -442,7 +520,7 @@ class CampaignService {
     const allBillboards = await db
       .select()
       .from(billboards)
-      .where(eq(billboards.status, 'active'))
+      .where(and(eq(billboards.status, 'active'), isNull(billboards.archivedAt)))
       .orderBy(asc(billboards.name));
 
     // For each billboard, check availability and get slot info
@@ -1,6 +1,9 @@
-import { eq, ilike, and, desc, asc, sql } from 'drizzle-orm';
+import { eq, ilike, and, desc, asc, sql, isNull, inArray } from 'drizzle-orm';
 import { db } from '../db/index.js';
-import { customers, bookings } from '../db/schema/index.js';
+import { customers, bookings, billboards, bookingHolds, quotations, campaigns } from '../db/schema/index.js';
+import { auditLogService } from './audit-log.service.js';
+import { ConflictError } from '../middleware/errorHandler.js';
+import { today } from '../utils/dates.js';
 
 export interface CreateCustomerDto {
   name: string;
@@ -40,14 +43,18 @@ export interface PaginationOptions {
   sortOrder?: 'asc' | 'desc';
   search?: string;
   isActive?: boolean;
+  includeArchived?: boolean;
 }
 
 class CustomerService {
   async getAllCustomers(options: PaginationOptions) {
-    const { page, pageSize, sortBy = 'name', sortOrder = 'asc', search, isActive } = options;
+    const { page, pageSize, sortBy = 'name', sortOrder = 'asc', search, isActive, includeArchived } = options;
     const offset = (page - 1) * pageSize;
 
     const conditions = [];
+    if (!includeArchived) {
+      conditions.push(isNull(customers.archivedAt));
+    }
     if (search) {
       conditions.push(ilike(customers.name, `%${search}%`));
     }
@@ -126,10 +133,14 @@ class CustomerService {
         updatedBy: data.createdBy,
       })
       .returning();
+
+    await auditLogService.logCreate('customers', 'customer', customer);
     return customer;
   }
 
   async updateCustomer(id: string, data: UpdateCustomerDto) {
+    const before = await this.getCustomerById(id);
+
     const updateData: Record<string, unknown> = {
       updatedBy: data.updatedBy,
       updatedAt: new Date(),
@@ -153,21 +164,114 @@ class CustomerService {
       .set(updateData)
       .where(eq(customers.id, id))
       .returning();
+
+    if (before && customer) {
+      await auditLogService.logUpdate('customers', 'customer', before, customer);
+    }
     return customer;
   }
 
+  /**
+   * Delete a customer with no history. Bookings, holds, quotations and campaigns keep the customer, so
+   * those are reported as a conflict listing the blocking bookings; archive the customer instead.
+   */
   async deleteCustomer(id: string) {
-    // Check if customer has bookings
-    const [bookingCount] = await db
-      .select({ count: sql<number>`count(*)::int` })
+    const [blockingBookings, [holdCount], [quotationCount], [campaignCount]] = await Promise.all([
+      db
+        .select({
+          id: bookings.id,
+          referenceCode: bookings.referenceCode,
+          status: bookings.status,
+          startDate: bookings.startDate,
+          endDate: bookings.endDate,
+          billboardCode: billboards.code,
+        })
+        .from(bookings)
+        .leftJoin(billboards, eq(bookings.billboardId, billboards.id))
+        .where(eq(bookings.customerId, id))
+        .orderBy(desc(bookings.startDate)),
+      db.select({ count: sql<number>`count(*)::int` }).from(bookingHolds).where(eq(bookingHolds.customerId, id)),
+      db.select({ count: sql<number>`count(*)::int` }).from(quotations).where(eq(quotations.customerId, id)),
+      db.select({ count: sql<number>`count(*)::int` }).from(campaigns).where(eq(campaigns.customerId, id)),
+    ]);
+
+    const references = [
+      blockingBookings.length > 0 && `${blockingBookings.length} booking(s)`,
+      holdCount.count > 0 && `${holdCount.count} hold(s)`,
+      quotationCount.count > 0 && `${quotationCount.count} quotation(s)`,
+      campaignCount.count > 0 && `${campaignCount.count} campaign(s)`,
+    ].filter(Boolean);
+
+    if (references.length > 0) {
+      throw new ConflictError(
+        `Cannot delete customer: it has ${references.join(', ')}. Archive it instead.`,
+        blockingBookings
+      );
+    }
+
+    const [deleted] = await db.delete(customers).where(eq(customers.id, id)).returning();
+    if (deleted) {
+      await auditLogService.logDelete('customers', 'customer', deleted);
+    }
+  }
+
+  async archiveCustomer(id: string, updatedBy?: string) {
+    const before = await this.getCustomerById(id);
+    if (!before) {
+      throw new Error('Customer not found');
+    }
+    if (before.archivedAt) {
+      throw new Error('Cannot archive customer: it is already archived');
+    }
+
+    // Open bookings still run after archiving; they're returned so they can be moved or short-closed
+    const upcomingBookings = await db
+      .select({
+        id: bookings.id,
+        referenceCode: bookings.referenceCode,
+        billboardCode: billboards.code,
+        startDate: bookings.startDate,
+        endDate: sql<string>`COALESCE(${bookings.actualEndDate}, ${bookings.endDate})`,
+        status: bookings.status,
+      })
       .from(bookings)
-      .where(eq(bookings.customerId, id));
+      .leftJoin(billboards, eq(bookings.billboardId, billboards.id))
+      .where(
+        and(
+          eq(bookings.customerId, id),
+          inArray(bookings.status, ['created', 'confirmed', 'active']),
+          sql`COALESCE(${bookings.actualEndDate}, ${bookings.endDate}) >= ${today()}`
+        )
+      )
+      .orderBy(asc(bookings.startDate));
+
+    const [customer] = await db
+      .update(customers)
+      .set({ archivedAt: new Date(), updatedBy, updatedAt: new Date() })
+      .where(eq(customers.id, id))
+      .returning();
+
+    await auditLogService.logUpdate('customers', 'customer', before, customer);
+    return { ...customer, upcomingBookings };
+  }
 
-    if (bookingCount.count > 0) {
-      throw new Error('Cannot delete customer with existing bookings');
+  async restoreCustomer(id: string, updatedBy?: string) {
+    const before = await this.getCustomerById(id);
+    if (!before) {
+      throw new Error('Customer not found');
+    }
+    if (!before.archivedAt) {
+      throw new Error('Cannot restore customer: it is not archived');
     }
 
-    await db.delete(customers).where(eq(customers.id, id));
+    const [customer] = await db
+      .update(customers)
+      .set({ archivedAt: null, updatedBy, updatedAt: new Date() })
+      .where(eq(customers.id, id))
+      .returning();
+
+    await auditLogService.logUpdate('customers', 'customer', before, customer);
+    return customer;
   }
 
   async getCustomersForDropdown() {
@@ -177,7 +281,7 @@ class CustomerService {
         name: customers.name,
       })
       .from(customers)
-      .where(eq(customers.isActive, true))
+      .where(and(eq(customers.isActive, true), isNull(customers.archivedAt)))
       .orderBy(asc(customers.name));
   }
 }
@@ -1,6 +1,7 @@
-import { sql, eq, and, gte, lte, count } from 'drizzle-orm';
+import { sql, eq, and, gte, lte, count, inArray } from 'drizzle-orm';
 import { db } from '../db/index.js';
 import { billboards, bookings, customers, purchaseOrders, campaigns } from '../db/schema/index.js';
+import { getCustomerScope } from '../utils/request-context.js';
 
 export interface DashboardStats {
   totalBillboards: number;
@@ -47,6 +48,37 @@ export interface RevenueByMonth {
 }
 
 class DashboardService {
+  // Customer portal users only see figures for their own bookings, campaigns and POs
+  private bookingScope() {
+    const customerScope = getCustomerScope();
+    return customerScope ? eq(bookings.customerId, customerScope) : undefined;
+  }
+
+  private campaignScope() {
+    const customerScope = getCustomerScope();
+    return customerScope ? eq(campaigns.customerId, customerScope) : undefined;
+  }
+
+  private purchaseOrderScope() {
+    const customerScope = getCustomerScope();
+    return customerScope
+      ? inArray(purchaseOrders.bookingId, db.select({ id: bookings.id }).from(bookings).where(eq(bookings.customerId, customerScope)))
+      : undefined;
+  }
+
+  // ...and only the billboards they have booked, so inventory and occupancy of others stay hidden
+  private billboardScope() {
+    const customerScope = getCustomerScope();
+    return customerScope
+      ? inArray(billboards.id, db.select({ id: bookings.billboardId }).from(bookings).where(eq(bookings.customerId, customerScope)))
+      : undefined;
+  }
+
+  private customerScope() {
+    const customerScope = getCustomerScope();
+    return customerScope ? eq(customers.id, customerScope) : undefined;
+  }
+
   private getMonthDateRange(monthsAgo: number = 0) {
     const now = new Date();
     const year = now.getFullYear();
@@ -68,46 +100,56 @@ class DashboardService {
     // Get billboard counts
     const [totalBillboards] = await db
       .select({ count: count() })
-      .from(billboards);
+      .from(billboards)
+      .where(this.billboardScope());
 
     const [activeBillboards] = await db
       .select({ count: count() })
       .from(billboards)
-      .where(eq(billboards.status, 'active'));
+      .where(and(eq(billboards.status, 'active'), this.billboardScope()));
 
     // Get booking counts
     const [totalBookings] = await db
       .select({ count: count() })
-      .from(bookings);
+      .from(bookings)
+      .where(this.bookingScope());
 
     const [activeBookings] = await db
       .select({ count: count() })
       .from(bookings)
       .where(
-        sql`${bookings.status} IN ('created', 'confirmed', 'active')`
+        and(
+          sql`${bookings.status} IN ('created', 'confirmed', 'active')`,
+          this.bookingScope()
+        )
       );
 
     // Get customer counts
     const [totalCustomers] = await db
       .select({ count: count() })
-      .from(customers);
+      .from(customers)
+      .where(this.customerScope());
 
     const [activeCustomers] = await db
       .select({ count: count() })
       .from(customers)
-      .where(eq(customers.isActive, true));
+      .where(and(eq(customers.isActive, true), this.customerScope()));
 
     // Get campaign counts
     const [totalCampaigns] = await db
       .select({ count: count() })
-      .from(campaigns);
+      .from(campaigns)
+      .where(this.campaignScope());
 
     // Count active campaigns as those with end date in the future or no end date
     const [activeCampaigns] = await db
       .select({ count: count() })
       .from(campaigns)
       .where(
-        sql`${campaigns.endDate} IS NULL OR ${campaigns.endDate} > NOW()`
+        and(
+          sql`(${campaigns.endDate} IS NULL OR ${campaigns.endDate} > NOW())`,
+          this.campaignScope()
+        )
       );
 
     // Get revenue this month (from POs)
@@ -117,7 +159,8 @@ class DashboardService {
       .where(
         and(
           gte(purchaseOrders.createdAt, new Date(thisMonth.startDate)),
-          lte(purchaseOrders.createdAt, new Date(thisMonth.endDate + 'T23:59:59'))
+          lte(purchaseOrders.createdAt, new Date(thisMonth.endDate + 'T23:59:59')),
+          this.purchaseOrderScope()
         )
       );
 
@@ -128,7 +171,8 @@ class DashboardService {
       .where(
         and(
           gte(purchaseOrders.createdAt, new Date(lastMonth.startDate)),
-          lte(purchaseOrders.createdAt, new Date(lastMonth.endDate + 'T23:59:59'))
+          lte(purchaseOrders.createdAt, new Date(lastMonth.endDate + 'T23:59:59')),
+          this.purchaseOrderScope()
         )
       );
 
@@ -139,7 +183,8 @@ class DashboardService {
       .where(
         and(
           gte(bookings.createdAt, new Date(thisMonth.startDate)),
-          lte(bookings.createdAt, new Date(thisMonth.endDate + 'T23:59:59'))
+          lte(bookings.createdAt, new Date(thisMonth.endDate + 'T23:59:59')),
+          this.bookingScope()
         )
       );
 
@@ -150,7 +195,8 @@ class DashboardService {
       .where(
         and(
           gte(bookings.createdAt, new Date(lastMonth.startDate)),
-          lte(bookings.createdAt, new Date(lastMonth.endDate + 'T23:59:59'))
+          lte(bookings.createdAt, new Date(lastMonth.endDate + 'T23:59:59')),
+          this.bookingScope()
         )
       );
 
@@ -186,6 +232,7 @@ class DashboardService {
       .from(bookings)
       .leftJoin(customers, eq(bookings.customerId, customers.id))
       .leftJoin(billboards, eq(bookings.billboardId, billboards.id))
+      .where(this.bookingScope())
       .orderBy(sql`${bookings.createdAt} DESC`)
       .limit(limit);
 
@@ -203,7 +250,7 @@ class DashboardService {
   }
 
   async getOccupancyRates(startDate: string, endDate: string): Promise<OccupancyData[]> {
-    // Get all active billboards
+    // Get all active billboards; portal users get occupancy of their own bookings only
     const billboardList = await db
       .select({
         id: billboards.id,
@@ -212,7 +259,7 @@ class DashboardService {
         type: billboards.type,
       })
       .from(billboards)
-      .where(eq(billboards.status, 'active'));
+      .where(and(eq(billboards.status, 'active'), this.billboardScope()));
 
     const start = new Date(startDate);
     const end = new Date(endDate);
@@ -234,7 +281,8 @@ class DashboardService {
             eq(bookings.billboardId, billboard.id),
             lte(bookings.startDate, endDate),
             gte(bookings.endDate, startDate),
-            sql`${bookings.status} NOT IN ('cancelled')`
+            sql`${bookings.status} NOT IN ('cancelled')`,
+            this.bookingScope()
           )
         );
 
@@ -285,7 +333,8 @@ class DashboardService {
         .where(
           and(
             gte(purchaseOrders.createdAt, new Date(startDate)),
-            lte(purchaseOrders.createdAt, new Date(endDate + 'T23:59:59'))
+            lte(purchaseOrders.createdAt, new Date(endDate + 'T23:59:59')),
+            this.purchaseOrderScope()
           )
         );
 
@@ -325,7 +374,8 @@ class DashboardService {
         and(
           gte(bookings.startDate, today),
           lte(bookings.startDate, endDate),
-          sql`${bookings.status} IN ('created', 'confirmed')`
+          sql`${bookings.status} IN ('created', 'confirmed')`,
+          this.bookingScope()
         )
       )
       .orderBy(sql`${bookings.startDate} ASC`)
@@ -0,0 +1,316 @@
+import { eq, and, or, desc, sql, lte } from 'drizzle-orm';
+import { db } from '../db/index.js';
+import { bookingHolds, billboards, customers, bookings } from '../db/schema/index.js';
+import { sequenceService } from './sequence.service.js';
+import { bookingService, activeHoldCondition, describeConflicts } from './booking.service.js';
+import { auditLogService } from './audit-log.service.js';
+import { getCustomerScope } from '../utils/request-context.js';
+
+export const HOLD_STATUSES = ['active', 'converted', 'released', 'expired'] as const;
+export type HoldStatus = typeof HOLD_STATUSES[number];
+
+export const DEFAULT_HOLD_DAYS = 7;
+export const MAX_HOLD_DAYS = 30;
+
+export interface CreateHoldDto {
+  customerId: string;
+  billboardId: string;
+  slotNumber?: number;
+  // Without a slot number the first free run is held
+  slotQuantity?: number;
+  startDate: string;
+  endDate: string;
+  // How long the hold lasts before it lapses
+  days?: number;
+  notes?: string;
+  createdBy?: string;
+}
+
+export interface ConvertHoldDto {
+  notionalValue?: string;
+  creativeRef?: string;
+  notes?: string;
+  convertedBy?: string;
+}
+
+export interface HoldPaginationOptions {
+  page: number;
+  pageSize: number;
+  customerId?: string;
+  billboardId?: string;
+  status?: string;
+}
+
+// An active hold past its expiry reads as expired even before the hold-expiry job marks it
+const withEffectiveStatus = <T extends { status: string; expiresAt: Date }>(hold: T): T => ({
+  ...hold,
+  status: hold.status === 'active' && hold.expiresAt <= new Date() ? 'expired' : hold.status,
+});
+
+class HoldService {
+  async getAllHolds(options: HoldPaginationOptions) {
+    const { page, pageSize, billboardId, status } = options;
+    const offset = (page - 1) * pageSize;
+    const customerId = getCustomerScope() ?? options.customerId;
+
+    const conditions = [];
+    if (customerId) {
+      conditions.push(eq(bookingHolds.customerId, customerId));
+    }
+    if (billboardId) {
+      conditions.push(eq(bookingHolds.billboardId, billboardId));
+    }
+    if (status === 'active') {
+      conditions.push(activeHoldCondition());
+    } else if (status === 'expired') {
+      conditions.push(or(eq(bookingHolds.status, 'expired'), and(eq(bookingHolds.status, 'active'), lte(bookingHolds.expiresAt, sql`now()`))));
+    } else if (status) {
+      conditions.push(eq(bookingHolds.status, status));
+    }
+
+    const whereCondition = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [data, countResult] = await Promise.all([
+      db
+        .select({
+          hold: bookingHolds,
+          customer: {
+            id: customers.id,
+            name: customers.name,
+          },
+          billboard: {
+            id: billboards.id,
+            name: billboards.name,
+            code: billboards.code,
+            type: billboards.type,
+          },
+        })
+        .from(bookingHolds)
+        .leftJoin(customers, eq(bookingHolds.customerId, customers.id))
+        .leftJoin(billboards, eq(bookingHolds.billboardId, billboards.id))
+        .where(whereCondition)
+        .orderBy(desc(bookingHolds.createdAt))
+        .limit(pageSize)
+        .offset(offset),
+      db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(bookingHolds)
+        .where(whereCondition),
+    ]);
+
+    return {
+      data: data.map(row => ({
+        ...withEffectiveStatus(row.hold),
+        customer: row.customer,
+        billboard: row.billboard,
+      })),
+      pagination: {
+        page,
+        pageSize,
+        totalItems: countResult[0]?.count || 0,
+        totalPages: Math.ceil((countResult[0]?.count || 0) / pageSize),
+      },
+    };
+  }
+
+  async getHoldById(id: string) {
+    const customerScope = getCustomerScope();
+
+    const [result] = await db
+      .select({
+        hold: bookingHolds,
+        customer: {
+          id: customers.id,
+          name: customers.name,
+        },
+        billboard: {
+          id: billboards.id,
+          name: billboards.name,
+          code: billboards.code,
+          type: billboards.type,
+        },
+        booking: {
+          id: bookings.id,
+          referenceCode: bookings.referenceCode,
+          status: bookings.status,
+        },
+      })
+      .from(bookingHolds)
+      .leftJoin(customers, eq(bookingHolds.customerId, customers.id))
+      .leftJoin(billboards, eq(bookingHolds.billboardId, billboards.id))
+      .leftJoin(bookings, eq(bookingHolds.bookingId, bookings.id))
+      .where(and(eq(bookingHolds.id, id), customerScope ? eq(bookingHolds.customerId, customerScope) : undefined))
+      .limit(1);
+
+    if (!result) return null;
+
+    return {
+      ...withEffectiveStatus(result.hold),
+      customer: result.customer,
+      billboard: result.billboard,
+      booking: result.booking,
+    };
+  }
+
+  async createHold(data: CreateHoldDto) {
+    const customerScope = getCustomerScope();
+    if (customerScope && data.customerId !== customerScope) {
+      throw new Error('Cannot create hold for another customer');
+    }
+
+    const days = data.days ?? DEFAULT_HOLD_DAYS;
+    if (days < 1 || days > MAX_HOLD_DAYS) {
+      throw new Error(`Cannot hold a billboard for ${days} days: holds last 1-${MAX_HOLD_DAYS} days`);
+    }
+    if (data.startDate > data.endDate) {
+      throw new Error('Cannot create hold: end date is before start date');
+    }
+
+    const [billboard] = await db
+      .select()
+      .from(billboards)
+      .where(eq(billboards.id, data.billboardId))
+      .limit(1);
+
+    if (!billboard) {
+      throw new Error('Billboard not found');
+    }
+
+    bookingService.assertBillboardNotArchived(billboard);
+    await bookingService.assertCustomerNotArchived(data.customerId);
+
+    // No customer is passed, so the customer's own holds conflict too and can't be stacked
+    const slots = await bookingService.resolveSlots(billboard, data);
+    const availability = await bookingService.checkAvailability({
+      billboardId: data.billboardId,
+      startDate: data.startDate,
+      endDate: data.endDate,
+      slotNumber: slots?.slotNumber,
+      slotQuantity: slots?.slotQuantity,
+    });
+
+    if (!availability.available) {
+      throw new Error(`Billboard is not available for the selected dates. Conflicts with: ${describeConflicts(availability.conflicts)}`);
+    }
+
+    const referenceCode = await sequenceService.getNextSequence('hold');
+    const expiresAt = new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+
+    const [hold] = await db
+      .insert(bookingHolds)
+      .values({
+        referenceCode,
+        customerId: data.customerId,
+        billboardId: data.billboardId,
+        slotNumber: slots?.slotNumber ?? null,
+        slotQuantity: slots?.slotQuantity ?? null,
+        startDate: data.startDate,
+        endDate: data.endDate,
+        expiresAt,
+        notes: data.notes,
+        createdBy: data.createdBy,
+        updatedBy: data.createdBy,
+      })
+      .returning();
+
+    await auditLogService.logCreate('bookings', 'booking_hold', hold);
+    return this.getHoldById(hold.id);
+  }
+
+  async releaseHold(id: string, releasedBy?: string) {
+    const existing = await this.getHoldById(id);
+    if (!existing) {
+      throw new Error('Hold not found');
+    }
+
+    if (existing.status !== 'active') {
+      throw new Error(`Cannot release hold in "${existing.status}" status`);
+    }
+
+    const [hold] = await db
+      .update(bookingHolds)
+      .set({ status: 'released', updatedBy: releasedBy, updatedAt: new Date() })
+      .where(and(eq(bookingHolds.id, id), eq(bookingHolds.status, 'active')))
+      .returning();
+
+    if (!hold) {
+      throw new Error('Cannot release hold: it was modified by another request. Please retry.');
+    }
+
+    await auditLogService.logUpdate('bookings', 'booking_hold', existing, hold);
+    return this.getHoldById(id);
+  }
+
+  /**
+   * Book the held billboard and slots for the hold's customer. The hold is claimed first so it can't be
+   * converted twice, and released back to active if the booking fails.
+   */
+  async convertToBooking(id: string, data: ConvertHoldDto = {}) {
+    const existing = await this.getHoldById(id);
+    if (!existing) {
+      throw new Error('Hold not found');
+    }
+
+    if (existing.status !== 'active') {
+      throw new Error(`Cannot convert hold in "${existing.status}" status`);
+    }
+
+    const [claimed] = await db
+      .update(bookingHolds)
+      .set({ status: 'converted', updatedBy: data.convertedBy, updatedAt: new Date() })
+      .where(and(eq(bookingHolds.id, id), activeHoldCondition()))
+      .returning();
+
+    if (!claimed) {
+      throw new Error('Cannot convert hold: it expired or was modified by another request');
+    }
+
+    let booking;
+    try {
+      booking = await bookingService.createBooking({
+        customerId: existing.customerId,
+        billboardId: existing.billboardId,
+        slotNumber: existing.slotNumber ?? undefined,
+        slotQuantity: existing.slotQuantity ?? undefined,
+        startDate: existing.startDate,
+        endDate: existing.endDate,
+        notionalValue: data.notionalValue,
+        creativeRef: data.creativeRef,
+        notes: data.notes ?? existing.notes ?? undefined,
+        createdBy: data.convertedBy,
+      });
+    } catch (error) {
+      await db
+        .update(bookingHolds)
+        .set({ status: 'active', updatedBy: existing.updatedBy, updatedAt: existing.updatedAt })
+        .where(and(eq(bookingHolds.id, id), eq(bookingHolds.status, 'converted')));
+      throw error;
+    }
+
+    if (!booking) {
+      throw new Error('Booking not found');
+    }
+
+    const [hold] = await db
+      .update(bookingHolds)
+      .set({ bookingId: booking.id })
+      .where(eq(bookingHolds.id, id))
+      .returning();
+
+    await auditLogService.logUpdate('bookings', 'booking_hold', existing, hold);
+    return { hold: await this.getHoldById(id), booking };
+  }
+
+  /**
+   * Mark lapsed holds as expired. Availability already ignores them, so this only keeps statuses tidy.
+   */
+  async expireLapsedHolds() {
+    return db
+      .update(bookingHolds)
+      .set({ status: 'expired', updatedAt: new Date() })
+      .where(and(eq(bookingHolds.status, 'active'), lte(bookingHolds.expiresAt, sql`now()`)))
+      .returning({ id: bookingHolds.id, referenceCode: bookingHolds.referenceCode, expiresAt: bookingHolds.expiresAt });
+  }
+}
+
+export const holdService = new HoldService();
@@ -0,0 +1,738 @@
+import { eq, and, desc, asc, sql, gte, lte, ne, exists } from 'drizzle-orm';
+import { db } from '../db/index.js';
+import { invoices, invoicePayments, purchaseOrders, bookings, bookingStatusHistory, customers, billboards, campaigns, taxes } from '../db/schema/index.js';
+import { sequenceService } from './sequence.service.js';
+import { bookingService } from './booking.service.js';
+import { auditLogService } from './audit-log.service.js';
+import { purchaseOrderService } from './purchase-order.service.js';
+import { taxService } from './tax.service.js';
+import { settingsService } from './settings.service.js';
+import { getCustomerScope } from '../utils/request-context.js';
+import { addDays, today } from '../utils/dates.js';
+
+export type InvoicePaymentStatus = 'unpaid' | 'partially_paid' | 'paid' | 'void';
+
+export const PAYMENT_MODES = ['neft', 'rtgs', 'imps', 'cheque', 'upi', 'cash'] as const;
+export type PaymentMode = typeof PAYMENT_MODES[number];
+
+export interface CreateInvoiceDto {
+  purchaseOrderId: string;
+  taxId?: string;
+  invoiceDate?: string; // Defaults to today
+  dueDate?: string; // Defaults to invoiceDate + invoice_settings.due_days
+  paymentNotes?: string;
+  createdBy?: string;
+}
+
+export interface UpdateInvoiceDto {
+  invoiceDate?: string;
+  dueDate?: string;
+  taxId?: string | null;
+  paymentNotes?: string;
+  updatedBy?: string;
+}
+
+export interface RecordPaymentDto {
+  amount: number;
+  tdsAmount?: number;
+  paymentDate?: string; // Defaults to today
+  paymentMode: PaymentMode;
+  referenceNumber?: string;
+  notes?: string;
+  createdBy?: string;
+}
+
+export interface InvoicePaginationOptions {
+  page: number;
+  pageSize: number;
+  sortBy?: string;
+  sortOrder?: 'asc' | 'desc';
+  customerId?: string;
+  paymentStatus?: string;
+  search?: string;
+  dateFrom?: string;
+  dateTo?: string;
+  overdue?: boolean;
+}
+
+export interface InvoiceWithDetails {
+  id: string;
+  invoiceNumber: string;
+  purchaseOrderId: string;
+  invoiceDate: string;
+  dueDate: string;
+  subtotal: string;
+  taxId: string | null;
+  taxAmount: string;
+  totalAmount: string;
+  amountPaid: string;
+  balanceDue: string;
+  paymentStatus: string;
+  paymentDate: string | null;
+  paymentNotes: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  createdBy?: string | null;
+  updatedBy?: string | null;
+  purchaseOrder: {
+    id: string;
+    poNumber: string;
+    actualStartDate: string;
+    actualEndDate: string;
+    actualValue: string;
+  };
+  booking: {
+    id: string;
+    referenceCode: string;
+    startDate: string;
+    endDate: string;
+    status: string;
+  };
+  customer: {
+    id: string;
+    name: string;
+    contactPerson?: string | null;
+    email?: string | null;
+    phone?: string | null;
+    address?: string | null;
+    billingAddress?: string | null;
+    gstNumber?: string | null;
+    panNumber?: string | null;
+  } | null;
+  billboard: {
+    id: string;
+    name: string;
+    code: string;
+    type: string;
+    address?: string | null;
+  } | null;
+  campaign?: {
+    id: string;
+    name: string;
+    referenceCode: string;
+  } | null;
+  tax: {
+    id: string;
+    name: string;
+    percentage: string;
+    hsnSacCode?: string | null;
+  } | null;
+  payments: InvoicePayment[];
+}
+
+export type InvoicePayment = typeof invoicePayments.$inferSelect;
+
+const DEFAULT_DUE_DAYS = 30;
+
+class InvoiceService {
+  private calculateTotals(subtotal: string, percentage?: string | null) {
+    const subtotalValue = parseFloat(subtotal);
+    const rate = percentage ? parseFloat(percentage) : 0;
+    const taxAmount = Math.round(subtotalValue * rate) / 100;
+    return {
+      subtotal: subtotalValue.toFixed(2),
+      taxAmount: taxAmount.toFixed(2),
+      totalAmount: (subtotalValue + taxAmount).toFixed(2),
+    };
+  }
+
+  private calculateBalance(totalAmount: string, amountPaid: string): string {
+    return (parseFloat(totalAmount) - parseFloat(amountPaid)).toFixed(2);
+  }
+
+  private async resolveTax(taxId?: string | null) {
+    if (taxId) {
+      const tax = await taxService.getTaxById(taxId);
+      if (!tax) {
+        throw new Error('Tax not found');
+      }
+      if (!tax.isActive) {
+        throw new Error(`Cannot apply inactive tax "${tax.name}"`);
+      }
+      return tax;
+    }
+
+    // Fall back to the default tax configured in system settings
+    const setting = await settingsService.getValue<{ tax_id: string | null }>('default_tax_id');
+    if (setting?.tax_id) {
+      const tax = await taxService.getTaxById(setting.tax_id);
+      if (tax?.isActive) {
+        return tax;
+      }
+    }
+
+    return null;
+  }
+
+  private async getDefaultDueDays(): Promise<number> {
+    const setting = await settingsService.getValue<{ due_days?: number }>('invoice_settings');
+    return setting?.due_days ?? DEFAULT_DUE_DAYS;
+  }
+
+  async getAllInvoices(options: InvoicePaginationOptions) {
+    const { page, pageSize, sortBy = 'invoiceDate', sortOrder = 'desc', paymentStatus, search, dateFrom, dateTo, overdue } = options;
+    const offset = (page - 1) * pageSize;
+    const customerId = getCustomerScope() ?? options.customerId;
+
+    const conditions = [];
+    if (customerId) {
+      conditions.push(eq(bookings.customerId, customerId));
+    }
+    if (paymentStatus) {
+      conditions.push(eq(invoices.paymentStatus, paymentStatus));
+    }
+    if (search) {
+      conditions.push(
+        sql`(${invoices.invoiceNumber} ILIKE ${'%' + search + '%'} OR ${purchaseOrders.poNumber} ILIKE ${'%' + search + '%'} OR ${customers.name} ILIKE ${'%' + search + '%'})`
+      );
+    }
+    if (dateFrom) {
+      conditions.push(gte(invoices.invoiceDate, dateFrom));
+    }
+    if (dateTo) {
+      conditions.push(lte(invoices.invoiceDate, dateTo));
+    }
+    if (overdue) {
+      conditions.push(sql`${invoices.dueDate} < ${today()}`);
+      conditions.push(sql`${invoices.paymentStatus} NOT IN ('paid', 'void')`);
+    }
+
+    const whereCondition = conditions.length > 0 ? and(...conditions) : undefined;
+
+    let orderByColumn;
+    switch (sortBy) {
+      case 'invoiceNumber':
+        orderByColumn = invoices.invoiceNumber;
+        break;
+      case 'dueDate':
+        orderByColumn = invoices.dueDate;
+        break;
+      case 'totalAmount':
+        orderByColumn = invoices.totalAmount;
+        break;
+      case 'paymentStatus':
+        orderByColumn = invoices.paymentStatus;
+        break;
+      case 'createdAt':
+        orderByColumn = invoices.createdAt;
+        break;
+      default:
+        orderByColumn = invoices.invoiceDate;
+    }
+    const orderBy = sortOrder === 'desc' ? desc(orderByColumn) : asc(orderByColumn);
+
+    const [data, countResult] = await Promise.all([
+      db
+        .select({
+          invoice: invoices,
+          purchaseOrder: {
+            id: purchaseOrders.id,
+            poNumber: purchaseOrders.poNumber,
+          },
+          booking: {
+            id: bookings.id,
+            referenceCode: bookings.referenceCode,
+          },
+          customer: {
+            id: customers.id,
+            name: customers.name,
+          },
+          billboard: {
+            id: billboards.id,
+            name: billboards.name,
+            code: billboards.code,
+          },
+          tax: {
+            id: taxes.id,
+            name: taxes.name,
+            percentage: taxes.percentage,
+          },
+        })
+        .from(invoices)
+        .innerJoin(purchaseOrders, eq(invoices.purchaseOrderId, purchaseOrders.id))
+        .innerJoin(bookings, eq(purchaseOrders.bookingId, bookings.id))
+        .leftJoin(customers, eq(bookings.customerId, customers.id))
+        .leftJoin(billboards, eq(bookings.billboardId, billboards.id))
+        .leftJoin(taxes, eq(invoices.taxId, taxes.id))
+        .where(whereCondition)
+        .orderBy(orderBy)
+        .limit(pageSize)
+        .offset(offset),
+      db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(invoices)
+        .innerJoin(purchaseOrders, eq(invoices.purchaseOrderId, purchaseOrders.id))
+        .innerJoin(bookings, eq(purchaseOrders.bookingId, bookings.id))
+        .leftJoin(customers, eq(bookings.customerId, customers.id))
+        .where(whereCondition),
+    ]);
+
+    return {
+      data: data.map(row => ({
+        ...row.invoice,
+        balanceDue: this.calculateBalance(row.invoice.totalAmount, row.invoice.amountPaid),
+        purchaseOrder: row.purchaseOrder,
+        booking: row.booking,
+        customer: row.customer,
+        billboard: row.billboard,
+        tax: row.tax,
+      })),
+      pagination: {
+        page,
+        pageSize,
+        totalItems: countResult[0]?.count || 0,
+        totalPages: Math.ceil((countResult[0]?.count || 0) / pageSize),
+      },
+    };
+  }
+
+  async getInvoiceById(id: string): Promise<InvoiceWithDetails | null> {
+    const customerScope = getCustomerScope();
+
+    const [result] = await db
+      .select({
+        invoice: invoices,
+        purchaseOrder: {
+          id: purchaseOrders.id,
+          poNumber: purchaseOrders.poNumber,
+          actualStartDate: purchaseOrders.actualStartDate,
+          actualEndDate: purchaseOrders.actualEndDate,
+          actualValue: purchaseOrders.actualValue,
+        },
+        booking: {
+          id: bookings.id,
+          referenceCode: bookings.referenceCode,
+          startDate: bookings.startDate,
+          endDate: bookings.endDate,
+          status: bookings.status,
+        },
+        customer: {
+          id: customers.id,
+          name: customers.name,
+          contactPerson: customers.contactPerson,
+          email: customers.email,
+          phone: customers.phone,
+          address: customers.address,
+          billingAddress: customers.billingAddress,
+          gstNumber: customers.gstNumber,
+          panNumber: customers.panNumber,
+        },
+        billboard: {
+          id: billboards.id,
+          name: billboards.name,
+          code: billboards.code,
+          type: billboards.type,
+          address: billboards.address,
+        },
+        campaign: {
+          id: campaigns.id,
+          name: campaigns.name,
+          referenceCode: campaigns.referenceCode,
+        },
+        tax: {
+          id: taxes.id,
+          name: taxes.name,
+          percentage: taxes.percentage,
+          hsnSacCode: taxes.hsnSacCode,
+        },
+      })
+      .from(invoices)
+      .innerJoin(purchaseOrders, eq(invoices.purchaseOrderId, purchaseOrders.id))
+      .innerJoin(bookings, eq(purchaseOrders.bookingId, bookings.id))
+      .leftJoin(customers, eq(bookings.customerId, customers.id))
+      .leftJoin(billboards, eq(bookings.billboardId, billboards.id))
+      .leftJoin(campaigns, eq(bookings.campaignId, campaigns.id))
+      .leftJoin(taxes, eq(invoices.taxId, taxes.id))
+      .where(and(eq(invoices.id, id), customerScope ? eq(bookings.customerId, customerScope) : undefined))
+      .limit(1);
+
+    if (!result) return null;
+
+    const payments = await this.getPayments(id);
+
+    return {
+      ...result.invoice,
+      balanceDue: this.calculateBalance(result.invoice.totalAmount, result.invoice.amountPaid),
+      purchaseOrder: result.purchaseOrder,
+      booking: result.booking,
+      customer: result.customer,
+      billboard: result.billboard,
+      campaign: result.campaign,
+      tax: result.tax,
+      payments,
+    };
+  }
+
+  async getActiveInvoiceByPurchaseOrderId(purchaseOrderId: string) {
+    const [result] = await db
+      .select()
+      .from(invoices)
+      .where(and(eq(invoices.purchaseOrderId, purchaseOrderId), ne(invoices.paymentStatus, 'void')))
+      .limit(1);
+
+    return result || null;
+  }
+
+  async createInvoice(data: CreateInvoiceDto) {
+    const purchaseOrder = await purchaseOrderService.getPurchaseOrderById(data.purchaseOrderId);
+    if (!purchaseOrder) {
+      throw new Error('Purchase order not found');
+    }
+
+    const existingInvoice = await this.getActiveInvoiceByPurchaseOrderId(data.purchaseOrderId);
+    if (existingInvoice) {
+      throw new Error(`Invoice ${existingInvoice.invoiceNumber} already exists for this purchase order`);
+    }
+
+    if (purchaseOrder.booking.status !== 'po_generated') {
+      throw new Error(`Cannot generate invoice for booking in "${purchaseOrder.booking.status}" status. Booking must be in po_generated status.`);
+    }
+
+    const tax = await this.resolveTax(data.taxId);
+    const totals = this.calculateTotals(purchaseOrder.actualValue, tax?.percentage);
+
+    const invoiceDate = data.invoiceDate || today();
+    const dueDate = data.dueDate || addDays(invoiceDate, await this.getDefaultDueDays());
+
+    if (dueDate < invoiceDate) {
+      throw new Error('Due date cannot be before the invoice date');
+    }
+
+    const invoiceNumber = await sequenceService.getNextSequence('invoice');
+
+    const [booking] = await db.select().from(bookings).where(eq(bookings.id, purchaseOrder.booking.id)).limit(1);
+    const reason = `Invoice ${invoiceNumber} created`;
+
+    // neon-http runs a batch as one transaction: the invoice and the booking moving to invoiced land together or not at all.
+    // A concurrent invoice for the same PO fails the active-invoice unique index and rolls everything back.
+    const [[invoice], [invoicedBooking]] = await db.batch([
+      db
+        .insert(invoices)
+        .values({
+          invoiceNumber,
+          purchaseOrderId: data.purchaseOrderId,
+          invoiceDate,
+          dueDate,
+          subtotal: totals.subtotal,
+          taxId: tax?.id ?? null,
+          taxAmount: totals.taxAmount,
+          totalAmount: totals.totalAmount,
+          paymentStatus: 'unpaid',
+          paymentNotes: data.paymentNotes,
+          createdBy: data.createdBy,
+          updatedBy: data.createdBy,
+        })
+        .returning(),
+      db
+        .update(bookings)
+        .set({ status: 'invoiced', updatedBy: data.createdBy, updatedAt: new Date() })
+        .where(eq(bookings.id, booking.id))
+        .returning(),
+      db.insert(bookingStatusHistory).values({
+        bookingId: booking.id,
+        fromStatus: booking.status,
+        toStatus: 'invoiced',
+        reason,
+        changedBy: data.createdBy,
+      }),
+    ]);
+
+    await auditLogService.logUpdate('bookings', 'booking', booking, invoicedBooking);
+
+    return this.getInvoiceById(invoice.id);
+  }
+
+  async updateInvoice(id: string, data: UpdateInvoiceDto) {
+    const existing = await this.getInvoiceById(id);
+    if (!existing) {
+      throw new Error('Invoice not found');
+    }
+
+    if (existing.paymentStatus === 'void') {
+      throw new Error('Cannot edit a voided invoice');
+    }
+
+    const updateData: Record<string, unknown> = {
+      updatedBy: data.updatedBy,
+      updatedAt: new Date(),
+    };
+
+    if (data.invoiceDate !== undefined) updateData.invoiceDate = data.invoiceDate;
+    if (data.dueDate !== undefined) updateData.dueDate = data.dueDate;
+    if (data.paymentNotes !== undefined) updateData.paymentNotes = data.paymentNotes;
+
+    const invoiceDate = data.invoiceDate ?? existing.invoiceDate;
+    const dueDate = data.dueDate ?? existing.dueDate;
+    if (dueDate < invoiceDate) {
+      throw new Error('Due date cannot be before the invoice date');
+    }
+
+    // Changing the tax recalculates the tax and total amounts
+    if (data.taxId !== undefined) {
+      if (parseFloat(existing.amountPaid) > 0) {
+        throw new Error('Cannot change tax on an invoice that has payments recorded');
+      }
+      const tax = data.taxId ? await this.resolveTax(data.taxId) : null;
+      const totals = this.calculateTotals(existing.subtotal, tax?.percentage);
+      updateData.taxId = tax?.id ?? null;
+      updateData.taxAmount = totals.taxAmount;
+      updateData.totalAmount = totals.totalAmount;
+    }
+
+    await db
+      .update(invoices)
+      .set(updateData)
+      .where(eq(invoices.id, id));
+
+    return this.getInvoiceById(id);
+  }
+
+  async voidInvoice(id: string, reason: string, updatedBy?: string) {
+    const invoice = await this.getInvoiceById(id);
+    if (!invoice) {
+      throw new Error('Invoice not found');
+    }
+
+    if (invoice.paymentStatus === 'void') {
+      throw new Error('Invoice is already voided');
+    }
+
+    if (invoice.payments.length > 0) {
+      throw new Error('Cannot void an invoice that has payments recorded. Delete the payments first.');
+    }
+
+    // Check the revert up front so a booking that has moved on blocks the void instead of half-applying it
+    const [booking] = await db.select().from(bookings).where(eq(bookings.id, invoice.booking.id)).limit(1);
+    bookingService.checkTransition(booking, 'po_generated');
+
+    const voidedAt = new Date();
+    const historyReason = `Invoice ${invoice.invoiceNumber} voided`;
+
+    // The booking only follows if this request is the one that voided the invoice
+    const voidedHere = exists(
+      db
+        .select({ id: invoices.id })
+        .from(invoices)
+        .where(and(eq(invoices.id, id), eq(invoices.paymentStatus, 'void'), eq(invoices.updatedAt, voidedAt)))
+    );
+    const bookingUnchanged = and(eq(bookings.id, booking.id), eq(bookings.status, booking.status));
+
+    // neon-http runs a batch as one transaction: the void, the booking moving back to po_generated and its history land together.
+    // Every statement is guarded, so a concurrent void or booking change turns the whole batch into a no-op.
+    const [[voidedInvoice], , [revertedBooking]] = await db.batch([
+      db
+        .update(invoices)
+        .set({
+          paymentStatus: 'void',
+          paymentNotes: invoice.paymentNotes ? `${invoice.paymentNotes}\n\nVoided: ${reason}` : `Voided: ${reason}`,
+          updatedBy,
+          updatedAt: voidedAt,
+        })
+        .where(and(
+          eq(invoices.id, id),
+          eq(invoices.paymentStatus, invoice.paymentStatus),
+          eq(invoices.amountPaid, '0'),
+          exists(db.select({ id: bookings.id }).from(bookings).where(bookingUnchanged))
+        ))
+        .returning(),
+      db
+        .insert(bookingStatusHistory)
+        .select(
+          db
+            .select({
+              id: sql`gen_random_uuid()`.as('id'),
+              bookingId: bookings.id,
+              fromStatus: bookings.status,
+              toStatus: sql`'po_generated'::varchar`.as('to_status'),
+              reason: sql`${historyReason}::text`.as('reason'),
+              changedAt: sql`now()`.as('changed_at'),
+              changedBy: sql`${updatedBy ?? null}::uuid`.as('changed_by'),
+            })
+            .from(bookings)
+            .where(and(bookingUnchanged, voidedHere))
+        ),
+      db
+        .update(bookings)
+        .set({ status: 'po_generated', updatedBy, updatedAt: voidedAt })
+        .where(and(bookingUnchanged, voidedHere))
+        .returning(),
+    ]);
+
+    if (!voidedInvoice) {
+      throw new Error('Cannot void invoice: it was modified by another request. Please retry.');
+    }
+
+    await auditLogService.logUpdate('bookings', 'booking', booking, revertedBooking);
+
+    return this.getInvoiceById(id);
+  }
+
+  // ==================== PAYMENTS ====================
+
+  async getPayments(invoiceId: string): Promise<InvoicePayment[]> {
+    return db
+      .select()
+      .from(invoicePayments)
+      .where(eq(invoicePayments.invoiceId, invoiceId))
+      .orderBy(asc(invoicePayments.paymentDate), asc(invoicePayments.createdAt));
+  }
+
+  /**
+   * Update that recalculates amountPaid and paymentStatus from the payments ledger.
+   * Status moves unpaid -> partially_paid -> paid; TDS counts towards settlement.
+   * Computed in SQL so it can run in the same batch as the ledger change.
+   */
+  private paymentStatusUpdate(invoiceId: string, updatedBy?: string) {
+    const settled = sql`(SELECT COALESCE(SUM(${invoicePayments.amount} + ${invoicePayments.tdsAmount}), 0) FROM ${invoicePayments} WHERE ${invoicePayments.invoiceId} = ${invoiceId})`;
+    const lastPaymentDate = sql`(SELECT MAX(${invoicePayments.paymentDate}) FROM ${invoicePayments} WHERE ${invoicePayments.invoiceId} = ${invoiceId})`;
+    const isPaid = sql`${settled} >= ${invoices.totalAmount} AND ${invoices.totalAmount} > 0`;
+
+    return db
+      .update(invoices)
+      .set({
+        amountPaid: sql`${settled}`,
+        paymentStatus: sql`CASE WHEN ${isPaid} THEN 'paid' WHEN ${settled} > 0 THEN 'partially_paid' ELSE 'unpaid' END`,
+        paymentDate: sql`CASE WHEN ${isPaid} THEN ${lastPaymentDate} END`,
+        updatedBy,
+        updatedAt: new Date(),
+      })
+      .where(eq(invoices.id, invoiceId));
+  }
+
+  async recordPayment(invoiceId: string, data: RecordPaymentDto) {
+    const invoice = await this.getInvoiceById(invoiceId);
+    if (!invoice) {
+      throw new Error('Invoice not found');
+    }
+
+    if (invoice.paymentStatus === 'void') {
+      throw new Error('Cannot record payment against a voided invoice');
+    }
+
+    if (invoice.paymentStatus === 'paid') {
+      throw new Error('Cannot record payment against an invoice that is already fully paid');
+    }
+
+    const amount = Math.round(data.amount * 100) / 100;
+    const tdsAmount = Math.round((data.tdsAmount ?? 0) * 100) / 100;
+
+    if (amount < 0 || tdsAmount < 0 || amount + tdsAmount <= 0) {
+      throw new Error('Payment amount must be greater than zero');
+    }
+
+    const balanceDue = parseFloat(invoice.balanceDue);
+    if (amount + tdsAmount > balanceDue) {
+      throw new Error(`Payment exceeds balance due of ${balanceDue.toFixed(2)}`);
+    }
+
+    const paymentDate = data.paymentDate || today();
+    if (paymentDate < invoice.invoiceDate) {
+      throw new Error('Payment date cannot be before the invoice date');
+    }
+
+    const receiptNumber = await sequenceService.getNextSequence('receipt');
+    const createdBy = data.createdBy ?? null;
+
+    // The payment is inserted from the locked invoice row, and only while it still fits the balance.
+    // A payment committed concurrently updates amountPaid first, so the re-checked row no longer qualifies.
+    const [[payment]] = await db.batch([
+      db
+        .insert(invoicePayments)
+        .select(
+          db
+            .select({
+              id: sql`gen_random_uuid()`.as('id'),
+              invoiceId: invoices.id,
+              receiptNumber: sql`${receiptNumber}::varchar`.as('receipt_number'),
+              paymentDate: sql`${paymentDate}::date`.as('payment_date'),
+              amount: sql`${amount.toFixed(2)}::numeric`.as('amount'),
+              tdsAmount: sql`${tdsAmount.toFixed(2)}::numeric`.as('tds_amount'),
+              paymentMode: sql`${data.paymentMode}::varchar`.as('payment_mode'),
+              referenceNumber: sql`${data.referenceNumber ?? null}::varchar`.as('reference_number'),
+              notes: sql`${data.notes ?? null}::text`.as('notes'),
+              createdAt: sql`now()`.as('created_at'),
+              updatedAt: sql`now()`.as('updated_at'),
+              createdBy: sql`${createdBy}::uuid`.as('created_by'),
+              updatedBy: sql`${createdBy}::uuid`.as('updated_by'),
+            })
+            .from(invoices)
+            .where(and(
+              eq(invoices.id, invoiceId),
+              ne(invoices.paymentStatus, 'void'),
+              sql`${invoices.amountPaid} + ${(amount + tdsAmount).toFixed(2)}::numeric <= ${invoices.totalAmount}`
+            ))
+            .for('update')
+        )
+        .returning(),
+      this.paymentStatusUpdate(invoiceId, data.createdBy),
+    ]);
+
+    if (!payment) {
+      throw new Error('Payment exceeds balance due: another payment was recorded against this invoice. Please retry.');
+    }
+
+    return payment;
+  }
+
+  async deletePayment(invoiceId: string, paymentId: string, updatedBy?: string) {
+    const invoice = await this.getInvoiceById(invoiceId);
+    if (!invoice) {
+      throw new Error('Invoice not found');
+    }
+
+    const payment = invoice.payments.find(p => p.id === paymentId);
+    if (!payment) {
+      throw new Error('Payment not found');
+    }
+
+    await db.batch([
+      db.delete(invoicePayments).where(eq(invoicePayments.id, paymentId)),
+      this.paymentStatusUpdate(invoiceId, updatedBy),
+    ]);
+
+    return this.getInvoiceById(invoiceId);
+  }
+
+  async getPurchaseOrdersEligibleForInvoice(customerId?: string) {
+    // POs whose booking is awaiting invoicing and which have no live invoice
+    const conditions = [
+      eq(bookings.status, 'po_generated'),
+      sql`NOT EXISTS (SELECT 1 FROM ${invoices} WHERE ${invoices.purchaseOrderId} = ${purchaseOrders.id} AND ${invoices.paymentStatus} <> 'void')`,
+    ];
+
+    const scopedCustomerId = getCustomerScope() ?? customerId;
+    if (scopedCustomerId) {
+      conditions.push(eq(bookings.customerId, scopedCustomerId));
+    }
+
+    return db
+      .select({
+        id: purchaseOrders.id,
+        poNumber: purchaseOrders.poNumber,
+        actualStartDate: purchaseOrders.actualStartDate,
+        actualEndDate: purchaseOrders.actualEndDate,
+        actualValue: purchaseOrders.actualValue,
+        booking: {
+          id: bookings.id,
+          referenceCode: bookings.referenceCode,
+        },
+        customer: {
+          id: customers.id,
+          name: customers.name,
+        },
+        billboard: {
+          id: billboards.id,
+          name: billboards.name,
+          code: billboards.code,
+        },
+      })
+      .from(purchaseOrders)
+      .innerJoin(bookings, eq(purchaseOrders.bookingId, bookings.id))
+      .leftJoin(customers, eq(bookings.customerId, customers.id))
+      .leftJoin(billboards, eq(bookings.billboardId, billboards.id))
+      .where(and(...conditions))
+      .orderBy(desc(purchaseOrders.createdAt));
+  }
+}
+
+export const invoiceService = new InvoiceService();
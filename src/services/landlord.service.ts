@@ -1,6 +1,8 @@
-import { eq, ilike, and, desc, asc, sql } from 'drizzle-orm';
+import { eq, ilike, and, desc, asc, sql, isNull } from 'drizzle-orm';
 import { db } from '../db/index.js';
-import { landlords, billboards } from '../db/schema/index.js';
+import { landlords, billboards, leaseAgreements } from '../db/schema/index.js';
+import { auditLogService } from './audit-log.service.js';
+import { ConflictError } from '../middleware/errorHandler.js';
 
 // Types
 export type PaymentFrequency = 'monthly' | 'quarterly' | 'yearly';
@@ -43,14 +45,18 @@ export interface PaginationOptions {
   sortOrder?: 'asc' | 'desc';
   search?: string;
   isActive?: boolean;
+  includeArchived?: boolean;
 }
 
 class LandlordService {
   async getAllLandlords(options: PaginationOptions) {
-    const { page, pageSize, sortBy = 'name', sortOrder = 'asc', search, isActive } = options;
+    const { page, pageSize, sortBy = 'name', sortOrder = 'asc', search, isActive, includeArchived } = options;
     const offset = (page - 1) * pageSize;
 
     const conditions = [];
+    if (!includeArchived) {
+      conditions.push(isNull(landlords.archivedAt));
+    }
     if (search) {
       conditions.push(ilike(landlords.name, `%${search}%`));
     }
@@ -129,10 +135,14 @@ class LandlordService {
         updatedBy: data.createdBy,
       })
       .returning();
+
+    await auditLogService.logCreate('landlords', 'landlord', landlord);
     return landlord;
   }
 
   async updateLandlord(id: string, data: UpdateLandlordDto) {
+    const before = await this.getLandlordById(id);
+
     const updateData: Record<string, unknown> = {
       updatedBy: data.updatedBy,
       updatedAt: new Date(),
@@ -156,21 +166,86 @@ class LandlordService {
       .set(updateData)
       .where(eq(landlords.id, id))
       .returning();
+
+    if (before && landlord) {
+      await auditLogService.logUpdate('landlords', 'landlord', before, landlord);
+    }
     return landlord;
   }
 
+  /**
+   * Delete a landlord with no sites. Billboards and leases keep the landlord, so those are reported as a
+   * conflict listing the blocking billboards; archive the landlord instead.
+   */
   async deleteLandlord(id: string) {
-    // Check if landlord has billboards
-    const [billboardCount] = await db
-      .select({ count: sql<number>`count(*)::int` })
-      .from(billboards)
-      .where(eq(billboards.landlordId, id));
-
-    if (billboardCount.count > 0) {
-      throw new Error('Cannot delete landlord with existing billboards');
+    const [blockingBillboards, [leaseCount]] = await Promise.all([
+      db
+        .select({
+          id: billboards.id,
+          code: billboards.code,
+          name: billboards.name,
+          archivedAt: billboards.archivedAt,
+        })
+        .from(billboards)
+        .where(eq(billboards.landlordId, id))
+        .orderBy(asc(billboards.code)),
+      db.select({ count: sql<number>`count(*)::int` }).from(leaseAgreements).where(eq(leaseAgreements.landlordId, id)),
+    ]);
+
+    const references = [
+      blockingBillboards.length > 0 && `${blockingBillboards.length} billboard(s)`,
+      leaseCount.count > 0 && `${leaseCount.count} lease(s)`,
+    ].filter(Boolean);
+
+    if (references.length > 0) {
+      throw new ConflictError(
+        `Cannot delete landlord: it has ${references.join(', ')}. Archive it instead.`,
+        blockingBillboards
+      );
+    }
+
+    const [deleted] = await db.delete(landlords).where(eq(landlords.id, id)).returning();
+    if (deleted) {
+      await auditLogService.logDelete('landlords', 'landlord', deleted);
+    }
+  }
+
+  async archiveLandlord(id: string, updatedBy?: string) {
+    const before = await this.getLandlordById(id);
+    if (!before) {
+      throw new Error('Landlord not found');
+    }
+    if (before.archivedAt) {
+      throw new Error('Cannot archive landlord: it is already archived');
+    }
+
+    const [landlord] = await db
+      .update(landlords)
+      .set({ archivedAt: new Date(), updatedBy, updatedAt: new Date() })
+      .where(eq(landlords.id, id))
+      .returning();
+
+    await auditLogService.logUpdate('landlords', 'landlord', before, landlord);
+    return landlord;
+  }
+
+  async restoreLandlord(id: string, updatedBy?: string) {
+    const before = await this.getLandlordById(id);
+    if (!before) {
+      throw new Error('Landlord not found');
+    }
+    if (!before.archivedAt) {
+      throw new Error('Cannot restore landlord: it is not archived');
     }
 
-    await db.delete(landlords).where(eq(landlords.id, id));
+    const [landlord] = await db
+      .update(landlords)
+      .set({ archivedAt: null, updatedBy, updatedAt: new Date() })
+      .where(eq(landlords.id, id))
+      .returning();
+
+    await auditLogService.logUpdate('landlords', 'landlord', before, landlord);
+    return landlord;
   }
 
   async getLandlordsForDropdown() {
@@ -180,7 +255,7 @@ class LandlordService {
         name: landlords.name,
       })
       .from(landlords)
-      .where(eq(landlords.isActive, true))
+      .where(and(eq(landlords.isActive, true), isNull(landlords.archivedAt)))
       .orderBy(asc(landlords.name));
   }
 }
@@ -0,0 +1,621 @@
+import { randomUUID } from 'node:crypto';
+import { eq, and, asc, desc, sql, ne, lte, gte, gt, inArray } from 'drizzle-orm';
+import { db } from '../db/index.js';
+import { leaseAgreements, rentPayables, billboards, landlords, bookings, customers } from '../db/schema/index.js';
+import { sequenceService } from './sequence.service.js';
+import { auditLogService } from './audit-log.service.js';
+import type { PaymentFrequency } from './landlord.service.js';
+import { addDays, addMonths, eachDate, today } from '../utils/dates.js';
+
+export const LEASE_STATUSES = ['active', 'terminated'] as const;
+
+export const PERIOD_MONTHS: Record<PaymentFrequency, number> = {
+  monthly: 1,
+  quarterly: 3,
+  yearly: 12,
+};
+
+export interface CreateLeaseDto {
+  billboardId: string;
+  landlordId: string;
+  startDate: string;
+  endDate: string;
+  // Default to the landlord's rent and payment frequency
+  rentAmount?: number;
+  paymentFrequency?: PaymentFrequency;
+  escalationPercentage?: number;
+  securityDeposit?: number;
+  terms?: string;
+  createdBy?: string;
+}
+
+export interface UpdateLeaseDto {
+  endDate?: string;
+  rentAmount?: number;
+  paymentFrequency?: PaymentFrequency;
+  escalationPercentage?: number;
+  securityDeposit?: number;
+  terms?: string;
+  updatedBy?: string;
+}
+
+export interface MarkPayablePaidDto {
+  paidDate: string;
+  paidAmount?: number;
+  paymentReference?: string;
+  notes?: string;
+  updatedBy?: string;
+}
+
+export interface LeasePaginationOptions {
+  page: number;
+  pageSize: number;
+  billboardId?: string;
+  landlordId?: string;
+  status?: string;
+}
+
+export interface UpcomingPayablesOptions {
+  // Pending installments due within this many days, plus any overdue
+  days: number;
+  landlordId?: string;
+  billboardId?: string;
+}
+
+// Alert windows (days before a lease ends) for expiry and renewal follow-up
+export const EXPIRY_ALERT_WINDOWS = [30, 60, 90] as const;
+export type ExpiryAlertWindow = (typeof EXPIRY_ALERT_WINDOWS)[number];
+
+export interface ExpiringLeasesOptions {
+  days: ExpiryAlertWindow;
+  landlordId?: string;
+  billboardId?: string;
+}
+
+type ScheduleTerms = Pick<typeof leaseAgreements.$inferSelect, 'startDate' | 'endDate' | 'rentAmount' | 'paymentFrequency' | 'escalationPercentage'>;
+
+interface ScheduledInstallment {
+  periodStart: string;
+  periodEnd: string;
+  dueDate: string;
+  amount: string;
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Rent installments over the lease, one per payment period from the start date and due on the first day
+ * of the period. Rent escalates on each anniversary; a final short period is pro-rated by days.
+ */
+export const buildRentSchedule = (lease: ScheduleTerms): ScheduledInstallment[] => {
+  const step = PERIOD_MONTHS[lease.paymentFrequency as PaymentFrequency] ?? 1;
+  const rent = parseFloat(lease.rentAmount);
+  const escalation = parseFloat(lease.escalationPercentage) / 100;
+
+  const installments: ScheduledInstallment[] = [];
+  for (let i = 0; ; i++) {
+    const periodStart = addMonths(lease.startDate, i * step);
+    if (periodStart > lease.endDate) break;
+
+    const fullPeriodEnd = addDays(addMonths(lease.startDate, (i + 1) * step), -1);
+    const periodEnd = fullPeriodEnd < lease.endDate ? fullPeriodEnd : lease.endDate;
+
+    let years = 0;
+    while (addMonths(lease.startDate, (years + 1) * 12) <= periodStart) years++;
+
+    const share = eachDate(periodStart, periodEnd).length / eachDate(periodStart, fullPeriodEnd).length;
+    installments.push({
+      periodStart,
+      periodEnd,
+      dueDate: periodStart,
+      amount: round2(rent * Math.pow(1 + escalation, years) * share).toFixed(2),
+    });
+  }
+  return installments;
+};
+
+class LeaseService {
+  /**
+   * Throws if another active lease covers any of the period on the billboard
+   */
+  private async assertNoOverlappingLease(billboardId: string, startDate: string, endDate: string, excludeId?: string) {
+    const [existing] = await db
+      .select({ leaseNumber: leaseAgreements.leaseNumber })
+      .from(leaseAgreements)
+      .where(
+        and(
+          eq(leaseAgreements.billboardId, billboardId),
+          eq(leaseAgreements.status, 'active'),
+          lte(leaseAgreements.startDate, endDate),
+          gte(leaseAgreements.endDate, startDate),
+          excludeId ? ne(leaseAgreements.id, excludeId) : undefined
+        )
+      )
+      .limit(1);
+
+    if (existing) {
+      throw new Error(`An active lease already exists for this billboard in the selected period (${existing.leaseNumber})`);
+    }
+  }
+
+  /**
+   * Replace the pending installments with a fresh schedule. Paid installments are kept, and scheduled
+   * periods overlapping one are skipped so rent is never owed twice.
+   */
+  private async regenerateSchedule(leaseId: string, terms: ScheduleTerms) {
+    const paid = await db
+      .select({ periodStart: rentPayables.periodStart, periodEnd: rentPayables.periodEnd })
+      .from(rentPayables)
+      .where(and(eq(rentPayables.leaseId, leaseId), eq(rentPayables.status, 'paid')));
+
+    const installments = buildRentSchedule(terms).filter(installment =>
+      !paid.some(p => p.periodStart <= installment.periodEnd && p.periodEnd >= installment.periodStart)
+    );
+
+    const remove = db.delete(rentPayables).where(and(eq(rentPayables.leaseId, leaseId), eq(rentPayables.status, 'pending')));
+    if (installments.length === 0) {
+      await remove;
+      return;
+    }
+
+    await db.batch([
+      remove,
+      db.insert(rentPayables).values(installments.map(installment => ({ leaseId, ...installment }))),
+    ]);
+  }
+
+  async getAllLeases(options: LeasePaginationOptions) {
+    const { page, pageSize, billboardId, landlordId, status } = options;
+    const offset = (page - 1) * pageSize;
+
+    const conditions = [];
+    if (billboardId) conditions.push(eq(leaseAgreements.billboardId, billboardId));
+    if (landlordId) conditions.push(eq(leaseAgreements.landlordId, landlordId));
+    if (status) conditions.push(eq(leaseAgreements.status, status));
+
+    const whereCondition = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [data, countResult] = await Promise.all([
+      db
+        .select({
+          lease: leaseAgreements,
+          billboard: {
+            id: billboards.id,
+            name: billboards.name,
+            code: billboards.code,
+          },
+          landlord: {
+            id: landlords.id,
+            name: landlords.name,
+          },
+          pendingAmount: sql<string>`(SELECT COALESCE(SUM(${rentPayables.amount}), 0)::text FROM ${rentPayables} WHERE ${rentPayables.leaseId} = ${leaseAgreements.id} AND ${rentPayables.status} = 'pending')`,
+          nextDueDate: sql<string | null>`(SELECT MIN(${rentPayables.dueDate}) FROM ${rentPayables} WHERE ${rentPayables.leaseId} = ${leaseAgreements.id} AND ${rentPayables.status} = 'pending')`,
+        })
+        .from(leaseAgreements)
+        .leftJoin(billboards, eq(leaseAgreements.billboardId, billboards.id))
+        .leftJoin(landlords, eq(leaseAgreements.landlordId, landlords.id))
+        .where(whereCondition)
+        .orderBy(desc(leaseAgreements.startDate))
+        .limit(pageSize)
+        .offset(offset),
+      db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(leaseAgreements)
+        .where(whereCondition),
+    ]);
+
+    return {
+      data: data.map(row => ({
+        ...row.lease,
+        billboard: row.billboard,
+        landlord: row.landlord,
+        pendingAmount: row.pendingAmount,
+        nextDueDate: row.nextDueDate,
+      })),
+      pagination: {
+        page,
+        pageSize,
+        totalItems: countResult[0]?.count || 0,
+        totalPages: Math.ceil((countResult[0]?.count || 0) / pageSize),
+      },
+    };
+  }
+
+  async getLeaseById(id: string) {
+    const [result] = await db
+      .select({
+        lease: leaseAgreements,
+        billboard: {
+          id: billboards.id,
+          name: billboards.name,
+          code: billboards.code,
+          address: billboards.address,
+        },
+        landlord: {
+          id: landlords.id,
+          name: landlords.name,
+          contactPerson: landlords.contactPerson,
+          phone: landlords.phone,
+          bankName: landlords.bankName,
+          bankAccount: landlords.bankAccount,
+          ifscCode: landlords.ifscCode,
+        },
+      })
+      .from(leaseAgreements)
+      .leftJoin(billboards, eq(leaseAgreements.billboardId, billboards.id))
+      .leftJoin(landlords, eq(leaseAgreements.landlordId, landlords.id))
+      .where(eq(leaseAgreements.id, id))
+      .limit(1);
+
+    if (!result) return null;
+
+    const payables = await db
+      .select()
+      .from(rentPayables)
+      .where(eq(rentPayables.leaseId, id))
+      .orderBy(asc(rentPayables.dueDate));
+
+    const asOf = today();
+    const pending = payables.filter(p => p.status === 'pending');
+    return {
+      ...result.lease,
+      billboard: result.billboard,
+      landlord: result.landlord,
+      payables: payables.map(p => ({ ...p, isOverdue: p.status === 'pending' && p.dueDate < asOf })),
+      summary: {
+        totalRent: payables.reduce((sum, p) => sum + parseFloat(p.amount), 0).toFixed(2),
+        totalPaid: payables.reduce((sum, p) => sum + (p.status === 'paid' ? parseFloat(p.paidAmount ?? p.amount) : 0), 0).toFixed(2),
+        totalPending: pending.reduce((sum, p) => sum + parseFloat(p.amount), 0).toFixed(2),
+        overdueCount: pending.filter(p => p.dueDate < asOf).length,
+        nextDueDate: pending[0]?.dueDate ?? null,
+      },
+    };
+  }
+
+  async createLease(data: CreateLeaseDto) {
+    if (data.startDate > data.endDate) {
+      throw new Error('Cannot create lease: end date is before start date');
+    }
+
+    const [billboard] = await db.select({ id: billboards.id }).from(billboards).where(eq(billboards.id, data.billboardId)).limit(1);
+    if (!billboard) {
+      throw new Error('Billboard not found');
+    }
+
+    const [landlord] = await db.select().from(landlords).where(eq(landlords.id, data.landlordId)).limit(1);
+    if (!landlord) {
+      throw new Error('Landlord not found');
+    }
+
+    await this.assertNoOverlappingLease(data.billboardId, data.startDate, data.endDate);
+
+    const terms: ScheduleTerms = {
+      startDate: data.startDate,
+      endDate: data.endDate,
+      rentAmount: (data.rentAmount ?? parseFloat(landlord.rentAmount)).toString(),
+      paymentFrequency: data.paymentFrequency ?? landlord.paymentFrequency,
+      escalationPercentage: (data.escalationPercentage ?? 0).toString(),
+    };
+
+    const id = randomUUID();
+    const leaseNumber = await sequenceService.getNextSequence('lease');
+
+    // Lease and its rent schedule are written in one transaction
+    const [[lease]] = await db.batch([
+      db
+        .insert(leaseAgreements)
+        .values({
+          id,
+          leaseNumber,
+          billboardId: data.billboardId,
+          landlordId: data.landlordId,
+          ...terms,
+          securityDeposit: (data.securityDeposit ?? 0).toString(),
+          terms: data.terms,
+          createdBy: data.createdBy,
+          updatedBy: data.createdBy,
+        })
+        .returning(),
+      db.insert(rentPayables).values(buildRentSchedule(terms).map(installment => ({ leaseId: id, ...installment }))),
+    ]);
+
+    await auditLogService.logCreate('landlords', 'lease', lease);
+    return this.getLeaseById(id);
+  }
+
+  async updateLease(id: string, data: UpdateLeaseDto) {
+    const existing = await this.getLeaseById(id);
+    if (!existing) {
+      throw new Error('Lease not found');
+    }
+
+    if (existing.status !== 'active') {
+      throw new Error(`Cannot edit lease in "${existing.status}" status`);
+    }
+
+    if (data.endDate !== undefined) {
+      if (data.endDate < existing.startDate) {
+        throw new Error('Cannot update lease: end date is before start date');
+      }
+      if (data.endDate > existing.endDate) {
+        await this.assertNoOverlappingLease(existing.billboardId, existing.startDate, data.endDate, id);
+      }
+    }
+
+    const updateData: Record<string, unknown> = {
+      updatedBy: data.updatedBy,
+      updatedAt: new Date(),
+    };
+
+    if (data.endDate !== undefined) updateData.endDate = data.endDate;
+    if (data.rentAmount !== undefined) updateData.rentAmount = data.rentAmount.toString();
+    if (data.paymentFrequency !== undefined) updateData.paymentFrequency = data.paymentFrequency;
+    if (data.escalationPercentage !== undefined) updateData.escalationPercentage = data.escalationPercentage.toString();
+    if (data.securityDeposit !== undefined) updateData.securityDeposit = data.securityDeposit.toString();
+    if (data.terms !== undefined) updateData.terms = data.terms;
+
+    const [lease] = await db
+      .update(leaseAgreements)
+      .set(updateData)
+      .where(eq(leaseAgreements.id, id))
+      .returning();
+
+    const scheduleChanged = data.endDate !== undefined || data.rentAmount !== undefined ||
+      data.paymentFrequency !== undefined || data.escalationPercentage !== undefined;
+    if (scheduleChanged) {
+      await this.regenerateSchedule(id, lease);
+    }
+
+    await auditLogService.logUpdate('landlords', 'lease', existing, lease);
+    return this.getLeaseById(id);
+  }
+
+  /**
+   * End the lease early. Rent after the termination date is dropped and the last period is pro-rated.
+   */
+  async terminateLease(id: string, terminationDate: string, reason?: string, updatedBy?: string) {
+    const existing = await this.getLeaseById(id);
+    if (!existing) {
+      throw new Error('Lease not found');
+    }
+
+    if (existing.status !== 'active') {
+      throw new Error(`Cannot terminate lease in "${existing.status}" status`);
+    }
+    if (terminationDate < existing.startDate || terminationDate > existing.endDate) {
+      throw new Error('Cannot terminate lease: termination date must fall within the lease period');
+    }
+
+    const [lease] = await db
+      .update(leaseAgreements)
+      .set({
+        status: 'terminated',
+        endDate: terminationDate,
+        terms: reason ? [existing.terms, `Terminated on ${terminationDate}: ${reason}`].filter(Boolean).join('\n\n') : existing.terms,
+        updatedBy,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(leaseAgreements.id, id), eq(leaseAgreements.status, 'active')))
+      .returning();
+
+    if (!lease) {
+      throw new Error('Cannot terminate lease: it was modified by another request. Please retry.');
+    }
+
+    await this.regenerateSchedule(id, lease);
+    await auditLogService.logUpdate('landlords', 'lease', existing, lease);
+    return this.getLeaseById(id);
+  }
+
+  async deleteLease(id: string) {
+    const existing = await this.getLeaseById(id);
+    if (!existing) {
+      throw new Error('Lease not found');
+    }
+
+    if (existing.payables.some(p => p.status === 'paid')) {
+      throw new Error('Cannot delete lease with paid rent. Terminate it instead.');
+    }
+
+    const [deleted] = await db.delete(leaseAgreements).where(eq(leaseAgreements.id, id)).returning();
+    if (deleted) {
+      await auditLogService.logDelete('landlords', 'lease', deleted);
+    }
+  }
+
+  async getUpcomingPayables(options: UpcomingPayablesOptions) {
+    const asOf = today();
+    const until = addDays(asOf, options.days);
+
+    const data = await db
+      .select({
+        payable: rentPayables,
+        lease: {
+          id: leaseAgreements.id,
+          leaseNumber: leaseAgreements.leaseNumber,
+          paymentFrequency: leaseAgreements.paymentFrequency,
+        },
+        billboard: {
+          id: billboards.id,
+          name: billboards.name,
+          code: billboards.code,
+        },
+        landlord: {
+          id: landlords.id,
+          name: landlords.name,
+          bankName: landlords.bankName,
+          bankAccount: landlords.bankAccount,
+          ifscCode: landlords.ifscCode,
+        },
+      })
+      .from(rentPayables)
+      .innerJoin(leaseAgreements, eq(rentPayables.leaseId, leaseAgreements.id))
+      .leftJoin(billboards, eq(leaseAgreements.billboardId, billboards.id))
+      .leftJoin(landlords, eq(leaseAgreements.landlordId, landlords.id))
+      .where(
+        and(
+          eq(rentPayables.status, 'pending'),
+          lte(rentPayables.dueDate, until),
+          options.landlordId ? eq(leaseAgreements.landlordId, options.landlordId) : undefined,
+          options.billboardId ? eq(leaseAgreements.billboardId, options.billboardId) : undefined
+        )
+      )
+      .orderBy(asc(rentPayables.dueDate), asc(landlords.name));
+
+    const payables = data.map(row => ({
+      ...row.payable,
+      isOverdue: row.payable.dueDate < asOf,
+      lease: row.lease,
+      billboard: row.billboard,
+      landlord: row.landlord,
+    }));
+
+    return {
+      asOfDate: asOf,
+      untilDate: until,
+      totalDue: payables.reduce((sum, p) => sum + parseFloat(p.amount), 0).toFixed(2),
+      totalOverdue: payables.filter(p => p.isOverdue).reduce((sum, p) => sum + parseFloat(p.amount), 0).toFixed(2),
+      payables,
+    };
+  }
+
+  /**
+   * Active leases ending within the next N days that haven't been renewed (no later lease on the billboard
+   * picks up the day after), with the bookings that run past the lease end and so need re-siting or a renewal.
+   */
+  async getExpiringLeases(options: ExpiringLeasesOptions) {
+    const asOf = today();
+    const until = addDays(asOf, options.days);
+
+    const expiring = await db
+      .select({
+        lease: leaseAgreements,
+        billboard: {
+          id: billboards.id,
+          name: billboards.name,
+          code: billboards.code,
+        },
+        landlord: {
+          id: landlords.id,
+          name: landlords.name,
+          contactPerson: landlords.contactPerson,
+          phone: landlords.phone,
+          email: landlords.email,
+        },
+      })
+      .from(leaseAgreements)
+      .leftJoin(billboards, eq(leaseAgreements.billboardId, billboards.id))
+      .leftJoin(landlords, eq(leaseAgreements.landlordId, landlords.id))
+      .where(
+        and(
+          eq(leaseAgreements.status, 'active'),
+          gte(leaseAgreements.endDate, asOf),
+          lte(leaseAgreements.endDate, until),
+          options.landlordId ? eq(leaseAgreements.landlordId, options.landlordId) : undefined,
+          options.billboardId ? eq(leaseAgreements.billboardId, options.billboardId) : undefined
+        )
+      )
+      .orderBy(asc(leaseAgreements.endDate));
+
+    const billboardIds = [...new Set(expiring.map(row => row.lease.billboardId))];
+    const [laterLeases, laterBookings] = billboardIds.length === 0 ? [[], []] : await Promise.all([
+      db
+        .select({
+          id: leaseAgreements.id,
+          billboardId: leaseAgreements.billboardId,
+          startDate: leaseAgreements.startDate,
+          endDate: leaseAgreements.endDate,
+        })
+        .from(leaseAgreements)
+        .where(and(inArray(leaseAgreements.billboardId, billboardIds), gt(leaseAgreements.endDate, asOf))),
+      db
+        .select({
+          id: bookings.id,
+          referenceCode: bookings.referenceCode,
+          billboardId: bookings.billboardId,
+          startDate: bookings.startDate,
+          endDate: sql<string>`COALESCE(${bookings.actualEndDate}, ${bookings.endDate})`,
+          status: bookings.status,
+          customerId: customers.id,
+          customerName: customers.name,
+        })
+        .from(bookings)
+        .leftJoin(customers, eq(bookings.customerId, customers.id))
+        .where(
+          and(
+            inArray(bookings.billboardId, billboardIds),
+            ne(bookings.status, 'cancelled'),
+            sql`COALESCE(${bookings.actualEndDate}, ${bookings.endDate}) > ${asOf}`
+          )
+        )
+        .orderBy(asc(bookings.startDate)),
+    ]);
+
+    const leases = expiring
+      .filter(({ lease }) => !laterLeases.some(other =>
+        other.id !== lease.id &&
+        other.billboardId === lease.billboardId &&
+        other.startDate <= addDays(lease.endDate, 1) &&
+        other.endDate > lease.endDate
+      ))
+      .map(row => {
+        const daysRemaining = eachDate(asOf, row.lease.endDate).length - 1;
+        return {
+          ...row.lease,
+          daysRemaining,
+          alertWindow: EXPIRY_ALERT_WINDOWS.find(window => daysRemaining <= window) ?? options.days,
+          billboard: row.billboard,
+          landlord: row.landlord,
+          affectedBookings: laterBookings.filter(booking =>
+            booking.billboardId === row.lease.billboardId && booking.endDate > row.lease.endDate
+          ),
+        };
+      });
+
+    return {
+      asOfDate: asOf,
+      untilDate: until,
+      summary: {
+        days0To30: leases.filter(lease => lease.alertWindow === 30).length,
+        days31To60: leases.filter(lease => lease.alertWindow === 60).length,
+        days61To90: leases.filter(lease => lease.alertWindow === 90).length,
+        affectedBookings: leases.reduce((sum, lease) => sum + lease.affectedBookings.length, 0),
+      },
+      leases,
+    };
+  }
+
+  async markPayableAsPaid(payableId: string, data: MarkPayablePaidDto) {
+    const [existing] = await db.select().from(rentPayables).where(eq(rentPayables.id, payableId)).limit(1);
+    if (!existing) {
+      throw new Error('Rent payable not found');
+    }
+
+    if (existing.status === 'paid') {
+      throw new Error('Cannot mark rent payable as paid: it is already paid');
+    }
+
+    const [payable] = await db
+      .update(rentPayables)
+      .set({
+        status: 'paid',
+        paidDate: data.paidDate,
+        paidAmount: (data.paidAmount ?? parseFloat(existing.amount)).toString(),
+        paymentReference: data.paymentReference,
+        notes: data.notes,
+        updatedBy: data.updatedBy,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(rentPayables.id, payableId), eq(rentPayables.status, 'pending')))
+      .returning();
+
+    if (!payable) {
+      throw new Error('Cannot mark rent payable as paid: it was modified by another request. Please retry.');
+    }
+
+    await auditLogService.logUpdate('landlords', 'rent_payable', existing, payable);
+    return payable;
+  }
+}
+
+export const leaseService = new LeaseService();
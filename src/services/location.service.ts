@@ -1,6 +1,8 @@
-import { eq, ilike, and, desc, asc, sql } from 'drizzle-orm';
+import { eq, ilike, and, desc, asc, sql, isNull } from 'drizzle-orm';
 import { db } from '../db/index.js';
-import { regions, cities, zones } from '../db/schema/index.js';
+import { regions, cities, zones, billboards } from '../db/schema/index.js';
+import { auditLogService } from './audit-log.service.js';
+import { ConflictError } from '../middleware/errorHandler.js';
 
 // Types
 export interface CreateRegionDto {
@@ -49,18 +51,20 @@ export interface PaginationOptions {
   sortBy?: string;
   sortOrder?: 'asc' | 'desc';
   search?: string;
+  includeArchived?: boolean;
 }
 
 class LocationService {
   // ==================== REGIONS ====================
 
   async getAllRegions(options: PaginationOptions) {
-    const { page, pageSize, sortBy = 'name', sortOrder = 'asc', search } = options;
+    const { page, pageSize, sortBy = 'name', sortOrder = 'asc', search, includeArchived } = options;
     const offset = (page - 1) * pageSize;
 
-    const whereCondition = search
-      ? ilike(regions.name, `%${search}%`)
-      : undefined;
+    const whereCondition = and(
+      includeArchived ? undefined : isNull(regions.archivedAt),
+      search ? ilike(regions.name, `%${search}%`) : undefined
+    );
 
     const orderByColumn = sortBy === 'code' ? regions.code : regions.name;
     const orderBy = sortOrder === 'desc' ? desc(orderByColumn) : asc(orderByColumn);
@@ -118,10 +122,14 @@ class LocationService {
         updatedBy: data.createdBy,
       })
       .returning();
+
+    await auditLogService.logCreate('locations', 'region', region);
     return region;
   }
 
   async updateRegion(id: string, data: UpdateRegionDto) {
+    const before = await this.getRegionById(id);
+
     const [region] = await db
       .update(regions)
       .set({
@@ -132,30 +140,81 @@ class LocationService {
       })
       .where(eq(regions.id, id))
       .returning();
+
+    if (before && region) {
+      await auditLogService.logUpdate('locations', 'region', before, region);
+    }
     return region;
   }
 
   async deleteRegion(id: string) {
-    // Check if region has cities
-    const [cityCount] = await db
-      .select({ count: sql<number>`count(*)::int` })
+    const blockingCities = await db
+      .select({ id: cities.id, name: cities.name, code: cities.code })
       .from(cities)
-      .where(eq(cities.regionId, id));
+      .where(eq(cities.regionId, id))
+      .orderBy(asc(cities.name));
+
+    if (blockingCities.length > 0) {
+      throw new ConflictError(
+        `Cannot delete region: it has ${blockingCities.length} city(ies). Archive it instead.`,
+        blockingCities
+      );
+    }
+
+    const [deleted] = await db.delete(regions).where(eq(regions.id, id)).returning();
+    if (deleted) {
+      await auditLogService.logDelete('locations', 'region', deleted);
+    }
+  }
+
+  async archiveRegion(id: string, updatedBy?: string) {
+    const before = await this.getRegionById(id);
+    if (!before) {
+      throw new Error('Region not found');
+    }
+    if (before.archivedAt) {
+      throw new Error('Cannot archive region: it is already archived');
+    }
+
+    const [region] = await db
+      .update(regions)
+      .set({ archivedAt: new Date(), updatedBy, updatedAt: new Date() })
+      .where(eq(regions.id, id))
+      .returning();
+
+    await auditLogService.logUpdate('locations', 'region', before, region);
+    return region;
+  }
 
-    if (cityCount.count > 0) {
-      throw new Error('Cannot delete region with existing cities');
+  async restoreRegion(id: string, updatedBy?: string) {
+    const before = await this.getRegionById(id);
+    if (!before) {
+      throw new Error('Region not found');
     }
+    if (!before.archivedAt) {
+      throw new Error('Cannot restore region: it is not archived');
+    }
+
+    const [region] = await db
+      .update(regions)
+      .set({ archivedAt: null, updatedBy, updatedAt: new Date() })
+      .where(eq(regions.id, id))
+      .returning();
 
-    await db.delete(regions).where(eq(regions.id, id));
+    await auditLogService.logUpdate('locations', 'region', before, region);
+    return region;
   }
 
   // ==================== CITIES ====================
 
   async getAllCities(options: PaginationOptions & { regionId?: string }) {
-    const { page, pageSize, sortBy = 'name', sortOrder = 'asc', search, regionId } = options;
+    const { page, pageSize, sortBy = 'name', sortOrder = 'asc', search, regionId, includeArchived } = options;
     const offset = (page - 1) * pageSize;
 
     const conditions = [];
+    if (!includeArchived) {
+      conditions.push(isNull(cities.archivedAt));
+    }
     if (search) {
       conditions.push(ilike(cities.name, `%${search}%`));
     }
@@ -174,6 +233,7 @@ class LocationService {
           regionId: cities.regionId,
           name: cities.name,
           code: cities.code,
+          archivedAt: cities.archivedAt,
           createdAt: cities.createdAt,
           updatedAt: cities.updatedAt,
           region: {
@@ -212,6 +272,7 @@ class LocationService {
         regionId: cities.regionId,
         name: cities.name,
         code: cities.code,
+        archivedAt: cities.archivedAt,
         createdAt: cities.createdAt,
         updatedAt: cities.updatedAt,
         region: {
@@ -247,10 +308,14 @@ class LocationService {
         updatedBy: data.createdBy,
       })
       .returning();
+
+    await auditLogService.logCreate('locations', 'city', city);
     return this.getCityById(city.id);
   }
 
   async updateCity(id: string, data: UpdateCityDto) {
+    const [before] = await db.select().from(cities).where(eq(cities.id, id)).limit(1);
+
     const [city] = await db
       .update(cities)
       .set({
@@ -262,30 +327,81 @@ class LocationService {
       })
       .where(eq(cities.id, id))
       .returning();
+
+    if (before && city) {
+      await auditLogService.logUpdate('locations', 'city', before, city);
+    }
     return this.getCityById(city.id);
   }
 
   async deleteCity(id: string) {
-    // Check if city has zones
-    const [zoneCount] = await db
-      .select({ count: sql<number>`count(*)::int` })
+    const blockingZones = await db
+      .select({ id: zones.id, name: zones.name, code: zones.code })
       .from(zones)
-      .where(eq(zones.cityId, id));
+      .where(eq(zones.cityId, id))
+      .orderBy(asc(zones.name));
 
-    if (zoneCount.count > 0) {
-      throw new Error('Cannot delete city with existing zones');
+    if (blockingZones.length > 0) {
+      throw new ConflictError(
+        `Cannot delete city: it has ${blockingZones.length} zone(s). Archive it instead.`,
+        blockingZones
+      );
     }
 
-    await db.delete(cities).where(eq(cities.id, id));
+    const [deleted] = await db.delete(cities).where(eq(cities.id, id)).returning();
+    if (deleted) {
+      await auditLogService.logDelete('locations', 'city', deleted);
+    }
+  }
+
+  async archiveCity(id: string, updatedBy?: string) {
+    const [before] = await db.select().from(cities).where(eq(cities.id, id)).limit(1);
+    if (!before) {
+      throw new Error('City not found');
+    }
+    if (before.archivedAt) {
+      throw new Error('Cannot archive city: it is already archived');
+    }
+
+    const [city] = await db
+      .update(cities)
+      .set({ archivedAt: new Date(), updatedBy, updatedAt: new Date() })
+      .where(eq(cities.id, id))
+      .returning();
+
+    await auditLogService.logUpdate('locations', 'city', before, city);
+    return this.getCityById(id);
+  }
+
+  async restoreCity(id: string, updatedBy?: string) {
+    const [before] = await db.select().from(cities).where(eq(cities.id, id)).limit(1);
+    if (!before) {
+      throw new Error('City not found');
+    }
+    if (!before.archivedAt) {
+      throw new Error('Cannot restore city: it is not archived');
+    }
+
+    const [city] = await db
+      .update(cities)
+      .set({ archivedAt: null, updatedBy, updatedAt: new Date() })
+      .where(eq(cities.id, id))
+      .returning();
+
+    await auditLogService.logUpdate('locations', 'city', before, city);
+    return this.getCityById(id);
   }
 
   // ==================== ZONES ====================
 
   async getAllZones(options: PaginationOptions & { cityId?: string; regionId?: string }) {
-    const { page, pageSize, sortBy = 'name', sortOrder = 'asc', search, cityId, regionId } = options;
+    const { page, pageSize, sortBy = 'name', sortOrder = 'asc', search, cityId, regionId, includeArchived } = options;
     const offset = (page - 1) * pageSize;
 
     const conditions = [];
+    if (!includeArchived) {
+      conditions.push(isNull(zones.archivedAt));
+    }
     if (search) {
       conditions.push(ilike(zones.name, `%${search}%`));
     }
@@ -307,6 +423,7 @@ class LocationService {
           cityId: zones.cityId,
           name: zones.name,
           code: zones.code,
+          archivedAt: zones.archivedAt,
           createdAt: zones.createdAt,
           updatedAt: zones.updatedAt,
           cityName: cities.name,
@@ -335,6 +452,7 @@ class LocationService {
       cityId: item.cityId,
       name: item.name,
       code: item.code,
+      archivedAt: item.archivedAt,
       createdAt: item.createdAt,
       updatedAt: item.updatedAt,
       city: {
@@ -367,6 +485,7 @@ class LocationService {
         cityId: zones.cityId,
         name: zones.name,
         code: zones.code,
+        archivedAt: zones.archivedAt,
         createdAt: zones.createdAt,
         updatedAt: zones.updatedAt,
         cityName: cities.name,
@@ -388,6 +507,7 @@ class LocationService {
       cityId: data.cityId,
       name: data.name,
       code: data.code,
+      archivedAt: data.archivedAt,
       createdAt: data.createdAt,
       updatedAt: data.updatedAt,
       city: {
@@ -423,10 +543,14 @@ class LocationService {
         updatedBy: data.createdBy,
       })
       .returning();
+
+    await auditLogService.logCreate('locations', 'zone', zone);
     return this.getZoneById(zone.id);
   }
 
   async updateZone(id: string, data: UpdateZoneDto) {
+    const [before] = await db.select().from(zones).where(eq(zones.id, id)).limit(1);
+
     const [zone] = await db
       .update(zones)
       .set({
@@ -438,13 +562,69 @@ class LocationService {
       })
       .where(eq(zones.id, id))
       .returning();
+
+    if (before && zone) {
+      await auditLogService.logUpdate('locations', 'zone', before, zone);
+    }
     return this.getZoneById(zone.id);
   }
 
   async deleteZone(id: string) {
-    // Check if zone has billboards
-    // This will be checked when billboards are implemented
-    await db.delete(zones).where(eq(zones.id, id));
+    const blockingBillboards = await db
+      .select({ id: billboards.id, name: billboards.name, code: billboards.code })
+      .from(billboards)
+      .where(eq(billboards.zoneId, id))
+      .orderBy(asc(billboards.code));
+
+    if (blockingBillboards.length > 0) {
+      throw new ConflictError(
+        `Cannot delete zone: it has ${blockingBillboards.length} billboard(s). Archive it instead.`,
+        blockingBillboards
+      );
+    }
+
+    const [deleted] = await db.delete(zones).where(eq(zones.id, id)).returning();
+    if (deleted) {
+      await auditLogService.logDelete('locations', 'zone', deleted);
+    }
+  }
+
+  async archiveZone(id: string, updatedBy?: string) {
+    const [before] = await db.select().from(zones).where(eq(zones.id, id)).limit(1);
+    if (!before) {
+      throw new Error('Zone not found');
+    }
+    if (before.archivedAt) {
+      throw new Error('Cannot archive zone: it is already archived');
+    }
+
+    const [zone] = await db
+      .update(zones)
+      .set({ archivedAt: new Date(), updatedBy, updatedAt: new Date() })
+      .where(eq(zones.id, id))
+      .returning();
+
+    await auditLogService.logUpdate('locations', 'zone', before, zone);
+    return this.getZoneById(id);
+  }
+
+  async restoreZone(id: string, updatedBy?: string) {
+    const [before] = await db.select().from(zones).where(eq(zones.id, id)).limit(1);
+    if (!before) {
+      throw new Error('Zone not found');
+    }
+    if (!before.archivedAt) {
+      throw new Error('Cannot restore zone: it is not archived');
+    }
+
+    const [zone] = await db
+      .update(zones)
+      .set({ archivedAt: null, updatedBy, updatedAt: new Date() })
+      .where(eq(zones.id, id))
+      .returning();
+
+    await auditLogService.logUpdate('locations', 'zone', before, zone);
+    return this.getZoneById(id);
   }
 
   // ==================== DROPDOWN OPTIONS ====================
@@ -457,11 +637,12 @@ class LocationService {
         code: regions.code,
       })
       .from(regions)
+      .where(isNull(regions.archivedAt))
       .orderBy(asc(regions.name));
   }
 
   async getCitiesForDropdown(regionId?: string) {
-    const condition = regionId ? eq(cities.regionId, regionId) : undefined;
+    const condition = and(isNull(cities.archivedAt), regionId ? eq(cities.regionId, regionId) : undefined);
     return db
       .select({
         id: cities.id,
@@ -475,7 +656,7 @@ class LocationService {
   }
 
   async getZonesForDropdown(cityId?: string) {
-    const condition = cityId ? eq(zones.cityId, cityId) : undefined;
+    const condition = and(isNull(zones.archivedAt), cityId ? eq(zones.cityId, cityId) : undefined);
     return db
       .select({
         id: zones.id,
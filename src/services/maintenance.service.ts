@@ -0,0 +1,191 @@
+import { eq, and, desc, sql, lte, gte } from 'drizzle-orm';
+import { db } from '../db/index.js';
+import { maintenanceWindows, billboards } from '../db/schema/index.js';
+import { sequenceService } from './sequence.service.js';
+import { bookingService } from './booking.service.js';
+import { auditLogService } from './audit-log.service.js';
+
+export interface CreateMaintenanceWindowDto {
+  billboardId: string;
+  startDate: string;
+  endDate: string;
+  reason: string;
+  vendor?: string;
+  createdBy?: string;
+}
+
+export interface UpdateMaintenanceWindowDto {
+  startDate?: string;
+  endDate?: string;
+  reason?: string;
+  vendor?: string | null;
+  updatedBy?: string;
+}
+
+export interface MaintenancePaginationOptions {
+  page: number;
+  pageSize: number;
+  billboardId?: string;
+  // Windows overlapping this period
+  startDate?: string;
+  endDate?: string;
+}
+
+class MaintenanceService {
+  async getAllWindows(options: MaintenancePaginationOptions) {
+    const { page, pageSize, billboardId, startDate, endDate } = options;
+    const offset = (page - 1) * pageSize;
+
+    const conditions = [];
+    if (billboardId) {
+      conditions.push(eq(maintenanceWindows.billboardId, billboardId));
+    }
+    if (startDate) {
+      conditions.push(gte(maintenanceWindows.endDate, startDate));
+    }
+    if (endDate) {
+      conditions.push(lte(maintenanceWindows.startDate, endDate));
+    }
+
+    const whereCondition = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [data, countResult] = await Promise.all([
+      db
+        .select({
+          window: maintenanceWindows,
+          billboard: {
+            id: billboards.id,
+            name: billboards.name,
+            code: billboards.code,
+          },
+        })
+        .from(maintenanceWindows)
+        .leftJoin(billboards, eq(maintenanceWindows.billboardId, billboards.id))
+        .where(whereCondition)
+        .orderBy(desc(maintenanceWindows.startDate))
+        .limit(pageSize)
+        .offset(offset),
+      db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(maintenanceWindows)
+        .where(whereCondition),
+    ]);
+
+    return {
+      data: data.map(row => ({ ...row.window, billboard: row.billboard })),
+      pagination: {
+        page,
+        pageSize,
+        totalItems: countResult[0]?.count || 0,
+        totalPages: Math.ceil((countResult[0]?.count || 0) / pageSize),
+      },
+    };
+  }
+
+  async getWindowById(id: string) {
+    const [result] = await db
+      .select({
+        window: maintenanceWindows,
+        billboard: {
+          id: billboards.id,
+          name: billboards.name,
+          code: billboards.code,
+        },
+      })
+      .from(maintenanceWindows)
+      .leftJoin(billboards, eq(maintenanceWindows.billboardId, billboards.id))
+      .where(eq(maintenanceWindows.id, id))
+      .limit(1);
+
+    if (!result) return null;
+
+    return {
+      ...result.window,
+      billboard: result.billboard,
+      overlappingBookings: await bookingService.getOccupyingBookings(
+        result.window.billboardId, result.window.startDate, result.window.endDate
+      ),
+    };
+  }
+
+  /**
+   * Schedule maintenance. Existing bookings aren't blocked or moved; the ones that overlap the window are
+   * returned as overlappingBookings so they can be rescheduled or short-closed.
+   */
+  async createWindow(data: CreateMaintenanceWindowDto) {
+    if (data.startDate > data.endDate) {
+      throw new Error('Cannot schedule maintenance: end date is before start date');
+    }
+
+    const [billboard] = await db
+      .select({ id: billboards.id })
+      .from(billboards)
+      .where(eq(billboards.id, data.billboardId))
+      .limit(1);
+
+    if (!billboard) {
+      throw new Error('Billboard not found');
+    }
+
+    const referenceCode = await sequenceService.getNextSequence('maintenance');
+
+    const [window] = await db
+      .insert(maintenanceWindows)
+      .values({
+        referenceCode,
+        billboardId: data.billboardId,
+        startDate: data.startDate,
+        endDate: data.endDate,
+        reason: data.reason,
+        vendor: data.vendor || null,
+        createdBy: data.createdBy,
+        updatedBy: data.createdBy,
+      })
+      .returning();
+
+    await auditLogService.logCreate('billboards', 'maintenance_window', window);
+    return this.getWindowById(window.id);
+  }
+
+  async updateWindow(id: string, data: UpdateMaintenanceWindowDto) {
+    const [existing] = await db.select().from(maintenanceWindows).where(eq(maintenanceWindows.id, id)).limit(1);
+    if (!existing) {
+      throw new Error('Maintenance window not found');
+    }
+
+    const startDate = data.startDate || existing.startDate;
+    const endDate = data.endDate || existing.endDate;
+    if (startDate > endDate) {
+      throw new Error('Cannot update maintenance: end date is before start date');
+    }
+
+    const [window] = await db
+      .update(maintenanceWindows)
+      .set({
+        startDate,
+        endDate,
+        reason: data.reason ?? existing.reason,
+        vendor: data.vendor !== undefined ? data.vendor || null : existing.vendor,
+        updatedBy: data.updatedBy,
+        updatedAt: new Date(),
+      })
+      .where(eq(maintenanceWindows.id, id))
+      .returning();
+
+    await auditLogService.logUpdate('billboards', 'maintenance_window', existing, window);
+    return this.getWindowById(id);
+  }
+
+  async deleteWindow(id: string) {
+    const [existing] = await db.select().from(maintenanceWindows).where(eq(maintenanceWindows.id, id)).limit(1);
+    if (!existing) {
+      throw new Error('Maintenance window not found');
+    }
+
+    await db.delete(maintenanceWindows).where(eq(maintenanceWindows.id, id));
+    await auditLogService.logDelete('billboards', 'maintenance_window', existing);
+    return existing;
+  }
+}
+
+export const maintenanceService = new MaintenanceService();
@@ -0,0 +1,94 @@
+import { eq, and, desc, sql } from 'drizzle-orm';
+import { db } from '../db/index.js';
+import { notifications } from '../db/schema/index.js';
+
+export interface CreateNotificationDto {
+  userId: string;
+  type: string;
+  title: string;
+  message: string;
+  entityType?: string;
+  entityId?: string;
+}
+
+export interface NotificationListOptions {
+  page: number;
+  pageSize: number;
+  unreadOnly?: boolean;
+}
+
+class NotificationService {
+  async createNotification(data: CreateNotificationDto) {
+    const [notification] = await db
+      .insert(notifications)
+      .values(data)
+      .returning();
+
+    return notification;
+  }
+
+  async getNotificationsForUser(userId: string, options: NotificationListOptions) {
+    const { page, pageSize, unreadOnly } = options;
+    const offset = (page - 1) * pageSize;
+
+    const whereCondition = and(
+      eq(notifications.userId, userId),
+      unreadOnly ? eq(notifications.isRead, false) : undefined
+    );
+
+    const [data, countResult, unreadResult] = await Promise.all([
+      db
+        .select()
+        .from(notifications)
+        .where(whereCondition)
+        .orderBy(desc(notifications.createdAt))
+        .limit(pageSize)
+        .offset(offset),
+      db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(notifications)
+        .where(whereCondition),
+      db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(notifications)
+        .where(and(eq(notifications.userId, userId), eq(notifications.isRead, false))),
+    ]);
+
+    return {
+      data,
+      unreadCount: unreadResult[0]?.count || 0,
+      pagination: {
+        page,
+        pageSize,
+        totalItems: countResult[0]?.count || 0,
+        totalPages: Math.ceil((countResult[0]?.count || 0) / pageSize),
+      },
+    };
+  }
+
+  async markAsRead(id: string, userId: string) {
+    const [notification] = await db
+      .update(notifications)
+      .set({ isRead: true, readAt: new Date() })
+      .where(and(eq(notifications.id, id), eq(notifications.userId, userId)))
+      .returning();
+
+    if (!notification) {
+      throw new Error('Notification not found');
+    }
+
+    return notification;
+  }
+
+  async markAllAsRead(userId: string) {
+    const updated = await db
+      .update(notifications)
+      .set({ isRead: true, readAt: new Date() })
+      .where(and(eq(notifications.userId, userId), eq(notifications.isRead, false)))
+      .returning({ id: notifications.id });
+
+    return { updated: updated.length };
+  }
+}
+
+export const notificationService = new NotificationService();
@@ -1,7 +1,10 @@
 import PDFDocument from 'pdfkit';
 import type { PurchaseOrderWithDetails } from './purchase-order.service.js';
+import type { InvoiceWithDetails, InvoicePayment } from './invoice.service.js';
+import type { QuotationWithDetails } from './quotation.service.js';
+import { calculateGstBreakdown, getStateCodeFromGstin, getStateName, amountInWords } from '../utils/gst.js';
 
-interface CompanyInfo {
+export interface CompanyInfo {
   name: string;
   address: string;
   phone: string;
@@ -390,6 +393,789 @@ class PDFService {
       }
     });
   }
+
+  async generateInvoicePDF(invoice: InvoiceWithDetails, companyInfo: CompanyInfo | null): Promise<Buffer> {
+    // The seller GSTIN decides CGST+SGST vs IGST, so a tax invoice is never issued on placeholder details
+    if (!companyInfo?.gstNumber) {
+      throw new Error('Cannot generate tax invoice: seller GSTIN is not configured in company info settings');
+    }
+    const company = companyInfo;
+
+    return new Promise((resolve, reject) => {
+      try {
+        const doc = new PDFDocument({
+          size: 'A4',
+          margin: 50,
+          info: {
+            Title: `Tax Invoice - ${invoice.invoiceNumber}`,
+            Author: 'Billboard Management System',
+            Subject: 'Tax Invoice',
+          },
+        });
+
+        const chunks: Buffer[] = [];
+        doc.on('data', (chunk) => chunks.push(chunk));
+        doc.on('end', () => resolve(Buffer.concat(chunks)));
+        doc.on('error', reject);
+
+        const pageWidth = doc.page.width - 100; // 50px margin on each side
+
+        const gst = calculateGstBreakdown(
+          invoice.taxAmount,
+          invoice.tax?.percentage || '0',
+          company.gstNumber,
+          invoice.customer?.gstNumber
+        );
+        const supplierStateCode = getStateCodeFromGstin(company.gstNumber);
+
+        // Header - Company Info
+        doc
+          .fontSize(20)
+          .font('Helvetica-Bold')
+          .text(company.name, { align: 'center' });
+
+        doc
+          .fontSize(10)
+          .font('Helvetica')
+          .text(company.address, { align: 'center' })
+          .text(`Phone: ${company.phone} | Email: ${company.email}`, { align: 'center' });
+
+        if (company.gstNumber) {
+          doc.text(`GSTIN: ${company.gstNumber} | PAN: ${company.panNumber || '-'}`, { align: 'center' });
+        }
+        if (supplierStateCode) {
+          doc.text(`State: ${getStateName(supplierStateCode)} (Code: ${supplierStateCode})`, { align: 'center' });
+        }
+
+        doc.moveDown(2);
+
+        // Title
+        doc
+          .fontSize(16)
+          .font('Helvetica-Bold')
+          .fillColor('#1a56db')
+          .text('TAX INVOICE', { align: 'center' });
+
+        doc.moveDown(0.5);
+
+        // Invoice Number and Date Box
+        const boxTop = doc.y;
+        doc
+          .rect(50, boxTop, pageWidth, 70)
+          .stroke('#e5e7eb');
+
+        doc
+          .fontSize(12)
+          .font('Helvetica-Bold')
+          .fillColor('#000000')
+          .text(`Invoice No: ${invoice.invoiceNumber}`, 60, boxTop + 10);
+
+        doc
+          .fontSize(10)
+          .font('Helvetica')
+          .text(`Invoice Date: ${this.formatDate(invoice.invoiceDate)}`, 60, boxTop + 30)
+          .text(`Due Date: ${this.formatDate(invoice.dueDate)}`, 60, boxTop + 48);
+
+        doc
+          .text(`PO Number: ${invoice.purchaseOrder.poNumber}`, 300, boxTop + 10)
+          .text(`Booking Ref: ${invoice.booking.referenceCode}`, 300, boxTop + 30)
+          .text(
+            `Place of Supply: ${gst.placeOfSupply ? `${gst.placeOfSupply} (${gst.placeOfSupplyCode})` : '-'}`,
+            300,
+            boxTop + 48
+          );
+
+        doc.y = boxTop + 80;
+        doc.moveDown(1);
+
+        // Customer Information Section
+        doc
+          .fontSize(12)
+          .font('Helvetica-Bold')
+          .fillColor('#374151')
+          .text('BILL TO:', 50);
+
+        doc.moveDown(0.3);
+
+        doc
+          .fontSize(11)
+          .font('Helvetica-Bold')
+          .fillColor('#000000')
+          .text(invoice.customer?.name || '-');
+
+        doc
+          .fontSize(10)
+          .font('Helvetica');
+
+        const billingAddress = invoice.customer?.billingAddress || invoice.customer?.address;
+        if (billingAddress) {
+          doc.text(billingAddress);
+        }
+        if (invoice.customer?.contactPerson) {
+          doc.text(`Contact: ${invoice.customer.contactPerson}`);
+        }
+        if (invoice.customer?.gstNumber) {
+          doc.text(`GSTIN: ${invoice.customer.gstNumber}`);
+        } else {
+          doc.text('GSTIN: Unregistered');
+        }
+        if (invoice.customer?.panNumber) {
+          doc.text(`PAN: ${invoice.customer.panNumber}`);
+        }
+
+        doc.moveDown(1.5);
+
+        // Line Items Table
+        const colDescription = 50;
+        const colHsn = 330;
+        const colAmount = 420;
+        const amountWidth = 50 + pageWidth - colAmount;
+
+        const tableTop = doc.y;
+        doc
+          .rect(50, tableTop, pageWidth, 20)
+          .fillAndStroke('#f3f4f6', '#e5e7eb');
+
+        doc
+          .fontSize(10)
+          .font('Helvetica-Bold')
+          .fillColor('#374151')
+          .text('Description', colDescription + 5, tableTop + 6)
+          .text('HSN/SAC', colHsn, tableTop + 6)
+          .text('Taxable Value', colAmount, tableTop + 6, { width: amountWidth - 5, align: 'right' });
+
+        let currentY = tableTop + 28;
+        const days = this.calculateDays(invoice.purchaseOrder.actualStartDate, invoice.purchaseOrder.actualEndDate);
+
+        doc
+          .font('Helvetica-Bold')
+          .fillColor('#000000')
+          .text(
+            `Advertisement display - ${invoice.billboard?.name || '-'} (${invoice.billboard?.code || '-'})`,
+            colDescription + 5,
+            currentY,
+            { width: colHsn - colDescription - 15 }
+          );
+
+        currentY = doc.y + 2;
+
+        doc
+          .font('Helvetica')
+          .fillColor('#6b7280')
+          .text(
+            `${this.formatDate(invoice.purchaseOrder.actualStartDate)} to ${this.formatDate(invoice.purchaseOrder.actualEndDate)} (${days} days)`,
+            colDescription + 5,
+            currentY,
+            { width: colHsn - colDescription - 15 }
+          );
+
+        if (invoice.campaign) {
+          doc.text(`Campaign: ${invoice.campaign.name} (${invoice.campaign.referenceCode})`, { width: colHsn - colDescription - 15 });
+        }
+        if (invoice.billboard?.address) {
+          doc.text(invoice.billboard.address, { width: colHsn - colDescription - 15 });
+        }
+
+        doc
+          .fillColor('#000000')
+          .text(invoice.tax?.hsnSacCode || '-', colHsn, tableTop + 28)
+          .text(this.formatCurrency(invoice.subtotal), colAmount, tableTop + 28, { width: amountWidth - 5, align: 'right' });
+
+        currentY = doc.y + 10;
+
+        doc
+          .moveTo(50, currentY)
+          .lineTo(50 + pageWidth, currentY)
+          .stroke('#e5e7eb');
+
+        currentY += 10;
+
+        // Tax Summary
+        const labelX = 300;
+        const rowHeight = 18;
+
+        const drawSummaryRow = (label: string, value: string, y: number, bold = false) => {
+          doc
+            .fontSize(10)
+            .font(bold ? 'Helvetica-Bold' : 'Helvetica')
+            .fillColor(bold ? '#1a56db' : '#6b7280')
+            .text(label, labelX, y);
+
+          doc
+            .fillColor(bold ? '#1a56db' : '#000000')
+            .text(value, colAmount, y, { width: amountWidth - 5, align: 'right' });
+        };
+
+        drawSummaryRow('Taxable Value:', this.formatCurrency(invoice.subtotal), currentY);
+        currentY += rowHeight;
+
+        if (!invoice.tax) {
+          drawSummaryRow('Tax:', this.formatCurrency(0), currentY);
+          currentY += rowHeight;
+        } else if (gst.supplyType === 'inter_state') {
+          drawSummaryRow(`IGST @ ${gst.igstRate}%:`, this.formatCurrency(gst.igstAmount), currentY);
+          currentY += rowHeight;
+        } else {
+          drawSummaryRow(`CGST @ ${gst.cgstRate}%:`, this.formatCurrency(gst.cgstAmount), currentY);
+          currentY += rowHeight;
+          drawSummaryRow(`SGST @ ${gst.sgstRate}%:`, this.formatCurrency(gst.sgstAmount), currentY);
+          currentY += rowHeight;
+        }
+
+        doc
+          .moveTo(labelX, currentY)
+          .lineTo(50 + pageWidth, currentY)
+          .stroke('#e5e7eb');
+
+        currentY += 6;
+        drawSummaryRow('TOTAL:', this.formatCurrency(invoice.totalAmount), currentY, true);
+        currentY += rowHeight + 10;
+
+        // Amount in words
+        doc
+          .fontSize(10)
+          .font('Helvetica-Bold')
+          .fillColor('#374151')
+          .text('Amount in Words:', 50, currentY);
+
+        doc
+          .font('Helvetica')
+          .fillColor('#000000')
+          .text(amountInWords(invoice.totalAmount), 50, doc.y + 3, { width: pageWidth });
+
+        doc.moveDown(1);
+
+        if (invoice.paymentStatus === 'void') {
+          doc
+            .fontSize(14)
+            .font('Helvetica-Bold')
+            .fillColor('#dc2626')
+            .text('VOID', 50, doc.y, { align: 'center', width: pageWidth });
+          doc.moveDown(1);
+        }
+
+        // Notes
+        if (invoice.paymentNotes) {
+          doc
+            .fontSize(10)
+            .font('Helvetica-Bold')
+            .fillColor('#374151')
+            .text('Notes:', 50);
+
+          doc
+            .font('Helvetica')
+            .fillColor('#6b7280')
+            .text(invoice.paymentNotes, 50, doc.y + 5, { width: pageWidth });
+
+          doc.moveDown(1);
+        }
+
+        // Footer
+        const footerY = doc.page.height - 100;
+
+        doc
+          .moveTo(50, footerY)
+          .lineTo(50 + pageWidth, footerY)
+          .stroke('#e5e7eb');
+
+        doc
+          .fontSize(8)
+          .font('Helvetica')
+          .fillColor('#9ca3af')
+          .text('This is a computer-generated invoice and does not require a signature.', 50, footerY + 10, { align: 'center' })
+          .text(
+            `Generated on ${new Date().toLocaleString('en-IN', { timeZone: 'Asia/Kolkata' })}`,
+            50,
+            footerY + 22,
+            { align: 'center' }
+          )
+          .text('Billboard Management System', 50, footerY + 34, { align: 'center' });
+
+        doc.end();
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
+  async generatePaymentReceiptPDF(invoice: InvoiceWithDetails, payment: InvoicePayment, companyInfo?: CompanyInfo): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      try {
+        const doc = new PDFDocument({
+          size: 'A4',
+          margin: 50,
+          info: {
+            Title: `Payment Receipt - ${payment.receiptNumber}`,
+            Author: 'Billboard Management System',
+            Subject: 'Payment Receipt',
+          },
+        });
+
+        const chunks: Buffer[] = [];
+        doc.on('data', (chunk) => chunks.push(chunk));
+        doc.on('end', () => resolve(Buffer.concat(chunks)));
+        doc.on('error', reject);
+
+        const company = companyInfo || DEFAULT_COMPANY_INFO;
+        const pageWidth = doc.page.width - 100; // 50px margin on each side
+
+        // Header - Company Info
+        doc
+          .fontSize(20)
+          .font('Helvetica-Bold')
+          .text(company.name, { align: 'center' });
+
+        doc
+          .fontSize(10)
+          .font('Helvetica')
+          .text(company.address, { align: 'center' })
+          .text(`Phone: ${company.phone} | Email: ${company.email}`, { align: 'center' });
+
+        if (company.gstNumber) {
+          doc.text(`GSTIN: ${company.gstNumber} | PAN: ${company.panNumber || '-'}`, { align: 'center' });
+        }
+
+        doc.moveDown(2);
+
+        // Title
+        doc
+          .fontSize(16)
+          .font('Helvetica-Bold')
+          .fillColor('#1a56db')
+          .text('PAYMENT RECEIPT', { align: 'center' });
+
+        doc.moveDown(0.5);
+
+        // Receipt Number and Date Box
+        const boxTop = doc.y;
+        doc
+          .rect(50, boxTop, pageWidth, 50)
+          .stroke('#e5e7eb');
+
+        doc
+          .fontSize(12)
+          .font('Helvetica-Bold')
+          .fillColor('#000000')
+          .text(`Receipt No: ${payment.receiptNumber}`, 60, boxTop + 10);
+
+        doc
+          .fontSize(10)
+          .font('Helvetica')
+          .text(`Date: ${this.formatDate(payment.paymentDate)}`, 60, boxTop + 30);
+
+        doc
+          .text(`Invoice No: ${invoice.invoiceNumber}`, 300, boxTop + 10)
+          .text(`Invoice Date: ${this.formatDate(invoice.invoiceDate)}`, 300, boxTop + 30);
+
+        doc.y = boxTop + 60;
+        doc.moveDown(1);
+
+        // Received From
+        doc
+          .fontSize(12)
+          .font('Helvetica-Bold')
+          .fillColor('#374151')
+          .text('RECEIVED FROM:', 50);
+
+        doc.moveDown(0.3);
+
+        doc
+          .fontSize(11)
+          .font('Helvetica-Bold')
+          .fillColor('#000000')
+          .text(invoice.customer?.name || '-');
+
+        doc
+          .fontSize(10)
+          .font('Helvetica');
+
+        if (invoice.customer?.gstNumber) {
+          doc.text(`GSTIN: ${invoice.customer.gstNumber}`);
+        }
+
+        doc.moveDown(1.5);
+
+        // Payment Details
+        const col1 = 50;
+        const col2 = 200;
+        const rowHeight = 20;
+        let currentY = doc.y;
+
+        const drawRow = (label: string, value: string, y: number) => {
+          doc
+            .fontSize(10)
+            .font('Helvetica-Bold')
+            .fillColor('#6b7280')
+            .text(label, col1, y);
+
+          doc
+            .font('Helvetica')
+            .fillColor('#000000')
+            .text(value, col2, y, { width: pageWidth - (col2 - col1) });
+        };
+
+        drawRow('Amount Received:', this.formatCurrency(payment.amount), currentY);
+        currentY += rowHeight;
+
+        if (parseFloat(payment.tdsAmount) > 0) {
+          drawRow('TDS Deducted:', this.formatCurrency(payment.tdsAmount), currentY);
+          currentY += rowHeight;
+        }
+
+        drawRow('Payment Mode:', payment.paymentMode.toUpperCase(), currentY);
+        currentY += rowHeight;
+
+        if (payment.referenceNumber) {
+          drawRow('Reference No:', payment.referenceNumber, currentY);
+          currentY += rowHeight;
+        }
+
+        drawRow('Amount in Words:', amountInWords(payment.amount), currentY);
+        currentY += rowHeight * 2;
+
+        // Invoice Balance Summary Box
+        const summaryBoxTop = currentY;
+        const summaryBoxHeight = 80;
+
+        doc
+          .rect(50, summaryBoxTop, pageWidth, summaryBoxHeight)
+          .fillAndStroke('#f9fafb', '#e5e7eb');
+
+        doc
+          .fontSize(12)
+          .font('Helvetica-Bold')
+          .fillColor('#374151')
+          .text('INVOICE SUMMARY', 60, summaryBoxTop + 10);
+
+        doc
+          .fontSize(10)
+          .font('Helvetica')
+          .fillColor('#6b7280')
+          .text('Invoice Total:', 60, summaryBoxTop + 32)
+          .text('Balance Due:', 60, summaryBoxTop + 50);
+
+        doc
+          .fillColor('#000000')
+          .text(this.formatCurrency(invoice.totalAmount), 250, summaryBoxTop + 32)
+          .font('Helvetica-Bold')
+          .text(this.formatCurrency(invoice.balanceDue), 250, summaryBoxTop + 50);
+
+        doc.y = summaryBoxTop + summaryBoxHeight + 20;
+
+        if (payment.notes) {
+          doc
+            .fontSize(10)
+            .font('Helvetica-Bold')
+            .fillColor('#374151')
+            .text('Notes:', 50);
+
+          doc
+            .font('Helvetica')
+            .fillColor('#6b7280')
+            .text(payment.notes, 50, doc.y + 5, { width: pageWidth });
+        }
+
+        // Footer
+        const footerY = doc.page.height - 100;
+
+        doc
+          .moveTo(50, footerY)
+          .lineTo(50 + pageWidth, footerY)
+          .stroke('#e5e7eb');
+
+        doc
+          .fontSize(8)
+          .font('Helvetica')
+          .fillColor('#9ca3af')
+          .text('This is a computer-generated receipt.', 50, footerY + 10, { align: 'center' })
+          .text(
+            `Generated on ${new Date().toLocaleString('en-IN', { timeZone: 'Asia/Kolkata' })}`,
+            50,
+            footerY + 22,
+            { align: 'center' }
+          )
+          .text('Billboard Management System', 50, footerY + 34, { align: 'center' });
+
+        doc.end();
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
+  async generateQuotationPDF(quotation: QuotationWithDetails, companyInfo?: CompanyInfo): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      try {
+        const doc = new PDFDocument({
+          size: 'A4',
+          margin: 50,
+          info: {
+            Title: `Quotation - ${quotation.quotationNumber}`,
+            Author: 'Billboard Management System',
+            Subject: 'Quotation',
+          },
+        });
+
+        const chunks: Buffer[] = [];
+        doc.on('data', (chunk) => chunks.push(chunk));
+        doc.on('end', () => resolve(Buffer.concat(chunks)));
+        doc.on('error', reject);
+
+        const company = companyInfo || DEFAULT_COMPANY_INFO;
+        const pageWidth = doc.page.width - 100; // 50px margin on each side
+
+        // Header - Company Info
+        doc
+          .fontSize(20)
+          .font('Helvetica-Bold')
+          .text(company.name, { align: 'center' });
+
+        doc
+          .fontSize(10)
+          .font('Helvetica')
+          .text(company.address, { align: 'center' })
+          .text(`Phone: ${company.phone} | Email: ${company.email}`, { align: 'center' });
+
+        if (company.gstNumber) {
+          doc.text(`GSTIN: ${company.gstNumber} | PAN: ${company.panNumber || '-'}`, { align: 'center' });
+        }
+
+        doc.moveDown(2);
+
+        // Title
+        doc
+          .fontSize(16)
+          .font('Helvetica-Bold')
+          .fillColor('#1a56db')
+          .text('QUOTATION', { align: 'center' });
+
+        doc.moveDown(0.5);
+
+        // Quotation Number and Validity Box
+        const boxTop = doc.y;
+        doc
+          .rect(50, boxTop, pageWidth, 70)
+          .stroke('#e5e7eb');
+
+        doc
+          .fontSize(12)
+          .font('Helvetica-Bold')
+          .fillColor('#000000')
+          .text(`Quotation No: ${quotation.quotationNumber}`, 60, boxTop + 10);
+
+        doc
+          .fontSize(10)
+          .font('Helvetica')
+          .text(`Date: ${this.formatDate(quotation.createdAt)}`, 60, boxTop + 30)
+          .text(`Valid Until: ${this.formatDate(quotation.validUntil)}`, 60, boxTop + 48);
+
+        doc
+          .text(`Proposal: ${quotation.name}`, 300, boxTop + 10, { width: pageWidth - 260 })
+          .text(
+            `Period: ${this.formatDate(quotation.startDate)} to ${this.formatDate(quotation.endDate)}`,
+            300,
+            boxTop + 30,
+            { width: pageWidth - 260 }
+          );
+
+        doc.y = boxTop + 80;
+        doc.moveDown(1);
+
+        // Customer Information Section
+        doc
+          .fontSize(12)
+          .font('Helvetica-Bold')
+          .fillColor('#374151')
+          .text('PREPARED FOR:', 50);
+
+        doc.moveDown(0.3);
+
+        doc
+          .fontSize(11)
+          .font('Helvetica-Bold')
+          .fillColor('#000000')
+          .text(quotation.customer?.name || '-');
+
+        doc
+          .fontSize(10)
+          .font('Helvetica');
+
+        if (quotation.customer?.address) {
+          doc.text(quotation.customer.address);
+        }
+        if (quotation.customer?.contactPerson) {
+          doc.text(`Contact: ${quotation.customer.contactPerson}`);
+        }
+        if (quotation.customer?.email) {
+          doc.text(`Email: ${quotation.customer.email}`);
+        }
+
+        doc.moveDown(1.5);
+
+        // Line Items Table
+        const colBillboard = 50;
+        const colPeriod = 230;
+        const colRate = 350;
+        const colAmount = 430;
+        const amountWidth = 50 + pageWidth - colAmount;
+
+        const drawTableHeader = (y: number) => {
+          doc
+            .rect(50, y, pageWidth, 20)
+            .fillAndStroke('#f3f4f6', '#e5e7eb');
+
+          doc
+            .fontSize(10)
+            .font('Helvetica-Bold')
+            .fillColor('#374151')
+            .text('Billboard', colBillboard + 5, y + 6)
+            .text('Period', colPeriod, y + 6)
+            .text('Rate/Day', colRate, y + 6)
+            .text('Amount', colAmount, y + 6, { width: amountWidth - 5, align: 'right' });
+
+          return y + 28;
+        };
+
+        let currentY = drawTableHeader(doc.y);
+
+        for (const item of quotation.items) {
+          if (currentY > doc.page.height - 180) {
+            doc.addPage();
+            currentY = drawTableHeader(50);
+          }
+
+          const rowTop = currentY;
+          doc
+            .fontSize(10)
+            .font('Helvetica-Bold')
+            .fillColor('#000000')
+            .text(`${item.billboard?.name || '-'} (${item.billboard?.code || '-'})`, colBillboard + 5, rowTop, {
+              width: colPeriod - colBillboard - 15,
+            });
+
+          doc.font('Helvetica').fillColor('#6b7280');
+          if (item.billboard?.address) {
+            doc.text(item.billboard.address, { width: colPeriod - colBillboard - 15 });
+          }
+          if (item.slotQuantity || item.slotNumber) {
+            const slots = item.slotQuantity ?? 1;
+            doc.text(`${slots} slot${slots > 1 ? 's' : ''}${item.slotNumber ? ` from slot ${item.slotNumber}` : ''}`, {
+              width: colPeriod - colBillboard - 15,
+            });
+          }
+          const rowBottom = doc.y;
+
+          doc
+            .fillColor('#000000')
+            .text(`${this.formatDate(item.startDate)} to`, colPeriod, rowTop, { width: colRate - colPeriod - 10 })
+            .text(`${this.formatDate(item.endDate)} (${item.days} days)`, { width: colRate - colPeriod - 10 })
+            .text(this.formatCurrency(item.ratePerDay), colRate, rowTop, { width: colAmount - colRate - 10 })
+            .text(this.formatCurrency(item.amount), colAmount, rowTop, { width: amountWidth - 5, align: 'right' });
+
+          if (parseFloat(item.discountPercentage) > 0) {
+            doc
+              .fillColor('#6b7280')
+              .text(`less ${parseFloat(item.discountPercentage)}%`, colAmount, doc.y, { width: amountWidth - 5, align: 'right' });
+          }
+
+          currentY = Math.max(rowBottom, doc.y, rowTop + 28) + 8;
+          doc
+            .moveTo(50, currentY - 4)
+            .lineTo(50 + pageWidth, currentY - 4)
+            .stroke('#e5e7eb');
+        }
+
+        currentY += 6;
+
+        // Summary
+        const labelX = 300;
+        const rowHeight = 18;
+
+        const drawSummaryRow = (label: string, value: string, y: number, bold = false) => {
+          doc
+            .fontSize(10)
+            .font(bold ? 'Helvetica-Bold' : 'Helvetica')
+            .fillColor(bold ? '#1a56db' : '#6b7280')
+            .text(label, labelX, y);
+
+          doc
+            .fillColor(bold ? '#1a56db' : '#000000')
+            .text(value, colAmount, y, { width: amountWidth - 5, align: 'right' });
+        };
+
+        drawSummaryRow('Subtotal:', this.formatCurrency(quotation.subtotal), currentY);
+        currentY += rowHeight;
+
+        if (parseFloat(quotation.discountAmount) > 0) {
+          drawSummaryRow('Discount:', `- ${this.formatCurrency(quotation.discountAmount)}`, currentY);
+          currentY += rowHeight;
+        }
+
+        doc
+          .moveTo(labelX, currentY)
+          .lineTo(50 + pageWidth, currentY)
+          .stroke('#e5e7eb');
+
+        currentY += 6;
+        drawSummaryRow('TOTAL (excl. tax):', this.formatCurrency(quotation.totalValue), currentY, true);
+        currentY += rowHeight + 10;
+
+        doc
+          .fontSize(9)
+          .font('Helvetica')
+          .fillColor('#6b7280')
+          .text(
+            'Prices exclude applicable taxes. Availability is confirmed only when the quotation is converted to a booking.',
+            50,
+            currentY,
+            { width: pageWidth }
+          );
+
+        doc.moveDown(1);
+
+        // Notes
+        if (quotation.notes) {
+          doc
+            .fontSize(10)
+            .font('Helvetica-Bold')
+            .fillColor('#374151')
+            .text('Notes:', 50);
+
+          doc
+            .font('Helvetica')
+            .fillColor('#6b7280')
+            .text(quotation.notes, 50, doc.y + 5, { width: pageWidth });
+
+          doc.moveDown(1);
+        }
+
+        // Footer
+        const footerY = doc.page.height - 100;
+
+        doc
+          .moveTo(50, footerY)
+          .lineTo(50 + pageWidth, footerY)
+          .stroke('#e5e7eb');
+
+        doc
+          .fontSize(8)
+          .font('Helvetica')
+          .fillColor('#9ca3af')
+          .text('This is a computer-generated quotation and does not require a signature.', 50, footerY + 10, { align: 'center' })
+          .text(
+            `Generated on ${new Date().toLocaleString('en-IN', { timeZone: 'Asia/Kolkata' })}`,
+            50,
+            footerY + 22,
+            { align: 'center' }
+          )
+          .text('Billboard Management System', 50, footerY + 34, { align: 'center' });
+
+        doc.end();
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
 }
 
 export const pdfService = new PDFService();
@@ -0,0 +1,168 @@
+import { eq, and, desc } from 'drizzle-orm';
+import { db } from '../db/index.js';
+import { billboards, rateCards, rateCardSeasons, rateCardDiscountTiers, WEEKDAYS } from '../db/schema/index.js';
+import { eachDate } from '../utils/dates.js';
+
+export type PricedBillboard = Pick<typeof billboards.$inferSelect, 'id' | 'zoneId' | 'ratePerDay' | 'slotCount'>;
+
+export interface PriceOptions {
+  // Share of voice on a digital billboard; the price is pro-rated over its slot count
+  slotQuantity?: number | null;
+  // Reject periods shorter than the rate card's minimum (new bookings, not recalculations)
+  enforceMinimum?: boolean;
+}
+
+export interface QuoteQuery {
+  billboardId: string;
+  startDate: string;
+  endDate: string;
+  slotQuantity?: number;
+}
+
+export interface PriceQuote {
+  billboardId: string;
+  rateCardId: string | null;
+  rateCardName: string | null;
+  startDate: string;
+  endDate: string;
+  days: number;
+  baseRatePerDay: number;
+  minimumDays: number | null;
+  slotShare: number;
+  seasons: Array<{ name: string; multiplier: number; days: number }>;
+  grossAmount: number;
+  discountPercentage: number;
+  discountAmount: number;
+  totalAmount: number;
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+class PricingService {
+  /**
+   * The active rate card for the billboard, falling back to its zone's card. Seasons come latest-start first
+   * so a narrower override inside a longer season wins; tiers come largest first.
+   */
+  async getApplicableRateCard(billboard: Pick<PricedBillboard, 'id' | 'zoneId'>) {
+    const cards = await db
+      .select()
+      .from(rateCards)
+      .where(and(eq(rateCards.isActive, true), eq(rateCards.billboardId, billboard.id)))
+      .limit(1);
+
+    const [card] = cards.length > 0
+      ? cards
+      : await db
+          .select()
+          .from(rateCards)
+          .where(and(eq(rateCards.isActive, true), eq(rateCards.zoneId, billboard.zoneId)))
+          .limit(1);
+
+    if (!card) return null;
+
+    const [seasons, discountTiers] = await Promise.all([
+      db
+        .select()
+        .from(rateCardSeasons)
+        .where(eq(rateCardSeasons.rateCardId, card.id))
+        .orderBy(desc(rateCardSeasons.startDate)),
+      db
+        .select()
+        .from(rateCardDiscountTiers)
+        .where(eq(rateCardDiscountTiers.rateCardId, card.id))
+        .orderBy(desc(rateCardDiscountTiers.minDays)),
+    ]);
+
+    return { ...card, seasons, discountTiers };
+  }
+
+  /**
+   * Price a period on a billboard: each day at the base rate times its season and weekday multipliers,
+   * pro-rated by slot share, less the best long-duration discount tier. Without a rate card the
+   * billboard's ratePerDay applies flat.
+   */
+  async calculatePrice(billboard: PricedBillboard, startDate: string, endDate: string, options: PriceOptions = {}): Promise<PriceQuote> {
+    const dates = eachDate(startDate, endDate);
+    if (dates.length === 0) {
+      throw new Error('Cannot price booking: end date is before start date');
+    }
+
+    const card = await this.getApplicableRateCard(billboard);
+    if (options.enforceMinimum && card?.minimumDays && dates.length < card.minimumDays) {
+      throw new Error(`Cannot book for ${dates.length} days: the minimum booking period is ${card.minimumDays} days`);
+    }
+
+    const baseRatePerDay = parseFloat(card ? card.ratePerDay : billboard.ratePerDay);
+    const slotShare = options.slotQuantity && billboard.slotCount ? options.slotQuantity / billboard.slotCount : 1;
+
+    let dailyTotal = 0;
+    const seasonDays = new Map<string, { name: string; multiplier: number; days: number }>();
+    for (const date of dates) {
+      let rate = baseRatePerDay;
+
+      const season = card?.seasons.find(s => s.startDate <= date && s.endDate >= date);
+      if (season) {
+        const multiplier = parseFloat(season.multiplier);
+        rate *= multiplier;
+        const entry = seasonDays.get(season.id) ?? { name: season.name, multiplier, days: 0 };
+        entry.days += 1;
+        seasonDays.set(season.id, entry);
+      }
+
+      const weekday = WEEKDAYS[new Date(`${date}T00:00:00Z`).getUTCDay()];
+      rate *= card?.weekdayMultipliers?.[weekday] ?? 1;
+
+      dailyTotal += rate;
+    }
+
+    const grossAmount = round2(dailyTotal * slotShare);
+    const tier = card?.discountTiers.find(t => dates.length >= t.minDays);
+    const discountPercentage = tier ? parseFloat(tier.discountPercentage) : 0;
+    const discountAmount = round2(grossAmount * discountPercentage / 100);
+
+    return {
+      billboardId: billboard.id,
+      rateCardId: card?.id ?? null,
+      rateCardName: card?.name ?? null,
+      startDate,
+      endDate,
+      days: dates.length,
+      baseRatePerDay,
+      minimumDays: card?.minimumDays ?? null,
+      slotShare: Math.round(slotShare * 10000) / 10000,
+      seasons: [...seasonDays.values()],
+      grossAmount,
+      discountPercentage,
+      discountAmount,
+      totalAmount: round2(grossAmount - discountAmount),
+    };
+  }
+
+  async getQuote(query: QuoteQuery): Promise<PriceQuote> {
+    const [billboard] = await db
+      .select()
+      .from(billboards)
+      .where(eq(billboards.id, query.billboardId))
+      .limit(1);
+
+    if (!billboard) {
+      throw new Error('Billboard not found');
+    }
+
+    if (query.slotQuantity) {
+      if (billboard.type !== 'digital' || !billboard.slotCount) {
+        throw new Error('Cannot quote slots: billboard is not a digital billboard with slots');
+      }
+      if (query.slotQuantity > billboard.slotCount) {
+        throw new Error(`Cannot quote ${query.slotQuantity} slots: billboard has ${billboard.slotCount} slots`);
+      }
+    }
+
+    return this.calculatePrice(billboard, query.startDate, query.endDate, {
+      slotQuantity: query.slotQuantity,
+      enforceMinimum: true,
+    });
+  }
+}
+
+export const pricingService = new PricingService();
@@ -1,8 +1,12 @@
-import { eq, and, desc, asc, sql, gte, lte } from 'drizzle-orm';
+import { eq, and, desc, asc, sql, gte, lte, ne } from 'drizzle-orm';
 import { db } from '../db/index.js';
-import { purchaseOrders, bookings, customers, billboards, campaigns } from '../db/schema/index.js';
+import { purchaseOrders, bookings, customers, billboards, campaigns, invoices } from '../db/schema/index.js';
 import { sequenceService } from './sequence.service.js';
 import { bookingService } from './booking.service.js';
+import { getCustomerScope } from '../utils/request-context.js';
+import { auditLogService } from './audit-log.service.js';
+import { pricingService } from './pricing.service.js';
+import { eachDate } from '../utils/dates.js';
 
 export interface CreatePurchaseOrderDto {
   bookingId: string;
@@ -83,8 +87,9 @@ export interface PurchaseOrderWithDetails {
 
 class PurchaseOrderService {
   async getAllPurchaseOrders(options: PurchaseOrderPaginationOptions) {
-    const { page, pageSize, sortBy = 'createdAt', sortOrder = 'desc', customerId, search, dateFrom, dateTo } = options;
+    const { page, pageSize, sortBy = 'createdAt', sortOrder = 'desc', search, dateFrom, dateTo } = options;
     const offset = (page - 1) * pageSize;
+    const customerId = getCustomerScope() ?? options.customerId;
 
     const conditions = [];
 
@@ -188,6 +193,8 @@ class PurchaseOrderService {
   }
 
   async getPurchaseOrderById(id: string) {
+    const customerScope = getCustomerScope();
+
     const [result] = await db
       .select({
         purchaseOrder: purchaseOrders,
@@ -232,7 +239,7 @@ class PurchaseOrderService {
       .leftJoin(customers, eq(bookings.customerId, customers.id))
       .leftJoin(billboards, eq(bookings.billboardId, billboards.id))
       .leftJoin(campaigns, eq(bookings.campaignId, campaigns.id))
-      .where(eq(purchaseOrders.id, id))
+      .where(and(eq(purchaseOrders.id, id), customerScope ? eq(bookings.customerId, customerScope) : undefined))
       .limit(1);
 
     if (!result) return null;
@@ -256,6 +263,16 @@ class PurchaseOrderService {
     return result || null;
   }
 
+  private async hasActiveInvoice(purchaseOrderId: string): Promise<boolean> {
+    const [invoice] = await db
+      .select({ id: invoices.id })
+      .from(invoices)
+      .where(and(eq(invoices.purchaseOrderId, purchaseOrderId), ne(invoices.paymentStatus, 'void')))
+      .limit(1);
+
+    return !!invoice;
+  }
+
   async createPurchaseOrder(data: CreatePurchaseOrderDto) {
     // Get booking details
     const booking = await bookingService.getBookingById(data.bookingId);
@@ -278,11 +295,8 @@ class PurchaseOrderService {
     // Calculate actual value with pro-rata adjustment if not provided
     let actualValue = data.actualValue;
     if (!actualValue && booking.billboard) {
-      const actualStartDate = new Date(data.actualStartDate);
-      const actualEndDate = new Date(data.actualEndDate);
-      const actualDays = Math.ceil((actualEndDate.getTime() - actualStartDate.getTime()) / (1000 * 60 * 60 * 24)) + 1;
-      const rate = parseFloat(booking.billboard.ratePerDay);
-      actualValue = (rate * actualDays).toFixed(2);
+      const calculation = await this.calculateProRataValue(data.bookingId, data.actualStartDate, data.actualEndDate);
+      actualValue = calculation.actualValue.toFixed(2);
     }
 
     // Generate PO number
@@ -303,8 +317,12 @@ class PurchaseOrderService {
       })
       .returning();
 
+    await auditLogService.logCreate('purchase_orders', 'purchase_order', purchaseOrder);
+
     // Update booking status to po_generated
-    await bookingService.updateBookingStatus(data.bookingId, 'po_generated', data.createdBy);
+    await bookingService.updateBookingStatus(data.bookingId, 'po_generated', data.createdBy, {
+      reason: `Purchase order ${purchaseOrder.poNumber} generated`,
+    });
 
     return this.getPurchaseOrderById(purchaseOrder.id);
   }
@@ -316,7 +334,9 @@ class PurchaseOrderService {
     }
 
     // Check if invoice exists - can't modify PO if invoiced
-    // TODO: Add invoice check when invoice module is implemented
+    if (await this.hasActiveInvoice(id)) {
+      throw new Error('Cannot modify purchase order that has been invoiced. Void the invoice first.');
+    }
 
     const updateData: Record<string, unknown> = {
       updatedBy: data.updatedBy,
@@ -328,10 +348,13 @@ class PurchaseOrderService {
     if (data.actualValue !== undefined) updateData.actualValue = data.actualValue;
     if (data.adjustmentNotes !== undefined) updateData.adjustmentNotes = data.adjustmentNotes;
 
-    await db
+    const [purchaseOrder] = await db
       .update(purchaseOrders)
       .set(updateData)
-      .where(eq(purchaseOrders.id, id));
+      .where(eq(purchaseOrders.id, id))
+      .returning();
+
+    await auditLogService.logUpdate('purchase_orders', 'purchase_order', existing, purchaseOrder);
 
     return this.getPurchaseOrderById(id);
   }
@@ -342,13 +365,21 @@ class PurchaseOrderService {
       throw new Error('Purchase order not found');
     }
 
-    // TODO: Check if invoice exists - can't delete PO if invoiced
+    // Check if invoice exists - can't delete PO if invoiced
+    if (await this.hasActiveInvoice(id)) {
+      throw new Error('Cannot delete purchase order that has been invoiced. Void the invoice first.');
+    }
 
     // Revert booking status to completed
-    await bookingService.updateBookingStatus(purchaseOrder.booking.id, 'completed', updatedBy);
+    await bookingService.updateBookingStatus(purchaseOrder.booking.id, 'completed', updatedBy, {
+      reason: `Purchase order ${purchaseOrder.poNumber} deleted`,
+    });
 
     // Delete the purchase order
-    await db.delete(purchaseOrders).where(eq(purchaseOrders.id, id));
+    const [deleted] = await db.delete(purchaseOrders).where(eq(purchaseOrders.id, id)).returning();
+    if (deleted) {
+      await auditLogService.logDelete('purchase_orders', 'purchase_order', deleted);
+    }
   }
 
   async getBookingsEligibleForPO(customerId?: string) {
@@ -358,8 +389,9 @@ class PurchaseOrderService {
       sql`NOT EXISTS (SELECT 1 FROM ${purchaseOrders} WHERE ${purchaseOrders.bookingId} = ${bookings.id})`,
     ];
 
-    if (customerId) {
-      conditions.push(eq(bookings.customerId, customerId));
+    const scopedCustomerId = getCustomerScope() ?? customerId;
+    if (scopedCustomerId) {
+      conditions.push(eq(bookings.customerId, scopedCustomerId));
     }
 
     const data = await db
@@ -405,27 +437,36 @@ class PurchaseOrderService {
       throw new Error('Booking or billboard not found');
     }
 
-    const originalStartDate = new Date(booking.startDate);
-    const originalEndDate = new Date(booking.endDate);
-    const actualStart = new Date(actualStartDate);
-    const actualEnd = new Date(actualEndDate);
+    const [billboard] = await db
+      .select()
+      .from(billboards)
+      .where(eq(billboards.id, booking.billboardId))
+      .limit(1);
+
+    if (!billboard) {
+      throw new Error('Booking or billboard not found');
+    }
+
+    const originalDays = eachDate(booking.startDate, booking.endDate).length;
 
-    const originalDays = Math.ceil((originalEndDate.getTime() - originalStartDate.getTime()) / (1000 * 60 * 60 * 24)) + 1;
-    const actualDays = Math.ceil((actualEnd.getTime() - actualStart.getTime()) / (1000 * 60 * 60 * 24)) + 1;
+    // Re-price the actual period with the rate card; a shorter run may fall below a discount tier
+    const pricing = await pricingService.calculatePrice(billboard, actualStartDate, actualEndDate, {
+      slotQuantity: booking.slotQuantity,
+    });
 
-    const rate = parseFloat(booking.billboard.ratePerDay);
     const notionalValue = parseFloat(booking.notionalValue);
-    const actualValue = rate * actualDays;
+    const actualValue = pricing.totalAmount;
     const adjustment = actualValue - notionalValue;
 
     return {
       originalDays,
-      actualDays,
-      ratePerDay: rate,
+      actualDays: pricing.days,
+      ratePerDay: pricing.baseRatePerDay,
       notionalValue,
       actualValue,
       adjustment,
       adjustmentPercentage: ((adjustment / notionalValue) * 100).toFixed(2),
+      pricing,
     };
   }
 }
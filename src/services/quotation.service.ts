@@ -0,0 +1,511 @@
+import { randomUUID } from 'node:crypto';
+import { eq, and, desc, asc, sql, inArray } from 'drizzle-orm';
+import { db } from '../db/index.js';
+import { quotations, quotationItems, customers, billboards, campaigns } from '../db/schema/index.js';
+import { sequenceService } from './sequence.service.js';
+import { bookingService } from './booking.service.js';
+import { campaignService } from './campaign.service.js';
+import { pricingService } from './pricing.service.js';
+import { auditLogService } from './audit-log.service.js';
+import { getCustomerScope } from '../utils/request-context.js';
+import { eachDate, today } from '../utils/dates.js';
+
+export const QUOTATION_STATUSES = ['draft', 'sent', 'accepted', 'rejected', 'converted'] as const;
+export type QuotationStatus = typeof QUOTATION_STATUSES[number];
+
+// Converted is set only by convertToCampaign
+const QUOTATION_TRANSITIONS: Record<QuotationStatus, QuotationStatus[]> = {
+  draft: ['sent', 'rejected'],
+  sent: ['draft', 'accepted', 'rejected'],
+  accepted: ['sent', 'rejected'],
+  rejected: ['draft'],
+  converted: [],
+};
+
+const EDITABLE_STATUSES: QuotationStatus[] = ['draft', 'sent'];
+const CONVERTIBLE_STATUSES: QuotationStatus[] = ['draft', 'sent', 'accepted'];
+
+export interface QuotationItemInput {
+  billboardId: string;
+  slotNumber?: number | null;
+  slotQuantity?: number | null;
+  // Default to the quotation period
+  startDate?: string;
+  endDate?: string;
+  // Default to the rate card price and discount tier
+  ratePerDay?: number;
+  discountPercentage?: number;
+}
+
+export interface CreateQuotationDto {
+  name: string;
+  customerId: string;
+  startDate: string;
+  endDate: string;
+  validUntil: string;
+  notes?: string;
+  items: QuotationItemInput[];
+  createdBy?: string;
+}
+
+export interface UpdateQuotationDto {
+  name?: string;
+  customerId?: string;
+  startDate?: string;
+  endDate?: string;
+  validUntil?: string;
+  notes?: string;
+  // Replaces the items when given
+  items?: QuotationItemInput[];
+  updatedBy?: string;
+}
+
+export interface QuotationPaginationOptions {
+  page: number;
+  pageSize: number;
+  customerId?: string;
+  status?: string;
+  search?: string;
+}
+
+export type QuotationWithDetails = typeof quotations.$inferSelect & {
+  isExpired: boolean;
+  customer: {
+    id: string;
+    name: string;
+    contactPerson: string | null;
+    email: string | null;
+    phone: string | null;
+    address: string | null;
+  } | null;
+  campaign: {
+    id: string;
+    name: string;
+    referenceCode: string;
+  } | null;
+  items: Array<{
+    id: string;
+    billboardId: string;
+    slotNumber: number | null;
+    slotQuantity: number | null;
+    startDate: string;
+    endDate: string;
+    days: number;
+    ratePerDay: string;
+    grossAmount: string;
+    discountPercentage: string;
+    amount: string;
+    billboard: {
+      id: string;
+      name: string;
+      code: string;
+      type: string;
+      address: string;
+    } | null;
+  }>;
+};
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+class QuotationService {
+  /**
+   * Price each line from the rate card unless a rate or discount was negotiated. Lines must fall
+   * within the quotation period; slots are only validated here and assigned when converted.
+   */
+  private async buildItems(quotationId: string, period: { startDate: string; endDate: string }, items: QuotationItemInput[]) {
+    if (!items || items.length === 0) {
+      throw new Error('At least one billboard must be selected for the quotation');
+    }
+    if (period.startDate > period.endDate) {
+      throw new Error('Cannot create quotation: end date is before start date');
+    }
+
+    const billboardIds = [...new Set(items.map(item => item.billboardId))];
+    const billboardDetails = await db
+      .select()
+      .from(billboards)
+      .where(inArray(billboards.id, billboardIds));
+
+    if (billboardDetails.length !== billboardIds.length) {
+      throw new Error('One or more billboards not found');
+    }
+
+    const rows: (typeof quotationItems.$inferInsert)[] = [];
+    for (const item of items) {
+      const billboard = billboardDetails.find(b => b.id === item.billboardId);
+      if (!billboard) {
+        throw new Error('One or more billboards not found');
+      }
+      bookingService.assertBillboardNotArchived(billboard);
+
+      const startDate = item.startDate || period.startDate;
+      const endDate = item.endDate || period.endDate;
+      if (startDate < period.startDate || endDate > period.endDate || startDate > endDate) {
+        throw new Error(`Cannot quote billboard "${billboard.name}" outside the quotation period`);
+      }
+
+      // A quantity without a slot number is validated as if it started at the first slot
+      const slotQuantity = item.slotQuantity ?? (item.slotNumber != null ? 1 : null);
+      bookingService.assertSlots(billboard, item.slotNumber ?? (slotQuantity != null ? 1 : null), slotQuantity);
+
+      const price = await pricingService.calculatePrice(billboard, startDate, endDate, {
+        slotQuantity,
+        enforceMinimum: true,
+      });
+
+      const days = eachDate(startDate, endDate).length;
+      const ratePerDay = item.ratePerDay ?? round2(price.grossAmount / days);
+      const grossAmount = round2(ratePerDay * days);
+      const discountPercentage = item.discountPercentage ?? price.discountPercentage;
+      const amount = round2(grossAmount * (1 - discountPercentage / 100));
+
+      rows.push({
+        quotationId,
+        billboardId: item.billboardId,
+        slotNumber: item.slotNumber ?? null,
+        slotQuantity: item.slotQuantity ?? null,
+        startDate,
+        endDate,
+        days,
+        ratePerDay: ratePerDay.toFixed(2),
+        grossAmount: grossAmount.toFixed(2),
+        discountPercentage: discountPercentage.toFixed(2),
+        amount: amount.toFixed(2),
+      });
+    }
+
+    const subtotal = rows.reduce((sum, row) => sum + parseFloat(row.grossAmount), 0);
+    const totalValue = rows.reduce((sum, row) => sum + parseFloat(row.amount), 0);
+
+    return {
+      rows,
+      totals: {
+        subtotal: subtotal.toFixed(2),
+        discountAmount: (subtotal - totalValue).toFixed(2),
+        totalValue: totalValue.toFixed(2),
+      },
+    };
+  }
+
+  async getAllQuotations(options: QuotationPaginationOptions) {
+    const { page, pageSize, status, search } = options;
+    const offset = (page - 1) * pageSize;
+    const customerId = getCustomerScope() ?? options.customerId;
+
+    const conditions = [];
+    if (customerId) {
+      conditions.push(eq(quotations.customerId, customerId));
+    }
+    if (status) {
+      conditions.push(eq(quotations.status, status));
+    }
+    if (search) {
+      conditions.push(sql`(${quotations.name} ILIKE ${'%' + search + '%'} OR ${quotations.quotationNumber} ILIKE ${'%' + search + '%'})`);
+    }
+
+    const whereCondition = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [data, countResult] = await Promise.all([
+      db
+        .select({
+          quotation: quotations,
+          customer: {
+            id: customers.id,
+            name: customers.name,
+          },
+          itemCount: sql<number>`(SELECT COUNT(*)::int FROM ${quotationItems} WHERE ${quotationItems.quotationId} = ${quotations.id})`,
+        })
+        .from(quotations)
+        .leftJoin(customers, eq(quotations.customerId, customers.id))
+        .where(whereCondition)
+        .orderBy(desc(quotations.createdAt))
+        .limit(pageSize)
+        .offset(offset),
+      db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(quotations)
+        .where(whereCondition),
+    ]);
+
+    const asOf = today();
+    return {
+      data: data.map(row => ({
+        ...row.quotation,
+        isExpired: row.quotation.status !== 'converted' && row.quotation.validUntil < asOf,
+        customer: row.customer,
+        itemCount: row.itemCount,
+      })),
+      pagination: {
+        page,
+        pageSize,
+        totalItems: countResult[0]?.count || 0,
+        totalPages: Math.ceil((countResult[0]?.count || 0) / pageSize),
+      },
+    };
+  }
+
+  async getQuotationById(id: string): Promise<QuotationWithDetails | null> {
+    const customerScope = getCustomerScope();
+
+    const [result] = await db
+      .select({
+        quotation: quotations,
+        customer: {
+          id: customers.id,
+          name: customers.name,
+          contactPerson: customers.contactPerson,
+          email: customers.email,
+          phone: customers.phone,
+          address: customers.address,
+        },
+        campaign: {
+          id: campaigns.id,
+          name: campaigns.name,
+          referenceCode: campaigns.referenceCode,
+        },
+      })
+      .from(quotations)
+      .leftJoin(customers, eq(quotations.customerId, customers.id))
+      .leftJoin(campaigns, eq(quotations.campaignId, campaigns.id))
+      .where(and(eq(quotations.id, id), customerScope ? eq(quotations.customerId, customerScope) : undefined))
+      .limit(1);
+
+    if (!result) return null;
+
+    const items = await db
+      .select({
+        item: quotationItems,
+        billboard: {
+          id: billboards.id,
+          name: billboards.name,
+          code: billboards.code,
+          type: billboards.type,
+          address: billboards.address,
+        },
+      })
+      .from(quotationItems)
+      .leftJoin(billboards, eq(quotationItems.billboardId, billboards.id))
+      .where(eq(quotationItems.quotationId, id))
+      .orderBy(asc(quotationItems.startDate), asc(billboards.name));
+
+    return {
+      ...result.quotation,
+      isExpired: result.quotation.status !== 'converted' && result.quotation.validUntil < today(),
+      customer: result.customer,
+      campaign: result.campaign,
+      items: items.map(row => ({ ...row.item, billboard: row.billboard })),
+    };
+  }
+
+  async createQuotation(data: CreateQuotationDto) {
+    const customerScope = getCustomerScope();
+    if (customerScope && data.customerId !== customerScope) {
+      throw new Error('Cannot create quotation for another customer');
+    }
+
+    await bookingService.assertCustomerNotArchived(data.customerId);
+
+    const id = randomUUID();
+    const { rows, totals } = await this.buildItems(id, data, data.items);
+    const quotationNumber = await sequenceService.getNextSequence('quotation');
+
+    const [[quotation]] = await db.batch([
+      db
+        .insert(quotations)
+        .values({
+          id,
+          quotationNumber,
+          name: data.name,
+          customerId: data.customerId,
+          startDate: data.startDate,
+          endDate: data.endDate,
+          validUntil: data.validUntil,
+          notes: data.notes,
+          ...totals,
+          createdBy: data.createdBy,
+          updatedBy: data.createdBy,
+        })
+        .returning(),
+      db.insert(quotationItems).values(rows),
+    ]);
+
+    await auditLogService.logCreate('quotations', 'quotation', quotation);
+    return this.getQuotationById(id);
+  }
+
+  async updateQuotation(id: string, data: UpdateQuotationDto) {
+    const existing = await this.getQuotationById(id);
+    if (!existing) {
+      throw new Error('Quotation not found');
+    }
+
+    if (!EDITABLE_STATUSES.includes(existing.status as QuotationStatus)) {
+      throw new Error(`Cannot edit quotation in "${existing.status}" status`);
+    }
+
+    const customerScope = getCustomerScope();
+    if (customerScope && data.customerId !== undefined && data.customerId !== customerScope) {
+      throw new Error('Cannot move quotation to another customer');
+    }
+    if (data.customerId && data.customerId !== existing.customerId) {
+      await bookingService.assertCustomerNotArchived(data.customerId);
+    }
+
+    const periodChanged = (data.startDate !== undefined && data.startDate !== existing.startDate) ||
+      (data.endDate !== undefined && data.endDate !== existing.endDate);
+    if (periodChanged && !data.items) {
+      throw new Error('Cannot change the quotation period without re-sending its items');
+    }
+
+    const updateData: Record<string, unknown> = {
+      updatedBy: data.updatedBy,
+      updatedAt: new Date(),
+    };
+
+    if (data.name !== undefined) updateData.name = data.name;
+    if (data.customerId !== undefined) updateData.customerId = data.customerId;
+    if (data.startDate !== undefined) updateData.startDate = data.startDate;
+    if (data.endDate !== undefined) updateData.endDate = data.endDate;
+    if (data.validUntil !== undefined) updateData.validUntil = data.validUntil;
+    if (data.notes !== undefined) updateData.notes = data.notes;
+
+    if (!data.items) {
+      const [quotation] = await db
+        .update(quotations)
+        .set(updateData)
+        .where(eq(quotations.id, id))
+        .returning();
+
+      await auditLogService.logUpdate('quotations', 'quotation', existing, quotation);
+      return this.getQuotationById(id);
+    }
+
+    const { rows, totals } = await this.buildItems(id, {
+      startDate: data.startDate ?? existing.startDate,
+      endDate: data.endDate ?? existing.endDate,
+    }, data.items);
+
+    const [[quotation]] = await db.batch([
+      db
+        .update(quotations)
+        .set({ ...updateData, ...totals })
+        .where(eq(quotations.id, id))
+        .returning(),
+      db.delete(quotationItems).where(eq(quotationItems.quotationId, id)),
+      db.insert(quotationItems).values(rows),
+    ]);
+
+    await auditLogService.logUpdate('quotations', 'quotation', existing, quotation);
+    return this.getQuotationById(id);
+  }
+
+  async updateQuotationStatus(id: string, status: string, updatedBy?: string) {
+    const existing = await this.getQuotationById(id);
+    if (!existing) {
+      throw new Error('Quotation not found');
+    }
+
+    const allowed = QUOTATION_TRANSITIONS[existing.status as QuotationStatus] || [];
+    if (!allowed.includes(status as QuotationStatus)) {
+      throw new Error(`Cannot move quotation from "${existing.status}" to "${status}"`);
+    }
+
+    const [quotation] = await db
+      .update(quotations)
+      .set({ status, updatedBy, updatedAt: new Date() })
+      .where(and(eq(quotations.id, id), eq(quotations.status, existing.status)))
+      .returning();
+
+    if (!quotation) {
+      throw new Error('Cannot update status: quotation was modified by another request. Please retry.');
+    }
+
+    await auditLogService.logUpdate('quotations', 'quotation', existing, quotation);
+    return this.getQuotationById(id);
+  }
+
+  /**
+   * Book every line as a campaign. The quotation is claimed first so it can't be converted twice; if any
+   * billboard has been booked since it was quoted, campaign creation fails as a whole and the claim is released.
+   */
+  async convertToCampaign(id: string, convertedBy?: string) {
+    const existing = await this.getQuotationById(id);
+    if (!existing) {
+      throw new Error('Quotation not found');
+    }
+
+    if (!CONVERTIBLE_STATUSES.includes(existing.status as QuotationStatus)) {
+      throw new Error(`Cannot convert quotation in "${existing.status}" status`);
+    }
+    if (existing.isExpired) {
+      throw new Error(`Cannot convert quotation: it expired on ${existing.validUntil}`);
+    }
+
+    const [claimed] = await db
+      .update(quotations)
+      .set({ status: 'converted', updatedBy: convertedBy, updatedAt: new Date() })
+      .where(and(eq(quotations.id, id), eq(quotations.status, existing.status)))
+      .returning();
+
+    if (!claimed) {
+      throw new Error('Cannot convert quotation: it was modified by another request. Please retry.');
+    }
+
+    let campaign;
+    try {
+      campaign = await campaignService.createCampaign({
+        name: existing.name,
+        customerId: existing.customerId,
+        description: `Converted from quotation ${existing.quotationNumber}`,
+        startDate: existing.startDate,
+        endDate: existing.endDate,
+        billboards: existing.items.map(item => ({
+          billboardId: item.billboardId,
+          slotNumber: item.slotNumber ?? undefined,
+          slotQuantity: item.slotQuantity ?? undefined,
+          startDate: item.startDate,
+          endDate: item.endDate,
+          notionalValue: item.amount,
+        })),
+        createdBy: convertedBy,
+      });
+    } catch (error) {
+      await db
+        .update(quotations)
+        .set({ status: existing.status, updatedBy: existing.updatedBy, updatedAt: existing.updatedAt })
+        .where(and(eq(quotations.id, id), eq(quotations.status, 'converted')));
+      throw error;
+    }
+
+    if (!campaign) {
+      throw new Error('Campaign not found');
+    }
+
+    const [quotation] = await db
+      .update(quotations)
+      .set({ campaignId: campaign.id, convertedAt: new Date() })
+      .where(eq(quotations.id, id))
+      .returning();
+
+    await auditLogService.logUpdate('quotations', 'quotation', existing, quotation);
+    return { quotation: await this.getQuotationById(id), campaign };
+  }
+
+  async deleteQuotation(id: string) {
+    const existing = await this.getQuotationById(id);
+    if (!existing) {
+      throw new Error('Quotation not found');
+    }
+
+    if (existing.status === 'converted') {
+      throw new Error('Cannot delete a converted quotation');
+    }
+
+    const [deleted] = await db.delete(quotations).where(eq(quotations.id, id)).returning();
+    if (deleted) {
+      await auditLogService.logDelete('quotations', 'quotation', deleted);
+    }
+  }
+}
+
+export const quotationService = new QuotationService();
@@ -0,0 +1,321 @@
+import { randomUUID } from 'node:crypto';
+import { eq, and, asc, desc, sql, ne } from 'drizzle-orm';
+import type { BatchItem } from 'drizzle-orm/batch';
+import { db } from '../db/index.js';
+import { rateCards, rateCardSeasons, rateCardDiscountTiers, billboards, zones, type Weekday } from '../db/schema/index.js';
+import { auditLogService } from './audit-log.service.js';
+
+export interface RateCardSeasonInput {
+  name: string;
+  startDate: string;
+  endDate: string;
+  multiplier: number;
+}
+
+export interface RateCardDiscountTierInput {
+  minDays: number;
+  discountPercentage: number;
+}
+
+export interface CreateRateCardDto {
+  name: string;
+  billboardId?: string;
+  zoneId?: string;
+  ratePerDay: number;
+  minimumDays?: number | null;
+  weekdayMultipliers?: Partial<Record<Weekday, number>> | null;
+  description?: string;
+  seasons?: RateCardSeasonInput[];
+  discountTiers?: RateCardDiscountTierInput[];
+  createdBy?: string;
+}
+
+export interface UpdateRateCardDto {
+  name?: string;
+  ratePerDay?: number;
+  minimumDays?: number | null;
+  weekdayMultipliers?: Partial<Record<Weekday, number>> | null;
+  description?: string;
+  isActive?: boolean;
+  // Replace the card's seasons / tiers when given
+  seasons?: RateCardSeasonInput[];
+  discountTiers?: RateCardDiscountTierInput[];
+  updatedBy?: string;
+}
+
+export interface RateCardListOptions {
+  page: number;
+  pageSize: number;
+  billboardId?: string;
+  zoneId?: string;
+  isActive?: boolean;
+}
+
+type Batch = [BatchItem<'pg'>, ...BatchItem<'pg'>[]];
+
+class RateCardService {
+  /**
+   * Throws on overlapping seasons or duplicate discount tiers
+   */
+  private assertRules(
+    seasons: Array<Pick<RateCardSeasonInput, 'name' | 'startDate' | 'endDate'>> = [],
+    discountTiers: Array<Pick<RateCardDiscountTierInput, 'minDays'>> = []
+  ) {
+    for (const season of seasons) {
+      if (season.startDate > season.endDate) {
+        throw new Error(`Cannot save season "${season.name}": end date is before start date`);
+      }
+    }
+
+    const sorted = [...seasons].sort((a, b) => a.startDate.localeCompare(b.startDate));
+    for (let i = 1; i < sorted.length; i++) {
+      if (sorted[i].startDate <= sorted[i - 1].endDate) {
+        throw new Error(`Cannot save overlapping seasons "${sorted[i - 1].name}" and "${sorted[i].name}"`);
+      }
+    }
+
+    const tierDays = new Set(discountTiers.map(tier => tier.minDays));
+    if (tierDays.size !== discountTiers.length) {
+      throw new Error('Cannot save two discount tiers with the same minimum days');
+    }
+  }
+
+  /**
+   * Only one active card per billboard or zone, so pricing is never ambiguous
+   */
+  private async assertNoActiveCard(target: { billboardId?: string | null; zoneId?: string | null }, excludeId?: string) {
+    const [existing] = await db
+      .select({ id: rateCards.id })
+      .from(rateCards)
+      .where(
+        and(
+          eq(rateCards.isActive, true),
+          target.billboardId ? eq(rateCards.billboardId, target.billboardId) : undefined,
+          target.zoneId ? eq(rateCards.zoneId, target.zoneId) : undefined,
+          excludeId ? ne(rateCards.id, excludeId) : undefined
+        )
+      )
+      .limit(1);
+
+    if (existing) {
+      throw new Error(`An active rate card already exists for this ${target.billboardId ? 'billboard' : 'zone'}`);
+    }
+  }
+
+  private ruleInserts(rateCardId: string, seasons?: RateCardSeasonInput[], discountTiers?: RateCardDiscountTierInput[]): BatchItem<'pg'>[] {
+    const queries: BatchItem<'pg'>[] = [];
+    if (seasons && seasons.length > 0) {
+      queries.push(
+        db.insert(rateCardSeasons).values(
+          seasons.map(season => ({
+            rateCardId,
+            name: season.name,
+            startDate: season.startDate,
+            endDate: season.endDate,
+            multiplier: season.multiplier.toString(),
+          }))
+        )
+      );
+    }
+    if (discountTiers && discountTiers.length > 0) {
+      queries.push(
+        db.insert(rateCardDiscountTiers).values(
+          discountTiers.map(tier => ({
+            rateCardId,
+            minDays: tier.minDays,
+            discountPercentage: tier.discountPercentage.toString(),
+          }))
+        )
+      );
+    }
+    return queries;
+  }
+
+  async getAllRateCards(options: RateCardListOptions) {
+    const { page, pageSize, billboardId, zoneId, isActive } = options;
+    const offset = (page - 1) * pageSize;
+
+    const conditions = [];
+    if (billboardId) conditions.push(eq(rateCards.billboardId, billboardId));
+    if (zoneId) conditions.push(eq(rateCards.zoneId, zoneId));
+    if (isActive !== undefined) conditions.push(eq(rateCards.isActive, isActive));
+
+    const whereCondition = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [data, countResult] = await Promise.all([
+      db
+        .select({
+          rateCard: rateCards,
+          billboard: {
+            id: billboards.id,
+            name: billboards.name,
+            code: billboards.code,
+          },
+          zone: {
+            id: zones.id,
+            name: zones.name,
+          },
+        })
+        .from(rateCards)
+        .leftJoin(billboards, eq(rateCards.billboardId, billboards.id))
+        .leftJoin(zones, eq(rateCards.zoneId, zones.id))
+        .where(whereCondition)
+        .orderBy(desc(rateCards.isActive), asc(rateCards.name))
+        .limit(pageSize)
+        .offset(offset),
+      db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(rateCards)
+        .where(whereCondition),
+    ]);
+
+    return {
+      data: data.map(row => ({
+        ...row.rateCard,
+        billboard: row.billboard,
+        zone: row.zone,
+      })),
+      pagination: {
+        page,
+        pageSize,
+        totalItems: countResult[0]?.count || 0,
+        totalPages: Math.ceil((countResult[0]?.count || 0) / pageSize),
+      },
+    };
+  }
+
+  async getRateCardById(id: string) {
+    const [result] = await db
+      .select({
+        rateCard: rateCards,
+        billboard: {
+          id: billboards.id,
+          name: billboards.name,
+          code: billboards.code,
+        },
+        zone: {
+          id: zones.id,
+          name: zones.name,
+        },
+      })
+      .from(rateCards)
+      .leftJoin(billboards, eq(rateCards.billboardId, billboards.id))
+      .leftJoin(zones, eq(rateCards.zoneId, zones.id))
+      .where(eq(rateCards.id, id))
+      .limit(1);
+
+    if (!result) return null;
+
+    const [seasons, discountTiers] = await Promise.all([
+      db
+        .select()
+        .from(rateCardSeasons)
+        .where(eq(rateCardSeasons.rateCardId, id))
+        .orderBy(asc(rateCardSeasons.startDate)),
+      db
+        .select()
+        .from(rateCardDiscountTiers)
+        .where(eq(rateCardDiscountTiers.rateCardId, id))
+        .orderBy(asc(rateCardDiscountTiers.minDays)),
+    ]);
+
+    return {
+      ...result.rateCard,
+      billboard: result.billboard,
+      zone: result.zone,
+      seasons,
+      discountTiers,
+    };
+  }
+
+  async createRateCard(data: CreateRateCardDto) {
+    if (!data.billboardId === !data.zoneId) {
+      throw new Error('Cannot create rate card: choose either a billboard or a zone');
+    }
+
+    if (data.billboardId) {
+      const [billboard] = await db.select({ id: billboards.id }).from(billboards).where(eq(billboards.id, data.billboardId)).limit(1);
+      if (!billboard) throw new Error('Billboard not found');
+    } else if (data.zoneId) {
+      const [zone] = await db.select({ id: zones.id }).from(zones).where(eq(zones.id, data.zoneId)).limit(1);
+      if (!zone) throw new Error('Zone not found');
+    }
+
+    this.assertRules(data.seasons, data.discountTiers);
+    await this.assertNoActiveCard(data);
+
+    // Card and rules are written in one transaction
+    const id = randomUUID();
+    const [[rateCard]] = await db.batch([
+      db
+        .insert(rateCards)
+        .values({
+          id,
+          name: data.name,
+          billboardId: data.billboardId || null,
+          zoneId: data.zoneId || null,
+          ratePerDay: data.ratePerDay.toString(),
+          minimumDays: data.minimumDays ?? null,
+          weekdayMultipliers: data.weekdayMultipliers ?? null,
+          description: data.description,
+          createdBy: data.createdBy,
+          updatedBy: data.createdBy,
+        })
+        .returning(),
+      ...this.ruleInserts(id, data.seasons, data.discountTiers),
+    ] as Batch);
+
+    await auditLogService.logCreate('rate_cards', 'rate_card', rateCard);
+    return this.getRateCardById(id);
+  }
+
+  async updateRateCard(id: string, data: UpdateRateCardDto) {
+    const existing = await this.getRateCardById(id);
+    if (!existing) {
+      throw new Error('Rate card not found');
+    }
+
+    this.assertRules(data.seasons ?? existing.seasons, data.discountTiers ?? existing.discountTiers);
+
+    if (data.isActive === true && !existing.isActive) {
+      await this.assertNoActiveCard(existing, id);
+    }
+
+    const updateData: Record<string, unknown> = {
+      updatedBy: data.updatedBy,
+      updatedAt: new Date(),
+    };
+
+    if (data.name !== undefined) updateData.name = data.name;
+    if (data.ratePerDay !== undefined) updateData.ratePerDay = data.ratePerDay.toString();
+    if (data.minimumDays !== undefined) updateData.minimumDays = data.minimumDays;
+    if (data.weekdayMultipliers !== undefined) updateData.weekdayMultipliers = data.weekdayMultipliers;
+    if (data.description !== undefined) updateData.description = data.description;
+    if (data.isActive !== undefined) updateData.isActive = data.isActive;
+
+    const [[rateCard]] = await db.batch([
+      db
+        .update(rateCards)
+        .set(updateData)
+        .where(eq(rateCards.id, id))
+        .returning(),
+      ...(data.seasons !== undefined ? [db.delete(rateCardSeasons).where(eq(rateCardSeasons.rateCardId, id))] : []),
+      ...(data.discountTiers !== undefined ? [db.delete(rateCardDiscountTiers).where(eq(rateCardDiscountTiers.rateCardId, id))] : []),
+      ...this.ruleInserts(id, data.seasons, data.discountTiers),
+    ] as Batch);
+
+    await auditLogService.logUpdate('rate_cards', 'rate_card', existing, rateCard);
+    return this.getRateCardById(id);
+  }
+
+  async deleteRateCard(id: string) {
+    const [deleted] = await db.delete(rateCards).where(eq(rateCards.id, id)).returning();
+    if (!deleted) {
+      throw new Error('Rate card not found');
+    }
+
+    await auditLogService.logDelete('rate_cards', 'rate_card', deleted);
+  }
+}
+
+export const rateCardService = new RateCardService();
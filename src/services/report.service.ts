@@ -0,0 +1,444 @@
+import { eq, and, lte, gte, inArray, asc, sql, type SQL } from 'drizzle-orm';
+import { db } from '../db/index.js';
+import {
+  invoices,
+  purchaseOrders,
+  bookings,
+  customers,
+  billboards,
+  landlords,
+  leaseAgreements,
+  rentPayables,
+  zones,
+  cities,
+  regions,
+} from '../db/schema/index.js';
+import { getCustomerScope } from '../utils/request-context.js';
+import { today } from '../utils/dates.js';
+import { PERIOD_MONTHS } from './lease.service.js';
+import type { PaymentFrequency } from './landlord.service.js';
+
+export type AgingBucket = 'notDue' | 'days0To30' | 'days31To60' | 'days61To90' | 'days90Plus';
+
+export interface AgingBuckets {
+  notDue: number;
+  days0To30: number;
+  days31To60: number;
+  days61To90: number;
+  days90Plus: number;
+  totalOutstanding: number;
+}
+
+export interface CustomerAging extends AgingBuckets {
+  customerId: string;
+  customerName: string;
+  invoiceCount: number;
+}
+
+export interface AgingInvoiceLine {
+  invoiceId: string;
+  invoiceNumber: string;
+  invoiceDate: string;
+  dueDate: string;
+  poNumber: string;
+  bookingReference: string;
+  billboardCode: string | null;
+  customerId: string;
+  customerName: string;
+  totalAmount: number;
+  amountPaid: number;
+  outstanding: number;
+  daysPastDue: number;
+  bucket: AgingBucket;
+  paymentStatus: string;
+}
+
+export interface ReceivablesAgingOptions {
+  asOfDate?: string;
+  customerId?: string;
+}
+
+export const PROFITABILITY_GROUPINGS = ['billboard', 'zone', 'city', 'region'] as const;
+export type ProfitabilityGrouping = (typeof PROFITABILITY_GROUPINGS)[number];
+
+export interface ProfitabilityOptions {
+  startDate: string;
+  endDate: string;
+  groupBy?: ProfitabilityGrouping;
+  regionId?: string;
+  cityId?: string;
+  zoneId?: string;
+}
+
+export interface ProfitabilityRow {
+  id: string;
+  code: string;
+  name: string;
+  zoneName: string | null;
+  cityName: string | null;
+  regionName: string | null;
+  billboardCount: number;
+  revenue: number;
+  cost: number;
+  margin: number;
+  marginPercentage: number | null;
+}
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+class ReportService {
+  private emptyBuckets(): AgingBuckets {
+    return {
+      notDue: 0,
+      days0To30: 0,
+      days31To60: 0,
+      days61To90: 0,
+      days90Plus: 0,
+      totalOutstanding: 0,
+    };
+  }
+
+  private getBucket(daysPastDue: number): AgingBucket {
+    if (daysPastDue < 0) return 'notDue';
+    if (daysPastDue <= 30) return 'days0To30';
+    if (daysPastDue <= 60) return 'days31To60';
+    if (daysPastDue <= 90) return 'days61To90';
+    return 'days90Plus';
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+
+  // Inclusive day count of the overlap between two date ranges (0 if they don't overlap)
+  private overlapDays(startDate: string, endDate: string, rangeStart: string, rangeEnd: string): number {
+    const start = Math.max(new Date(startDate).getTime(), new Date(rangeStart).getTime());
+    const end = Math.min(new Date(endDate).getTime(), new Date(rangeEnd).getTime());
+    return end < start ? 0 : Math.round((end - start) / MS_PER_DAY) + 1;
+  }
+
+  // Share of an amount spread evenly over a date range that falls inside the report period
+  private prorate(amount: number, rangeStart: string, rangeEnd: string, startDate: string, endDate: string): number {
+    const totalDays = this.overlapDays(rangeStart, rangeEnd, rangeStart, rangeEnd);
+    if (totalDays === 0) return 0;
+    return (amount * this.overlapDays(startDate, endDate, rangeStart, rangeEnd)) / totalDays;
+  }
+
+  private marginPercentage(revenue: number, margin: number): number | null {
+    return revenue > 0 ? this.round((margin / revenue) * 100) : null;
+  }
+
+  /**
+   * Outstanding invoice lines (unpaid or partially paid) as of a date, with days past due
+   */
+  async getReceivablesAgingLines(options: ReceivablesAgingOptions = {}): Promise<AgingInvoiceLine[]> {
+    const asOfDate = options.asOfDate || today();
+
+    const conditions = [
+      inArray(invoices.paymentStatus, ['unpaid', 'partially_paid']),
+      lte(invoices.invoiceDate, asOfDate),
+    ];
+    const customerId = getCustomerScope() ?? options.customerId;
+    if (customerId) {
+      conditions.push(eq(bookings.customerId, customerId));
+    }
+
+    const rows = await db
+      .select({
+        invoiceId: invoices.id,
+        invoiceNumber: invoices.invoiceNumber,
+        invoiceDate: invoices.invoiceDate,
+        dueDate: invoices.dueDate,
+        totalAmount: invoices.totalAmount,
+        amountPaid: invoices.amountPaid,
+        paymentStatus: invoices.paymentStatus,
+        poNumber: purchaseOrders.poNumber,
+        bookingReference: bookings.referenceCode,
+        billboardCode: billboards.code,
+        customerId: customers.id,
+        customerName: customers.name,
+      })
+      .from(invoices)
+      .innerJoin(purchaseOrders, eq(invoices.purchaseOrderId, purchaseOrders.id))
+      .innerJoin(bookings, eq(purchaseOrders.bookingId, bookings.id))
+      .innerJoin(customers, eq(bookings.customerId, customers.id))
+      .leftJoin(billboards, eq(bookings.billboardId, billboards.id))
+      .where(and(...conditions))
+      .orderBy(asc(customers.name), asc(invoices.dueDate));
+
+    const asOf = new Date(asOfDate).getTime();
+
+    return rows.map(row => {
+      const totalAmount = parseFloat(row.totalAmount);
+      const amountPaid = parseFloat(row.amountPaid);
+      const daysPastDue = Math.floor((asOf - new Date(row.dueDate).getTime()) / MS_PER_DAY);
+
+      return {
+        ...row,
+        totalAmount,
+        amountPaid,
+        outstanding: this.round(totalAmount - amountPaid),
+        daysPastDue,
+        bucket: this.getBucket(daysPastDue),
+      };
+    });
+  }
+
+  /**
+   * Accounts-receivable aging summarised per customer
+   */
+  async getReceivablesAging(options: ReceivablesAgingOptions = {}) {
+    const asOfDate = options.asOfDate || today();
+    const lines = await this.getReceivablesAgingLines({ ...options, asOfDate });
+
+    const byCustomer = new Map<string, CustomerAging>();
+    const totals = this.emptyBuckets();
+
+    for (const line of lines) {
+      let customer = byCustomer.get(line.customerId);
+      if (!customer) {
+        customer = {
+          customerId: line.customerId,
+          customerName: line.customerName,
+          invoiceCount: 0,
+          ...this.emptyBuckets(),
+        };
+        byCustomer.set(line.customerId, customer);
+      }
+
+      customer.invoiceCount += 1;
+      customer[line.bucket] = this.round(customer[line.bucket] + line.outstanding);
+      customer.totalOutstanding = this.round(customer.totalOutstanding + line.outstanding);
+
+      totals[line.bucket] = this.round(totals[line.bucket] + line.outstanding);
+      totals.totalOutstanding = this.round(totals.totalOutstanding + line.outstanding);
+    }
+
+    return {
+      asOfDate,
+      totals,
+      customers: Array.from(byCustomer.values()),
+    };
+  }
+
+  /**
+   * Drill-down for a single customer: bucket totals plus the invoice lines behind them
+   */
+  async getCustomerReceivablesAging(customerId: string, asOfDate?: string) {
+    const customerScope = getCustomerScope();
+    if (customerScope && customerScope !== customerId) {
+      throw new Error('Customer not found');
+    }
+
+    const [customer] = await db
+      .select({ id: customers.id, name: customers.name })
+      .from(customers)
+      .where(eq(customers.id, customerId))
+      .limit(1);
+
+    if (!customer) {
+      throw new Error('Customer not found');
+    }
+
+    const effectiveDate = asOfDate || today();
+    const lines = await this.getReceivablesAgingLines({ customerId, asOfDate: effectiveDate });
+
+    const totals = this.emptyBuckets();
+    for (const line of lines) {
+      totals[line.bucket] = this.round(totals[line.bucket] + line.outstanding);
+      totals.totalOutstanding = this.round(totals.totalOutstanding + line.outstanding);
+    }
+
+    return {
+      asOfDate: effectiveDate,
+      customer,
+      totals,
+      invoices: lines,
+    };
+  }
+
+  /**
+   * Revenue vs. site rent per billboard over a period, optionally rolled up to zone, city or region.
+   *
+   * Revenue is each purchase order's actual value spread evenly over its actual dates. Cost is the
+   * billboard's lease rent (each installment spread over its period); billboards with no lease rent
+   * in the period fall back to their landlord's rent, split evenly across the landlord's billboards.
+   */
+  async getProfitability(options: ProfitabilityOptions) {
+    const { startDate, endDate } = options;
+    const groupBy = options.groupBy ?? 'billboard';
+
+    if (endDate < startDate) {
+      throw new Error('Cannot report on a period whose end date is before its start date');
+    }
+
+    const conditions: SQL[] = [];
+    if (options.zoneId) conditions.push(eq(billboards.zoneId, options.zoneId));
+    if (options.cityId) conditions.push(eq(zones.cityId, options.cityId));
+    if (options.regionId) conditions.push(eq(cities.regionId, options.regionId));
+
+    const sites = await db
+      .select({
+        id: billboards.id,
+        code: billboards.code,
+        name: billboards.name,
+        landlordId: billboards.landlordId,
+        zoneId: zones.id,
+        zoneCode: zones.code,
+        zoneName: zones.name,
+        cityId: cities.id,
+        cityCode: cities.code,
+        cityName: cities.name,
+        regionId: regions.id,
+        regionCode: regions.code,
+        regionName: regions.name,
+      })
+      .from(billboards)
+      .innerJoin(zones, eq(billboards.zoneId, zones.id))
+      .innerJoin(cities, eq(zones.cityId, cities.id))
+      .innerJoin(regions, eq(cities.regionId, regions.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(billboards.code));
+
+    const totals = { revenue: 0, cost: 0, margin: 0, marginPercentage: null as number | null };
+    if (sites.length === 0) {
+      return { startDate, endDate, groupBy, totals, rows: [] as ProfitabilityRow[] };
+    }
+
+    const billboardIds = sites.map(site => site.id);
+    const revenueByBillboard = new Map<string, number>();
+    const costByBillboard = new Map<string, number>();
+    const addTo = (map: Map<string, number>, billboardId: string, amount: number) => {
+      map.set(billboardId, (map.get(billboardId) ?? 0) + amount);
+    };
+
+    const orders = await db
+      .select({
+        billboardId: bookings.billboardId,
+        actualStartDate: purchaseOrders.actualStartDate,
+        actualEndDate: purchaseOrders.actualEndDate,
+        actualValue: purchaseOrders.actualValue,
+      })
+      .from(purchaseOrders)
+      .innerJoin(bookings, eq(purchaseOrders.bookingId, bookings.id))
+      .where(and(
+        inArray(bookings.billboardId, billboardIds),
+        lte(purchaseOrders.actualStartDate, endDate),
+        gte(purchaseOrders.actualEndDate, startDate)
+      ));
+
+    for (const order of orders) {
+      addTo(revenueByBillboard, order.billboardId, this.prorate(
+        parseFloat(order.actualValue), order.actualStartDate, order.actualEndDate, startDate, endDate
+      ));
+    }
+
+    const installments = await db
+      .select({
+        billboardId: leaseAgreements.billboardId,
+        periodStart: rentPayables.periodStart,
+        periodEnd: rentPayables.periodEnd,
+        amount: rentPayables.amount,
+      })
+      .from(rentPayables)
+      .innerJoin(leaseAgreements, eq(rentPayables.leaseId, leaseAgreements.id))
+      .where(and(
+        inArray(leaseAgreements.billboardId, billboardIds),
+        lte(rentPayables.periodStart, endDate),
+        gte(rentPayables.periodEnd, startDate)
+      ));
+
+    for (const installment of installments) {
+      addTo(costByBillboard, installment.billboardId, this.prorate(
+        parseFloat(installment.amount), installment.periodStart, installment.periodEnd, startDate, endDate
+      ));
+    }
+
+    // Landlord rent for sites without a lease, shared across all of the landlord's billboards
+    const unleased = sites.filter(site => !costByBillboard.has(site.id));
+    const landlordIds = [...new Set(unleased.map(site => site.landlordId))];
+    if (landlordIds.length > 0) {
+      const [landlordRows, siteCounts] = await Promise.all([
+        db
+          .select({ id: landlords.id, rentAmount: landlords.rentAmount, paymentFrequency: landlords.paymentFrequency })
+          .from(landlords)
+          .where(and(inArray(landlords.id, landlordIds), eq(landlords.isActive, true))),
+        db
+          .select({ landlordId: billboards.landlordId, count: sql<number>`count(*)::int` })
+          .from(billboards)
+          .where(inArray(billboards.landlordId, landlordIds))
+          .groupBy(billboards.landlordId),
+      ]);
+
+      const countByLandlord = new Map(siteCounts.map(row => [row.landlordId, row.count]));
+      const days = this.overlapDays(startDate, endDate, startDate, endDate);
+
+      for (const landlord of landlordRows) {
+        const periodMonths = PERIOD_MONTHS[landlord.paymentFrequency as PaymentFrequency] ?? 1;
+        const dailyRent = (parseFloat(landlord.rentAmount) * (12 / periodMonths)) / 365;
+        const share = (dailyRent * days) / (countByLandlord.get(landlord.id) ?? 1);
+        for (const site of unleased) {
+          if (site.landlordId === landlord.id) {
+            addTo(costByBillboard, site.id, share);
+          }
+        }
+      }
+    }
+
+    const groups = new Map<string, ProfitabilityRow>();
+    for (const site of sites) {
+      const key = groupBy === 'billboard' ? site.id
+        : groupBy === 'zone' ? site.zoneId
+        : groupBy === 'city' ? site.cityId
+        : site.regionId;
+
+      let row = groups.get(key);
+      if (!row) {
+        const level = PROFITABILITY_GROUPINGS.indexOf(groupBy);
+        row = {
+          id: key,
+          code: groupBy === 'billboard' ? site.code
+            : groupBy === 'zone' ? site.zoneCode
+            : groupBy === 'city' ? site.cityCode
+            : site.regionCode,
+          name: groupBy === 'billboard' ? site.name
+            : groupBy === 'zone' ? site.zoneName
+            : groupBy === 'city' ? site.cityName
+            : site.regionName,
+          zoneName: level < 1 ? site.zoneName : null,
+          cityName: level < 2 ? site.cityName : null,
+          regionName: level < 3 ? site.regionName : null,
+          billboardCount: 0,
+          revenue: 0,
+          cost: 0,
+          margin: 0,
+          marginPercentage: null,
+        };
+        groups.set(key, row);
+      }
+
+      row.billboardCount += 1;
+      row.revenue += revenueByBillboard.get(site.id) ?? 0;
+      row.cost += costByBillboard.get(site.id) ?? 0;
+    }
+
+    const rows = Array.from(groups.values()).map(row => {
+      const revenue = this.round(row.revenue);
+      const cost = this.round(row.cost);
+      const margin = this.round(revenue - cost);
+      totals.revenue += revenue;
+      totals.cost += cost;
+      return { ...row, revenue, cost, margin, marginPercentage: this.marginPercentage(revenue, margin) };
+    });
+    rows.sort((a, b) => a.code.localeCompare(b.code));
+
+    totals.revenue = this.round(totals.revenue);
+    totals.cost = this.round(totals.cost);
+    totals.margin = this.round(totals.revenue - totals.cost);
+    totals.marginPercentage = this.marginPercentage(totals.revenue, totals.margin);
+
+    return { startDate, endDate, groupBy, totals, rows };
+  }
+}
+
+export const reportService = new ReportService();
@@ -0,0 +1,330 @@
+import { eq, and, asc, sql, inArray, ne, ilike } from 'drizzle-orm';
+import type { BatchItem } from 'drizzle-orm/batch';
+import { db } from '../db/index.js';
+import { roles, permissions, rolePermissions, userRoles } from '../db/schema/index.js';
+
+export interface CreateRoleDto {
+  name: string;
+  description?: string;
+  permissionIds?: string[];
+  createdBy?: string;
+}
+
+export interface UpdateRoleDto {
+  name?: string;
+  description?: string;
+  isActive?: boolean;
+  permissionIds?: string[];
+  updatedBy?: string;
+}
+
+export interface RoleListOptions {
+  search?: string;
+  isActive?: boolean;
+}
+
+// System roles must always keep this permission so they can't lock everyone out of role management
+const PROTECTED_SYSTEM_PERMISSION = 'roles.edit';
+
+type Batch = [BatchItem<'pg'>, ...BatchItem<'pg'>[]];
+
+class RoleService {
+  private async validatePermissionIds(permissionIds: string[]) {
+    const uniqueIds = [...new Set(permissionIds)];
+    if (uniqueIds.length === 0) return [];
+
+    const found = await db
+      .select({ id: permissions.id, name: permissions.name })
+      .from(permissions)
+      .where(inArray(permissions.id, uniqueIds));
+
+    if (found.length !== uniqueIds.length) {
+      throw new Error('One or more permissions not found');
+    }
+
+    return found;
+  }
+
+  private async resolveRolePermissions(role: { name: string; isSystem: boolean }, permissionIds: string[]) {
+    const found = await this.validatePermissionIds(permissionIds);
+
+    if (role.isSystem && !found.some(p => p.name === PROTECTED_SYSTEM_PERMISSION)) {
+      throw new Error(`Cannot remove ${PROTECTED_SYSTEM_PERMISSION} from system role "${role.name}"`);
+    }
+
+    return found;
+  }
+
+  // Delete and re-insert must go in the same batch, or a failed insert leaves the role with no permissions
+  private replacePermissions(id: string, found: { id: string }[]): BatchItem<'pg'>[] {
+    return [
+      db.delete(rolePermissions).where(eq(rolePermissions.roleId, id)),
+      ...(found.length > 0
+        ? [db.insert(rolePermissions).values(found.map(permission => ({ roleId: id, permissionId: permission.id })))]
+        : []),
+    ];
+  }
+
+  async getAllRoles(options: RoleListOptions = {}) {
+    const conditions = [];
+    if (options.search) {
+      conditions.push(ilike(roles.name, `%${options.search}%`));
+    }
+    if (options.isActive !== undefined) {
+      conditions.push(eq(roles.isActive, options.isActive));
+    }
+
+    return db
+      .select({
+        id: roles.id,
+        name: roles.name,
+        description: roles.description,
+        isSystem: roles.isSystem,
+        isActive: roles.isActive,
+        createdAt: roles.createdAt,
+        updatedAt: roles.updatedAt,
+        userCount: sql<number>`(SELECT count(*)::int FROM ${userRoles} WHERE ${userRoles.roleId} = ${roles.id})`,
+        permissionCount: sql<number>`(SELECT count(*)::int FROM ${rolePermissions} WHERE ${rolePermissions.roleId} = ${roles.id})`,
+      })
+      .from(roles)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(roles.name));
+  }
+
+  async getRoleById(id: string) {
+    const [role] = await db
+      .select()
+      .from(roles)
+      .where(eq(roles.id, id))
+      .limit(1);
+
+    if (!role) return null;
+
+    const rolePerms = await db
+      .select({
+        id: permissions.id,
+        name: permissions.name,
+        module: permissions.module,
+        action: permissions.action,
+        description: permissions.description,
+      })
+      .from(rolePermissions)
+      .innerJoin(permissions, eq(rolePermissions.permissionId, permissions.id))
+      .where(eq(rolePermissions.roleId, id))
+      .orderBy(asc(permissions.module), asc(permissions.action));
+
+    const [userCount] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(userRoles)
+      .where(eq(userRoles.roleId, id));
+
+    return {
+      ...role,
+      userCount: userCount?.count || 0,
+      permissions: rolePerms,
+    };
+  }
+
+  async getRoleByName(name: string, excludeId?: string) {
+    const conditions = [sql`lower(${roles.name}) = lower(${name})`];
+    if (excludeId) {
+      conditions.push(ne(roles.id, excludeId));
+    }
+
+    const [role] = await db
+      .select()
+      .from(roles)
+      .where(and(...conditions))
+      .limit(1);
+
+    return role || null;
+  }
+
+  async createRole(data: CreateRoleDto) {
+    const existing = await this.getRoleByName(data.name);
+    if (existing) {
+      throw new Error('Role with this name already exists');
+    }
+
+    await this.validatePermissionIds(data.permissionIds || []);
+
+    const [role] = await db
+      .insert(roles)
+      .values({
+        name: data.name,
+        description: data.description,
+        createdBy: data.createdBy,
+        updatedBy: data.createdBy,
+      })
+      .returning();
+
+    if (data.permissionIds && data.permissionIds.length > 0) {
+      await this.setRolePermissions(role.id, data.permissionIds, data.createdBy);
+    }
+
+    return this.getRoleById(role.id);
+  }
+
+  async updateRole(id: string, data: UpdateRoleDto) {
+    const existing = await this.getRoleById(id);
+    if (!existing) {
+      throw new Error('Role not found');
+    }
+
+    if (existing.isSystem) {
+      if (data.name !== undefined && data.name !== existing.name) {
+        throw new Error('Cannot rename a system role');
+      }
+      if (data.isActive === false) {
+        throw new Error('Cannot deactivate a system role');
+      }
+    }
+
+    if (data.name && data.name !== existing.name) {
+      const duplicate = await this.getRoleByName(data.name, id);
+      if (duplicate) {
+        throw new Error('Role with this name already exists');
+      }
+    }
+
+    const found = data.permissionIds !== undefined
+      ? await this.resolveRolePermissions(existing, data.permissionIds)
+      : undefined;
+
+    const updateData: Record<string, unknown> = {
+      updatedBy: data.updatedBy,
+      updatedAt: new Date(),
+    };
+
+    if (data.name !== undefined) updateData.name = data.name;
+    if (data.description !== undefined) updateData.description = data.description;
+    if (data.isActive !== undefined) updateData.isActive = data.isActive;
+
+    await db.batch([
+      db
+        .update(roles)
+        .set(updateData)
+        .where(eq(roles.id, id)),
+      ...(found ? this.replacePermissions(id, found) : []),
+    ] as Batch);
+
+    return this.getRoleById(id);
+  }
+
+  async deleteRole(id: string) {
+    const existing = await this.getRoleById(id);
+    if (!existing) {
+      throw new Error('Role not found');
+    }
+
+    if (existing.isSystem) {
+      throw new Error('Cannot delete a system role');
+    }
+
+    if (existing.userCount > 0) {
+      throw new Error(`Cannot delete role assigned to ${existing.userCount} user(s). Reassign the users first.`);
+    }
+
+    await db.delete(roles).where(eq(roles.id, id));
+    return true;
+  }
+
+  /**
+   * Replace the full set of permissions assigned to a role
+   */
+  async setRolePermissions(id: string, permissionIds: string[], updatedBy?: string) {
+    const [role] = await db
+      .select()
+      .from(roles)
+      .where(eq(roles.id, id))
+      .limit(1);
+
+    if (!role) {
+      throw new Error('Role not found');
+    }
+
+    const found = await this.resolveRolePermissions(role, permissionIds);
+
+    await db.batch([
+      db
+        .update(roles)
+        .set({ updatedBy, updatedAt: new Date() })
+        .where(eq(roles.id, id)),
+      ...this.replacePermissions(id, found),
+    ] as Batch);
+
+    return this.getRoleById(id);
+  }
+
+  /**
+   * All permissions grouped by module
+   */
+  async getPermissionsByModule() {
+    const allPermissions = await db
+      .select({
+        id: permissions.id,
+        name: permissions.name,
+        module: permissions.module,
+        action: permissions.action,
+        description: permissions.description,
+      })
+      .from(permissions)
+      .orderBy(asc(permissions.module), asc(permissions.action));
+
+    const modules = new Map<string, typeof allPermissions>();
+    for (const permission of allPermissions) {
+      const list = modules.get(permission.module) || [];
+      list.push(permission);
+      modules.set(permission.module, list);
+    }
+
+    return Array.from(modules.entries()).map(([module, modulePermissions]) => ({
+      module,
+      permissions: modulePermissions,
+    }));
+  }
+
+  /**
+   * Roles x permissions matrix, grouped by module, with the role IDs granted each permission
+   */
+  async getPermissionMatrix() {
+    const [allRoles, modules, assignments] = await Promise.all([
+      db
+        .select({
+          id: roles.id,
+          name: roles.name,
+          isSystem: roles.isSystem,
+          isActive: roles.isActive,
+        })
+        .from(roles)
+        .orderBy(asc(roles.name)),
+      this.getPermissionsByModule(),
+      db
+        .select({
+          roleId: rolePermissions.roleId,
+          permissionId: rolePermissions.permissionId,
+        })
+        .from(rolePermissions),
+    ]);
+
+    const rolesByPermission = new Map<string, string[]>();
+    for (const assignment of assignments) {
+      const list = rolesByPermission.get(assignment.permissionId) || [];
+      list.push(assignment.roleId);
+      rolesByPermission.set(assignment.permissionId, list);
+    }
+
+    return {
+      roles: allRoles,
+      modules: modules.map(group => ({
+        module: group.module,
+        permissions: group.permissions.map(permission => ({
+          ...permission,
+          roleIds: rolesByPermission.get(permission.id) || [],
+        })),
+      })),
+    };
+  }
+}
+
+export const roleService = new RoleService();
@@ -1,4 +1,4 @@
-import { eq, and, sql as drizzleSql } from 'drizzle-orm';
+import { eq, and } from 'drizzle-orm';
 import { db, sql } from '../db/index.js';
 import { sequences, SEQUENCE_PREFIXES, type SequenceEntityType } from '../db/schema/index.js';
 
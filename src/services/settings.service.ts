@@ -0,0 +1,44 @@
+import { eq } from 'drizzle-orm';
+import { db } from '../db/index.js';
+import { systemSettings } from '../db/schema/index.js';
+import type { CompanyInfo } from './pdf.service.js';
+
+interface CompanyInfoSetting {
+  name?: string;
+  address?: string;
+  phone?: string;
+  email?: string;
+  gst_number?: string;
+  pan_number?: string;
+}
+
+class SettingsService {
+  async getValue<T = Record<string, unknown>>(key: string): Promise<T | null> {
+    const [setting] = await db
+      .select({ value: systemSettings.value })
+      .from(systemSettings)
+      .where(eq(systemSettings.key, key))
+      .limit(1);
+
+    return (setting?.value as T) ?? null;
+  }
+
+  /**
+   * Seller details from the company_info setting, with blank fields left unset
+   */
+  async getCompanyInfo(): Promise<CompanyInfo | null> {
+    const setting = await this.getValue<CompanyInfoSetting>('company_info');
+    if (!setting) return null;
+
+    return {
+      name: setting.name || '',
+      address: setting.address || '',
+      phone: setting.phone || '',
+      email: setting.email || '',
+      gstNumber: setting.gst_number || undefined,
+      panNumber: setting.pan_number || undefined,
+    };
+  }
+}
+
+export const settingsService = new SettingsService();
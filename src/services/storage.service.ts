@@ -0,0 +1,169 @@
+import { createHash, createHmac } from 'node:crypto';
+import { mkdir, readFile, writeFile, rm } from 'node:fs/promises';
+import path from 'node:path';
+import { config } from '../config/index.js';
+
+/**
+ * Backend for uploaded files. Keys are relative paths like "audit-media/<bookingId>/<file>".
+ */
+export interface StorageDriver {
+  // Recorded alongside each file so we know where it was written
+  readonly bucket: string;
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>;
+}
+
+class LocalStorageDriver implements StorageDriver {
+  readonly bucket = 'local';
+  private root: string;
+
+  constructor(rootPath: string) {
+    this.root = path.resolve(rootPath);
+  }
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error('Invalid storage key');
+    }
+    return filePath;
+  }
+
+  async put(key: string, body: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, body);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    try {
+      return await readFile(this.resolve(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new Error('Stored file not found');
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.resolve(key), { force: true });
+  }
+}
+
+const sha256 = (value: string | Buffer): string => createHash('sha256').update(value).digest('hex');
+const hmac = (key: string | Buffer, value: string): Buffer => createHmac('sha256', key).update(value).digest();
+
+/**
+ * S3 backend using signed (SigV4) REST requests, so no AWS SDK is needed
+ */
+class S3StorageDriver implements StorageDriver {
+  readonly bucket: string;
+
+  constructor(
+    bucket: string,
+    private region: string,
+    private accessKeyId: string,
+    private secretAccessKey: string
+  ) {
+    this.bucket = bucket;
+  }
+
+  private async request(method: 'GET' | 'PUT' | 'DELETE', key: string, body?: Buffer, contentType?: string) {
+    const host = `${this.bucket}.s3.${this.region}.amazonaws.com`;
+    const canonicalPath = '/' + key.split('/').map(encodeURIComponent).join('/');
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const payloadHash = sha256(body ?? '');
+
+    const headers: Record<string, string> = {
+      host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+    };
+    if (contentType) headers['content-type'] = contentType;
+
+    const headerNames = Object.keys(headers).sort();
+    const canonicalHeaders = headerNames.map(name => `${name}:${headers[name]}\n`).join('');
+    const signedHeaders = headerNames.join(';');
+
+    const canonicalRequest = [method, canonicalPath, '', canonicalHeaders, signedHeaders, payloadHash].join('\n');
+    const scope = `${dateStamp}/${this.region}/s3/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+
+    const signingKey = hmac(hmac(hmac(hmac(`AWS4${this.secretAccessKey}`, dateStamp), this.region), 's3'), 'aws4_request');
+    const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    // fetch sets Host itself from the URL
+    const requestHeaders = { ...headers };
+    delete requestHeaders.host;
+
+    return fetch(`https://${host}${canonicalPath}`, {
+      method,
+      headers: {
+        ...requestHeaders,
+        Authorization: `AWS4-HMAC-SHA256 Credential=${this.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+      },
+      body: body ? new Uint8Array(body) : undefined,
+    });
+  }
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    const response = await this.request('PUT', key, body, contentType);
+    if (!response.ok) {
+      throw new Error(`S3 upload failed with status ${response.status}`);
+    }
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const response = await this.request('GET', key);
+    if (response.status === 404) {
+      throw new Error('Stored file not found');
+    }
+    if (!response.ok) {
+      throw new Error(`S3 download failed with status ${response.status}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.request('DELETE', key);
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`S3 delete failed with status ${response.status}`);
+    }
+  }
+}
+
+const createStorageDriver = (): StorageDriver => {
+  if (config.storage.driver === 's3') {
+    const { s3BucketName, region, accessKeyId, secretAccessKey } = config.aws;
+    if (!s3BucketName || !accessKeyId || !secretAccessKey) {
+      throw new Error('S3 storage requires S3_BUCKET_NAME, AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY');
+    }
+    return new S3StorageDriver(s3BucketName, region, accessKeyId, secretAccessKey);
+  }
+
+  return new LocalStorageDriver(config.storage.localPath);
+};
+
+export const storageService: StorageDriver = createStorageDriver();
+
+/**
+ * Driver for a file recorded against the given bucket. Files written before a driver or bucket change
+ * are still read and deleted where they were written ('local' is the local driver, anything else an S3 bucket).
+ */
+export const getStorageForBucket = (bucket: string): StorageDriver => {
+  if (bucket === storageService.bucket) {
+    return storageService;
+  }
+  if (bucket === 'local') {
+    return new LocalStorageDriver(config.storage.localPath);
+  }
+
+  const { region, accessKeyId, secretAccessKey } = config.aws;
+  if (!accessKeyId || !secretAccessKey) {
+    throw new Error(`Cannot access bucket "${bucket}": AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY are not set`);
+  }
+  return new S3StorageDriver(bucket, region, accessKeyId, secretAccessKey);
+};
@@ -1,6 +1,7 @@
 import { eq, ilike, and, desc, asc, sql } from 'drizzle-orm';
 import { db } from '../db/index.js';
-import { taxes } from '../db/schema/index.js';
+import { taxes, invoices } from '../db/schema/index.js';
+import { auditLogService } from './audit-log.service.js';
 
 export interface CreateTaxDto {
   name: string;
@@ -105,10 +106,14 @@ class TaxService {
         updatedBy: data.createdBy,
       })
       .returning();
+
+    await auditLogService.logCreate('taxes', 'tax', tax);
     return tax;
   }
 
   async updateTax(id: string, data: UpdateTaxDto) {
+    const before = await this.getTaxById(id);
+
     const updateData: Record<string, unknown> = {
       updatedBy: data.updatedBy,
       updatedAt: new Date(),
@@ -125,12 +130,28 @@ class TaxService {
       .set(updateData)
       .where(eq(taxes.id, id))
       .returning();
+
+    if (before && tax) {
+      await auditLogService.logUpdate('taxes', 'tax', before, tax);
+    }
     return tax;
   }
 
   async deleteTax(id: string) {
-    // TODO: Check if tax is used in any invoices before deleting
-    await db.delete(taxes).where(eq(taxes.id, id));
+    // Check if tax is used in any invoices
+    const [invoiceCount] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(invoices)
+      .where(eq(invoices.taxId, id));
+
+    if (invoiceCount.count > 0) {
+      throw new Error('Cannot delete tax that is used in invoices. Deactivate it instead.');
+    }
+
+    const [deleted] = await db.delete(taxes).where(eq(taxes.id, id)).returning();
+    if (deleted) {
+      await auditLogService.logDelete('taxes', 'tax', deleted);
+    }
   }
 
   async getTaxesForDropdown() {
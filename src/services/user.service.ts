@@ -0,0 +1,346 @@
+import { eq, and, desc, asc, sql, inArray, ne } from 'drizzle-orm';
+import { db } from '../db/index.js';
+import { users, userRoles, roles, customers } from '../db/schema/index.js';
+import { authService } from './auth.service.js';
+
+export interface CreateUserDto {
+  email: string;
+  password: string;
+  firstName: string;
+  lastName: string;
+  phone?: string;
+  isCustomer?: boolean;
+  customerId?: string;
+  roleIds?: string[];
+  createdBy?: string;
+}
+
+export interface UpdateUserDto {
+  email?: string;
+  firstName?: string;
+  lastName?: string;
+  phone?: string;
+  isCustomer?: boolean;
+  customerId?: string | null;
+  roleIds?: string[];
+  isActive?: boolean;
+  updatedBy?: string;
+}
+
+export interface UserPaginationOptions {
+  page: number;
+  pageSize: number;
+  sortBy?: string;
+  sortOrder?: 'asc' | 'desc';
+  search?: string;
+  roleId?: string;
+  isActive?: boolean;
+  isCustomer?: boolean;
+}
+
+// Never select passwordHash outside of auth flows
+const userColumns = {
+  id: users.id,
+  email: users.email,
+  firstName: users.firstName,
+  lastName: users.lastName,
+  phone: users.phone,
+  isActive: users.isActive,
+  isCustomer: users.isCustomer,
+  customerId: users.customerId,
+  lastLoginAt: users.lastLoginAt,
+  createdAt: users.createdAt,
+  updatedAt: users.updatedAt,
+};
+
+class UserService {
+  private async getRolesForUsers(userIds: string[]) {
+    const rolesByUser = new Map<string, { id: string; name: string }[]>();
+    if (userIds.length === 0) return rolesByUser;
+
+    const rows = await db
+      .select({
+        userId: userRoles.userId,
+        id: roles.id,
+        name: roles.name,
+      })
+      .from(userRoles)
+      .innerJoin(roles, eq(userRoles.roleId, roles.id))
+      .where(inArray(userRoles.userId, userIds))
+      .orderBy(asc(roles.name));
+
+    for (const row of rows) {
+      const list = rolesByUser.get(row.userId) || [];
+      list.push({ id: row.id, name: row.name });
+      rolesByUser.set(row.userId, list);
+    }
+
+    return rolesByUser;
+  }
+
+  private async validateRoleIds(roleIds: string[]) {
+    if (roleIds.length === 0) return;
+
+    const found = await db
+      .select({ id: roles.id })
+      .from(roles)
+      .where(inArray(roles.id, roleIds));
+
+    if (found.length !== new Set(roleIds).size) {
+      throw new Error('One or more roles not found');
+    }
+  }
+
+  private async validateCustomer(isCustomer: boolean, customerId?: string | null) {
+    if (!isCustomer) return;
+
+    if (!customerId) {
+      throw new Error('Customer users must be linked to a customer');
+    }
+
+    const [customer] = await db
+      .select({ id: customers.id })
+      .from(customers)
+      .where(eq(customers.id, customerId))
+      .limit(1);
+
+    if (!customer) {
+      throw new Error('Customer not found');
+    }
+  }
+
+  private async replaceRoles(userId: string, roleIds: string[], assignedBy?: string) {
+    const remove = db.delete(userRoles).where(eq(userRoles.userId, userId));
+
+    const uniqueRoleIds = [...new Set(roleIds)];
+    if (uniqueRoleIds.length === 0) {
+      await remove;
+      return;
+    }
+
+    // One transaction, so a failed insert never leaves the user without roles
+    await db.batch([
+      remove,
+      db.insert(userRoles).values(
+        uniqueRoleIds.map(roleId => ({
+          userId,
+          roleId,
+          assignedBy,
+        }))
+      ),
+    ]);
+  }
+
+
+  async getAllUsers(options: UserPaginationOptions) {
+    const { page, pageSize, sortBy = 'createdAt', sortOrder = 'desc', search, roleId, isActive, isCustomer } = options;
+    const offset = (page - 1) * pageSize;
+
+    const conditions = [];
+    if (search) {
+      conditions.push(
+        sql`(${users.email} ILIKE ${'%' + search + '%'} OR ${users.firstName} ILIKE ${'%' + search + '%'} OR ${users.lastName} ILIKE ${'%' + search + '%'} OR (${users.firstName} || ' ' || ${users.lastName}) ILIKE ${'%' + search + '%'})`
+      );
+    }
+    if (roleId) {
+      conditions.push(
+        sql`EXISTS (SELECT 1 FROM ${userRoles} WHERE ${userRoles.userId} = ${users.id} AND ${userRoles.roleId} = ${roleId})`
+      );
+    }
+    if (isActive !== undefined) {
+      conditions.push(eq(users.isActive, isActive));
+    }
+    if (isCustomer !== undefined) {
+      conditions.push(eq(users.isCustomer, isCustomer));
+    }
+
+    const whereCondition = conditions.length > 0 ? and(...conditions) : undefined;
+
+    let orderByColumn;
+    switch (sortBy) {
+      case 'email':
+        orderByColumn = users.email;
+        break;
+      case 'firstName':
+        orderByColumn = users.firstName;
+        break;
+      case 'lastName':
+        orderByColumn = users.lastName;
+        break;
+      case 'lastLoginAt':
+        orderByColumn = users.lastLoginAt;
+        break;
+      default:
+        orderByColumn = users.createdAt;
+    }
+    const orderBy = sortOrder === 'desc' ? desc(orderByColumn) : asc(orderByColumn);
+
+    const [data, countResult] = await Promise.all([
+      db
+        .select({
+          ...userColumns,
+          customerName: customers.name,
+        })
+        .from(users)
+        .leftJoin(customers, eq(users.customerId, customers.id))
+        .where(whereCondition)
+        .orderBy(orderBy)
+        .limit(pageSize)
+        .offset(offset),
+      db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(users)
+        .where(whereCondition),
+    ]);
+
+    const rolesByUser = await this.getRolesForUsers(data.map(u => u.id));
+
+    return {
+      data: data.map(user => ({
+        ...user,
+        roles: rolesByUser.get(user.id) || [],
+      })),
+      pagination: {
+        page,
+        pageSize,
+        totalItems: countResult[0]?.count || 0,
+        totalPages: Math.ceil((countResult[0]?.count || 0) / pageSize),
+      },
+    };
+  }
+
+  async getUserById(id: string) {
+    const [user] = await db
+      .select({
+        ...userColumns,
+        customerName: customers.name,
+      })
+      .from(users)
+      .leftJoin(customers, eq(users.customerId, customers.id))
+      .where(eq(users.id, id))
+      .limit(1);
+
+    if (!user) return null;
+
+    const { permissions } = await authService.getUserWithPermissions(id);
+    const rolesByUser = await this.getRolesForUsers([id]);
+
+    return {
+      ...user,
+      roles: rolesByUser.get(id) || [],
+      permissions,
+    };
+  }
+
+  async createUser(data: CreateUserDto) {
+    const isCustomer = data.isCustomer ?? false;
+    await this.validateCustomer(isCustomer, data.customerId);
+    await this.validateRoleIds(data.roleIds || []);
+
+    const user = await authService.createUser({
+      ...data,
+      roleIds: data.roleIds ? [...new Set(data.roleIds)] : undefined,
+      customerId: isCustomer ? data.customerId : undefined,
+    });
+
+    return this.getUserById(user.id);
+  }
+
+  async updateUser(id: string, data: UpdateUserDto) {
+    const [existing] = await db
+      .select(userColumns)
+      .from(users)
+      .where(eq(users.id, id))
+      .limit(1);
+
+    if (!existing) {
+      throw new Error('User not found');
+    }
+
+    if (data.isActive === false && id === data.updatedBy) {
+      throw new Error('Cannot deactivate your own account');
+    }
+
+    if (data.email && data.email.toLowerCase() !== existing.email) {
+      const [duplicate] = await db
+        .select({ id: users.id })
+        .from(users)
+        .where(and(eq(users.email, data.email.toLowerCase()), ne(users.id, id)))
+        .limit(1);
+
+      if (duplicate) {
+        throw new Error('Email already registered');
+      }
+    }
+
+    const isCustomer = data.isCustomer ?? existing.isCustomer;
+    const customerId = data.customerId !== undefined ? data.customerId : existing.customerId;
+    await this.validateCustomer(isCustomer, customerId);
+
+    if (data.roleIds !== undefined) {
+      await this.validateRoleIds(data.roleIds);
+    }
+
+    const updateData: Record<string, unknown> = {
+      updatedBy: data.updatedBy,
+      updatedAt: new Date(),
+    };
+
+    if (data.email !== undefined) updateData.email = data.email.toLowerCase();
+    if (data.firstName !== undefined) updateData.firstName = data.firstName;
+    if (data.lastName !== undefined) updateData.lastName = data.lastName;
+    if (data.phone !== undefined) updateData.phone = data.phone;
+    if (data.isActive !== undefined) updateData.isActive = data.isActive;
+    if (data.isCustomer !== undefined || data.customerId !== undefined) {
+      updateData.isCustomer = isCustomer;
+      updateData.customerId = isCustomer ? customerId : null;
+    }
+
+    await db
+      .update(users)
+      .set(updateData)
+      .where(eq(users.id, id));
+
+    if (data.roleIds !== undefined) {
+      await this.replaceRoles(id, data.roleIds, data.updatedBy);
+    }
+
+    // Deactivated users must not be able to refresh their session
+    if (data.isActive === false && existing.isActive) {
+      await authService.logoutAll(id);
+    }
+
+    return this.getUserById(id);
+  }
+
+  async deactivateUser(id: string, updatedBy?: string) {
+    const [existing] = await db
+      .select({ id: users.id, isActive: users.isActive })
+      .from(users)
+      .where(eq(users.id, id))
+      .limit(1);
+
+    if (!existing) {
+      throw new Error('User not found');
+    }
+
+    if (id === updatedBy) {
+      throw new Error('Cannot deactivate your own account');
+    }
+
+    await db
+      .update(users)
+      .set({ isActive: false, updatedBy, updatedAt: new Date() })
+      .where(eq(users.id, id));
+
+    await authService.logoutAll(id);
+
+    return this.getUserById(id);
+  }
+
+  async resetPassword(id: string, newPassword: string, updatedBy?: string) {
+    await authService.resetPassword(id, newPassword, updatedBy);
+  }
+}
+
+export const userService = new UserService();
@@ -0,0 +1,359 @@
+import { eq, and, desc, sql, lte, gte, inArray } from 'drizzle-orm';
+import { db } from '../db/index.js';
+import { waitlistEntries, billboards, customers } from '../db/schema/index.js';
+import { bookingService } from './booking.service.js';
+import { notificationService } from './notification.service.js';
+import { auditLogService } from './audit-log.service.js';
+import { getCustomerScope } from '../utils/request-context.js';
+import { today } from '../utils/dates.js';
+
+export const WAITLIST_STATUSES = ['waiting', 'notified', 'fulfilled', 'cancelled'] as const;
+export type WaitlistStatus = typeof WAITLIST_STATUSES[number];
+
+// Notified is set only when inventory frees up
+const WAITLIST_TRANSITIONS: Record<WaitlistStatus, WaitlistStatus[]> = {
+  waiting: ['cancelled'],
+  notified: ['waiting', 'fulfilled', 'cancelled'],
+  fulfilled: [],
+  cancelled: [],
+};
+
+export interface CreateWaitlistEntryDto {
+  customerId: string;
+  billboardId: string;
+  slotNumber?: number;
+  // Without a slot number, any run of this many consecutive slots will do
+  slotQuantity?: number;
+  startDate: string;
+  endDate: string;
+  notes?: string;
+  createdBy?: string;
+}
+
+export interface WaitlistPaginationOptions {
+  page: number;
+  pageSize: number;
+  customerId?: string;
+  billboardId?: string;
+  status?: string;
+}
+
+type WaitlistCandidate = Pick<
+  typeof waitlistEntries.$inferSelect,
+  'id' | 'customerId' | 'billboardId' | 'slotNumber' | 'slotQuantity' | 'startDate' | 'endDate' | 'createdBy'
+>;
+
+class WaitlistService {
+  /**
+   * Whether the customer could book the entry's billboard and slots right now
+   */
+  private async isAvailable(entry: Omit<WaitlistCandidate, 'id' | 'createdBy'>): Promise<boolean> {
+    const [billboard] = await db
+      .select()
+      .from(billboards)
+      .where(eq(billboards.id, entry.billboardId))
+      .limit(1);
+
+    if (!billboard) {
+      throw new Error('Billboard not found');
+    }
+
+    try {
+      const slots = await bookingService.resolveSlots(billboard, entry);
+      const availability = await bookingService.checkAvailability({
+        billboardId: entry.billboardId,
+        startDate: entry.startDate,
+        endDate: entry.endDate,
+        slotNumber: slots?.slotNumber,
+        slotQuantity: slots?.slotQuantity,
+        customerId: entry.customerId,
+      });
+      return availability.available;
+    } catch (error) {
+      // No free run of slots for a quantity-only entry
+      if (error instanceof Error && error.message.includes('not available')) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Move waiting entries whose range is free to "notified" and tell whoever added them. Entries are
+   * claimed with a conditional update so concurrent checks notify once.
+   */
+  private async notifyAvailable(entries: WaitlistCandidate[]) {
+    const notified: string[] = [];
+    for (const entry of entries) {
+      try {
+        if (!(await this.isAvailable(entry))) continue;
+
+        const [claimed] = await db
+          .update(waitlistEntries)
+          .set({ status: 'notified', notifiedAt: new Date(), updatedAt: new Date() })
+          .where(and(eq(waitlistEntries.id, entry.id), eq(waitlistEntries.status, 'waiting')))
+          .returning();
+
+        if (!claimed) continue;
+        notified.push(claimed.id);
+
+        if (entry.createdBy) {
+          const [details] = await db
+            .select({ customerName: customers.name, billboardName: billboards.name, billboardCode: billboards.code })
+            .from(waitlistEntries)
+            .leftJoin(customers, eq(waitlistEntries.customerId, customers.id))
+            .leftJoin(billboards, eq(waitlistEntries.billboardId, billboards.id))
+            .where(eq(waitlistEntries.id, entry.id))
+            .limit(1);
+
+          await notificationService.createNotification({
+            userId: entry.createdBy,
+            type: 'waitlist_available',
+            title: `${details?.billboardName ?? 'Billboard'} is available`,
+            message: `${details?.billboardName ?? 'The billboard'} (${details?.billboardCode ?? '-'}) is now free from ${entry.startDate} to ${entry.endDate} for ${details?.customerName ?? 'the waitlisted customer'}.`,
+            entityType: 'waitlist_entry',
+            entityId: entry.id,
+          });
+        }
+      } catch (error) {
+        console.error(`Waitlist check failed for entry ${entry.id}:`, error);
+      }
+    }
+    return notified;
+  }
+
+  async getAllEntries(options: WaitlistPaginationOptions) {
+    const { page, pageSize, billboardId, status } = options;
+    const offset = (page - 1) * pageSize;
+    const customerId = getCustomerScope() ?? options.customerId;
+
+    const conditions = [];
+    if (customerId) {
+      conditions.push(eq(waitlistEntries.customerId, customerId));
+    }
+    if (billboardId) {
+      conditions.push(eq(waitlistEntries.billboardId, billboardId));
+    }
+    if (status) {
+      conditions.push(eq(waitlistEntries.status, status));
+    }
+
+    const whereCondition = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [data, countResult] = await Promise.all([
+      db
+        .select({
+          entry: waitlistEntries,
+          customer: {
+            id: customers.id,
+            name: customers.name,
+          },
+          billboard: {
+            id: billboards.id,
+            name: billboards.name,
+            code: billboards.code,
+            type: billboards.type,
+          },
+        })
+        .from(waitlistEntries)
+        .leftJoin(customers, eq(waitlistEntries.customerId, customers.id))
+        .leftJoin(billboards, eq(waitlistEntries.billboardId, billboards.id))
+        .where(whereCondition)
+        .orderBy(desc(waitlistEntries.notifiedAt), desc(waitlistEntries.createdAt))
+        .limit(pageSize)
+        .offset(offset),
+      db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(waitlistEntries)
+        .where(whereCondition),
+    ]);
+
+    return {
+      data: data.map(row => ({
+        ...row.entry,
+        customer: row.customer,
+        billboard: row.billboard,
+      })),
+      pagination: {
+        page,
+        pageSize,
+        totalItems: countResult[0]?.count || 0,
+        totalPages: Math.ceil((countResult[0]?.count || 0) / pageSize),
+      },
+    };
+  }
+
+  async getEntryById(id: string) {
+    const customerScope = getCustomerScope();
+
+    const [result] = await db
+      .select({
+        entry: waitlistEntries,
+        customer: {
+          id: customers.id,
+          name: customers.name,
+        },
+        billboard: {
+          id: billboards.id,
+          name: billboards.name,
+          code: billboards.code,
+          type: billboards.type,
+        },
+      })
+      .from(waitlistEntries)
+      .leftJoin(customers, eq(waitlistEntries.customerId, customers.id))
+      .leftJoin(billboards, eq(waitlistEntries.billboardId, billboards.id))
+      .where(and(eq(waitlistEntries.id, id), customerScope ? eq(waitlistEntries.customerId, customerScope) : undefined))
+      .limit(1);
+
+    if (!result) return null;
+
+    return {
+      ...result.entry,
+      customer: result.customer,
+      billboard: result.billboard,
+    };
+  }
+
+  async createEntry(data: CreateWaitlistEntryDto) {
+    const customerScope = getCustomerScope();
+    if (customerScope && data.customerId !== customerScope) {
+      throw new Error('Cannot add another customer to the waitlist');
+    }
+
+    if (data.startDate > data.endDate) {
+      throw new Error('Cannot join waitlist: end date is before start date');
+    }
+
+    const [customer] = await db.select({ id: customers.id }).from(customers).where(eq(customers.id, data.customerId)).limit(1);
+    if (!customer) {
+      throw new Error('Customer not found');
+    }
+
+    const entry = {
+      customerId: data.customerId,
+      billboardId: data.billboardId,
+      slotNumber: data.slotNumber ?? null,
+      slotQuantity: data.slotQuantity ?? null,
+      startDate: data.startDate,
+      endDate: data.endDate,
+    };
+
+    // Only a booked-out range can be waitlisted
+    if (await this.isAvailable(entry)) {
+      throw new Error('Cannot join waitlist: billboard is available for the selected dates');
+    }
+
+    const [existing] = await db
+      .select({ id: waitlistEntries.id })
+      .from(waitlistEntries)
+      .where(
+        and(
+          eq(waitlistEntries.customerId, data.customerId),
+          eq(waitlistEntries.billboardId, data.billboardId),
+          eq(waitlistEntries.startDate, data.startDate),
+          eq(waitlistEntries.endDate, data.endDate),
+          inArray(waitlistEntries.status, ['waiting', 'notified'])
+        )
+      )
+      .limit(1);
+
+    if (existing) {
+      throw new Error('A waitlist entry already exists for this customer, billboard and period');
+    }
+
+    const [created] = await db
+      .insert(waitlistEntries)
+      .values({
+        ...entry,
+        notes: data.notes,
+        createdBy: data.createdBy,
+        updatedBy: data.createdBy,
+      })
+      .returning();
+
+    await auditLogService.logCreate('bookings', 'waitlist_entry', created);
+    return this.getEntryById(created.id);
+  }
+
+  async updateEntryStatus(id: string, status: string, updatedBy?: string) {
+    const existing = await this.getEntryById(id);
+    if (!existing) {
+      throw new Error('Waitlist entry not found');
+    }
+
+    const allowed = WAITLIST_TRANSITIONS[existing.status as WaitlistStatus] || [];
+    if (!allowed.includes(status as WaitlistStatus)) {
+      throw new Error(`Cannot move waitlist entry from "${existing.status}" to "${status}"`);
+    }
+
+    const [entry] = await db
+      .update(waitlistEntries)
+      .set({
+        status,
+        // Back to waiting means it can be notified again
+        notifiedAt: status === 'waiting' ? null : existing.notifiedAt,
+        updatedBy,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(waitlistEntries.id, id), eq(waitlistEntries.status, existing.status)))
+      .returning();
+
+    if (!entry) {
+      throw new Error('Cannot update status: waitlist entry was modified by another request. Please retry.');
+    }
+
+    await auditLogService.logUpdate('bookings', 'waitlist_entry', existing, entry);
+    return this.getEntryById(id);
+  }
+
+  async deleteEntry(id: string) {
+    const existing = await this.getEntryById(id);
+    if (!existing) {
+      throw new Error('Waitlist entry not found');
+    }
+
+    const [deleted] = await db.delete(waitlistEntries).where(eq(waitlistEntries.id, id)).returning();
+    if (deleted) {
+      await auditLogService.logDelete('bookings', 'waitlist_entry', deleted);
+    }
+  }
+
+  /**
+   * Called when a booking stops occupying part of a billboard (deleted, cancelled or short-closed).
+   * Returns the IDs of entries that were notified.
+   */
+  async processReleasedRange(billboardId: string, startDate: string, endDate: string) {
+    const candidates = await db
+      .select()
+      .from(waitlistEntries)
+      .where(
+        and(
+          eq(waitlistEntries.billboardId, billboardId),
+          eq(waitlistEntries.status, 'waiting'),
+          lte(waitlistEntries.startDate, endDate),
+          gte(waitlistEntries.endDate, startDate),
+          gte(waitlistEntries.endDate, today())
+        )
+      )
+      .orderBy(waitlistEntries.createdAt);
+
+    return this.notifyAvailable(candidates);
+  }
+
+  /**
+   * Re-check every waiting entry that hasn't ended, for inventory freed some other way (e.g. a hold lapsing)
+   */
+  async processAllWaiting() {
+    const candidates = await db
+      .select()
+      .from(waitlistEntries)
+      .where(and(eq(waitlistEntries.status, 'waiting'), gte(waitlistEntries.endDate, today())))
+      .orderBy(waitlistEntries.createdAt);
+
+    const notified = await this.notifyAvailable(candidates);
+    return { checked: candidates.length, notified };
+  }
+}
+
+export const waitlistService = new WaitlistService();
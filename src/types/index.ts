@@ -64,3 +64,19 @@ export interface FilterParams {
 
 // Query params
 export interface QueryParams extends PaginationParams, Partial<SortParams>, FilterParams {}
+
+// Background jobs
+export interface JobResult {
+  processed: number;
+  failed: number;
+  messages: string[];
+}
+
+export interface JobDefinition {
+  name: string;
+  description: string;
+  // How often the in-process scheduler runs the job
+  intervalMinutes: number;
+  // asOfDate is YYYY-MM-DD; jobs must be idempotent for a given date
+  run(asOfDate: string): Promise<JobResult>;
+}
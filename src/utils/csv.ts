@@ -0,0 +1,21 @@
+export interface CsvColumn<T> {
+  header: string;
+  value: (row: T) => string | number | null | undefined;
+}
+
+const escapeCsvValue = (value: string | number | null | undefined): string => {
+  if (value === null || value === undefined) return '';
+  const str = String(value);
+  if (/[",\r\n]/.test(str)) {
+    return `"${str.replace(/"/g, '""')}"`;
+  }
+  return str;
+};
+
+export const toCsv = <T>(columns: CsvColumn<T>[], rows: T[]): string => {
+  const lines = [
+    columns.map(column => escapeCsvValue(column.header)).join(','),
+    ...rows.map(row => columns.map(column => escapeCsvValue(column.value(row))).join(',')),
+  ];
+  return lines.join('\r\n') + '\r\n';
+};
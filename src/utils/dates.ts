@@ -0,0 +1,34 @@
+// Dates are business days in India. toISOString() gives the UTC date, which lags IST until 05:30.
+export const BUSINESS_TIME_ZONE = 'Asia/Kolkata';
+
+// Today's date in the business time zone (YYYY-MM-DD)
+export const today = (): string => {
+  return new Date().toLocaleDateString('en-CA', { timeZone: BUSINESS_TIME_ZONE });
+};
+
+// Every date from start to end inclusive (YYYY-MM-DD)
+export const eachDate = (startDate: string, endDate: string): string[] => {
+  const dates: string[] = [];
+  const current = new Date(`${startDate}T00:00:00Z`);
+  const end = new Date(`${endDate}T00:00:00Z`);
+  while (current <= end) {
+    dates.push(current.toISOString().split('T')[0]);
+    current.setUTCDate(current.getUTCDate() + 1);
+  }
+  return dates;
+};
+
+export const addDays = (date: string, days: number): string => {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().split('T')[0];
+};
+
+// Same day of month N months on, clamped to the month's last day (Jan 31 + 1 month = Feb 28/29)
+export const addMonths = (date: string, months: number): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  const target = new Date(Date.UTC(year, month - 1 + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return target.toISOString().split('T')[0];
+};
@@ -0,0 +1,20 @@
+interface PostgresError {
+  code?: string;
+  constraint?: string;
+}
+
+// drizzle wraps driver errors in DrizzleQueryError with the Postgres error as `cause`
+const getPostgresError = (error: unknown): PostgresError | undefined => {
+  if (!error || typeof error !== 'object') return undefined;
+  if ('code' in error) return error as PostgresError;
+  if ('cause' in error) return getPostgresError((error as { cause: unknown }).cause);
+  return undefined;
+};
+
+/**
+ * Whether the error is a violation of the named exclusion constraint (SQLSTATE 23P01)
+ */
+export const isExclusionViolation = (error: unknown, constraint: string): boolean => {
+  const pgError = getPostgresError(error);
+  return pgError?.code === '23P01' && pgError.constraint === constraint;
+};
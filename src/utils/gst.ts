@@ -0,0 +1,172 @@
+// GST state codes as used in the first two digits of a GSTIN
+export const GST_STATE_CODES: Record<string, string> = {
+  '01': 'Jammu and Kashmir',
+  '02': 'Himachal Pradesh',
+  '03': 'Punjab',
+  '04': 'Chandigarh',
+  '05': 'Uttarakhand',
+  '06': 'Haryana',
+  '07': 'Delhi',
+  '08': 'Rajasthan',
+  '09': 'Uttar Pradesh',
+  '10': 'Bihar',
+  '11': 'Sikkim',
+  '12': 'Arunachal Pradesh',
+  '13': 'Nagaland',
+  '14': 'Manipur',
+  '15': 'Mizoram',
+  '16': 'Tripura',
+  '17': 'Meghalaya',
+  '18': 'Assam',
+  '19': 'West Bengal',
+  '20': 'Jharkhand',
+  '21': 'Odisha',
+  '22': 'Chhattisgarh',
+  '23': 'Madhya Pradesh',
+  '24': 'Gujarat',
+  '26': 'Dadra and Nagar Haveli and Daman and Diu',
+  '27': 'Maharashtra',
+  '29': 'Karnataka',
+  '30': 'Goa',
+  '31': 'Lakshadweep',
+  '32': 'Kerala',
+  '33': 'Tamil Nadu',
+  '34': 'Puducherry',
+  '35': 'Andaman and Nicobar Islands',
+  '36': 'Telangana',
+  '37': 'Andhra Pradesh',
+  '38': 'Ladakh',
+  '97': 'Other Territory',
+};
+
+export type GstSupplyType = 'intra_state' | 'inter_state';
+
+export interface GstBreakdown {
+  supplyType: GstSupplyType;
+  supplierStateCode: string | null;
+  placeOfSupplyCode: string | null;
+  placeOfSupply: string | null;
+  cgstRate: number;
+  cgstAmount: number;
+  sgstRate: number;
+  sgstAmount: number;
+  igstRate: number;
+  igstAmount: number;
+}
+
+export const getStateCodeFromGstin = (gstin?: string | null): string | null => {
+  if (!gstin) return null;
+  const code = gstin.trim().substring(0, 2);
+  return GST_STATE_CODES[code] ? code : null;
+};
+
+export const getStateName = (stateCode?: string | null): string | null => {
+  if (!stateCode) return null;
+  return GST_STATE_CODES[stateCode] || null;
+};
+
+/**
+ * Split the tax on an invoice into CGST + SGST (same state) or IGST (different states).
+ * When the customer has no GSTIN (unregistered), the supply is treated as intra-state.
+ */
+export const calculateGstBreakdown = (
+  taxAmount: string | number,
+  percentage: string | number,
+  supplierGstin?: string | null,
+  recipientGstin?: string | null
+): GstBreakdown => {
+  const amount = typeof taxAmount === 'string' ? parseFloat(taxAmount) : taxAmount;
+  const rate = typeof percentage === 'string' ? parseFloat(percentage) : percentage;
+
+  const supplierStateCode = getStateCodeFromGstin(supplierGstin);
+  const recipientStateCode = getStateCodeFromGstin(recipientGstin);
+  const placeOfSupplyCode = recipientStateCode || supplierStateCode;
+
+  const isInterState = !!supplierStateCode && !!recipientStateCode && supplierStateCode !== recipientStateCode;
+
+  if (isInterState) {
+    return {
+      supplyType: 'inter_state',
+      supplierStateCode,
+      placeOfSupplyCode,
+      placeOfSupply: getStateName(placeOfSupplyCode),
+      cgstRate: 0,
+      cgstAmount: 0,
+      sgstRate: 0,
+      sgstAmount: 0,
+      igstRate: rate,
+      igstAmount: amount,
+    };
+  }
+
+  // Put any odd paisa from the halving on SGST so the two halves add up to the total
+  const cgstAmount = Math.floor(Math.round(amount * 100) / 2) / 100;
+  const sgstAmount = Math.round((amount - cgstAmount) * 100) / 100;
+
+  return {
+    supplyType: 'intra_state',
+    supplierStateCode,
+    placeOfSupplyCode,
+    placeOfSupply: getStateName(placeOfSupplyCode),
+    cgstRate: rate / 2,
+    cgstAmount,
+    sgstRate: rate / 2,
+    sgstAmount,
+    igstRate: 0,
+    igstAmount: 0,
+  };
+};
+
+const ONES = [
+  '', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine',
+  'Ten', 'Eleven', 'Twelve', 'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen', 'Seventeen', 'Eighteen', 'Nineteen',
+];
+const TENS = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
+
+const twoDigitsToWords = (num: number): string => {
+  if (num < 20) return ONES[num];
+  return [TENS[Math.floor(num / 10)], ONES[num % 10]].filter(Boolean).join(' ');
+};
+
+const threeDigitsToWords = (num: number): string => {
+  const hundreds = Math.floor(num / 100);
+  const rest = num % 100;
+  return [hundreds ? `${ONES[hundreds]} Hundred` : '', rest ? twoDigitsToWords(rest) : '']
+    .filter(Boolean)
+    .join(' ');
+};
+
+// Indian numbering system: crore, lakh, thousand, hundred
+const integerToWords = (num: number): string => {
+  if (num === 0) return 'Zero';
+
+  const parts: string[] = [];
+  const crore = Math.floor(num / 10000000);
+  const lakh = Math.floor((num % 10000000) / 100000);
+  const thousand = Math.floor((num % 100000) / 1000);
+  const remainder = num % 1000;
+
+  if (crore) parts.push(`${integerToWords(crore)} Crore`);
+  if (lakh) parts.push(`${twoDigitsToWords(lakh)} Lakh`);
+  if (thousand) parts.push(`${twoDigitsToWords(thousand)} Thousand`);
+  if (remainder) parts.push(threeDigitsToWords(remainder));
+
+  return parts.join(' ');
+};
+
+/**
+ * Convert an INR amount to words, e.g. 53100.5 -> "Rupees Fifty Three Thousand One Hundred and Fifty Paise Only"
+ */
+export const amountInWords = (value: string | number): string => {
+  const num = typeof value === 'string' ? parseFloat(value) : value;
+  const totalPaise = Math.round(Math.abs(num) * 100);
+  const rupees = Math.floor(totalPaise / 100);
+  const paise = totalPaise % 100;
+
+  let words = `Rupees ${integerToWords(rupees)}`;
+  if (paise) {
+    words += ` and ${twoDigitsToWords(paise)} Paise`;
+  }
+
+  return `${words} Only`;
+};
@@ -0,0 +1,36 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+export interface RequestContext {
+  userId: string;
+  userEmail?: string;
+  isCustomer: boolean;
+  customerId: string | null;
+  ipAddress?: string;
+  userAgent?: string;
+  requestPath?: string;
+  method?: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Run the rest of the request with the authenticated user's context available to services.
+ * Set by the authenticate middleware; jobs and scripts run without a context.
+ */
+export const runWithRequestContext = <T>(context: RequestContext, fn: () => T): T => {
+  return storage.run(context, fn);
+};
+
+export const getRequestContext = (): RequestContext | undefined => {
+  return storage.getStore();
+};
+
+/**
+ * Customer the current user is restricted to (customer portal users), or undefined for staff.
+ * Services apply this to every customer-owned query so scoping can't be bypassed with query params.
+ */
+export const getCustomerScope = (): string | undefined => {
+  const context = storage.getStore();
+  if (!context?.isCustomer) return undefined;
+  return context.customerId ?? undefined;
+};
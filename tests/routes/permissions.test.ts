@@ -0,0 +1,175 @@
+import { jest, describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import express from 'express';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { rolesData, rolePermissionMapping } from '../../src/db/seed-data.js';
+import type { UserWithPermissions } from '../../src/types/index.js';
+
+// The bearer token is the role name; a role outside the seed gets no permissions at all
+const NO_ROLE = 'No Role';
+
+const userFor = (role: string): UserWithPermissions => ({
+  id: '00000000-0000-0000-0000-000000000001',
+  email: 'user@billboard.com',
+  firstName: 'Test',
+  lastName: 'User',
+  phone: null,
+  isActive: true,
+  isCustomer: role === 'Customer',
+  customerId: role === 'Customer' ? '00000000-0000-0000-0000-000000000002' : null,
+  roles: role === NO_ROLE ? [] : [role],
+  permissions: rolePermissionMapping[role] ?? [],
+});
+
+jest.unstable_mockModule('../../src/services/auth.service.js', () => ({
+  authService: {
+    verifyAccessToken: (token: string) => ({ userId: decodeURIComponent(token), email: '', type: 'access' }),
+    getUserWithPermissions: async (role: string) => userFor(role),
+  },
+}));
+
+// Every handler just confirms the request got past the permission check
+const reached = () => new Proxy({}, {
+  get: () => (_req: express.Request, res: express.Response) => {
+    res.json({ reached: true });
+  },
+});
+
+jest.unstable_mockModule('../../src/controllers/booking.controller.js', () => ({ bookingController: reached() }));
+jest.unstable_mockModule('../../src/controllers/campaign.controller.js', () => ({ campaignController: reached() }));
+jest.unstable_mockModule('../../src/controllers/purchase-order.controller.js', () => ({ purchaseOrderController: reached() }));
+jest.unstable_mockModule('../../src/controllers/dashboard.controller.js', () => ({ dashboardController: reached() }));
+
+const ID = '00000000-0000-0000-0000-0000000000aa';
+
+const routes: { method: string; path: string; permission: string }[] = [
+  { method: 'GET', path: '/api/bookings', permission: 'bookings.view' },
+  { method: 'GET', path: '/api/bookings/availability', permission: 'bookings.view' },
+  { method: 'GET', path: '/api/bookings/date-range', permission: 'bookings.view' },
+  { method: 'GET', path: `/api/bookings/calendar/${ID}`, permission: 'bookings.view' },
+  { method: 'GET', path: `/api/bookings/slot-grid/${ID}`, permission: 'bookings.view' },
+  { method: 'GET', path: `/api/bookings/${ID}`, permission: 'bookings.view' },
+  { method: 'GET', path: `/api/bookings/${ID}/history`, permission: 'bookings.view' },
+  { method: 'POST', path: '/api/bookings', permission: 'bookings.create' },
+  { method: 'PUT', path: `/api/bookings/${ID}`, permission: 'bookings.edit' },
+  { method: 'PATCH', path: `/api/bookings/${ID}/status`, permission: 'bookings.edit' },
+  { method: 'POST', path: `/api/bookings/${ID}/short-close`, permission: 'bookings.edit' },
+  { method: 'DELETE', path: `/api/bookings/${ID}`, permission: 'bookings.delete' },
+
+  { method: 'GET', path: '/api/campaigns', permission: 'campaigns.view' },
+  { method: 'GET', path: '/api/campaigns/available-bookings', permission: 'campaigns.view' },
+  { method: 'GET', path: '/api/campaigns/available-billboards', permission: 'campaigns.view' },
+  { method: 'GET', path: `/api/campaigns/${ID}`, permission: 'campaigns.view' },
+  { method: 'POST', path: '/api/campaigns', permission: 'campaigns.create' },
+  { method: 'PUT', path: `/api/campaigns/${ID}`, permission: 'campaigns.edit' },
+  { method: 'POST', path: `/api/campaigns/${ID}/bookings`, permission: 'campaigns.edit' },
+  { method: 'DELETE', path: `/api/campaigns/${ID}/bookings/${ID}`, permission: 'campaigns.edit' },
+  { method: 'DELETE', path: `/api/campaigns/${ID}`, permission: 'campaigns.delete' },
+
+  { method: 'GET', path: '/api/purchase-orders', permission: 'purchase_orders.view' },
+  { method: 'GET', path: '/api/purchase-orders/eligible-bookings', permission: 'purchase_orders.create' },
+  { method: 'GET', path: '/api/purchase-orders/calculate-pro-rata', permission: 'purchase_orders.create' },
+  { method: 'GET', path: `/api/purchase-orders/${ID}/download`, permission: 'purchase_orders.view' },
+  { method: 'GET', path: `/api/purchase-orders/${ID}`, permission: 'purchase_orders.view' },
+  { method: 'POST', path: '/api/purchase-orders', permission: 'purchase_orders.create' },
+  { method: 'PUT', path: `/api/purchase-orders/${ID}`, permission: 'purchase_orders.edit' },
+  { method: 'DELETE', path: `/api/purchase-orders/${ID}`, permission: 'purchase_orders.delete' },
+
+  { method: 'GET', path: '/api/dashboard/stats', permission: 'dashboard.view' },
+  { method: 'GET', path: '/api/dashboard/recent-bookings', permission: 'dashboard.view' },
+  { method: 'GET', path: '/api/dashboard/occupancy', permission: 'dashboard.view' },
+  { method: 'GET', path: '/api/dashboard/revenue-by-month', permission: 'dashboard.view' },
+  { method: 'GET', path: '/api/dashboard/upcoming-bookings', permission: 'dashboard.view' },
+];
+
+const roles = [...rolesData.map(role => role.name), NO_ROLE];
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  const { default: bookingRoutes } = await import('../../src/routes/booking.routes.js');
+  const { default: campaignRoutes } = await import('../../src/routes/campaign.routes.js');
+  const { default: purchaseOrderRoutes } = await import('../../src/routes/purchase-order.routes.js');
+  const { default: dashboardRoutes } = await import('../../src/routes/dashboard.routes.js');
+
+  const app = express();
+  app.use(express.json());
+  app.use('/api/bookings', bookingRoutes);
+  app.use('/api/campaigns', campaignRoutes);
+  app.use('/api/purchase-orders', purchaseOrderRoutes);
+  app.use('/api/dashboard', dashboardRoutes);
+
+  server = app.listen(0);
+  await new Promise(resolve => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+const request = (method: string, path: string, role: string) => {
+  return fetch(`${baseUrl}${path}`, {
+    method,
+    headers: {
+      Authorization: `Bearer ${encodeURIComponent(role)}`,
+      'Content-Type': 'application/json',
+    },
+    body: method === 'GET' || method === 'DELETE' ? undefined : '{}',
+  });
+};
+
+describe('route permissions by seeded role', () => {
+  describe.each(roles)('%s', role => {
+    const granted = rolePermissionMapping[role] ?? [];
+    const cases = routes.map(route => ({
+      ...route,
+      outcome: granted.includes(route.permission) ? 'allows' : 'forbids',
+    }));
+
+    it.each(cases)('$outcome $method $path ($permission)', async ({ method, path, outcome }) => {
+      const res = await request(method, path, role);
+      if (outcome === 'allows') {
+        expect(res.status).toBe(200);
+        expect(await res.json()).toEqual({ reached: true });
+      } else {
+        expect(res.status).toBe(403);
+        expect(await res.json()).toMatchObject({ success: false, message: 'Insufficient permissions' });
+      }
+    });
+  });
+
+  it('covers every route with an allowed and a forbidden role', () => {
+    for (const route of routes) {
+      const allowed = roles.filter(role => (rolePermissionMapping[role] ?? []).includes(route.permission));
+      expect(allowed.length).toBeGreaterThan(0);
+      expect(allowed.length).toBeLessThan(roles.length);
+    }
+  });
+
+  it('keeps the portal role away from booking, campaign and purchase order changes', () => {
+    const customer = rolePermissionMapping['Customer'];
+    expect(customer).toEqual(expect.arrayContaining(['dashboard.view', 'bookings.view']));
+    for (const permission of ['bookings.create', 'bookings.edit', 'bookings.delete', 'campaigns.create', 'campaigns.edit', 'purchase_orders.create', 'purchase_orders.edit']) {
+      expect(customer).not.toContain(permission);
+    }
+  });
+
+  it.each([
+    '/api/campaigns',
+    `/api/campaigns/${ID}`,
+    '/api/purchase-orders',
+    `/api/purchase-orders/${ID}`,
+    `/api/purchase-orders/${ID}/download`,
+  ])('lets the portal role view GET %s', async path => {
+    const res = await request('GET', path, 'Customer');
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ reached: true });
+  });
+
+  it('rejects requests without a token', async () => {
+    const res = await fetch(`${baseUrl}/api/bookings`);
+    expect(res.status).toBe(401);
+  });
+});
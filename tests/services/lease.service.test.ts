@@ -0,0 +1,65 @@
+import { jest, describe, it, expect } from '@jest/globals';
+
+jest.unstable_mockModule('../../src/db/index.js', () => ({ db: {}, sql: {} }));
+
+const { buildRentSchedule } = await import('../../src/services/lease.service.js');
+
+const lease = (overrides: Partial<Parameters<typeof buildRentSchedule>[0]> = {}) => ({
+  startDate: '2026-01-15',
+  endDate: '2026-04-14',
+  rentAmount: '10000.00',
+  paymentFrequency: 'monthly',
+  escalationPercentage: '0',
+  ...overrides,
+});
+
+describe('buildRentSchedule', () => {
+  it('creates one installment per period, due on its first day', () => {
+    expect(buildRentSchedule(lease())).toEqual([
+      { periodStart: '2026-01-15', periodEnd: '2026-02-14', dueDate: '2026-01-15', amount: '10000.00' },
+      { periodStart: '2026-02-15', periodEnd: '2026-03-14', dueDate: '2026-02-15', amount: '10000.00' },
+      { periodStart: '2026-03-15', periodEnd: '2026-04-14', dueDate: '2026-03-15', amount: '10000.00' },
+    ]);
+  });
+
+  it('pro-rates a final short period by days', () => {
+    const schedule = buildRentSchedule(lease({ startDate: '2026-01-01', endDate: '2026-02-14', rentAmount: '2800.00' }));
+
+    // 14 of February's 28 days
+    expect(schedule.map(i => [i.periodEnd, i.amount])).toEqual([
+      ['2026-01-31', '2800.00'],
+      ['2026-02-14', '1400.00'],
+    ]);
+  });
+
+  it('escalates rent from each lease anniversary', () => {
+    const schedule = buildRentSchedule(lease({
+      startDate: '2025-01-01',
+      endDate: '2027-03-31',
+      rentAmount: '30000.00',
+      paymentFrequency: 'quarterly',
+      escalationPercentage: '10',
+    }));
+
+    expect(schedule.map(i => [i.periodStart, i.amount])).toEqual([
+      ['2025-01-01', '30000.00'],
+      ['2025-04-01', '30000.00'],
+      ['2025-07-01', '30000.00'],
+      ['2025-10-01', '30000.00'],
+      ['2026-01-01', '33000.00'],
+      ['2026-04-01', '33000.00'],
+      ['2026-07-01', '33000.00'],
+      ['2026-10-01', '33000.00'],
+      ['2027-01-01', '36300.00'],
+    ]);
+  });
+
+  it('clamps month-end starts to shorter months', () => {
+    const schedule = buildRentSchedule(lease({ startDate: '2026-01-31', endDate: '2026-03-30' }));
+
+    expect(schedule.map(i => [i.periodStart, i.periodEnd])).toEqual([
+      ['2026-01-31', '2026-02-27'],
+      ['2026-02-28', '2026-03-30'],
+    ]);
+  });
+});
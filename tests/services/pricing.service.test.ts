@@ -0,0 +1,100 @@
+import { jest, describe, it, expect, afterEach } from '@jest/globals';
+
+jest.unstable_mockModule('../../src/db/index.js', () => ({ db: {} }));
+
+const { pricingService } = await import('../../src/services/pricing.service.js');
+
+type RateCard = NonNullable<Awaited<ReturnType<typeof pricingService.getApplicableRateCard>>>;
+
+const billboard = { id: 'billboard-1', zoneId: 'zone-1', ratePerDay: '500.00', slotCount: 6 };
+
+const rateCard = (overrides: Partial<RateCard> = {}): RateCard => ({
+  id: 'card-1',
+  name: 'Standard',
+  billboardId: billboard.id,
+  zoneId: null,
+  ratePerDay: '1000.00',
+  minimumDays: null,
+  weekdayMultipliers: null,
+  description: null,
+  isActive: true,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  createdBy: null,
+  updatedBy: null,
+  seasons: [],
+  discountTiers: [],
+  ...overrides,
+});
+
+const useCard = (card: RateCard | null) => {
+  jest.spyOn(pricingService, 'getApplicableRateCard').mockResolvedValue(card);
+};
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('pricingService.calculatePrice', () => {
+  it('charges the billboard rate flat when there is no rate card', async () => {
+    useCard(null);
+    const quote = await pricingService.calculatePrice(billboard, '2026-01-05', '2026-01-09');
+
+    expect(quote.days).toBe(5);
+    expect(quote.baseRatePerDay).toBe(500);
+    expect(quote.totalAmount).toBe(2500);
+  });
+
+  it('applies the season multiplier only on the days inside the season', async () => {
+    useCard(rateCard({
+      seasons: [{ id: 'season-1', rateCardId: 'card-1', name: 'Festive', startDate: '2026-01-08', endDate: '2026-01-31', multiplier: '1.50' }],
+    }));
+    const quote = await pricingService.calculatePrice(billboard, '2026-01-05', '2026-01-09');
+
+    // 3 days at 1000 + 2 festive days at 1500
+    expect(quote.seasons).toEqual([{ name: 'Festive', multiplier: 1.5, days: 2 }]);
+    expect(quote.grossAmount).toBe(6000);
+  });
+
+  it('applies weekday multipliers by day of week', async () => {
+    useCard(rateCard({ weekdayMultipliers: { saturday: 1.2, sunday: 1.2 } }));
+    // 2026-01-09 is a Friday: Fri, Sat, Sun
+    const quote = await pricingService.calculatePrice(billboard, '2026-01-09', '2026-01-11');
+
+    expect(quote.grossAmount).toBe(3400);
+  });
+
+  it('takes the largest discount tier the period qualifies for', async () => {
+    useCard(rateCard({
+      discountTiers: [
+        { id: 'tier-2', rateCardId: 'card-1', minDays: 30, discountPercentage: '15.00' },
+        { id: 'tier-1', rateCardId: 'card-1', minDays: 7, discountPercentage: '5.00' },
+      ],
+    }));
+
+    const week = await pricingService.calculatePrice(billboard, '2026-01-01', '2026-01-07');
+    expect(week.discountPercentage).toBe(5);
+    expect(week.discountAmount).toBe(350);
+    expect(week.totalAmount).toBe(6650);
+
+    const sixDays = await pricingService.calculatePrice(billboard, '2026-01-01', '2026-01-06');
+    expect(sixDays.discountPercentage).toBe(0);
+    expect(sixDays.totalAmount).toBe(6000);
+  });
+
+  it('pro-rates the price by slot share', async () => {
+    useCard(rateCard());
+    const quote = await pricingService.calculatePrice(billboard, '2026-01-01', '2026-01-03', { slotQuantity: 2 });
+
+    expect(quote.slotShare).toBe(0.3333);
+    expect(quote.totalAmount).toBe(1000);
+  });
+
+  it('rejects a period shorter than the minimum only when asked to', async () => {
+    useCard(rateCard({ minimumDays: 7 }));
+
+    await expect(pricingService.calculatePrice(billboard, '2026-01-01', '2026-01-06', { enforceMinimum: true }))
+      .rejects.toThrow('Cannot book for 6 days: the minimum booking period is 7 days');
+    await expect(pricingService.calculatePrice(billboard, '2026-01-01', '2026-01-06')).resolves.toMatchObject({ days: 6 });
+  });
+});
@@ -0,0 +1,81 @@
+import { jest, describe, it, expect } from '@jest/globals';
+
+// Every query chain resolves to the invoice rows below
+let rows: Record<string, unknown>[] = [];
+const chain: unknown = new Proxy(() => chain, {
+  get: (_target, prop) => {
+    if (prop === 'then') {
+      return (resolve: (value: unknown) => unknown) => resolve(rows);
+    }
+    return () => chain;
+  },
+});
+
+jest.unstable_mockModule('../../src/db/index.js', () => ({ db: chain, sql: chain }));
+
+const { reportService } = await import('../../src/services/report.service.js');
+
+const invoice = (invoiceNumber: string, dueDate: string, totalAmount = '1000.00', amountPaid = '0.00') => ({
+  invoiceId: invoiceNumber,
+  invoiceNumber,
+  invoiceDate: '2025-12-01',
+  dueDate,
+  totalAmount,
+  amountPaid,
+  paymentStatus: amountPaid === '0.00' ? 'unpaid' : 'partially_paid',
+  poNumber: 'PO-1',
+  bookingReference: 'BK-1',
+  billboardCode: 'BB-1',
+  customerId: 'customer-1',
+  customerName: 'Acme',
+});
+
+describe('reportService receivables aging', () => {
+  it('puts each invoice in its bucket by days past due, edges included', async () => {
+    rows = [
+      invoice('INV-1', '2026-04-01'),
+      invoice('INV-2', '2026-03-31'),
+      invoice('INV-3', '2026-03-01'),
+      invoice('INV-4', '2026-02-28'),
+      invoice('INV-5', '2026-01-30'),
+      invoice('INV-6', '2026-01-29'),
+      invoice('INV-7', '2025-12-31'),
+      invoice('INV-8', '2025-12-30'),
+    ];
+
+    const lines = await reportService.getReceivablesAgingLines({ asOfDate: '2026-03-31' });
+
+    expect(lines.map(line => [line.invoiceNumber, line.daysPastDue, line.bucket])).toEqual([
+      ['INV-1', -1, 'notDue'],
+      ['INV-2', 0, 'days0To30'],
+      ['INV-3', 30, 'days0To30'],
+      ['INV-4', 31, 'days31To60'],
+      ['INV-5', 60, 'days31To60'],
+      ['INV-6', 61, 'days61To90'],
+      ['INV-7', 90, 'days61To90'],
+      ['INV-8', 91, 'days90Plus'],
+    ]);
+  });
+
+  it('totals the outstanding balance per bucket and customer', async () => {
+    rows = [
+      invoice('INV-1', '2026-04-15', '1000.00'),
+      invoice('INV-2', '2026-03-20', '1180.00', '500.00'),
+      invoice('INV-3', '2025-11-30', '2360.50'),
+    ];
+
+    const aging = await reportService.getReceivablesAging({ asOfDate: '2026-03-31' });
+
+    expect(aging.totals).toEqual({
+      notDue: 1000,
+      days0To30: 680,
+      days31To60: 0,
+      days61To90: 0,
+      days90Plus: 2360.5,
+      totalOutstanding: 4040.5,
+    });
+    expect(aging.customers).toEqual([
+      expect.objectContaining({ customerId: 'customer-1', invoiceCount: 3, totalOutstanding: 4040.5 }),
+    ]);
+  });
+});
@@ -0,0 +1,123 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import type { SQL } from 'drizzle-orm';
+import { roles, permissions, rolePermissions, userRoles } from '../../src/db/schema/index.js';
+
+const ROLE_ID = '00000000-0000-0000-0000-000000000010';
+const EDIT_ID = '00000000-0000-0000-0000-000000000020';
+const VIEW_ID = '00000000-0000-0000-0000-000000000021';
+
+const superAdmin = { id: ROLE_ID, name: 'Super Admin', description: null, isSystem: true, isActive: true };
+const catalog = [
+  { id: EDIT_ID, name: 'roles.edit', module: 'roles', action: 'edit', description: null },
+  { id: VIEW_ID, name: 'roles.view', module: 'roles', action: 'view', description: null },
+];
+
+// In-memory stand-in for the db: awaiting a query runs it on its own, db.batch runs all or nothing
+let granted: { roleId: string; permissionId: string }[] = [];
+let failInsert = false;
+
+type Query = PromiseLike<unknown> & { run: () => unknown };
+
+const dialect = new PgDialect();
+
+// Chained calls are accepted as-is; only the ids bound in .where() are kept to filter the rows
+const query = (run: (ids: unknown[]) => unknown): Query => {
+  let ids: unknown[] = [];
+  const execute = () => run(ids);
+  const builder: Query = new Proxy({} as Query, {
+    get: (_target, prop) => {
+      if (prop === 'run') return execute;
+      if (prop === 'then') {
+        return (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) =>
+          Promise.resolve().then(execute).then(resolve, reject);
+      }
+      if (prop === 'where') {
+        return (condition: SQL) => {
+          ids = dialect.sqlToQuery(condition).params;
+          return builder;
+        };
+      }
+      return () => builder;
+    },
+  });
+  return builder;
+};
+
+const rowsFrom = (table: unknown, ids: unknown[]) => {
+  if (table === roles) return [superAdmin];
+  if (table === permissions) return catalog.filter(p => ids.includes(p.id));
+  if (table === rolePermissions) return granted.map(row => catalog.find(p => p.id === row.permissionId));
+  if (table === userRoles) return [{ count: 0 }];
+  return [];
+};
+
+const db = {
+  select: () => ({ from: (table: unknown) => query(ids => rowsFrom(table, ids)) }),
+  update: () => ({ set: () => query(() => [superAdmin]) }),
+  delete: (table: unknown) => ({
+    where: () => query(() => {
+      if (table === rolePermissions) granted = [];
+    }),
+  }),
+  insert: (table: unknown) => ({
+    values: (rows: { roleId: string; permissionId: string }[]) => query(() => {
+      if (failInsert) throw new Error('insert failed');
+      if (table === rolePermissions) granted.push(...rows);
+    }),
+  }),
+  batch: jest.fn(async (items: Query[]) => {
+    const snapshot = [...granted];
+    try {
+      return items.map(item => item.run());
+    } catch (error) {
+      granted = snapshot;
+      throw error;
+    }
+  }),
+};
+
+jest.unstable_mockModule('../../src/db/index.js', () => ({ db }));
+
+const { roleService } = await import('../../src/services/role.service.js');
+
+const grantedNames = () => granted.map(row => catalog.find(p => p.id === row.permissionId)?.name);
+
+beforeEach(() => {
+  granted = [
+    { roleId: ROLE_ID, permissionId: EDIT_ID },
+    { roleId: ROLE_ID, permissionId: VIEW_ID },
+  ];
+  failInsert = false;
+  db.batch.mockClear();
+});
+
+describe('roleService permission replacement', () => {
+  it('replaces the permissions of a role in one batch', async () => {
+    const role = await roleService.setRolePermissions(ROLE_ID, [EDIT_ID]);
+
+    expect(db.batch).toHaveBeenCalledTimes(1);
+    expect(role?.permissions.map(p => p.name)).toEqual(['roles.edit']);
+  });
+
+  it('keeps the protected permission when the insert fails in setRolePermissions', async () => {
+    failInsert = true;
+
+    await expect(roleService.setRolePermissions(ROLE_ID, [EDIT_ID])).rejects.toThrow('insert failed');
+    expect(grantedNames()).toEqual(['roles.edit', 'roles.view']);
+  });
+
+  it('keeps the protected permission when the insert fails in updateRole', async () => {
+    failInsert = true;
+
+    await expect(roleService.updateRole(ROLE_ID, { permissionIds: [EDIT_ID] })).rejects.toThrow('insert failed');
+    expect(grantedNames()).toEqual(['roles.edit', 'roles.view']);
+  });
+
+  it('refuses to drop the protected permission from a system role before writing anything', async () => {
+    await expect(roleService.updateRole(ROLE_ID, { permissionIds: [VIEW_ID] }))
+      .rejects.toThrow('Cannot remove roles.edit from system role "Super Admin"');
+    expect(db.batch).not.toHaveBeenCalled();
+    expect(grantedNames()).toEqual(['roles.edit', 'roles.view']);
+  });
+});
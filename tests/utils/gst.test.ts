@@ -0,0 +1,55 @@
+import { describe, it, expect } from '@jest/globals';
+import { calculateGstBreakdown, getStateCodeFromGstin } from '../../src/utils/gst.js';
+
+const KARNATAKA = '29AABCU9603R1ZM';
+const KARNATAKA_CUSTOMER = '29AAACR5055K1Z5';
+const MAHARASHTRA_CUSTOMER = '27AAACR5055K1ZB';
+
+describe('calculateGstBreakdown', () => {
+  it('splits tax into CGST and SGST when supplier and customer are in the same state', () => {
+    expect(calculateGstBreakdown('1800.00', '18', KARNATAKA, KARNATAKA_CUSTOMER)).toEqual({
+      supplyType: 'intra_state',
+      supplierStateCode: '29',
+      placeOfSupplyCode: '29',
+      placeOfSupply: 'Karnataka',
+      cgstRate: 9,
+      cgstAmount: 900,
+      sgstRate: 9,
+      sgstAmount: 900,
+      igstRate: 0,
+      igstAmount: 0,
+    });
+  });
+
+  it('charges IGST when the customer is registered in another state', () => {
+    expect(calculateGstBreakdown('1800.00', '18', KARNATAKA, MAHARASHTRA_CUSTOMER)).toMatchObject({
+      supplyType: 'inter_state',
+      placeOfSupplyCode: '27',
+      placeOfSupply: 'Maharashtra',
+      cgstAmount: 0,
+      sgstAmount: 0,
+      igstRate: 18,
+      igstAmount: 1800,
+    });
+  });
+
+  it('treats an unregistered customer as intra-state at the supplier state', () => {
+    expect(calculateGstBreakdown(180, 18, KARNATAKA, null)).toMatchObject({
+      supplyType: 'intra_state',
+      placeOfSupplyCode: '29',
+      cgstAmount: 90,
+      sgstAmount: 90,
+    });
+  });
+
+  it('puts the odd paisa on SGST so the halves add up to the tax', () => {
+    const gst = calculateGstBreakdown('100.01', '18', KARNATAKA, KARNATAKA_CUSTOMER);
+    expect(gst.cgstAmount).toBe(50);
+    expect(gst.sgstAmount).toBe(50.01);
+  });
+
+  it('ignores a GSTIN with an unknown state code', () => {
+    expect(getStateCodeFromGstin('99AAACR5055K1Z5')).toBeNull();
+    expect(calculateGstBreakdown(180, 18, KARNATAKA, '99AAACR5055K1Z5').supplyType).toBe('intra_state');
+  });
+});